@@ -1,6 +1,14 @@
 import { HumanMessage, AIMessage, SystemMessage, BaseMessage, ToolCall, ToolMessage } from '@langchain/core/messages';
 import { AgentState, createAgent, createResponse, updateActivity } from './BaseAgent.js';
 import { BaseAgentResponse, ChatMessage, ToolDefinition } from '../types/index.js';
+import { describeForms, getFormDefinitions, getFormTypes } from '../services/formRegistry.js';
+
+// The formType parameter offers every registered form, so forms declared in forms/ reach the tools as-is
+const formTypeParameter = (description: string) => ({
+  type: 'string',
+  description: `${description} - one of ${describeForms()}`,
+  enum: getFormTypes()
+});
 
 // Tool definitions for Claude function calling
 export const CHAT_TOOLS: ToolDefinition[] = [
@@ -285,17 +293,13 @@ export const CHAT_TOOLS: ToolDefinition[] = [
           group: {
             type: 'string',
             description: 'The checkbox group name',
-            enum: ['entity', 'veteranStatus', 'sex', 'race', 'ethnicity', 'specialOwnershipType', 'businessType', 'wosbMaritalStatus', 'loanProgram']
+            enum: [...new Set(getFormDefinitions().flatMap((form) => Object.keys(form.checkboxGroups || {})))]
           },
           value: {
             type: 'string',
             description: 'The selected value within the group'
           },
-          formType: {
-            type: 'string',
-            description: 'The form type (SBA_1919 or SBA_413)',
-            enum: ['SBA_1919', 'SBA_413']
-          }
+          formType: formTypeParameter('The form type')
         },
         required: ['group', 'value']
       }
@@ -309,11 +313,7 @@ export const CHAT_TOOLS: ToolDefinition[] = [
       parameters: {
         type: 'object',
         properties: {
-          formType: {
-            type: 'string',
-            description: 'The form to open',
-            enum: ['SBA_1919', 'SBA_413']
-          }
+          formType: formTypeParameter('The form to open')
         },
         required: ['formType']
       }
@@ -329,10 +329,10 @@ export const CHAT_TOOLS: ToolDefinition[] = [
         properties: {
           field: { type: 'string', description: 'The field name to highlight' },
           text: { type: 'string', description: 'Optional text to fill in the field' },
-          formType: {
-            type: 'string',
-            description: 'The form type (SBA_1919 or SBA_413)',
-            enum: ['SBA_1919', 'SBA_413']
+          formType: formTypeParameter('The form type'),
+          expectedVersion: {
+            type: 'number',
+            description: 'Optional "Version" from the current [FORM STATE]; the write is refused if the form changed since'
           }
         },
         required: ['field']
@@ -369,16 +369,57 @@ export const CHAT_TOOLS: ToolDefinition[] = [
       parameters: {
         type: 'object',
         properties: {
-          formType: {
-            type: 'string',
-            description: 'The form type (SBA_1919 or SBA_413)',
-            enum: ['SBA_1919', 'SBA_413']
-          }
+          formType: formTypeParameter('The form type')
         },
         required: ['formType']
       }
     }
   },
+  {
+    type: 'function',
+    function: {
+      name: 'addOwner',
+      description: 'Add a business owner to the application. The owner fills the next owner row on Form 1919; owners with 20% or more also get their own Form 413 to fill and sign. Use this whenever the user mentions another owner instead of filling owner row fields one by one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: "The owner's full name" },
+          title: { type: 'string', description: "The owner's title, e.g. CEO or Managing Member" },
+          ownershipPercent: { type: 'string', description: 'Ownership percentage, e.g. "35" or "35%"' },
+          tin: { type: 'string', description: "The owner's SSN or TIN" },
+          homeAddress: { type: 'string', description: "The owner's home address" },
+          email: { type: 'string', description: "The owner's email, for sending them their forms to sign" }
+        },
+        required: ['name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'listOwners',
+      description: 'List the owners on the application with their ownership, whether they need their own Form 413, their signing status, and whose Form 413 is being filled right now',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'switchOwner',
+      description: "Switch Form 413 to another owner's personal financial statement. The current owner's answers are saved first. Call this after finishing one owner's Form 413, or when the user wants to fill in a different owner's.",
+      parameters: {
+        type: 'object',
+        properties: {
+          owner: { type: 'string', description: "The owner's name (as listed by listOwners), owner row number (1-5), or owner ID" }
+        },
+        required: ['owner']
+      }
+    }
+  },
   {
     type: 'function',
     function: {
@@ -954,6 +995,11 @@ If "Other" selected, ask: 10. specOwnTypeOther - "What is the other ownership ty
 40. other1spec - "Specification for other amount one? If not applicable, say skip." (skippable)
 41. other2spec - "Specification for other amount two? If not applicable, say skip." (skippable)
 
+**Owners:**
+- The owner rows (ownName1-5, ownTitle1-5, ownPerc1-5, ownTin1-5, ownHome1-5) come from the application's owners. When the user mentions an owner, ask for their name, title, ownership percentage, SSN and home address, then call addOwner once with everything you have.
+- Ask "Is there anyone else who owns part of the business?" after the first owner, and keep adding owners until the user says no (Form 1919 has room for 5).
+- Everyone owning 20% or more fills and signs their own Form 413. "Form 413 Owner" in [FORM STATE] shows whose statement is open. When one owner's Form 413 is done, call listOwners, then switchOwner to the next owner who needs one and tell the user whose statement you are filling now.
+
 **Form 1919 Completion**
 Agent: "Perfect! We've completed all the fields in form 1919. The form is now filled out with all your information. You can review it on your screen and submit when you're ready. Is there anything you'd like me to change or go back to?"
 
@@ -1035,6 +1081,8 @@ When user says "skip", "next", "pass", or indicates they want to skip the curren
 27. Unpaid Taxes - "Any unpaid taxes?"
 28. Other Liabilities - "Any other liabilities to report?"
 
+⚠️ Total Assets, Total Liabilities and Net Worth are calculated automatically from the lines above. NEVER ask for them or capture them. If a tool result includes warnings (e.g. a mortgage with no real estate), mention them and ask the user to confirm.
+
 **Income:**
 29. Salary - "What's your annual salary?"
 30. Net Investment Income - "What's your net investment income?"
@@ -1130,7 +1178,7 @@ When you call getFilledFields(applicationId), you will receive a JSON object wit
 ⚠️ IMPORTANT: You now have [FORM STATE] context automatically injected in your prompt.
 
 The [FORM STATE] context shows you:
-- Current form (SBA_1919 or SBA_413)
+- Current form (its form type, e.g. SBA_1919)
 - Next field to ask about
 - Missing required fields for each form
 - Form submittability status
@@ -1178,6 +1226,9 @@ For Form 413:
 [CALL TOOL: captureOpenSBAForm("SBA_413")]
 The system will automatically show you the next empty fields to ask about
 
+Any other form the application needs is opened the same way with its form type.
+Available forms: ${describeForms()}
+
 ### Step 6: Completion
 
 Agent: "Perfect! We've completed all the remaining fields. Your form is now fully filled out. You can review it on your screen and submit when you're ready. Is there anything you'd like me to change?"
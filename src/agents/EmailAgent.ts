@@ -157,7 +157,14 @@ export const generateEmailReply = async (
 
     ${replyContext.customInstructions ? `- Additional instructions: ${replyContext.customInstructions}` : ''}`;
 
-    const userPrompt = `Generate a reply to this email:
+    const backgroundSections = [
+      replyContext.applicationContext &&
+        `The sender's SBA loan application(s) - use this to answer status questions directly, never guess beyond it:\n${replyContext.applicationContext}`,
+      replyContext.priorMessages &&
+        `Earlier messages in this conversation:\n${replyContext.priorMessages}`
+    ].filter(Boolean);
+
+    const userPrompt = `${backgroundSections.length > 0 ? `${backgroundSections.join('\n\n')}\n\n` : ''}Generate a reply to this email:
     
     Original Email:
     Subject: ${originalEmail.subject}
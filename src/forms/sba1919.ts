@@ -0,0 +1,266 @@
+import { FormDefinition } from '../services/formRegistry.js';
+
+/**
+ * SBA Form 1919 - Borrower Information Form
+ * Real PDF field names from SBAForm1919.pdf
+ */
+export const SBA_1919_FORM: FormDefinition = {
+  formType: 'SBA_1919',
+  title: 'SBA Form 1919 - Borrower Information Form',
+  label: 'Form 1919',
+  templateFile: 'SBAForm1919.pdf',
+  storagePath: 'sba1919Fields',
+  fields: [
+    // Basic Business Information (Required)
+    { name: 'applicantname', required: true, type: 'text', label: 'Applicant Name' },
+    { name: 'operatingnbusname', required: true, type: 'text', label: 'Operating Business Name' },
+    { name: 'busTIN', required: true, type: 'text', label: 'Business TIN', format: 'ein' },
+    { name: 'busphone', required: true, type: 'text', label: 'Business Phone', format: 'phone' },
+    { name: 'busAddr', required: true, type: 'text', label: 'Business Address' },
+
+    // Basic Business Information (Optional)
+    { name: 'yearbeginoperations', required: false, type: 'text', label: 'Year Begin Operations', format: 'year' },
+    { name: 'OC', required: false, type: 'text', label: 'OC' },
+    { name: 'EPC', required: false, type: 'text', label: 'EPC' },
+    { name: 'dba', required: false, type: 'text', label: 'DBA' },
+    { name: 'PrimarIndustry', required: false, type: 'text', label: 'Primary Industry' },
+    { name: 'UniqueEntityID', required: false, type: 'text', label: 'Unique Entity ID', format: 'uei' },
+    { name: 'projAddr', required: false, type: 'text', label: 'Project Address' },
+    { name: 'pocName', required: false, type: 'text', label: 'POC Name' },
+    { name: 'pocEmail', required: false, type: 'text', label: 'POC Email', format: 'email' },
+
+    // Entity Type Checkboxes
+    { name: 'soleprop', required: false, type: 'checkbox', label: 'Sole Proprietor' },
+    { name: 'partnership', required: false, type: 'checkbox', label: 'Partnership' },
+    { name: 'ccorp', required: false, type: 'checkbox', label: 'C-Corp' },
+    { name: 'scorp', required: false, type: 'checkbox', label: 'S-Corp' },
+    { name: 'llc', required: false, type: 'checkbox', label: 'LLC' },
+    { name: 'etother', required: false, type: 'checkbox', label: 'Entity Other' },
+    { name: 'entityother', required: false, type: 'text', label: 'Entity Other Description' },
+
+    // Special Ownership Type Checkboxes
+    { name: 'ownESOP', required: false, type: 'checkbox', label: 'ESOP' },
+    { name: 'own401k', required: false, type: 'checkbox', label: '401k' },
+    { name: 'ownCooperative', required: false, type: 'checkbox', label: 'Cooperative' },
+    { name: 'ownNATribe', required: false, type: 'checkbox', label: 'Native American Tribe' },
+    { name: 'ownOther', required: false, type: 'checkbox', label: 'Ownership Other' },
+    { name: 'specOwnTypeOther', required: false, type: 'text', label: 'Special Ownership Type Other' },
+
+    // Employment & Financial Info
+    { name: 'existEmp', required: false, type: 'text', label: 'Existing Employees', format: 'integer' },
+    { name: 'fteJobs', required: false, type: 'text', label: 'FTE Jobs', format: 'integer' },
+    { name: 'debtAmt', required: false, type: 'text', label: 'Debt Amount', format: 'currency' },
+    { name: 'purchConstr', required: false, type: 'text', label: 'Purchase/Construction' },
+    { name: 'purchAmt', required: false, type: 'text', label: 'Purchase Amount', format: 'currency' },
+
+    // Owner 1
+    { name: 'ownName1', required: false, type: 'text', label: 'Owner 1 Name' },
+    { name: 'ownTitle1', required: false, type: 'text', label: 'Owner 1 Title' },
+    { name: 'ownPerc1', required: false, type: 'text', label: 'Owner 1 Percentage', format: 'percentage' },
+    { name: 'ownTin1', required: false, type: 'text', label: 'Owner 1 TIN', format: 'ssn' },
+    { name: 'ownHome1', required: false, type: 'text', label: 'Owner 1 Home Address' },
+
+    // Owner 2
+    { name: 'ownName2', required: false, type: 'text', label: 'Owner 2 Name' },
+    { name: 'ownTitle2', required: false, type: 'text', label: 'Owner 2 Title' },
+    { name: 'ownPerc2', required: false, type: 'text', label: 'Owner 2 Percentage', format: 'percentage' },
+    { name: 'ownTin2', required: false, type: 'text', label: 'Owner 2 TIN', format: 'ssn' },
+    { name: 'ownHome2', required: false, type: 'text', label: 'Owner 2 Home Address' },
+
+    // Owner 3
+    { name: 'ownName3', required: false, type: 'text', label: 'Owner 3 Name' },
+    { name: 'ownTitle3', required: false, type: 'text', label: 'Owner 3 Title' },
+    { name: 'ownPerc3', required: false, type: 'text', label: 'Owner 3 Percentage', format: 'percentage' },
+    { name: 'ownTin3', required: false, type: 'text', label: 'Owner 3 TIN', format: 'ssn' },
+    { name: 'ownHome3', required: false, type: 'text', label: 'Owner 3 Home Address' },
+
+    // Owner 4
+    { name: 'ownName4', required: false, type: 'text', label: 'Owner 4 Name' },
+    { name: 'ownTitle4', required: false, type: 'text', label: 'Owner 4 Title' },
+    { name: 'ownPerc4', required: false, type: 'text', label: 'Owner 4 Percentage', format: 'percentage' },
+    { name: 'ownTin4', required: false, type: 'text', label: 'Owner 4 TIN', format: 'ssn' },
+    { name: 'ownHome4', required: false, type: 'text', label: 'Owner 4 Home Address' },
+
+    // Owner 5
+    { name: 'ownName5', required: false, type: 'text', label: 'Owner 5 Name' },
+    { name: 'ownTitle5', required: false, type: 'text', label: 'Owner 5 Title' },
+    { name: 'ownPerc5', required: false, type: 'text', label: 'Owner 5 Percentage', format: 'percentage' },
+    { name: 'ownTin5', required: false, type: 'text', label: 'Owner 5 TIN', format: 'ssn' },
+    { name: 'ownHome5', required: false, type: 'text', label: 'Owner 5 Home Address' },
+    { name: 'ownPos', required: false, type: 'text', label: 'Owner Position' },
+
+    // Veteran Status Checkboxes
+    { name: 'statNonVet', required: false, type: 'checkbox', label: 'Non-Veteran' },
+    { name: 'statVet', required: false, type: 'checkbox', label: 'Veteran' },
+    { name: 'statVetD', required: false, type: 'checkbox', label: 'Veteran with Disability' },
+    { name: 'statVetSp', required: false, type: 'checkbox', label: 'Service-Disabled Veteran' },
+    { name: 'statND', required: false, type: 'checkbox', label: 'Status Not Disclosed' },
+
+    // Gender Checkboxes
+    { name: 'male', required: false, type: 'checkbox', label: 'Male' },
+    { name: 'female', required: false, type: 'checkbox', label: 'Female' },
+
+    // Race Checkboxes
+    { name: 'raceAIAN', required: false, type: 'checkbox', label: 'American Indian or Alaska Native' },
+    { name: 'raceAsian', required: false, type: 'checkbox', label: 'Asian' },
+    { name: 'raceBAA', required: false, type: 'checkbox', label: 'Black or African American' },
+    { name: 'raceNHPI', required: false, type: 'checkbox', label: 'Native Hawaiian or Pacific Islander' },
+    { name: 'raceWhite', required: false, type: 'checkbox', label: 'White' },
+    { name: 'raceND', required: false, type: 'checkbox', label: 'Race Not Disclosed' },
+
+    // Ethnicity Checkboxes
+    { name: 'ethHisp', required: false, type: 'checkbox', label: 'Hispanic or Latino' },
+    { name: 'ethNot', required: false, type: 'checkbox', label: 'Not Hispanic or Latino' },
+    { name: 'ethND', required: false, type: 'checkbox', label: 'Ethnicity Not Disclosed' },
+
+    // Questions (Yes/No Checkboxes)
+    { name: 'q1Yes', required: false, type: 'checkbox', label: 'Question 1 Yes' },
+    { name: 'q1No', required: false, type: 'checkbox', label: 'Question 1 No' },
+    { name: 'q2Yes', required: false, type: 'checkbox', label: 'Question 2 Yes' },
+    { name: 'q2No', required: false, type: 'checkbox', label: 'Question 2 No' },
+    { name: 'q3Yes', required: false, type: 'checkbox', label: 'Question 3 Yes' },
+    { name: 'q3No', required: false, type: 'checkbox', label: 'Question 3 No' },
+    { name: 'q4Yes', required: false, type: 'checkbox', label: 'Question 4 Yes' },
+    { name: 'q4No', required: false, type: 'checkbox', label: 'Question 4 No' },
+    { name: 'q5Yes', required: false, type: 'checkbox', label: 'Question 5 Yes' },
+    { name: 'q5No', required: false, type: 'checkbox', label: 'Question 5 No' },
+    { name: 'q6Yes', required: false, type: 'checkbox', label: 'Question 6 Yes' },
+    { name: 'q6No', required: false, type: 'checkbox', label: 'Question 6 No' },
+    { name: 'q7Yes', required: false, type: 'checkbox', label: 'Question 7 Yes' },
+    { name: 'q7No', required: false, type: 'checkbox', label: 'Question 7 No' },
+    { name: 'q8Yes', required: false, type: 'checkbox', label: 'Question 8 Yes' },
+    { name: 'q8No', required: false, type: 'checkbox', label: 'Question 8 No' },
+    { name: 'q9Yes', required: false, type: 'checkbox', label: 'Question 9 Yes' },
+    { name: 'q9No', required: false, type: 'checkbox', label: 'Question 9 No' },
+    { name: 'q10Yes', required: false, type: 'checkbox', label: 'Question 10 Yes' },
+    { name: 'q10No', required: false, type: 'checkbox', label: 'Question 10 No' },
+
+    // Purpose/Use of Proceeds
+    { name: 'EquipAmt', required: false, type: 'text', label: 'Equipment Amount', format: 'currency' },
+    { name: 'purpEquip', required: false, type: 'text', label: 'Purpose Equipment' },
+    { name: 'workCap', required: false, type: 'text', label: 'Working Capital', format: 'currency' },
+    { name: 'busAcq', required: false, type: 'text', label: 'Business Acquisition', format: 'currency' },
+    { name: 'purpOther1', required: false, type: 'text', label: 'Purpose Other 1' },
+    { name: 'purpOther2', required: false, type: 'text', label: 'Purpose Other 2' },
+    { name: 'purpInv', required: false, type: 'text', label: 'Purpose Inventory', format: 'currency' },
+    { name: 'debtRef', required: false, type: 'text', label: 'Debt Refinance', format: 'currency' }
+  ],
+  // Maps user-friendly values to PDF checkbox field names
+  checkboxGroups: {
+    entity: {
+      description: "Type of business entity",
+      options: {
+        "LLC": "llc",
+        "C-Corp": "ccorp",
+        "S-Corp": "scorp",
+        "Partnership": "partnership",
+        "Sole Proprietor": "soleprop",
+        "Other": "etother"
+      },
+      exclusive: true
+    },
+    specialOwnershipType: {
+      description: "Special ownership type (multiple checkboxes can be selected)",
+      options: {
+        "ESOP": "ownESOP",
+        "401k": "own401k",
+        "Cooperative": "ownCooperative",
+        "Native American Tribe": "ownNATribe",
+        "Other": "ownOther"
+      }
+      // Not exclusive
+    },
+    veteranStatus: {
+      description: "Veteran status",
+      options: {
+        "Non-Veteran": "statNonVet",
+        "Veteran": "statVet",
+        "Service-Disabled Veteran": "statVetSp",
+        "Veteran with Disability": "statVetD",
+        "Not Disclosed": "statND"
+      },
+      exclusive: true
+    },
+    sex: {
+      description: "Sex",
+      options: {
+        "Male": "male",
+        "Female": "female"
+      },
+      exclusive: true
+    },
+    race: {
+      description: "Race",
+      options: {
+        "American Indian or Alaska Native": "raceAIAN",
+        "Asian": "raceAsian",
+        "Black or African American": "raceBAA",
+        "Native Hawaiian or Other Pacific Islander": "raceNHPI",
+        "White": "raceWhite",
+        "Not Disclosed": "raceND"
+      },
+      exclusive: true
+    },
+    ethnicity: {
+      description: "Ethnicity",
+      options: {
+        "Hispanic or Latino": "ethHisp",
+        "Not Hispanic or Latino": "ethNot",
+        "Not Disclosed": "ethND"
+      },
+      exclusive: true
+    }
+  },
+  unifiedFields: {
+    applicantName: 'applicantname',
+    businessName: 'operatingnbusname',
+    businessPhone: 'busphone',
+    businessAddress: 'busAddr',
+    homeAddress: 'ownHome1',
+    ownerSSN: 'ownTin1',
+    printName: 'ownName1'
+  },
+  entityTypes: {
+    'Sole Proprietor': 'soleprop',
+    'Partnership': 'partnership',
+    'C-Corp': 'ccorp',
+    'S-Corp': 'scorp',
+    'LLC': 'llc'
+  },
+  pdfMapping: {
+    // The form's field names are the template's
+    formFields: { source: 'sba1919Fields' },
+    lists: [
+      {
+        source: 'owners',
+        rows: 5,
+        fields: [
+          { pdfField: 'ownName{n}', source: 'name' },
+          { pdfField: 'ownTitle{n}', source: 'title' },
+          { pdfField: 'ownPerc{n}', source: 'ownershipPercent', format: 'percentage' },
+          { pdfField: 'ownTin{n}', source: 'tin' },
+          { pdfField: 'ownHome{n}', source: 'homeAddress' }
+        ]
+      }
+    ],
+    // Until the form is filled in, the application's answers fill the business lines
+    fields: [
+      { pdfField: 'applicantname', source: 'applicantData.name' },
+      { pdfField: 'operatingnbusname', source: 'applicantData.businessName' },
+      { pdfField: 'busphone', source: 'applicantData.businessPhoneNumber', format: 'phone' },
+      { pdfField: 'yearbeginoperations', source: 'applicantData.yearFounded', format: 'year' }
+    ],
+    checkboxGroups: [
+      { group: 'entity', source: 'applicantData.checkbox_entity', values: { 'Corporation': 'C-Corp' } },
+      { group: 'specialOwnershipType', source: 'applicantData.checkbox_specialOwnershipType' },
+      { group: 'veteranStatus', source: 'applicantData.checkbox_veteranStatus' },
+      { group: 'sex', source: 'applicantData.checkbox_sex' },
+      { group: 'race', source: 'applicantData.checkbox_race' },
+      { group: 'ethnicity', source: 'applicantData.checkbox_ethnicity' }
+    ]
+  },
+  // The authorized representative's signature line - question 4's initials box (q4Init) isn't signed here
+  signatureFields: [
+    { pdfField: 'repSig', dateField: 'sigDate' }
+  ]
+};
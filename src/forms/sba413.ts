@@ -0,0 +1,231 @@
+import { FormDefinition } from '../services/formRegistry.js';
+
+/**
+ * SBA Form 413 - Personal Financial Statement
+ * Field names match Sba413FieldsSchema in Application.ts; the PDF's own field names are the labels
+ * printed on the form, which is why the checkbox groups point at those
+ */
+export const SBA_413_FORM: FormDefinition = {
+  formType: 'SBA_413',
+  title: 'SBA Form 413 - Personal Financial Statement',
+  label: 'Form 413',
+  templateFile: 'SBAForm413.pdf',
+  storagePath: 'sba413Fields',
+  fields: [
+    // Program Selection (checkboxes)
+    { name: 'disasterBusinessLoanApplication', required: false, type: 'checkbox', label: 'Disaster Business Loan' },
+    { name: 'womenOwnedSmallBusiness', required: false, type: 'checkbox', label: 'WOSB' },
+    { name: 'businessDevelopmentProgram8a', required: false, type: 'checkbox', label: '8(a) Program' },
+    { name: 'loan7aOr504OrSuretyBonds', required: false, type: 'checkbox', label: '7(a)/504/Surety' },
+
+    // Personal Information
+    { name: 'name', required: true, type: 'text', label: 'Name' },
+    { name: 'businessPhone', required: false, type: 'text', label: 'Business Phone', format: 'phone' },
+    { name: 'homeAddress', required: false, type: 'text', label: 'Home Address' },
+    { name: 'homePhone', required: false, type: 'text', label: 'Home Phone', format: 'phone' },
+    { name: 'cityStateZipCode', required: false, type: 'text', label: 'City, State, ZIP' },
+    { name: 'businessNameOfApplicantBorrower', required: true, type: 'text', label: 'Business Name' },
+    { name: 'businessAddress', required: false, type: 'text', label: 'Business Address' },
+
+    // Business Type (checkboxes)
+    { name: 'businessTypeCorporation', required: false, type: 'checkbox', label: 'Corporation' },
+    { name: 'businessTypeSCorp', required: false, type: 'checkbox', label: 'S-Corp' },
+    { name: 'businessTypeLLC', required: false, type: 'checkbox', label: 'LLC' },
+    { name: 'businessTypePartnership', required: false, type: 'checkbox', label: 'Partnership' },
+    { name: 'businessTypeSoleProprietor', required: false, type: 'checkbox', label: 'Sole Proprietor' },
+
+    // Date and Marital Status
+    { name: 'informationCurrentAsOf', required: false, type: 'text', label: 'Information Current As Of', format: 'date' },
+    { name: 'wosbApplicantMarriedYes', required: false, type: 'checkbox', label: 'WOSB Married Yes' },
+    { name: 'wosbApplicantMarriedNo', required: false, type: 'checkbox', label: 'WOSB Married No' },
+
+    // Assets
+    { name: 'cashOnHandAndInBanks', required: false, type: 'text', label: 'Cash on Hand', format: 'currency' },
+    { name: 'savingsAccounts', required: false, type: 'text', label: 'Savings Accounts', format: 'currency' },
+    { name: 'iraOrOtherRetirementAccount', required: false, type: 'text', label: 'IRA/Retirement', format: 'currency' },
+    { name: 'accountsAndNotesReceivable', required: false, type: 'text', label: 'Accounts Receivable', format: 'currency' },
+    { name: 'lifeInsuranceCashSurrenderValueOnly', required: false, type: 'text', label: 'Life Insurance CSV', format: 'currency' },
+    { name: 'stocksAndBonds', required: false, type: 'text', label: 'Stocks and Bonds', format: 'currency' },
+    { name: 'realEstate', required: false, type: 'text', label: 'Real Estate', format: 'currency' },
+    { name: 'automobiles', required: false, type: 'text', label: 'Automobiles', format: 'currency' },
+    { name: 'otherPersonalProperty', required: false, type: 'text', label: 'Other Personal Property', format: 'currency' },
+    { name: 'otherAssets', required: false, type: 'text', label: 'Other Assets', format: 'currency' },
+    { name: 'totalAssets', required: false, type: 'text', label: 'Total Assets', format: 'currency', computed: true },
+
+    // Liabilities
+    { name: 'accountsPayable', required: false, type: 'text', label: 'Accounts Payable', format: 'currency' },
+    { name: 'notesPayableToBanksAndOthers', required: false, type: 'text', label: 'Notes Payable', format: 'currency' },
+    { name: 'installmentAccountAuto', required: false, type: 'text', label: 'Auto Installment', format: 'currency' },
+    { name: 'installmentAccountMonthlyPaymentsAuto', required: false, type: 'text', label: 'Auto Monthly Payment', format: 'currency' },
+    { name: 'installmentAccountOther', required: false, type: 'text', label: 'Other Installment', format: 'currency' },
+    { name: 'installmentAccountMonthlyPaymentsOther', required: false, type: 'text', label: 'Other Monthly Payment', format: 'currency' },
+    { name: 'loansAgainstLifeInsurance', required: false, type: 'text', label: 'Loans Against Life Insurance', format: 'currency' },
+    { name: 'mortgagesOnRealEstate', required: false, type: 'text', label: 'Mortgages', format: 'currency' },
+    { name: 'unpaidTaxes', required: false, type: 'text', label: 'Unpaid Taxes', format: 'currency' },
+    { name: 'otherLiabilities', required: false, type: 'text', label: 'Other Liabilities', format: 'currency' },
+    { name: 'totalLiabilities', required: false, type: 'text', label: 'Total Liabilities', format: 'currency', computed: true },
+    { name: 'netWorth', required: false, type: 'text', label: 'Net Worth', format: 'currency', computed: true },
+
+    // Income
+    { name: 'salary', required: false, type: 'text', label: 'Salary', format: 'currency' },
+    { name: 'netInvestmentIncome', required: false, type: 'text', label: 'Net Investment Income', format: 'currency' },
+    { name: 'realEstateIncome', required: false, type: 'text', label: 'Real Estate Income', format: 'currency' },
+    { name: 'otherIncome', required: false, type: 'text', label: 'Other Income', format: 'currency' },
+
+    // Contingent Liabilities
+    { name: 'asEndorserOrCoMaker', required: false, type: 'text', label: 'As Endorser/Co-Maker', format: 'currency' },
+    { name: 'legalClaimsAndJudgements', required: false, type: 'text', label: 'Legal Claims', format: 'currency' },
+    { name: 'provisionForFederalIncomeTax', required: false, type: 'text', label: 'Federal Tax Provision', format: 'currency' },
+    { name: 'otherSpecialDebt', required: false, type: 'text', label: 'Other Special Debt', format: 'currency' },
+
+    // Sections
+    { name: 'descriptionOfOtherIncomeRow1', required: false, type: 'text', label: 'Other Income Description' },
+    { name: 'section5OtherPersonalPropertyAndAssets', required: false, type: 'text', label: 'Section 5' },
+    { name: 'section6UnpaidTaxes', required: false, type: 'text', label: 'Section 6' },
+    { name: 'section7OtherLiabilities', required: false, type: 'text', label: 'Section 7' },
+    { name: 'section8LifeInsuranceHeld', required: false, type: 'text', label: 'Section 8' },
+
+    // Signatures
+    { name: 'signature', required: false, type: 'text', label: 'Signature' },
+    { name: 'date', required: false, type: 'text', label: 'Date', format: 'date' },
+    { name: 'printName', required: false, type: 'text', label: 'Print Name' },
+    { name: 'socialSecurityNo', required: false, type: 'text', label: 'SSN', format: 'ssn' },
+    { name: 'signature2', required: false, type: 'text', label: 'Signature 2' },
+    { name: 'date2', required: false, type: 'text', label: 'Date 2', format: 'date' },
+    { name: 'printName2', required: false, type: 'text', label: 'Print Name 2' },
+    { name: 'socialSecurityNo2', required: false, type: 'text', label: 'SSN 2', format: 'ssn' }
+  ],
+  checkboxGroups: {
+    loanProgram: {
+      description: "SBA Loan Program Type (multiple can be selected)",
+      options: {
+        "Disaster Business Loan Application (Excluding Sole Proprietorships)": "Disaster Business Loan Appliction (Excluding Sole Proprietorships)",
+        "Women Owned Small Business (WOSB) Federal Contracting Program": "Women Owned Small Business (WOSB) Federal Contracting Program",
+        "8(a) Business Development Program": "8(a) Business Development Program",
+        "7(a) loan/04 loan/Surety Bonds": "7(a) loan/04 loan/Surety Bonds"
+      }
+      // Not exclusive - multiple programs can be selected
+    },
+    businessType: {
+      description: "Type of business entity",
+      options: {
+        "Corporation": "Business Type: Corporation",
+        "S-Corp": "Business Type: S-Corp",
+        "LLC": "Business Type: LLC",
+        "Partnership": "Business Type: Partnership",
+        "Sole Proprietor": "Business Type: Sole Proprietor"
+      },
+      exclusive: true
+    },
+    wosbMaritalStatus: {
+      description: "WOSB Applicant Marital Status",
+      options: {
+        "Married": "WOSB Applicant Married Yes",
+        "Not Married": "WOSB Applicant Married No"
+      },
+      exclusive: true
+    }
+  },
+  unifiedFields: {
+    applicantName: 'name',
+    businessName: 'businessNameOfApplicantBorrower',
+    businessPhone: 'businessPhone',
+    businessAddress: 'businessAddress',
+    homeAddress: 'homeAddress',
+    ownerSSN: 'socialSecurityNo',
+    printName: 'printName',
+    signatureDate: 'date'
+  },
+  entityTypes: {
+    'Sole Proprietor': 'businessTypeSoleProprietor',
+    'Partnership': 'businessTypePartnership',
+    'C-Corp': 'businessTypeCorporation',
+    'S-Corp': 'businessTypeSCorp',
+    'LLC': 'businessTypeLLC'
+  },
+  pdfMapping: {
+    formFields: {
+      source: 'sba413Fields',
+      pdfFields: {
+        disasterBusinessLoanApplication: 'Disaster Business Loan Appliction (Excluding Sole Proprietorships)',
+        womenOwnedSmallBusiness: 'Women Owned Small Business (WOSB) Federal Contracting Program',
+        businessDevelopmentProgram8a: '8(a) Business Development Program',
+        loan7aOr504OrSuretyBonds: '7(a) loan/04 loan/Surety Bonds',
+        name: 'Name',
+        businessPhone: 'Business Phone xxx-xxx-xxxx',
+        homeAddress: 'Home Address',
+        homePhone: 'Home Phone xxx-xxx-xxxx',
+        cityStateZipCode: 'City, State, & Zip Code',
+        businessNameOfApplicantBorrower: 'Business Name of Applicant/Borrower',
+        businessAddress: 'Business Address (if different than home address)',
+        businessTypeCorporation: 'Business Type: Corporation',
+        businessTypeSCorp: 'Business Type: S-Corp',
+        businessTypeLLC: 'Business Type: LLC',
+        businessTypePartnership: 'Business Type: Partnership',
+        businessTypeSoleProprietor: 'Business Type: Sole Proprietor',
+        informationCurrentAsOf: 'This information is current as of month/day/year',
+        wosbApplicantMarriedYes: 'WOSB Applicant Married Yes',
+        wosbApplicantMarriedNo: 'WOSB Applicant Married No',
+        cashOnHandAndInBanks: 'Cash on Hand & in banks',
+        savingsAccounts: 'Savings Accounts',
+        iraOrOtherRetirementAccount: 'IRA or Other Retirement Account',
+        accountsAndNotesReceivable: 'Accounts and Notes Receivable',
+        lifeInsuranceCashSurrenderValueOnly: 'Life Insurance - Cash Surrender Value Only',
+        stocksAndBonds: 'Stocks and Bonds',
+        realEstate: 'Real Estate',
+        automobiles: 'Automobiles',
+        otherPersonalProperty: 'Other Personal Property',
+        otherAssets: 'Other Assets',
+        totalAssets: 'TotalAssets',
+        accountsPayable: 'Accounts Payable',
+        notesPayableToBanksAndOthers: 'Notes Payable to Banks and Others',
+        installmentAccountAuto: 'Installment Account (Auto)',
+        installmentAccountMonthlyPaymentsAuto: 'Installment Account - Monthly Payments (Auto)',
+        installmentAccountOther: 'Installment Account (Other)',
+        installmentAccountMonthlyPaymentsOther: 'Installment Account - Monthly Payments (Other)',
+        loansAgainstLifeInsurance: 'Loan(s) Against Life Insurance',
+        mortgagesOnRealEstate: 'Mortgages on Real Estate',
+        unpaidTaxes: 'Unpaid Taxes',
+        otherLiabilities: 'Other Liabilities',
+        totalLiabilities: 'TotalLiabilities',
+        netWorth: 'Net Worth',
+        salary: 'Salary',
+        netInvestmentIncome: 'Net Investment Income',
+        realEstateIncome: 'Real Estate Income',
+        otherIncome: 'Other Income',
+        asEndorserOrCoMaker: 'As Endorser or Co-Maker',
+        legalClaimsAndJudgements: 'Legal Claims and Judgements',
+        provisionForFederalIncomeTax: 'Provision for Federal Income Tax',
+        otherSpecialDebt: 'Other Special Debt',
+        descriptionOfOtherIncomeRow1: 'Description of Other Income in Section 1: Alimony or child support payments should not be disclosed in Other Income unless it is desired to have such payments counted toward total incomeRow1',
+        section5OtherPersonalPropertyAndAssets: 'Section 5  Other Personal Property and Other Assets: Describe and if any is pledged as security state name and address of lien holder amount of lien terms of payment and if delinquent describe delinquencyRow1',
+        section6UnpaidTaxes: 'Section 6 Unpaid Taxes Describe in detail as to type to whom payable when due amount and to what property if any a tax lien attachesRow1',
+        section7OtherLiabilities: 'Section 7 Other Liabilities Describe in detailRow1',
+        section8LifeInsuranceHeld: 'Section 8 Life Insurance Held Give face amount and cash surrender value of policies  name of insurance company and BeneficiariesRow1',
+        date: 'Date',
+        printName: 'Print Name',
+        socialSecurityNo: 'Social Security No',
+        date2: 'Date2',
+        printName2: 'Print Name_2',
+        socialSecurityNo2: 'Social Security No_2'
+      },
+      // Signature widgets are filled by the signing flow, not as text
+      omit: ['signature', 'signature2']
+    },
+    // Until the owner's statement is taken, the application's answers fill the business lines
+    fields: [
+      { pdfField: 'Name', source: 'applicantData.name' },
+      { pdfField: 'Business Name of Applicant/Borrower', source: 'applicantData.businessName' },
+      { pdfField: 'Business Phone xxx-xxx-xxxx', source: 'applicantData.businessPhoneNumber', format: 'phone' }
+    ],
+    checkboxGroups: [
+      { group: 'loanProgram', source: 'applicantData.checkbox_loanProgram' },
+      { group: 'businessType', source: 'applicantData.checkbox_businessType', values: { 'C-Corp': 'Corporation' } },
+      { group: 'wosbMaritalStatus', source: 'applicantData.checkbox_wosbMaritalStatus' }
+    ]
+  },
+  // The owner signs the first line; the second is for a co-signer such as a spouse and is left blank
+  signatureFields: [
+    { pdfField: 'Signature', dateField: 'Date' }
+  ]
+};
@@ -12,14 +12,27 @@ import emailRouter from './routes/emails.js';
 import applicationsRouter from './routes/applications.js';
 import bankRouter from './routes/banks.js';
 import chatboxRouter from './routes/chatbox.js';
-import pollEmails from './services/poller.js';
+import underwritingRouter from './routes/underwriting.js';
+import templatesRouter from './routes/templates.js';
+import signingRouter from './routes/signing.js';
+import bankPortalRouter from './routes/bankPortal.js';
+import { startMailboxListener } from './services/mailboxListener.js';
+import { startOutboundEmailQueue } from './services/outboundEmailQueue.js';
+import { startFormSessionSweeper } from './services/FormStateService.js';
+import processSubmissionWaves from './services/submissionScheduler.js';
 import mongoose from 'mongoose';
 import websocketService from './services/websocket.js';
 import { VapiClient } from "@vapi-ai/server-sdk"
 import { Application } from './models/Application.js';
 import { downloadDocument } from './services/s3Service.js';
-import { extractFormFieldValues, CHECKBOX_GROUPS, getGroupCheckboxes, CHECKBOX_GROUPS_413, getGroupCheckboxes413 } from './services/pdfFormProcessor.js';
+import { extractFormFieldValues, getCheckboxGroups, getGroupCheckboxes } from './services/pdfFormProcessor.js';
+import { getFieldNamesForForm } from './services/formFields.js';
+import { getFormLabel, getFormTypes, isRegisteredForm } from './services/formRegistry.js';
+import { normalizeFieldValue } from './services/fieldValidation.js';
+import { addOwner, listOwners, switchOwner } from './services/ownerService.js';
+import { ApplicationOwnerInput, FormType } from './types/index.js';
 import { requireAuth } from './middleware/auth.js';
+import { requireBankAuth } from './middleware/bankAuth.js';
 import { verifyVapiWebhook } from './middleware/vapiAuth.js';
 
 
@@ -53,6 +66,8 @@ app.use(cors({
     }
   }
 }));
+// Signing webhooks are verified against the body exactly as sent, so it must reach them unparsed
+app.use('/api/signing/webhooks', express.raw({ type: '*/*', limit: '10mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -69,7 +84,10 @@ mongoose.connect(MONGODB_URI)
     process.exit(1);
   });
   
-pollEmails(); // Start the email polling service
+startMailboxListener(); // Process inbound mail as it arrives (IMAP IDLE)
+processSubmissionWaves(); // Send staged bank submission waves once their cooldown passes
+startOutboundEmailQueue(); // Retry outgoing mail that didn't go out on the first attempt
+startFormSessionSweeper(); // Save and end form sessions nobody is working on any more
 
 const vapi = new VapiClient({
   token: process.env.VAPI_API_KEY!
@@ -886,12 +904,22 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
               const { field, text, formType } = functionArgs as {
                 field?: string;
                 text?: string;
-                formType?: 'SBA_1919' | 'SBA_413'
+                formType?: FormType
               };
 
               // Default to SBA_1919 if not specified
               const activeFormType = formType || 'SBA_1919';
-              const formLabel = activeFormType === 'SBA_413' ? '[Form 413]' : '[Form 1919]';
+              const formLabel = `[${getFormLabel(activeFormType)}]`;
+
+              if (!isRegisteredForm(activeFormType)) {
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({
+                    success: false,
+                    error: `Unknown form: ${activeFormType}. Available forms: ${getFormTypes().join(', ')}`
+                  })
+                };
+              }
 
               if (!field) {
                 return {
@@ -903,23 +931,35 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
                 };
               }
 
+              // Refuse malformed values so the assistant can read the problem back and ask again
+              const checked = text ? normalizeFieldValue(activeFormType, field, text) : null;
+              if (checked?.error) {
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({
+                    success: false,
+                    error: checked.error.message,
+                    errors: [checked.error]
+                  })
+                };
+              }
+              const fieldText = checked ? checked.value as string : text;
+
               // Select appropriate field order based on form type
-              const fieldOrder = activeFormType === 'SBA_413' ? FORM_413_FIELD_ORDER : FORM_FIELD_ORDER;
-              const emptyFieldsKey = activeFormType === 'SBA_413' ? 'emptyFields413' : 'emptyFields';
-              const filledFieldsKey = activeFormType === 'SBA_413' ? 'filledFieldsThisSession413' : 'filledFieldsThisSession';
-              const documentFileType = activeFormType === 'SBA_413' ? 'SBA_413' : 'SBA_1919';
+              const { fieldOrder, emptyFieldsKey, filledFieldsKey } = getVoiceFieldTracking(activeFormType);
+              const documentFileType = activeFormType;
 
               // Broadcast highlight event for current field
               websocketService.broadcast('highlight-fields', {
                 callId: callId,
                 timestamp: new Date().toISOString(),
                 field,
-                text,
+                text: fieldText,
                 formType: activeFormType,
                 source: 'vapi-tool-call'
               }, rooms);
 
-              console.log(`✨ ${formLabel} Highlighted field: ${field} with text: "${text || 'none'}" for call ${callId}`);
+              console.log(`✨ ${formLabel} Highlighted field: ${field} with text: "${fieldText || 'none'}" for call ${callId}`);
 
               // Auto-highlight next field if we filled a field (text provided)
               if (text) {
@@ -1003,12 +1043,22 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
               let { group, value, formType } = functionArgs as {
                 group?: string;
                 value?: string;
-                formType?: 'SBA_1919' | 'SBA_413'
+                formType?: FormType
               };
 
               // Default to SBA_1919 if not specified
               const activeFormType = formType || 'SBA_1919';
-              const formLabel = activeFormType === 'SBA_413' ? '[Form 413]' : '[Form 1919]';
+              const formLabel = `[${getFormLabel(activeFormType)}]`;
+
+              if (!isRegisteredForm(activeFormType)) {
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({
+                    success: false,
+                    error: `Unknown form: ${activeFormType}. Available forms: ${getFormTypes().join(', ')}`
+                  })
+                };
+              }
 
               console.log(`${formLabel} Checkbox capture args (raw):`, { group, value });
 
@@ -1030,11 +1080,10 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
                 };
               }
 
-              // Select appropriate checkbox groups based on form type
-              const checkboxGroups = activeFormType === 'SBA_413' ? CHECKBOX_GROUPS_413 : CHECKBOX_GROUPS;
-              const getCheckboxesFn = activeFormType === 'SBA_413' ? getGroupCheckboxes413 : getGroupCheckboxes;
+              // Each form declares its own checkbox groups
+              const checkboxGroups = getCheckboxGroups(activeFormType);
 
-              // Validate group exists in CHECKBOX_GROUPS
+              // Validate group exists in the form's checkbox groups
               const groupConfig = checkboxGroups[group];
               if (!groupConfig) {
                 console.log(`⚠️ ${formLabel} Unknown checkbox group: ${group}`);
@@ -1071,7 +1120,7 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
               // Get all checkboxes in group for exclusive groups
               let groupCheckboxes: string[] | undefined = undefined;
               if (groupConfig.exclusive) {
-                groupCheckboxes = getCheckboxesFn(group);
+                groupCheckboxes = getGroupCheckboxes(group, activeFormType);
                 console.log(`📋 ${formLabel} Exclusive group - all checkboxes:`, groupCheckboxes);
               }
 
@@ -1102,6 +1151,64 @@ app.post('/vapi-ai', verifyVapiWebhook, async (req, res) => {
               };
             }
 
+            case 'addOwner':
+            case 'listOwners':
+            case 'switchOwner': {
+              const applicationId = (functionArgs.applicationId as string | undefined)
+                || (getUserData(callId)?.applicationId as string | undefined);
+
+              if (!applicationId) {
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({ success: false, error: 'No application selected - capture the application first' })
+                };
+              }
+
+              try {
+                if (normalizedFunctionName === 'listOwners') {
+                  const owners = await listOwners(applicationId);
+                  return {
+                    toolCallId: toolCall.id,
+                    result: JSON.stringify({ success: true, owners })
+                  };
+                }
+
+                const result = normalizedFunctionName === 'addOwner'
+                  ? await addOwner(applicationId, functionArgs as ApplicationOwnerInput)
+                  : await switchOwner(applicationId, String(functionArgs.owner ?? ''));
+
+                if (result.success) {
+                  websocketService.broadcast('owners-updated', {
+                    callId: callId,
+                    timestamp: new Date().toISOString(),
+                    applicationId,
+                    owners: result.owners,
+                    source: 'vapi-tool-call'
+                  }, rooms);
+                }
+
+                console.log(`👥 ${normalizedFunctionName} for ${applicationId}: ${result.success ? 'ok' : result.message}`);
+
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({
+                    success: result.success,
+                    ...(result.success ? { owner: result.owner } : { error: result.message, errors: result.errors }),
+                    owners: result.owners
+                  })
+                };
+              } catch (error) {
+                console.error(`❌ Error in ${normalizedFunctionName}:`, error);
+                return {
+                  toolCallId: toolCall.id,
+                  result: JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Failed to update owners'
+                  })
+                };
+              }
+            }
+
             default:
               console.warn(`⚠️ Unknown function: ${functionName}`);
               return {
@@ -1267,6 +1374,24 @@ const FORM_413_FIELD_ORDER = [
   "Social Security No_2"
 ];
 
+/**
+ * Voice auto-advance order and the userData keys tracking a form's progress during a call
+ * Forms beyond 1919 and 413 are asked in the order their definition lists the fields
+ */
+const getVoiceFieldTracking = (formType: FormType): { fieldOrder: string[]; emptyFieldsKey: string; filledFieldsKey: string } => {
+  if (formType === 'SBA_1919') {
+    return { fieldOrder: FORM_FIELD_ORDER, emptyFieldsKey: 'emptyFields', filledFieldsKey: 'filledFieldsThisSession' };
+  }
+  if (formType === 'SBA_413') {
+    return { fieldOrder: FORM_413_FIELD_ORDER, emptyFieldsKey: 'emptyFields413', filledFieldsKey: 'filledFieldsThisSession413' };
+  }
+  return {
+    fieldOrder: getFieldNamesForForm(formType),
+    emptyFieldsKey: `emptyFields_${formType}`,
+    filledFieldsKey: `filledFieldsThisSession_${formType}`
+  };
+};
+
 // Form 413 table field templates for repeating sections
 const FORM_413_TABLES = {
   notesPayable: {
@@ -1415,6 +1540,10 @@ app.use('/api/docs', docsRouter);  // Public
 app.use('/api/emails', emailRouter);  // Public (internal use)
 app.use('/api/applications', applicationsRouter);  // Protected
 app.use('/api/banks', requireAuth, bankRouter);  // Protected
+app.use('/api/underwriting', requireAuth, underwritingRouter);  // Protected
+app.use('/api/templates', requireAuth, templatesRouter);  // Protected
+app.use('/api/bank-portal', requireBankAuth, bankPortalRouter);  // Lender API key
+app.use('/api/signing', signingRouter);  // Public (signing link token / provider webhooks)
 app.use('/api/chat', chatboxRouter);  // Protected
 
 // Error handling middleware
@@ -104,6 +104,41 @@ export const requireAuth = async (
   }
 };
 
+// Staff bootstrapped by email until their role is set on the user record
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Middleware that only lets admins through - mount after requireAuth
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const user = req.user;
+
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (user.role !== 'admin' && !ADMIN_EMAILS.includes(user.email.toLowerCase())) {
+    res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Optional auth - attaches user if token present, continues if not
  */
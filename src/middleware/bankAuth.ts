@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { Bank as BankType } from '../types/index.js';
+import { authenticatePortalKey } from '../services/bankService.js';
+
+// Extend Express Request to include the authenticated lender
+declare global {
+  namespace Express {
+    interface Request {
+      bank?: BankType;
+    }
+  }
+}
+
+/**
+ * Middleware that authenticates a lender by its portal API key
+ * Accepts "X-Bank-Api-Key: bk_..." or "Authorization: Bearer bk_..."
+ */
+export const requireBankAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const headerKey = req.headers['x-bank-api-key'] as string | undefined;
+  const authHeader = req.headers.authorization;
+  const apiKey = headerKey || (authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined);
+
+  if (!apiKey) {
+    res.status(401).json({
+      success: false,
+      error: 'Bank API key required'
+    });
+    return;
+  }
+
+  try {
+    const bank = await authenticatePortalKey(apiKey.trim());
+
+    if (!bank) {
+      console.warn('⚠️ Bank portal authentication failed');
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or revoked bank API key'
+      });
+      return;
+    }
+
+    req.bank = bank;
+    next();
+  } catch (error) {
+    console.error('❌ Bank authentication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication failed'
+    });
+  }
+};
@@ -1,7 +1,8 @@
 import { Schema, model } from 'mongoose';
-import { SBAApplication, ApplicationStatus, UserProvidedDocumentType, BankSubmissionStatus, DefaultDocumentType } from '../types/index.js';
+import { SBAApplication, ApplicationStatus, UserProvidedDocumentType, BankSubmissionStatus } from '../types/index.js';
+import { isRegisteredForm } from '../services/formRegistry.js';
 
-// Sub-schemas for SBA form fields (must match formFields.ts definitions)
+// Sub-schemas for SBA form fields (must match the form definitions in src/forms/)
 const Sba1919FieldsSchema = new Schema(
   {
     // Basic Business Information (Required)
@@ -288,6 +289,30 @@ const Sba413FieldsSchema = new Schema(
   { _id: false }
 );
 
+// A business owner - their Form 1919 row and, at 20% or more ownership, their own Form 413 and signature
+const ApplicationOwnerSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    title: { type: String, trim: true },
+    ownershipPercent: { type: Number, min: 0, max: 100 },
+    tin: { type: String },
+    homeAddress: { type: String, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    sba413Fields: {
+      type: Sba413FieldsSchema,
+      default: () => ({})
+    },
+    signingStatus: {
+      type: String,
+      enum: ['not_started', 'pending', 'completed', 'declined'],
+      default: 'not_started'
+    },
+    signedBy: { type: String },
+    signedAt: { type: Date }
+  },
+  { timestamps: true }
+);
+
 const sbaApplicationSchema = new Schema<SBAApplication>({
   applicantData: {
     name: {
@@ -357,6 +382,12 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
     industryExperience: {
       type: String
     },
+    sellerFinancingPercentage: {
+      type: String
+    },
+    sellerFinancingOnStandby: {
+      type: Boolean
+    },
     // Additional form fields collected during guided VAPI form completion
     additionalFormData: {
       type: Schema.Types.Mixed,
@@ -372,6 +403,15 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
     type: Sba413FieldsSchema,
     default: () => ({})
   },
+  // Forms declared in forms/ (SBA Form 912, 4506-C...), keyed by form type
+  formFields: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  owners: {
+    type: [ApplicationOwnerSchema],
+    default: []
+  },
   status: {
     type: String,
     enum: Object.values(ApplicationStatus),
@@ -391,6 +431,9 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
     reasons: [{
       type: String
     }],
+    rulesetVersion: {
+      type: Number
+    },
     calculatedAt: {
       type: Date,
       default: Date.now
@@ -413,9 +456,68 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
       type: Date,
       default: Date.now,
       required: true
+    },
+    wave: { type: Number, min: 1 },
+    messageId: { type: String },
+    packageHash: { type: String },
+    deliveryResult: {
+      status: {
+        type: String,
+        enum: ['pending', 'sent', 'failed']
+      },
+      accepted: [{ type: String }],
+      rejected: [{ type: String }],
+      response: { type: String },
+      error: { type: String },
+      attemptedAt: { type: Date }
+    },
+    claimExpiresAt: { type: Date },
+    decidedAt: { type: Date },
+    decisionReason: { type: String, trim: true },
+    lastResponse: {
+      classification: {
+        type: String,
+        enum: ['info_request', 'decline', 'term_sheet', 'question']
+      },
+      messageId: { type: String },
+      subject: { type: String },
+      receivedAt: { type: Date }
     }
   }],
 
+  // Additional documents requested by lenders through the bank portal
+  documentRequests: [{
+    bank: { type: String, required: true },
+    documents: [{ type: String, trim: true }],
+    message: { type: String, trim: true },
+    status: {
+      type: String,
+      enum: ['open', 'fulfilled', 'cancelled'],
+      default: 'open',
+      required: true
+    },
+    requestedAt: { type: Date, default: Date.now, required: true },
+    fulfilledAt: { type: Date }
+  }],
+
+  // Later submission waves waiting for their cooldown to pass
+  submissionWaves: [{
+    wave: { type: Number, required: true, min: 1 },
+    bankIds: [{ type: String }],
+    scheduledFor: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ['scheduled', 'sending', 'sent', 'cancelled', 'failed'],
+      default: 'scheduled',
+      required: true
+    },
+    claimExpiresAt: { type: Date },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    processedAt: { type: Date },
+    _id: false
+  }],
+
   // Offers from banks
   offers: [{
     bank: {
@@ -438,6 +540,15 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
       downPaymentRequired: {
         type: Number,
         required: true
+      },
+      loanAmount: {
+        type: Number,
+        min: 0
+      },
+      fees: {
+        type: Number,
+        min: 0,
+        default: 0
       }
     },
     status: {
@@ -462,13 +573,18 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
     fileType: {
       type: String,
       required: true,
-      enum: Object.values(DefaultDocumentType)
+      validate: {
+        validator: isRegisteredForm,
+        message: (props: { value: string }) => `${props.value} is not a registered form`
+      }
     },
     fileName: { type: String, required: true },
     s3Key: { type: String, required: true },
     s3Url: { type: String },
     generatedAt: { type: Date, default: Date.now },
-    signed: { type: Boolean, default: false }
+    signed: { type: Boolean, default: false },
+    ownerId: { type: String },
+    templateVersion: { type: Number, min: 0 }
   }],
   documentsUploadedToS3: {
     type: Boolean,
@@ -477,11 +593,50 @@ const sbaApplicationSchema = new Schema<SBAApplication>({
   s3UploadedAt: {
     type: Date
   },
+  extractedFinancials: [{
+    s3Key: { type: String, required: true },
+    fileName: { type: String, required: true },
+    fileType: { type: String, required: true, enum: Object.values(UserProvidedDocumentType) },
+    status: { type: String, required: true, enum: ['completed', 'no_text', 'unrecognized', 'failed'] },
+    error: { type: String },
+    documentKind: { type: String, enum: ['form1120', 'form1120S', 'form1065', 'scheduleC', 'profitAndLoss'] },
+    taxYear: { type: Number },
+    pageCount: { type: Number, min: 0 },
+    values: { type: Schema.Types.Mixed, default: {} },   // Line item -> { value, confidence, page, line?, label }
+    addBacks: {
+      items: { type: [String], default: [] },
+      total: { type: Number, default: 0 }
+    },
+    confidence: { type: Number, min: 0, max: 1, default: 0 },
+    extractedAt: { type: Date, default: Date.now },
+    _id: false
+  }],
+  finalPackage: {
+    fileName: { type: String },
+    s3Key: { type: String },
+    sha256: { type: String },
+    size: { type: Number, min: 0 },
+    pageCount: { type: Number, min: 0 },
+    sourceHash: { type: String },
+    generatedAt: { type: Date },
+    documents: [{
+      title: { type: String, required: true },
+      fileName: { type: String, required: true },
+      fileType: { type: String, required: true },
+      ownerId: { type: String },
+      signed: { type: Boolean },
+      s3Key: { type: String, required: true },
+      sha256: { type: String, required: true },
+      startPage: { type: Number, required: true, min: 1 },
+      pageCount: { type: Number, required: true, min: 0 },
+      _id: false
+    }]
+  },
 
   // Signing Metadata
   signingProvider: {
     type: String,
-    enum: ['docusign', 'hellosign', 'adobe_sign', 'manual', null],
+    enum: ['local', 'docusign', 'hellosign', 'adobe_sign', 'manual', null],
     default: null
   },
   signingRequestId: {
@@ -529,6 +684,8 @@ sbaApplicationSchema.index({ status: 1, createdAt: -1 });
 sbaApplicationSchema.index({ 'applicantData.creditScore': 1 });
 sbaApplicationSchema.index({ 'banks.bank': 1 });
 sbaApplicationSchema.index({ 'banks.status': 1 });
+sbaApplicationSchema.index({ 'banks.messageId': 1 });
+sbaApplicationSchema.index({ 'submissionWaves.status': 1, 'submissionWaves.scheduledFor': 1 });
 sbaApplicationSchema.index({ ownerId: 1, createdAt: -1 });
 
 export const Application = model<SBAApplication>('Application', sbaApplicationSchema);
\ No newline at end of file
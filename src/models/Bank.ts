@@ -59,8 +59,75 @@ const bankSchema = new Schema<BankType>({
         required: true,
         default: false
       }
+    },
+    loanAmountRange: {
+      min: {
+        type: Number,
+        min: [0, 'Minimum loan amount cannot be negative']
+      },
+      max: {
+        type: Number,
+        min: [0, 'Maximum loan amount cannot be negative']
+      }
+    },
+    industries: {
+      type: [String],
+      default: []
+    },
+    statesServed: {
+      type: [{
+        type: String,
+        uppercase: true,
+        trim: true,
+        match: [/^[A-Z]{2}$/, 'States must be two-letter codes']
+      }],
+      default: []
+    },
+    borrowerPreference: {
+      type: String,
+      enum: ['buyer', 'owner', 'both'],
+      default: 'both'
+    },
+    minimumDSCR: {
+      type: Number,
+      min: [0, 'Minimum DSCR cannot be negative']
+    },
+    minimumEquityPercent: {
+      type: Number,
+      min: [0, 'Equity percent cannot be negative'],
+      max: [100, 'Equity percent cannot exceed 100']
+    },
+    sbaPreferredLender: {
+      type: Boolean,
+      default: false
     }
-  }
+  },
+  portalCredentials: [{
+    keyId: {
+      type: String,
+      required: true
+    },
+    secretHash: {
+      type: String,
+      required: true,
+      select: false  // Never returned unless explicitly requested for verification
+    },
+    label: {
+      type: String,
+      trim: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    },
+    lastUsedAt: {
+      type: Date
+    },
+    revokedAt: {
+      type: Date
+    },
+    _id: false
+  }]
 }, {
   timestamps: true
 });
@@ -69,5 +136,6 @@ const bankSchema = new Schema<BankType>({
 bankSchema.index({ name: 1 });
 bankSchema.index({ 'requirements.minimumCreditScore': 1 });
 bankSchema.index({ createdAt: -1 });
+bankSchema.index({ 'portalCredentials.keyId': 1 });
 
 export const Bank = model<BankType>('Bank', bankSchema);
@@ -0,0 +1,119 @@
+import { Schema, model } from 'mongoose';
+import { EmailReviewItem, EmailReviewPolicy } from '../types';
+
+const REVIEW_FLAGS = [
+  'generation_failed',
+  'sensitive_keyword',
+  'long_email',
+  'many_questions',
+  'low_confidence',
+  'lender_sender',
+  'unverified_lender'
+];
+
+const emailReviewSchema = new Schema<EmailReviewItem>({
+  inboundMessageId: {
+    type: String,
+    required: [true, 'Inbound message ID is required'],
+    unique: true  // One queued reply per inbound email, even if it is fetched twice
+  },
+  inboundReferences: [{
+    type: String
+  }],
+  from: {
+    type: String,
+    required: [true, 'Sender is required'],
+    trim: true
+  },
+  subject: {
+    type: String,
+    default: ''
+  },
+  inboundBody: {
+    type: String,
+    default: ''
+  },
+  receivedAt: {
+    type: Date,
+    required: true
+  },
+  draft: {
+    subject: { type: String, required: true },
+    body: { type: String, default: '' }
+  },
+  originalBody: {
+    type: String,
+    default: ''
+  },
+  edited: {
+    type: Boolean,
+    default: false
+  },
+  confidence: {
+    type: Number,
+    min: 0,
+    max: 1,
+    default: 0
+  },
+  flagReasons: [{
+    type: String,
+    enum: REVIEW_FLAGS
+  }],
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected', 'sent', 'failed'],
+    default: 'pending'
+  },
+  reviewedBy: String,
+  reviewedAt: Date,
+  rejectionReason: String,
+  sentAt: Date,
+  error: String
+}, {
+  timestamps: true
+});
+
+emailReviewSchema.index({ status: 1, createdAt: -1 });
+
+// Single settings document; the key lets us add scoped policies later without a migration
+const emailReviewSettingsSchema = new Schema<EmailReviewPolicy & { key: string }>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    default: 'default'
+  },
+  mode: {
+    type: String,
+    enum: ['auto', 'review_all', 'review_flagged'],
+    required: true
+  },
+  keywords: [{ type: String, trim: true, lowercase: true }],
+  maxWordCount: {
+    type: Number,
+    min: [1, 'Max word count must be at least 1'],
+    required: true
+  },
+  maxQuestions: {
+    type: Number,
+    min: [0, 'Max questions cannot be negative'],
+    required: true
+  },
+  minConfidence: {
+    type: Number,
+    min: 0,
+    max: 1,
+    required: true
+  },
+  flagLenderSenders: {
+    type: Boolean,
+    default: true
+  },
+  senderAllowlist: [{ type: String, trim: true, lowercase: true }],
+  updatedBy: String
+}, {
+  timestamps: true
+});
+
+export const EmailReview = model<EmailReviewItem>('EmailReview', emailReviewSchema);
+export const EmailReviewSettings = model<EmailReviewPolicy & { key: string }>('EmailReviewSettings', emailReviewSettingsSchema);
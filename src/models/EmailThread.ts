@@ -0,0 +1,108 @@
+import { Schema, model } from 'mongoose';
+import { EmailMessageRecord, EmailThreadRecord, StoredEmailAttachment, ThreadStatus } from '../types';
+
+const storedAttachmentSchema = new Schema<StoredEmailAttachment>({
+  fileName: { type: String, required: true },
+  contentType: { type: String, default: 'application/octet-stream' },
+  size: { type: Number, min: 0, default: 0 },
+  s3Key: { type: String, required: true }
+}, { _id: false });
+
+const emailThreadSchema = new Schema<EmailThreadRecord>({
+  threadId: {
+    type: String,
+    required: [true, 'Thread ID is required'],
+    unique: true
+  },
+  subject: {
+    type: String,
+    default: ''
+  },
+  participants: [{ type: String, lowercase: true, trim: true }],
+  application: {
+    type: String,
+    ref: 'Application'
+  },
+  bank: {
+    type: String,
+    ref: 'Bank'
+  },
+  messageCount: {
+    type: Number,
+    default: 0
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  },
+  status: {
+    type: String,
+    enum: Object.values(ThreadStatus),
+    default: ThreadStatus.OPEN
+  }
+}, {
+  timestamps: true
+});
+
+emailThreadSchema.index({ application: 1, lastMessageAt: -1 });
+emailThreadSchema.index({ bank: 1, lastMessageAt: -1 });
+
+const emailMessageSchema = new Schema<EmailMessageRecord>({
+  messageId: {
+    type: String,
+    required: [true, 'Message ID is required'],
+    unique: true  // Re-fetching or re-sending the same message never creates a duplicate
+  },
+  threadId: {
+    type: String,
+    required: true
+  },
+  direction: {
+    type: String,
+    enum: ['inbound', 'outbound'],
+    required: true
+  },
+  from: {
+    type: String,
+    required: true
+  },
+  to: [String],
+  cc: [String],
+  subject: {
+    type: String,
+    default: ''
+  },
+  text: {
+    type: String,
+    default: ''
+  },
+  html: String,
+  inReplyTo: String,
+  references: [String],
+  sentAt: {
+    type: Date,
+    required: true
+  },
+  application: {
+    type: String,
+    ref: 'Application'
+  },
+  bank: {
+    type: String,
+    ref: 'Bank'
+  },
+  attachments: [storedAttachmentSchema],
+  deliveryStatus: {
+    type: String,
+    enum: ['sent', 'failed']
+  },
+  error: String
+}, {
+  timestamps: true
+});
+
+emailMessageSchema.index({ threadId: 1, sentAt: 1 });
+emailMessageSchema.index({ application: 1, sentAt: 1 });
+
+export const EmailThread = model<EmailThreadRecord>('EmailThread', emailThreadSchema);
+export const EmailMessage = model<EmailMessageRecord>('EmailMessage', emailMessageSchema);
@@ -0,0 +1,44 @@
+import { Schema, model } from 'mongoose';
+import { FormSessionRecord } from '../types';
+
+// Idle sessions are normally saved and ended by the FormStateService sweeper well before this;
+// the TTL index only cleans up after instances that stopped running
+const SESSION_RETENTION_SECONDS = Number(process.env.FORM_SESSION_RETENTION_SECONDS) || 7 * 24 * 60 * 60;
+
+const formSessionSchema = new Schema<FormSessionRecord>({
+  applicationId: {
+    type: String,
+    required: [true, 'Application ID is required'],
+    unique: true  // One live session per application, shared by voice and chat
+  },
+  currentForm: {
+    type: String,
+    default: null   // Checked against the form registry by FormStateService
+  },
+  currentOwnerId: {
+    type: String,
+    default: null
+  },
+  // Keyed by form type - one entry for every registered form when the session starts
+  fields: { type: Schema.Types.Mixed, default: {} },
+  currentFieldIndex: { type: Schema.Types.Mixed, default: {} },
+  dirtyFields: [String],
+  version: {
+    type: Number,
+    default: 0
+  },
+  lastSaved: {
+    type: Date,
+    default: null
+  },
+  lastActivityAt: {
+    type: Date,
+    default: Date.now,
+    expires: SESSION_RETENTION_SECONDS
+  }
+}, {
+  timestamps: true,
+  minimize: false  // Keep empty field maps so dotted updates always have a parent
+});
+
+export const FormSession = model<FormSessionRecord>('FormSession', formSessionSchema);
@@ -0,0 +1,64 @@
+import { Schema, model } from 'mongoose';
+import { FormTemplateVersion } from '../types';
+import { isRegisteredForm } from '../services/formRegistry.js';
+
+// Uploaded revisions of a form's PDF template. The PDF itself is stored here so every instance
+// generates from the same file; version 0 is the template bundled in templates/ and has no document.
+
+const FIELD_TYPES = ['text', 'checkbox', 'radio', 'dropdown', 'signature', 'unknown'];
+
+const TemplateFieldSchema = new Schema({
+  name: { type: String, required: true },
+  type: { type: String, enum: FIELD_TYPES, required: true }
+}, { _id: false });
+
+const formTemplateSchema = new Schema<FormTemplateVersion>({
+  formType: {
+    type: String,
+    required: [true, 'Form type is required'],
+    validate: {
+      validator: isRegisteredForm,
+      message: (props: { value: string }) => `${props.value} is not a registered form`
+    }
+  },
+  version: {
+    type: Number,
+    required: [true, 'Template version is required'],
+    min: [1, 'Template version must be at least 1']
+  },
+  fileName: { type: String, required: true, trim: true },
+  sha256: { type: String, required: true },
+  size: { type: Number, required: true, min: 0 },
+  pdf: { type: Buffer, required: true, select: false },  // Only loaded when the file is needed
+  fields: { type: [TemplateFieldSchema], default: [] },
+  previousVersion: { type: Number, required: true, min: 0 },
+  diff: {
+    added: { type: [TemplateFieldSchema], default: [] },
+    removed: { type: [TemplateFieldSchema], default: [] },
+    renamed: {
+      type: [{
+        from: { type: String, required: true },
+        to: { type: String, required: true },
+        type: { type: String, enum: FIELD_TYPES },
+        _id: false
+      }],
+      default: []
+    }
+  },
+  definitionCheck: {
+    missingFields: { type: [String], default: [] },
+    unmappedFields: { type: [String], default: [] }
+  },
+  isActive: { type: Boolean, default: false },
+  notes: { type: String, trim: true },
+  uploadedBy: { type: String },
+  activatedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Versions are immutable - upload a new one instead of editing
+formTemplateSchema.index({ formType: 1, version: 1 }, { unique: true });
+formTemplateSchema.index({ formType: 1, isActive: 1 });
+
+export const FormTemplate = model<FormTemplateVersion>('FormTemplate', formTemplateSchema);
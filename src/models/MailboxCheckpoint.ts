@@ -0,0 +1,59 @@
+import { Schema, model } from 'mongoose';
+import { MailboxCheckpointRecord, ProcessedEmailRecord } from '../types';
+
+const mailboxCheckpointSchema = new Schema<MailboxCheckpointRecord>({
+  mailbox: {
+    type: String,
+    required: [true, 'Mailbox is required'],
+    unique: true
+  },
+  uidValidity: {
+    type: Number,
+    required: true
+  },
+  lastUid: {
+    type: Number,
+    min: 0,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+const processedEmailSchema = new Schema<ProcessedEmailRecord>({
+  messageId: {
+    type: String,
+    required: [true, 'Message ID is required'],
+    unique: true  // The claim itself - a second insert for the same message fails
+  },
+  mailbox: {
+    type: String,
+    required: true
+  },
+  uid: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'done', 'failed'],
+    default: 'processing'
+  },
+  attempts: {
+    type: Number,
+    default: 1
+  },
+  claimedAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: Date,
+  error: String
+}, {
+  timestamps: true
+});
+
+processedEmailSchema.index({ status: 1, claimedAt: 1 });
+
+export const MailboxCheckpoint = model<MailboxCheckpointRecord>('MailboxCheckpoint', mailboxCheckpointSchema);
+export const ProcessedEmail = model<ProcessedEmailRecord>('ProcessedEmail', processedEmailSchema);
@@ -0,0 +1,84 @@
+import { Schema, model } from 'mongoose';
+import { EmailStatus, OutboundEmailRecord, OutboundRecipient, StoredEmailAttachment } from '../types';
+
+const attachmentSchema = new Schema<StoredEmailAttachment>({
+  fileName: { type: String, required: true },
+  contentType: { type: String, default: 'application/octet-stream' },
+  size: { type: Number, min: 0, default: 0 },
+  s3Key: { type: String, required: true }
+}, { _id: false });
+
+const recipientSchema = new Schema<OutboundRecipient>({
+  address: { type: String, required: true, lowercase: true, trim: true },
+  status: {
+    type: String,
+    enum: ['pending', EmailStatus.SENT, EmailStatus.DELIVERED, EmailStatus.FAILED],
+    default: 'pending'
+  },
+  response: String,
+  dsnStatus: String,
+  updatedAt: Date
+}, { _id: false });
+
+const outboundEmailSchema = new Schema<OutboundEmailRecord>({
+  messageId: {
+    type: String,
+    required: [true, 'Message ID is required'],
+    unique: true  // Enqueuing the same message twice returns the existing entry
+  },
+  from: {
+    type: String,
+    required: true
+  },
+  to: [{ type: String, required: true }],
+  subject: {
+    type: String,
+    default: ''
+  },
+  text: String,
+  html: String,
+  inReplyTo: String,
+  references: [String],
+  attachments: [attachmentSchema],
+  application: {
+    type: String,
+    ref: 'Application'
+  },
+  bank: {
+    type: String,
+    ref: 'Bank'
+  },
+  purpose: String,
+  status: {
+    type: String,
+    enum: ['queued', 'sending', 'sent', 'dead'],
+    default: 'queued'
+  },
+  recipients: [recipientSchema],
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    min: 1,
+    default: 8
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  claimedAt: Date,
+  lastAttemptAt: Date,
+  lastError: String,
+  sentAt: Date,
+  deadAt: Date
+}, {
+  timestamps: true
+});
+
+outboundEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+outboundEmailSchema.index({ status: 1, deadAt: -1 });
+outboundEmailSchema.index({ application: 1, createdAt: -1 });
+
+export const OutboundEmail = model<OutboundEmailRecord>('OutboundEmail', outboundEmailSchema);
@@ -0,0 +1,86 @@
+import { Schema, model } from 'mongoose';
+import { SigningRequestRecord } from '../types';
+
+// A set of an application's drafts sent to one signer through a signing provider. The audit trail is
+// append-only and ends up on the signed PDFs' certificate page.
+
+const PROVIDERS = ['local', 'docusign', 'hellosign', 'adobe_sign'];
+const STATUSES = ['pending', 'viewed', 'signing', 'completed', 'declined', 'expired', 'cancelled'];
+const AUDIT_ACTIONS = ['created', 'sent', 'viewed', 'signed', 'completed', 'declined', 'expired', 'cancelled'];
+
+const SigningDocumentSchema = new Schema({
+  fileName: { type: String, required: true },
+  fileType: { type: String, required: true },
+  s3Key: { type: String, required: true },
+  sha256: { type: String, required: true },
+  ownerId: { type: String },
+  signedS3Key: { type: String },
+  signedSha256: { type: String }
+}, { _id: false });
+
+const SigningAuditEventSchema = new Schema({
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  at: { type: Date, required: true },
+  ip: { type: String },
+  userAgent: { type: String },
+  detail: { type: String }
+}, { _id: false });
+
+const signingRequestSchema = new Schema<SigningRequestRecord>({
+  applicationId: {
+    type: String,
+    required: [true, 'Application is required']
+  },
+  provider: {
+    type: String,
+    enum: PROVIDERS,
+    required: true
+  },
+  providerRequestId: { type: String },
+  status: {
+    type: String,
+    enum: STATUSES,
+    default: 'pending'
+  },
+  signer: {
+    name: { type: String, required: [true, 'Signer name is required'], trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    ownerId: { type: String }
+  },
+  documents: {
+    type: [SigningDocumentSchema],
+    validate: {
+      validator: (documents: unknown[]) => documents.length > 0,
+      message: 'A signing request needs at least one document'
+    }
+  },
+  accessTokenHash: { type: String, select: false },  // Only loaded to look a signing link up
+  expiresAt: { type: Date, required: true },
+  signature: {
+    method: { type: String, enum: ['typed', 'drawn'] },
+    typedName: { type: String },
+    imageSha256: { type: String },
+    signedAt: { type: Date },
+    ip: { type: String },
+    userAgent: { type: String }
+  },
+  declineReason: { type: String, trim: true },
+  audit: { type: [SigningAuditEventSchema], default: [] },
+  createdBy: { type: String },
+  completedAt: { type: Date }
+}, {
+  timestamps: true,
+  toJSON: {
+    // The token hash is set on the document when a request is created - keep it out of responses
+    transform: (_doc, ret: Record<string, unknown>) => {
+      delete ret.accessTokenHash;
+      return ret;
+    }
+  }
+});
+
+signingRequestSchema.index({ applicationId: 1, createdAt: -1 });
+signingRequestSchema.index({ accessTokenHash: 1 }, { unique: true, sparse: true });
+signingRequestSchema.index({ provider: 1, providerRequestId: 1 });
+
+export const SigningRequest = model<SigningRequestRecord>('SigningRequest', signingRequestSchema);
@@ -0,0 +1,111 @@
+import { Schema, model } from 'mongoose';
+import { UnderwritingRuleset as UnderwritingRulesetType } from '../types';
+
+const requiredNumber = { type: Number, required: true };
+
+const UnderwritingRulesSchema = new Schema({
+  creditScore: {
+    minimum: { ...requiredNumber, min: [300, 'Credit score must be at least 300'], max: [850, 'Credit score cannot exceed 850'] },
+    good: { ...requiredNumber, min: 300, max: 850 },
+    excellent: { ...requiredNumber, min: 300, max: 850 }
+  },
+  yearsInBusiness: {
+    minimum: { ...requiredNumber, min: [0, 'Years in business cannot be negative'] },
+    established: { ...requiredNumber, min: 0 }
+  },
+  equity: {
+    minimumPercent: { ...requiredNumber, min: 0, max: 100 },
+    strongPercent: { ...requiredNumber, min: 0, max: 100 }
+  },
+  dscr: {
+    minimum: { ...requiredNumber, min: 0 },
+    good: { ...requiredNumber, min: 0 },
+    excellent: { ...requiredNumber, min: 0 }
+  },
+  structuring: {
+    primeRate: { ...requiredNumber, min: 0, max: 1 },
+    spreadTiers: {
+      type: [{
+        maxLoanAmount: { type: Number, min: 0 },
+        spread: { ...requiredNumber, min: 0, max: 1 },
+        _id: false
+      }],
+      required: true
+    },
+    realEstateTermYears: { ...requiredNumber, min: [1, 'Term must be at least 1 year'] },
+    nonRealEstateTermYears: { ...requiredNumber, min: [1, 'Term must be at least 1 year'] },
+    realEstateMajorityPercent: { ...requiredNumber, min: 0, max: 100 },
+    maxFinancingPercent: { ...requiredNumber, min: 0, max: 100 },
+    maxSbaLoanAmount: { ...requiredNumber, min: 0 },
+    sellerNoteRate: { ...requiredNumber, min: 0, max: 1 },
+    sellerNoteTermYears: { ...requiredNumber, min: [1, 'Term must be at least 1 year'] },
+    standbyEquityMaxShare: { ...requiredNumber, min: 0, max: 100 }
+  },
+  ownerLimits: {
+    maxDebtToIncomeRatio: { ...requiredNumber, min: 0 },
+    maxLoanToAnnualIncomeMultiple: { ...requiredNumber, min: 0 }
+  },
+  deductions: {
+    creditGood: requiredNumber,
+    creditFair: requiredNumber,
+    yearsMinimum: requiredNumber,
+    equityMinimum: requiredNumber,
+    dscrGood: requiredNumber,
+    dscrMinimum: requiredNumber,
+    dscrInsufficient: requiredNumber,
+    missingCashFlow: requiredNumber,
+    industryExperienceBonus: requiredNumber,
+    limitedIndustryExperience: requiredNumber,
+    ownerMissingFinancials: requiredNumber,
+    ownerNoProfit: requiredNumber,
+    ownerHighDebt: requiredNumber,
+    ownerHighLoanAmount: requiredNumber
+  },
+  chanceThresholds: {
+    high: { ...requiredNumber, min: 0, max: 100 },
+    medium: { ...requiredNumber, min: 0, max: 100 },
+    low: { ...requiredNumber, min: 0, max: 100 },
+    veryLow: { ...requiredNumber, min: 0, max: 100 }
+  }
+}, { _id: false });
+
+const underwritingRulesetSchema = new Schema<UnderwritingRulesetType>({
+  version: {
+    type: Number,
+    required: [true, 'Ruleset version is required'],
+    unique: true,  // Versions are immutable - publish a new one instead of editing
+    min: [1, 'Ruleset version must be at least 1']
+  },
+  name: {
+    type: String,
+    required: [true, 'Ruleset name is required'],
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  effectiveDate: {
+    type: Date,
+    required: [true, 'Effective date is required'],
+    default: Date.now
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  rules: {
+    type: UnderwritingRulesSchema,
+    required: [true, 'Rules are required']
+  },
+  createdBy: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+underwritingRulesetSchema.index({ isActive: 1, effectiveDate: -1 });
+
+export const UnderwritingRuleset = model<UnderwritingRulesetType>('UnderwritingRuleset', underwritingRulesetSchema);
@@ -5,6 +5,7 @@ export interface IUser extends Document {
   email: string;
   emailVerified: boolean;
   name?: string;
+  role: 'user' | 'admin';
   lastLoginAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -33,6 +34,12 @@ const userSchema = new Schema<IUser>(
       type: String,
       trim: true
     },
+    // Admins run the back office: lender credentials, form templates, the email review queue
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      default: 'user'
+    },
     lastLoginAt: {
       type: Date,
       default: Date.now
@@ -13,27 +13,44 @@ import {
   addUserProvidedDocuments,
   createOffer,
   updateOfferStatus,
-  calculateSBAEligibilityForBuyer,
-  calculateSBAEligibilityForOwner,
-  calculateSBAEligibilityForBuyerVAPI,
-  calculateSBAEligibilityForOwnerVAPI,
-  generateDraftPDFs
+  generateDraftPDFs,
+  buildFinalPackage,
+  verifyPackageFile
 } from '../services/applicationService.js';
+import { buildPackageManifest } from '../services/packageBuilder.js';
+import {
+  cancelSigningRequest,
+  createSigningRequest,
+  getSigningRequest,
+  getSigningRequests
+} from '../services/signingService.js';
+import { getActiveRuleset } from '../services/underwritingService.js';
+import { evaluateBuyerEligibility, evaluateOwnerEligibility } from '../services/eligibilityService.js';
+import { simulateEligibility } from '../services/simulationService.js';
+import { buildCapitalStack } from '../services/structuringService.js';
+import { analyzeOffer, compareApplicationOffers, getOfferAnalysis } from '../services/offerAnalysisService.js';
+import { getApplicationCorrespondence, getThread } from '../services/emailStoreService.js';
 import { requireApplicationOwnership } from '../middleware/ownership.js';
+import { addOwner, listOwners, OwnerChangeResult, removeOwner, switchOwner, updateOwner } from '../services/ownerService.js';
 import {
   ApplicationSubmissionRequest,
   DraftApplicationRequest,
   ApplicationStatus,
   UserProvidedDocumentType,
-  DefaultDocumentType,
+  EligibilityEvaluation,
+  EligibilityScenario,
   LoanChanceResult,
   SBAApplicationData
 } from '../types/index.js';
 import { Application } from '../models/Application.js';
 import { generatePresignedUrl, uploadDocumentWithRetry, downloadDocument } from '../services/s3Service.js';
 import { formatApplicationStatus } from '../utils/formatters.js';
+import { toLoanChanceResult, formatCalculateChancesResponse } from '../utils/eligibilityFormatters.js';
+import { formatOfferComparisonCsv, formatAmortizationScheduleCsv } from '../utils/offerFormatters.js';
 import websocketService from '../services/websocket.js';
 import { extractFormFieldValues } from '../services/pdfFormProcessor.js';
+import { getFormTypes, isRegisteredForm } from '../services/formRegistry.js';
+import { getExtractedFinancials, reextractFinancials } from '../services/financialExtraction.js';
 
 const router = express.Router();
 
@@ -207,6 +224,11 @@ const normalizeNumericInput = (value: unknown): NormalizedFieldResult => {
   };
 };
 
+const optionalNumber = (value: unknown): number | undefined => {
+  const normalized = normalizeNumericInput(value);
+  return normalized.valid ? normalized.numberValue : undefined;
+};
+
 // POST /api/applications - Submit new SBA loan application
 router.post('/', async (req, res) => {
   try {
@@ -375,6 +397,10 @@ router.post('/', async (req, res) => {
       applicationPayload.availableCash = buyerValues.availableCash as string;
       applicationPayload.businessCashFlow = buyerValues.businessCashFlow as string;
       applicationPayload.industryExperience = buyerValues.industryExperience as string;
+      if (req.body.sellerFinancingPercentage !== undefined && req.body.sellerFinancingPercentage !== null) {
+        applicationPayload.sellerFinancingPercentage = String(req.body.sellerFinancingPercentage);
+        applicationPayload.sellerFinancingOnStandby = req.body.sellerFinancingOnStandby === true;
+      }
       applicationPayload.creditScore = Number(buyerValues.creditScore)
       applicationPayload.yearFounded = buyerValues.yearFounded as number;
     }
@@ -441,7 +467,7 @@ router.post('/draft', async (req, res) => {
         });
       }
 
-      chanceResult = calculateSBAEligibilityForOwner(req.body as any);
+      chanceResult = toLoanChanceResult(evaluateOwnerEligibility(req.body as any, await getActiveRuleset()));
     }
 
     // Add optional fields for buyer type
@@ -450,6 +476,8 @@ router.post('/draft', async (req, res) => {
       if (req.body.availableCash) applicationPayload.availableCash = String(req.body.availableCash);
       if (req.body.businessCashFlow) applicationPayload.businessCashFlow = String(req.body.businessCashFlow);
       if (req.body.industryExperience) applicationPayload.industryExperience = String(req.body.industryExperience);
+      if (req.body.sellerFinancingPercentage) applicationPayload.sellerFinancingPercentage = String(req.body.sellerFinancingPercentage);
+      if (req.body.sellerFinancingOnStandby === true) applicationPayload.sellerFinancingOnStandby = true;
       if (!req.body.purchasePrice || !req.body.availableCash || !req.body.businessCashFlow) {
         console.log(req.body)
         return res.status(400).json({
@@ -457,7 +485,7 @@ router.post('/draft', async (req, res) => {
         });
       }
 
-      chanceResult = calculateSBAEligibilityForBuyer(req.body as any);
+      chanceResult = toLoanChanceResult(evaluateBuyerEligibility(req.body as any, await getActiveRuleset()));
     }
 
     const userId = req.user?._id?.toString();
@@ -512,15 +540,14 @@ router.patch('/:applicationId/draft', requireApplicationOwnership, upload.single
       if (!fileType) {
         return res.status(400).json({
           success: false,
-          error: `fileType is required and must be one of: ${Object.values(DefaultDocumentType).join(', ')}`
+          error: `fileType is required and must be one of: ${getFormTypes().join(', ')}`
         });
       }
 
-      const validTypes = new Set(Object.values(DefaultDocumentType));
-      if (!validTypes.has(fileType as DefaultDocumentType)) {
+      if (!isRegisteredForm(fileType)) {
         return res.status(400).json({
           success: false,
-          error: `Invalid fileType. Must be one of: ${Object.values(DefaultDocumentType).join(', ')}`
+          error: `Invalid fileType. Must be one of: ${getFormTypes().join(', ')}`
         });
       }
 
@@ -533,17 +560,27 @@ router.patch('/:applicationId/draft', requireApplicationOwnership, upload.single
         s3Key
       );
 
+      // Each owner's Form 413 is its own draft
+      const ownerId = (req.body?.ownerId as string)?.trim() || undefined;
+      if (ownerId && !application.owners?.some((owner) => String(owner._id) === ownerId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'ownerId does not match an owner on this application'
+        });
+      }
+
       const uploadedPDF = {
         fileName: file.originalname,
         s3Key: s3Result.key,
         s3Url: s3Result.url,
         generatedAt: new Date(),
-        fileType: fileType as DefaultDocumentType
+        fileType,
+        ownerId
       };
 
-      // Find existing document with same fileType and replace, or add new
+      // Find existing document with same fileType (and owner) and replace, or add new
       const existingIndex = application.draftDocuments?.findIndex(
-        (doc: any) => doc.fileType === fileType
+        (doc: any) => doc.fileType === fileType && (!ownerId || doc.ownerId === ownerId)
       ) ?? -1;
       console.log("fileType", fileType);
       console.log("existingIndex", existingIndex);
@@ -1262,6 +1299,49 @@ router.post('/:applicationId/documents/user-provided', requireApplicationOwnersh
   }
 });
 
+// FINANCIALS - GET /api/applications/:applicationId/financials (figures read from the tax returns and P&L)
+router.get('/:applicationId/financials', requireApplicationOwnership, async (req, res) => {
+  try {
+    const financials = await getExtractedFinancials(req.params.applicationId);
+
+    res.json({
+      success: true,
+      data: financials
+    });
+  } catch (error) {
+    console.error('Error getting extracted financials:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Application not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// RE-EXTRACT FINANCIALS - POST /api/applications/:applicationId/financials/extract { s3Key? }
+router.post('/:applicationId/financials/extract', requireApplicationOwnership, async (req, res) => {
+  try {
+    const s3Key = typeof req.body?.s3Key === 'string' ? req.body.s3Key : undefined;
+    const financials = await reextractFinancials(req.params.applicationId, s3Key);
+
+    res.json({
+      success: true,
+      data: financials
+    });
+  } catch (error) {
+    console.error('Error extracting financials:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' || message === 'Document not found'
+      ? 404
+      : message.startsWith('No tax returns') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
 router.post('/:applicationId/documents/draft/mark-signed', requireApplicationOwnership, async (req, res) => {
   try {
     const { applicationId } = req.params;
@@ -1301,7 +1381,13 @@ router.post('/:applicationId/documents/draft/mark-signed', requireApplicationOwn
         status: application.status,
         draftDocuments: application.draftDocuments,
         signingStatus: application.signingStatus,
-        signedDate: application.signedDate
+        signedDate: application.signedDate,
+        ownerSignatures: (application.owners || []).map((owner) => ({
+          ownerId: String(owner._id),
+          name: owner.name,
+          signingStatus: owner.signingStatus,
+          signedAt: owner.signedAt
+        }))
       }
     });
 
@@ -1323,6 +1409,88 @@ router.post('/:applicationId/documents/draft/mark-signed', requireApplicationOwn
   }
 });
 
+// Owner routes answer with the updated owner list; a refused change is a 400 with the validation errors
+const sendOwnerChange = (res: express.Response, result: OwnerChangeResult, successStatus = 200) => {
+  if (!result.success) {
+    return res.status(400).json({
+      success: false,
+      error: result.message,
+      errors: result.errors,
+      data: { owners: result.owners }
+    });
+  }
+  return res.status(successStatus).json({
+    success: true,
+    data: { owner: result.owner, owners: result.owners }
+  });
+};
+
+const ownerErrorStatus = (message: string): number =>
+  message === 'Application not found' || message === 'Owner not found' ? 404 : 500;
+
+// GET /api/applications/:applicationId/owners - List owners in Form 1919 row order
+router.get('/:applicationId/owners', requireApplicationOwnership, async (req, res) => {
+  try {
+    const owners = await listOwners(req.params.applicationId);
+    res.json({ success: true, data: { owners } });
+  } catch (error) {
+    console.error('Error listing owners:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(ownerErrorStatus(message)).json({ success: false, error: message });
+  }
+});
+
+// POST /api/applications/:applicationId/owners - Add an owner
+router.post('/:applicationId/owners', requireApplicationOwnership, async (req, res) => {
+  try {
+    const result = await addOwner(req.params.applicationId, req.body ?? {});
+    sendOwnerChange(res, result, 201);
+  } catch (error) {
+    console.error('Error adding owner:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(ownerErrorStatus(message)).json({ success: false, error: message });
+  }
+});
+
+// PATCH /api/applications/:applicationId/owners/:ownerId - Change an owner's details
+router.patch('/:applicationId/owners/:ownerId', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId, ownerId } = req.params;
+    const result = await updateOwner(applicationId, ownerId, req.body ?? {});
+    sendOwnerChange(res, result);
+  } catch (error) {
+    console.error('Error updating owner:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(ownerErrorStatus(message)).json({ success: false, error: message });
+  }
+});
+
+// DELETE /api/applications/:applicationId/owners/:ownerId - Remove an owner
+router.delete('/:applicationId/owners/:ownerId', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId, ownerId } = req.params;
+    const result = await removeOwner(applicationId, ownerId);
+    sendOwnerChange(res, result);
+  } catch (error) {
+    console.error('Error removing owner:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(ownerErrorStatus(message)).json({ success: false, error: message });
+  }
+});
+
+// POST /api/applications/:applicationId/owners/:ownerId/switch - Fill this owner's Form 413 in the form session
+router.post('/:applicationId/owners/:ownerId/switch', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId, ownerId } = req.params;
+    const result = await switchOwner(applicationId, ownerId);
+    sendOwnerChange(res, result);
+  } catch (error) {
+    console.error('Error switching owner:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(ownerErrorStatus(message)).json({ success: false, error: message });
+  }
+});
+
 // POST /api/applications/:applicationId/documents/signed - Upload signed documents
 router.post('/:applicationId/documents/signed', requireApplicationOwnership, upload.array('documents', 10), async (req, res) => {
   try {
@@ -1369,12 +1537,275 @@ router.post('/:applicationId/documents/signed', requireApplicationOwnership, upl
   }
 });
 
-// POST /api/applications/:applicationId/submit-to-bank - Send signed docs to bank
+const signingRequestErrorStatus = (message: string): number => {
+  if (
+    message === 'Application not found' ||
+    message === 'Owner not found' ||
+    message === 'No draft documents found' ||
+    message === 'Signing request not found' ||
+    message.startsWith('Draft document not found')
+  ) {
+    return 404;
+  }
+  if (message.includes('already have an open signing request') || message.startsWith('Signing request is already')) return 409;
+  if (message.startsWith('Failed to send for signature')) return 502;
+  if (
+    message === 'Signer name is required' ||
+    message.startsWith('Signer name must match') ||
+    message.startsWith('Signer email must match') ||
+    message.startsWith('Owner email is required') ||
+    message === 'No unsigned documents to sign' ||
+    message.endsWith('is already signed') ||
+    message.endsWith("can't be signed by this signer") ||
+    message.includes('is not configured') ||
+    message.startsWith('Validation failed')
+  ) {
+    return 400;
+  }
+  return 500;
+};
+
+// POST /api/applications/:applicationId/signing-requests - Send drafts for signature
+// Body: { signerName?, signerEmail?, ownerId?, fileNames?, provider? ('local'), notify? }
+router.post('/:applicationId/signing-requests', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const { signerName, signerEmail, ownerId, fileNames, provider, notify } = req.body ?? {};
+
+    if (fileNames !== undefined && (!Array.isArray(fileNames) || fileNames.some((name) => typeof name !== 'string'))) {
+      return res.status(400).json({
+        success: false,
+        error: 'fileNames must be a list of draft file names'
+      });
+    }
+
+    const { request, signingUrl } = await createSigningRequest(applicationId, {
+      signerName,
+      signerEmail,
+      ownerId,
+      fileNames,
+      provider,
+      createdBy: req.user?._id?.toString(),
+      notify: notify !== false
+    });
+
+    // An owner's link is emailed to the owner alone
+    res.status(201).json({
+      success: true,
+      data: {
+        signingRequest: request,
+        signingUrl: request.signer.ownerId ? undefined : signingUrl
+      }
+    });
+  } catch (error) {
+    console.error('Error creating signing request:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(signingRequestErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/signing-requests - Signing requests, newest first
+router.get('/:applicationId/signing-requests', requireApplicationOwnership, async (req, res) => {
+  try {
+    const signingRequests = await getSigningRequests(req.params.applicationId);
+
+    res.json({
+      success: true,
+      data: signingRequests
+    });
+  } catch (error) {
+    console.error('Error fetching signing requests:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/signing-requests/:requestId - One request with its audit trail
+router.get('/:applicationId/signing-requests/:requestId', requireApplicationOwnership, async (req, res) => {
+  try {
+    const signingRequest = await getSigningRequest(req.params.applicationId, req.params.requestId);
+
+    if (!signingRequest) {
+      return res.status(404).json({
+        success: false,
+        error: 'Signing request not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: signingRequest
+    });
+  } catch (error) {
+    console.error('Error fetching signing request:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// POST /api/applications/:applicationId/signing-requests/:requestId/cancel - Void an open request
+router.post('/:applicationId/signing-requests/:requestId/cancel', requireApplicationOwnership, async (req, res) => {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+    const signingRequest = await cancelSigningRequest(req.params.applicationId, req.params.requestId, {
+      reason,
+      cancelledBy: req.user?._id?.toString()
+    });
+
+    res.json({
+      success: true,
+      data: signingRequest
+    });
+  } catch (error) {
+    console.error('Error cancelling signing request:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(signingRequestErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/package - The lender package's manifest and a download link
+router.get('/:applicationId/package', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const expiresIn = parseInt(req.query.expiresIn as string) || 3600;
+
+    const application = await Application.findById(applicationId).select('finalPackage').exec();
+
+    if (!application) {
+      return res.status(404).json({
+        success: false,
+        error: 'Application not found'
+      });
+    }
+
+    if (!application.finalPackage?.sha256) {
+      return res.status(404).json({
+        success: false,
+        error: 'No package has been built for this application'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        manifest: buildPackageManifest(applicationId, application.finalPackage),
+        url: await generatePresignedUrl(application.finalPackage.s3Key, expiresIn),
+        expiresIn
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching package:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// POST /api/applications/:applicationId/package - Build the flattened lender package ({ rebuild: true } to force)
+router.post('/:applicationId/package', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const finalPackage = await buildFinalPackage(applicationId, req.body?.rebuild === true);
+
+    res.json({
+      success: true,
+      data: {
+        manifest: buildPackageManifest(applicationId, finalPackage),
+        url: await generatePresignedUrl(finalPackage.s3Key, 3600),
+        expiresIn: 3600
+      }
+    });
+  } catch (error) {
+    console.error('Error building package:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found'
+      ? 404
+      : message === 'No documents to package' || message.startsWith('Failed to read') || message.startsWith('Failed to flatten')
+        ? 400
+        : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/applications/:applicationId/package/verify - Check a file against the package manifest
+router.post('/:applicationId/package/verify', requireApplicationOwnership, upload.single('document'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'A PDF is required in the "document" field'
+      });
+    }
+
+    const result = await verifyPackageFile(req.params.applicationId, req.file.buffer);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error verifying package file:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' || message.startsWith('No package') ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/applications/:applicationId/submit-to-bank - Send signed docs to selected banks, optionally in waves
 router.post('/:applicationId/submit-to-bank', requireApplicationOwnership, async (req, res) => {
   try {
     const { applicationId } = req.params;
+    const { bankIds, topN, waveSize, waveCooldownHours } = req.body || {};
 
-    const result = await submitApplicationToBank(applicationId);
+    if (bankIds !== undefined && (!Array.isArray(bankIds) || bankIds.some((id: unknown) => typeof id !== 'string' || !id.trim()))) {
+      return res.status(400).json({
+        success: false,
+        error: 'bankIds must be an array of bank IDs'
+      });
+    }
+
+    const positiveIntegers = { topN, waveSize };
+    for (const [field, value] of Object.entries(positiveIntegers)) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be a positive integer`
+        });
+      }
+    }
+
+    if (waveCooldownHours !== undefined && (typeof waveCooldownHours !== 'number' || waveCooldownHours < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'waveCooldownHours must be a non-negative number'
+      });
+    }
+
+    const result = await submitApplicationToBank(applicationId, {
+      bankIds: bankIds?.map((id: string) => id.trim()),
+      topN,
+      waveSize,
+      waveCooldownHours
+    });
 
     res.json({
       success: true,
@@ -1383,9 +1814,82 @@ router.post('/:applicationId/submit-to-bank', requireApplicationOwnership, async
 
   } catch (error) {
     console.error('Error submitting to bank:', error);
-    res.status(500).json({
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode =
+      message === 'Application not found' || message.startsWith('Bank not found')
+        ? 404
+        : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/offers/analysis - Rank all offers side by side (?format=csv to export)
+router.get('/:applicationId/offers/analysis', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const includeSchedules = req.query.includeSchedules === 'true';
+
+    const comparison = await compareApplicationOffers(applicationId, includeSchedules);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="offers-${applicationId}.csv"`);
+      return res.send(formatOfferComparisonCsv(comparison));
+    }
+
+    res.json({
+      success: true,
+      data: comparison
+    });
+
+  } catch (error) {
+    console.error('Error analyzing offers:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/offers/:offerId/analysis - Validate one offer and return its amortization schedule
+router.get('/:applicationId/offers/:offerId/analysis', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId, offerId } = req.params;
+
+    const analysis = await getOfferAnalysis(applicationId, offerId);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="offer-${offerId}-schedule.csv"`);
+      return res.send(formatAmortizationScheduleCsv(analysis.schedule || []));
+    }
+
+    res.json({
+      success: true,
+      data: analysis
+    });
+
+  } catch (error) {
+    console.error('Error analyzing offer:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode =
+      message === 'Application not found' || message === 'Offer not found'
+        ? 404
+        : 500;
+
+    res.status(statusCode).json({
       success: false,
-    error: error instanceof Error ? error.message : 'Internal server error'
+      error: message
     });
   }
 });
@@ -1442,12 +1946,30 @@ router.post('/:applicationId/offers', requireApplicationOwnership, async (req, r
       });
     }
 
+    const { loanAmount, fees } = offerDetails;
+
+    if (loanAmount !== undefined && (typeof loanAmount !== 'number' || loanAmount <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'loanAmount must be a positive number'
+      });
+    }
+
+    if (fees !== undefined && (typeof fees !== 'number' || fees < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'fees must be a non-negative number'
+      });
+    }
+
     // Create the offer
     const application = await createOffer(applicationId, bankId.trim(), {
       repaymentTermMonths,
       annualInterestRate,
       monthlyPayment,
-      downPaymentRequired
+      downPaymentRequired,
+      loanAmount,
+      fees
     });
 
     // Get the newly created offer (last one in the array)
@@ -1457,7 +1979,9 @@ router.post('/:applicationId/offers', requireApplicationOwnership, async (req, r
       success: true,
       data: {
         applicationId,
-        offer: createdOffer
+        offer: createdOffer,
+        // Flag quotes whose payment doesn't match their rate and term right away
+        analysis: analyzeOffer(createdOffer)
       }
     });
 
@@ -1522,6 +2046,75 @@ router.patch('/:applicationId/offers/:offerId', requireApplicationOwnership, asy
   }
 });
 
+// GET /api/applications/:applicationId/correspondence?bankId=...&direction=inbound&page=1&limit=50 - Email timeline
+router.get('/:applicationId/correspondence', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const bankId = req.query.bankId as string | undefined;
+    const direction = req.query.direction as 'inbound' | 'outbound' | undefined;
+
+    if (page < 1 || limit < 1 || limit > 200) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-200'
+      });
+    }
+
+    if (direction && !['inbound', 'outbound'].includes(direction)) {
+      return res.status(400).json({
+        success: false,
+        error: 'direction must be one of: inbound, outbound'
+      });
+    }
+
+    const timeline = await getApplicationCorrespondence(applicationId, { bankId, direction, page, limit });
+
+    res.json({
+      success: true,
+      data: timeline
+    });
+
+  } catch (error) {
+    console.error('Error fetching correspondence:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/applications/:applicationId/correspondence/threads/:threadId - One conversation with attachment links
+router.get('/:applicationId/correspondence/threads/:threadId', requireApplicationOwnership, async (req, res) => {
+  try {
+    const { applicationId, threadId } = req.params;
+    const expiresIn = parseInt(req.query.expiresIn as string) || 3600;
+
+    const thread = await getThread(threadId, expiresIn, applicationId);
+
+    res.json({
+      success: true,
+      data: thread
+    });
+
+  } catch (error) {
+    console.error('Error fetching correspondence thread:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Thread not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
 // Calculate SBA eligibility and approval chances
 router.post('/calculate-chances', async (req, res) => {
   try {
@@ -1530,8 +2123,8 @@ router.post('/calculate-chances', async (req, res) => {
     // Check if type field exists to determine buyer vs owner flow
     const applicationType = toolCallArgs.type as string || 'buyer';
 
-    let chanceResult: LoanChanceResult;
-    let chanceResultVapi: string;
+    let evaluation: EligibilityEvaluation;
+    const ruleset = await getActiveRuleset();
     
     if (applicationType.toLowerCase() === 'buyer') {
       // Buyer flow - validate buyer fields
@@ -1542,8 +2135,7 @@ router.post('/calculate-chances', async (req, res) => {
         });
       }
 
-      chanceResult = calculateSBAEligibilityForBuyer(toolCallArgs as any);
-      chanceResultVapi = calculateSBAEligibilityForBuyerVAPI(toolCallArgs as any);
+      evaluation = evaluateBuyerEligibility(toolCallArgs as any, ruleset);
     } else {
       // Owner flow - validate owner fields
       if (!toolCallArgs.monthlyRevenue || !toolCallArgs.monthlyExpenses || !toolCallArgs.requestedLoanAmount) {
@@ -1552,28 +2144,24 @@ router.post('/calculate-chances', async (req, res) => {
         });
       }
 
-      chanceResult = calculateSBAEligibilityForOwner(toolCallArgs as any);
-      chanceResultVapi = calculateSBAEligibilityForOwnerVAPI(toolCallArgs as any);
+      evaluation = evaluateOwnerEligibility(toolCallArgs as any, ruleset);
     }
 
+    const chanceResult = toLoanChanceResult(evaluation);
+    const toolCallId = data.message?.toolCallList?.[0]?.id || 'unknown';
+
     // Fast rejection path - skip draft/PDF generation for disqualified applicants
-    if (chanceResult.score === 0) {
+    if (evaluation.rejected) {
       // Broadcast rejection result
       websocketService.broadcast('calculate-chances', {
         timestamp: new Date().toISOString(),
         source: 'calculate-chances',
         result: chanceResult,
+        evaluation,
         rejected: true
       }, ["global"]);
 
-      const toolCallId = data.message?.toolCallList?.[0]?.id || 'unknown';
-
-      return res.status(200).json({
-        results: [{
-          toolCallId: toolCallId,
-          result: chanceResultVapi
-        }]
-      });
+      return res.status(200).json(formatCalculateChancesResponse(toolCallId, evaluation));
     }
 
     const applicantData: any = {
@@ -1589,7 +2177,11 @@ router.post('/calculate-chances', async (req, res) => {
         purchasePrice: String(toolCallArgs.purchasePrice || ''),
         availableCash: String(toolCallArgs.availableCash || ''),
         businessCashFlow: String(toolCallArgs.businessCashFlow || ''),
-        industryExperience: String(toolCallArgs.industryExperience || '')
+        industryExperience: String(toolCallArgs.industryExperience || ''),
+        ...(toolCallArgs.sellerFinancingPercentage !== undefined && {
+          sellerFinancingPercentage: String(toolCallArgs.sellerFinancingPercentage),
+          sellerFinancingOnStandby: toolCallArgs.sellerFinancingOnStandby === true
+        })
       } : {
         monthlyRevenue: String(toolCallArgs.monthlyRevenue || ''),
         monthlyExpenses: String(toolCallArgs.monthlyExpenses || ''),
@@ -1618,7 +2210,8 @@ router.post('/calculate-chances', async (req, res) => {
     websocketService.broadcast('calculate-chances', {
       timestamp: new Date().toISOString(),
       source: 'calculate-chances',
-      result: chanceResult
+      result: chanceResult,
+      evaluation
     }, ["global"]);
 
     // ===== NEW: Generate presigned URLs for draft PDFs =====
@@ -1645,14 +2238,7 @@ router.post('/calculate-chances', async (req, res) => {
       source: 'backend'
     }, ["global"]);
 
-    const toolCallId = data.message?.toolCallList?.[0]?.id || 'unknown';
-
-    res.status(200).json({
-      results: [{
-        toolCallId: toolCallId,
-        result: chanceResultVapi
-      }]
-    });
+    res.status(200).json(formatCalculateChancesResponse(toolCallId, evaluation));
 
   } catch (error) {
     console.error('Error checking SBA eligibility:', error);
@@ -1663,6 +2249,149 @@ router.post('/calculate-chances', async (req, res) => {
   }
 });
 
+// Each scenario runs the full eligibility evaluation, and the endpoint is public
+const MAX_SIMULATION_SCENARIOS = 10;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Run what-if scenarios against a baseline buyer/owner profile
+router.post('/simulate-chances', async (req, res) => {
+  try {
+    const { baseline, scenarios } = req.body || {};
+    const applicationType = String(req.body?.type || 'buyer').toLowerCase();
+
+    if (applicationType !== 'buyer' && applicationType !== 'owner') {
+      return res.status(400).json({
+        success: false,
+        error: 'type must be either buyer or owner'
+      });
+    }
+
+    if (!baseline || typeof baseline !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: 'baseline profile is required'
+      });
+    }
+
+    if (applicationType === 'buyer' && (!baseline.purchasePrice || !baseline.availableCash || !baseline.businessCashFlow)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields for buyer: purchasePrice, availableCash, businessCashFlow'
+      });
+    }
+
+    if (applicationType === 'owner' && (!baseline.monthlyRevenue || !baseline.monthlyExpenses || !baseline.requestedLoanAmount)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields for owner: monthlyRevenue, monthlyExpenses, requestedLoanAmount'
+      });
+    }
+
+    if (scenarios !== undefined && !Array.isArray(scenarios)) {
+      return res.status(400).json({
+        success: false,
+        error: 'scenarios must be an array'
+      });
+    }
+
+    if ((scenarios || []).length > MAX_SIMULATION_SCENARIOS) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_SIMULATION_SCENARIOS} scenarios can be simulated at once`
+      });
+    }
+
+    const invalidScenario = (scenarios || []).findIndex((scenario: unknown) =>
+      !isPlainObject(scenario) ||
+      !isPlainObject(scenario.changes) ||
+      (scenario.name !== undefined && typeof scenario.name !== 'string'));
+    if (invalidScenario !== -1) {
+      return res.status(400).json({
+        success: false,
+        error: `scenarios[${invalidScenario}] must have a changes object and an optional string name`
+      });
+    }
+
+    const normalizedScenarios: EligibilityScenario[] = (scenarios || []).map((scenario: any) => ({
+      name: scenario.name,
+      changes: scenario.changes
+    }));
+
+    const ruleset = await getActiveRuleset();
+    const result = simulateEligibility(applicationType, baseline, normalizedScenarios, ruleset);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error simulating SBA eligibility:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to simulate SBA eligibility'
+    });
+  }
+});
+
+// Build the SBA 7(a) capital stack (sources & uses, amortization, DSCR, equity injection)
+router.post('/structure', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const annualCashFlow = optionalNumber(body.annualCashFlow ?? body.businessCashFlow);
+
+    if (annualCashFlow === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'annualCashFlow is required'
+      });
+    }
+
+    const purchasePrice = optionalNumber(body.purchasePrice);
+    const realEstateAmount = optionalNumber(body.realEstateAmount);
+    const workingCapital = optionalNumber(body.workingCapital);
+    const sbaLoanAmount = optionalNumber(body.sbaLoanAmount);
+
+    if (!purchasePrice && !realEstateAmount && !workingCapital && !sbaLoanAmount) {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide at least one use of funds (purchasePrice, realEstateAmount, workingCapital) or sbaLoanAmount'
+      });
+    }
+
+    const ruleset = await getActiveRuleset();
+    const capitalStack = buildCapitalStack({
+      purchasePrice,
+      realEstateAmount,
+      workingCapital,
+      sbaLoanAmount,
+      buyerEquity: optionalNumber(body.buyerEquity ?? body.availableCash),
+      sellerNotePercent: optionalNumber(body.sellerNotePercent ?? body.sellerFinancingPercentage),
+      sellerNoteOnStandby: body.sellerNoteOnStandby === true || body.sellerFinancingOnStandby === true,
+      annualCashFlow,
+      existingAnnualDebtService: optionalNumber(body.existingAnnualDebtService),
+      guarantorAnnualIncome: optionalNumber(body.guarantorAnnualIncome),
+      guarantorAnnualDebtService: optionalNumber(body.guarantorAnnualDebtService),
+      includeSchedules: body.includeSchedules !== false
+    }, ruleset);
+
+    res.json({
+      success: true,
+      data: {
+        ...capitalStack,
+        rulesetVersion: ruleset.version
+      }
+    });
+  } catch (error) {
+    console.error('Error structuring SBA loan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to structure SBA loan'
+    });
+  }
+});
+
 // Health check endpoint
 router.get('/health', (req, res) => {
   res.json({
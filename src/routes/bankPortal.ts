@@ -0,0 +1,221 @@
+import express from 'express';
+import {
+  listSubmittedApplications,
+  getSubmittedApplication,
+  requestDocuments,
+  postBankDecision
+} from '../services/bankPortalService.js';
+import { BankSubmissionStatus, BankDecisionRequest } from '../types/index.js';
+
+// Lender-facing API - every route runs behind requireBankAuth, so req.bank is always set
+const router = express.Router();
+
+const getBankId = (req: express.Request): string => (req.bank!._id as any).toString();
+
+// GET /api/bank-portal/applications?page=1&limit=10&status=submitted
+router.get('/applications', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as BankSubmissionStatus | undefined;
+
+    if (page < 1 || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100'
+      });
+    }
+
+    const visibleStatuses = [BankSubmissionStatus.SUBMITTED, BankSubmissionStatus.ACCEPTED, BankSubmissionStatus.REJECTED];
+    if (status && !visibleStatuses.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${visibleStatuses.join(', ')}`
+      });
+    }
+
+    const result = await listSubmittedApplications(getBankId(req), page, limit, status);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error listing portal applications:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// GET /api/bank-portal/applications/:applicationId - Application detail with presigned package URLs
+router.get('/applications/:applicationId', async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const expiresIn = parseInt(req.query.expiresIn as string) || 3600;
+
+    const application = await getSubmittedApplication(getBankId(req), applicationId, expiresIn);
+
+    res.json({
+      success: true,
+      data: application
+    });
+  } catch (error) {
+    console.error('Error fetching portal application:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/bank-portal/applications/:applicationId/document-requests - Ask the applicant for more documents
+router.post('/applications/:applicationId/document-requests', async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const { documents, message } = req.body;
+
+    if (!Array.isArray(documents) || documents.length === 0 ||
+        documents.some((doc: unknown) => typeof doc !== 'string' || doc.trim().length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'documents is required and must be a non-empty array of strings'
+      });
+    }
+
+    if (message !== undefined && typeof message !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'message must be a string'
+      });
+    }
+
+    const documentRequest = await requestDocuments(getBankId(req), req.bank!.name, applicationId, {
+      documents: documents.map((doc: string) => doc.trim()),
+      message: message?.trim()
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        applicationId,
+        documentRequest
+      }
+    });
+  } catch (error) {
+    console.error('Error creating document request:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/bank-portal/applications/:applicationId/decision - Accept, reject or make an offer
+router.post('/applications/:applicationId/decision', async (req, res) => {
+  try {
+    const { applicationId } = req.params;
+    const { decision, reason, offerDetails }: BankDecisionRequest = req.body;
+
+    if (!decision || !['accept', 'reject', 'offer'].includes(decision)) {
+      return res.status(400).json({
+        success: false,
+        error: 'decision is required and must be one of: accept, reject, offer'
+      });
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'reason must be a string'
+      });
+    }
+
+    if (decision === 'offer' && !offerDetails) {
+      return res.status(400).json({
+        success: false,
+        error: 'offerDetails is required when making an offer'
+      });
+    }
+
+    if (decision === 'reject' && offerDetails) {
+      return res.status(400).json({
+        success: false,
+        error: 'offerDetails cannot be sent with a rejection'
+      });
+    }
+
+    if (offerDetails) {
+      if (typeof offerDetails !== 'object') {
+        return res.status(400).json({
+          success: false,
+          error: 'offerDetails must be an object'
+        });
+      }
+
+      const { repaymentTermMonths, annualInterestRate, monthlyPayment, downPaymentRequired, loanAmount, fees } = offerDetails;
+      const positiveFields = { repaymentTermMonths, annualInterestRate, monthlyPayment };
+      for (const [field, value] of Object.entries(positiveFields)) {
+        if (typeof value !== 'number' || value <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: `${field} must be a positive number`
+          });
+        }
+      }
+
+      if (typeof downPaymentRequired !== 'number' || downPaymentRequired < 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'downPaymentRequired must be a non-negative number'
+        });
+      }
+
+      if (loanAmount !== undefined && (typeof loanAmount !== 'number' || loanAmount <= 0)) {
+        return res.status(400).json({
+          success: false,
+          error: 'loanAmount must be a positive number'
+        });
+      }
+
+      if (fees !== undefined && (typeof fees !== 'number' || fees < 0)) {
+        return res.status(400).json({
+          success: false,
+          error: 'fees must be a non-negative number'
+        });
+      }
+    }
+
+    const result = await postBankDecision(getBankId(req), applicationId, {
+      decision,
+      reason: reason?.trim(),
+      offerDetails
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error posting bank decision:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Application not found' ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+export default router;
@@ -6,14 +6,18 @@ import {
   updateBank,
   deleteBank,
   getBankByName,
-  recommendBank
+  recommendBank,
+  createPortalCredential,
+  listPortalCredentials,
+  revokePortalCredential
 } from '../services/bankService.js';
 import { CreateBankRequest, UpdateBankRequest } from '../types/index.js';
+import { requireAdmin } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // CREATE - POST /api/banks
-router.post('/', async (req, res) => {
+router.post('/', requireAdmin, async (req, res) => {
   try {
     const bankData: CreateBankRequest = req.body;
 
@@ -126,7 +130,7 @@ router.get('/', async (req, res) => {
 });
 
 // UPDATE - PATCH /api/banks/:bankId
-router.patch('/:bankId', async (req, res) => {
+router.patch('/:bankId', requireAdmin, async (req, res) => {
   try {
     const { bankId } = req.params;
     const updateData: UpdateBankRequest = req.body;
@@ -162,7 +166,7 @@ router.patch('/:bankId', async (req, res) => {
 });
 
 // DELETE - DELETE /api/banks/:bankId
-router.delete('/:bankId', async (req, res) => {
+router.delete('/:bankId', requireAdmin, async (req, res) => {
   try {
     const { bankId } = req.params;
     const bank = await deleteBank(bankId);
@@ -242,9 +246,41 @@ router.post('/recommend', async (req, res) => {
       });
     }
 
+    const { userType, loanAmount, industry, state, dscr, equityPercent } = req.body;
+
+    if (userType !== undefined && !['buyer', 'owner'].includes(userType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'userType must be either "buyer" or "owner"'
+      });
+    }
+
+    const optionalNumbers = { loanAmount, dscr, equityPercent };
+    for (const [field, value] of Object.entries(optionalNumbers)) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be a non-negative number`
+        });
+      }
+    }
+
+    if (state !== undefined && (typeof state !== 'string' || !/^[A-Za-z]{2}$/.test(state))) {
+      return res.status(400).json({
+        success: false,
+        error: 'state must be a two-letter state code'
+      });
+    }
+
     const recommendations = await recommendBank({
       creditScore,
-      yearsInBusiness
+      yearsInBusiness,
+      userType,
+      loanAmount,
+      industry: typeof industry === 'string' ? industry : undefined,
+      state: state?.toUpperCase(),
+      dscr,
+      equityPercent
     });
 
     res.json({
@@ -260,4 +296,72 @@ router.post('/recommend', async (req, res) => {
   }
 });
 
+// PORTAL CREDENTIALS - POST /api/banks/:bankId/portal-credentials (admins only; the API key is only shown once)
+router.post('/:bankId/portal-credentials', requireAdmin, async (req, res) => {
+  try {
+    const { bankId } = req.params;
+    const { label } = req.body || {};
+
+    if (label !== undefined && typeof label !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'label must be a string'
+      });
+    }
+
+    const credential = await createPortalCredential(bankId, label?.trim());
+
+    res.status(201).json({
+      success: true,
+      data: credential
+    });
+  } catch (error) {
+    console.error('Error creating portal credential:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Bank not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// PORTAL CREDENTIALS - GET /api/banks/:bankId/portal-credentials
+router.get('/:bankId/portal-credentials', requireAdmin, async (req, res) => {
+  try {
+    const credentials = await listPortalCredentials(req.params.bankId);
+
+    res.json({
+      success: true,
+      data: credentials
+    });
+  } catch (error) {
+    console.error('Error listing portal credentials:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Bank not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// PORTAL CREDENTIALS - DELETE /api/banks/:bankId/portal-credentials/:keyId (revoke)
+router.delete('/:bankId/portal-credentials/:keyId', requireAdmin, async (req, res) => {
+  try {
+    const { bankId, keyId } = req.params;
+    await revokePortalCredential(bankId, keyId);
+
+    res.json({
+      success: true,
+      message: 'Credential revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error revoking portal credential:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Credential not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
 export default router;
@@ -120,11 +120,11 @@ router.get('/sessions/:sessionId', requireChatSessionOwnership, async (req, res)
     if (session.applicationId) {
       const appId = session.applicationId.toString();
       // Ensure form state session is started
-      if (!formStateService.hasSession(appId)) {
+      if (!await formStateService.hasSession(appId)) {
         await formStateService.startSession(appId);
       }
       // Get complete field data
-      formFieldData = formStateService.getCompleteFieldData(appId);
+      formFieldData = await formStateService.getCompleteFieldData(appId);
     }
 
     res.json({
@@ -164,9 +164,9 @@ router.delete('/sessions/:sessionId', requireChatSessionOwnership, async (req, r
       });
     }
 
-    // End form state session if active (saves and removes from memory)
+    // End form state session if active (saves and removes it)
     const applicationId = session.applicationId?.toString();
-    if (applicationId && formStateService.hasSession(applicationId)) {
+    if (applicationId && await formStateService.hasSession(applicationId)) {
       console.log(`🔚 Ending form state session for application: ${applicationId}`);
       await formStateService.endSession(applicationId);
     }
@@ -228,15 +228,15 @@ router.post('/sessions/:sessionId/messages', async (req, res) => {
     const applicationId = requestApplicationId || session.applicationId?.toString();
 
     // If we have an applicationId, ensure form state session is started
-    if (applicationId && !formStateService.hasSession(applicationId)) {
+    if (applicationId && !await formStateService.hasSession(applicationId)) {
       console.log(`📋 Starting form state session for application: ${applicationId}`);
       await formStateService.startSession(applicationId);
     }
 
     // Get form state context for LLM injection (if we have an active form session)
     let formStateContext: string | undefined;
-    if (applicationId && formStateService.hasSession(applicationId)) {
-      formStateContext = formStateService.getStateContext(applicationId);
+    if (applicationId && await formStateService.hasSession(applicationId)) {
+      formStateContext = await formStateService.getStateContext(applicationId);
     }
 
     // Get flow context to remind LLM which flow it's in
@@ -340,7 +340,7 @@ router.post('/sessions/:sessionId/messages', async (req, res) => {
           // The applicationId is in the args
           const filledFieldsAppId = toolCall.args?.applicationId as string | undefined;
           if (filledFieldsAppId) {
-            if (!formStateService.hasSession(filledFieldsAppId)) {
+            if (!await formStateService.hasSession(filledFieldsAppId)) {
               console.log(`📋 Starting form state session for selected application: ${filledFieldsAppId}`);
               await formStateService.startSession(filledFieldsAppId);
             }
@@ -356,8 +356,8 @@ router.post('/sessions/:sessionId/messages', async (req, res) => {
       // Get updated form state context after tool execution
       const activeAppId = newApplicationId || applicationId;
       let updatedFormStateContext: string | undefined;
-      if (activeAppId && formStateService.hasSession(activeAppId)) {
-        updatedFormStateContext = formStateService.getStateContext(activeAppId);
+      if (activeAppId && await formStateService.hasSession(activeAppId)) {
+        updatedFormStateContext = await formStateService.getStateContext(activeAppId);
       }
 
       // Get updated flow context (in case detectConversationFlow was just called)
@@ -432,19 +432,19 @@ router.post('/sessions/:sessionId/messages', async (req, res) => {
     // Extract formProgress directly from FormStateService for real-time accuracy
     // This ensures frontend always gets the LATEST progress after all tool executions
     let formProgress;
-    if (activeAppId && formStateService.hasSession(activeAppId)) {
-      formProgress = formStateService.calculateProgress(activeAppId);
+    if (activeAppId && await formStateService.hasSession(activeAppId)) {
+      formProgress = await formStateService.calculateProgress(activeAppId);
     }
 
     // Periodic save: save form state after each message (if dirty)
-    if (activeAppId && formStateService.hasSession(activeAppId)) {
+    if (activeAppId && await formStateService.hasSession(activeAppId)) {
       await formStateService.saveSession(activeAppId);
     }
 
     // Get complete PDF field data for JSON response
     let formFieldData = null;
-    if (activeAppId && formStateService.hasSession(activeAppId)) {
-      formFieldData = formStateService.getCompleteFieldData(activeAppId);
+    if (activeAppId && await formStateService.hasSession(activeAppId)) {
+      formFieldData = await formStateService.getCompleteFieldData(activeAppId);
 
       // Also broadcast via WebSocket for real-time updates
       if (formFieldData) {
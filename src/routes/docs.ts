@@ -13,6 +13,7 @@ import {
   mapDataWithAI,
   initializePDFDirectories
 } from '../services/pdfFormProcessor.js';
+import { applyPdfMapping, getMappedFormForTemplate } from '../services/pdfMappingProfiles.js';
 
 const router = express.Router();
 
@@ -110,11 +111,14 @@ router.post('/forms/:filename/fill', async (req, res) => {
   }
 });
 
-// POST /api/docs/forms/:filename/auto-fill - AI-assisted form filling
+// POST /api/docs/forms/:filename/auto-fill - Fill a template from application data
+// Templates with a mapping profile (SBA forms) are filled deterministically from the profile; the AI only
+// suggests values for fields the profile doesn't cover, reported as suggestions and filled only when
+// applySuggestions is set. Other templates are mapped by the AI as before.
 router.post('/forms/:filename/auto-fill', async (req, res) => {
   try {
     const { filename } = req.params;
-    const { userData, customInstructions, outputFileName } = req.body;
+    const { userData, customInstructions, outputFileName, suggestUnmapped = true, applySuggestions = false } = req.body;
     
     if (!userData || typeof userData !== 'object') {
       return res.status(400).json({
@@ -134,17 +138,56 @@ router.post('/forms/:filename/auto-fill', async (req, res) => {
 
     // First, analyze the form to get field structure
     const analysis = await extractFormFields(templatePath);
-    // Use AI to map user data to form fields
-    const mappedData = await mapDataWithAI(
-      analysis.fields,
-      userData,
-      getDocumentAgent(),
-      customInstructions
-    );
 
-    // Fill the form with mapped data
-    const result = await fillPDFForm(templatePath, mappedData, outputFileName);
-    
+    const mappedForm = getMappedFormForTemplate(filename);
+    if (!mappedForm) {
+      // Use AI to map user data to form fields
+      const mappedData = await mapDataWithAI(
+        analysis.fields,
+        userData,
+        getDocumentAgent(),
+        customInstructions
+      );
+
+      // Fill the form with mapped data
+      const result = await fillPDFForm(templatePath, mappedData, outputFileName);
+      
+      if (!result.success) {
+        return res.status(500).json({
+          error: 'Auto-fill failed',
+          message: result.error,
+          processingTime: result.processingTime
+        });
+      }
+
+      return res.json({
+        message: 'Form auto-filled successfully',
+        result,
+        mappedData,
+        downloadPath: result.outputPath,
+        fieldsProcessed: result.fieldsProcessed,
+        unmappedFields: result.unmappedFields,
+        formAnalysis: analysis
+      });
+    }
+
+    const mapping = applyPdfMapping(mappedForm, userData);
+
+    // Signature widgets can't take a value, so they're never worth a suggestion
+    const covered = new Set(mapping.coveredFields);
+    const uncoveredFields = analysis.fields.filter((field) => !covered.has(field.name) && field.type !== 'signature');
+
+    let suggestions: PDFFormData = {};
+    if (suggestUnmapped && uncoveredFields.length > 0) {
+      const suggested = await mapDataWithAI(uncoveredFields, userData, getDocumentAgent(), customInstructions);
+      // The AI may answer for fields the profile owns - the profile stays authoritative for those
+      const uncoveredNames = new Set(uncoveredFields.map((field) => field.name));
+      suggestions = Object.fromEntries(Object.entries(suggested).filter(([name]) => uncoveredNames.has(name)));
+    }
+
+    const fillData: PDFFormData = applySuggestions ? { ...suggestions, ...mapping.data } : mapping.data;
+    const result = await fillPDFForm(templatePath, fillData, outputFileName);
+
     if (!result.success) {
       return res.status(500).json({
         error: 'Auto-fill failed',
@@ -156,7 +199,12 @@ router.post('/forms/:filename/auto-fill', async (req, res) => {
     res.json({
       message: 'Form auto-filled successfully',
       result,
-      mappedData,
+      formType: mapping.formType,
+      mappedData: mapping.data,
+      mappingSources: mapping.sources,
+      suggestions,
+      suggestionsApplied: Boolean(applySuggestions),
+      uncoveredFields: uncoveredFields.map((field) => field.name),
       downloadPath: result.outputPath,
       fieldsProcessed: result.fieldsProcessed,
       unmappedFields: result.unmappedFields,
@@ -16,6 +16,23 @@ import {
 } from '../types';
 import { saveEmailMessage, loadEmailMessage, createEmailMetadata } from '../services/emailProcessor.js';
 import { sendEmail } from '../services/emailSender.js';
+import {
+  listReviewItems,
+  getReviewItem,
+  updateReviewDraft,
+  approveReviewItem,
+  rejectReviewItem,
+  getReviewPolicy,
+  updateReviewPolicy
+} from '../services/emailReviewService.js';
+import {
+  listOutboundEmails,
+  getOutboundEmail,
+  retryDeadLetter
+} from '../services/outboundEmailQueue.js';
+import { listEmailTemplates, getEmailTemplate, renderEmailTemplate } from '../services/emailTemplateService.js';
+import { requireAdmin, requireAuth } from '../middleware/auth.js';
+import { EmailReviewPolicy, EmailReviewStatus, OutboundEmailStatus } from '../types/index.js';
 
 const router = express.Router();
 
@@ -51,7 +68,7 @@ router.post('/compose', async (req, res) => {
     if (result.success && result.data) {
       try {
         // Send the composed email using the available sendEmail function
-        await sendEmail({
+        const delivery = await sendEmail({
           to: Array.isArray(result.data.to) ? result.data.to : [result.data.to],
           subject: result.data.subject,
           text: result.data.body,
@@ -60,7 +77,8 @@ router.post('/compose', async (req, res) => {
         
         res.json({
           ...result,
-          emailSent: true,
+          emailSent: delivery.status === 'sent',
+          deliveryStatus: delivery.status,
           sentTo: result.data.to
         });
       } catch (sendError) {
@@ -190,4 +208,457 @@ router.get('/test-connection', async (req, res) => {
   }
 });
 
+// The review queue decides what goes out in our name, so unlike the rest of this router it needs a signed-in admin
+const REVIEW_STATUSES: EmailReviewStatus[] = ['pending', 'approved', 'rejected', 'sent', 'failed'];
+
+const reviewErrorStatus = (message: string): number => {
+  if (message === 'Review item not found') return 404;
+  if (message === 'Review item is not pending') return 409;
+  if (message === 'Cannot send an empty reply') return 400;
+  return 500;
+};
+
+const validateDraftEdit = (subject: unknown, body: unknown): string | null => {
+  if (subject !== undefined && (typeof subject !== 'string' || subject.trim().length === 0)) {
+    return 'subject must be a non-empty string';
+  }
+  if (body !== undefined && typeof body !== 'string') {
+    return 'body must be a string';
+  }
+  return null;
+};
+
+// GET /api/emails/review-queue?status=pending&page=1&limit=20
+router.get('/review-queue', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = (req.query.status as EmailReviewStatus | undefined) || 'pending';
+
+    if (page < 1 || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100'
+      });
+    }
+
+    if (req.query.status !== 'all' && !REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: all, ${REVIEW_STATUSES.join(', ')}`
+      });
+    }
+
+    const result = await listReviewItems(req.query.status === 'all' ? undefined : status, page, limit);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error listing review queue:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// GET /api/emails/review-settings - Current review mode and flagging policy
+router.get('/review-settings', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const policy = await getReviewPolicy();
+
+    res.json({
+      success: true,
+      data: policy
+    });
+  } catch (error) {
+    console.error('Error fetching review settings:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// PUT /api/emails/review-settings - Switch mode (auto, review_all, review_flagged) or tune the policy
+router.put('/review-settings', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { mode, keywords, maxWordCount, maxQuestions, minConfidence, flagLenderSenders, senderAllowlist } = req.body;
+    const update: Partial<EmailReviewPolicy> = {};
+
+    if (mode !== undefined) {
+      if (!['auto', 'review_all', 'review_flagged'].includes(mode)) {
+        return res.status(400).json({
+          success: false,
+          error: 'mode must be one of: auto, review_all, review_flagged'
+        });
+      }
+      update.mode = mode;
+    }
+
+    for (const [field, value] of Object.entries({ keywords, senderAllowlist })) {
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || value.some((entry: unknown) => typeof entry !== 'string' || entry.trim().length === 0)) {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be an array of non-empty strings`
+        });
+      }
+      update[field as 'keywords' | 'senderAllowlist'] = value.map((entry: string) => entry.trim().toLowerCase());
+    }
+
+    if (maxWordCount !== undefined) {
+      if (!Number.isInteger(maxWordCount) || maxWordCount < 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'maxWordCount must be a positive integer'
+        });
+      }
+      update.maxWordCount = maxWordCount;
+    }
+
+    if (maxQuestions !== undefined) {
+      if (!Number.isInteger(maxQuestions) || maxQuestions < 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'maxQuestions must be a non-negative integer'
+        });
+      }
+      update.maxQuestions = maxQuestions;
+    }
+
+    if (minConfidence !== undefined) {
+      if (typeof minConfidence !== 'number' || minConfidence < 0 || minConfidence > 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'minConfidence must be a number between 0 and 1'
+        });
+      }
+      update.minConfidence = minConfidence;
+    }
+
+    if (flagLenderSenders !== undefined) {
+      if (typeof flagLenderSenders !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'flagLenderSenders must be a boolean'
+        });
+      }
+      update.flagLenderSenders = flagLenderSenders;
+    }
+
+    const policy = await updateReviewPolicy(update, req.user?.email);
+
+    res.json({
+      success: true,
+      data: policy
+    });
+  } catch (error) {
+    console.error('Error updating review settings:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message.startsWith('Invalid review policy') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/emails/review-queue/:reviewId
+router.get('/review-queue/:reviewId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const item = await getReviewItem(req.params.reviewId);
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    console.error('Error fetching review item:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(reviewErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// PATCH /api/emails/review-queue/:reviewId - Edit the draft before approving
+router.patch('/review-queue/:reviewId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { subject, body } = req.body;
+
+    if (subject === undefined && body === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'subject or body is required'
+      });
+    }
+
+    const validationError = validateDraftEdit(subject, body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const item = await updateReviewDraft(req.params.reviewId, { subject: subject?.trim(), body });
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    console.error('Error editing review item:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(reviewErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/emails/review-queue/:reviewId/approve - Send the draft (optionally with last-minute edits)
+router.post('/review-queue/:reviewId/approve', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { subject, body } = req.body || {};
+
+    const validationError = validateDraftEdit(subject, body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const item = await approveReviewItem(req.params.reviewId, req.user?.email, { subject: subject?.trim(), body });
+
+    // A failed send is still a valid approval - the item stays retryable. 'approved' means queued for a retry.
+    res.status(item.status === 'sent' ? 200 : item.status === 'approved' ? 202 : 502).json({
+      success: item.status !== 'failed',
+      data: item,
+      ...(item.status === 'failed' && { error: item.error || 'Failed to send reply' })
+    });
+  } catch (error) {
+    console.error('Error approving review item:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(reviewErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/emails/review-queue/:reviewId/reject - Discard the draft without replying
+router.post('/review-queue/:reviewId/reject', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { reason } = req.body || {};
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'reason must be a string'
+      });
+    }
+
+    const item = await rejectReviewItem(req.params.reviewId, req.user?.email, reason?.trim());
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    console.error('Error rejecting review item:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(reviewErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+const OUTBOUND_STATUSES: OutboundEmailStatus[] = ['queued', 'sending', 'sent', 'dead'];
+
+const outboundErrorStatus = (message: string): number => {
+  if (message === 'Outbound email not found') return 404;
+  if (message === 'Outbound email is not in the dead-letter list') return 409;
+  return 500;
+};
+
+// GET /api/emails/outbound - Outgoing mail and its delivery state; ?status=queued|sending|sent|dead
+router.get('/outbound', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const status = req.query.status as OutboundEmailStatus | undefined;
+    if (status !== undefined && !OUTBOUND_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${OUTBOUND_STATUSES.join(', ')}`
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    if (page < 1 || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100'
+      });
+    }
+    const result = await listOutboundEmails(status, page, limit);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error listing outbound emails:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// GET /api/emails/outbound/:emailId - One outgoing email with per-recipient status
+router.get('/outbound/:emailId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const email = await getOutboundEmail(req.params.emailId);
+
+    res.json({
+      success: true,
+      data: email
+    });
+  } catch (error) {
+    console.error('Error fetching outbound email:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(outboundErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// GET /api/emails/dead-letters - Emails that ran out of retries or bounced, newest first
+router.get('/dead-letters', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    if (page < 1 || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100'
+      });
+    }
+    const result = await listOutboundEmails('dead', page, limit);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error listing dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// POST /api/emails/dead-letters/:emailId/retry - Send again now; failures go back to normal retrying
+router.post('/dead-letters/:emailId/retry', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const email = await retryDeadLetter(req.params.emailId);
+
+    res.status(email.status === 'dead' ? 502 : 200).json({
+      success: email.status !== 'dead',
+      data: email,
+      ...(email.status === 'dead' && { error: email.lastError || 'Email could not be delivered' })
+    });
+  } catch (error) {
+    console.error('Error retrying dead letter:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(outboundErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+const templateErrorStatus = (message: string): number => {
+  if (message === 'Template not found') return 404;
+  if (message.startsWith('Invalid template variables')) return 400;
+  return 500;
+};
+
+// GET /api/emails/templates - Registered transactional templates
+router.get('/templates', (req, res) => {
+  res.json({
+    success: true,
+    data: listEmailTemplates()
+  });
+});
+
+// GET /api/emails/templates/:templateId
+router.get('/templates/:templateId', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: getEmailTemplate(req.params.templateId)
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(templateErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// POST /api/emails/templates/:templateId/preview - Render with sample variables; missing ones show as [name].
+// ?format=html returns the HTML part on its own for viewing in a browser
+router.post('/templates/:templateId/preview', requireAuth, requireAdmin, (req, res) => {
+  try {
+    const { variables = {} } = req.body || {};
+
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+      return res.status(400).json({
+        success: false,
+        error: 'variables must be an object'
+      });
+    }
+
+    const rendered = renderEmailTemplate(req.params.templateId, variables, { preview: true });
+
+    if (req.query.format === 'html') {
+      return res.type('html').send(rendered.html);
+    }
+
+    res.json({
+      success: true,
+      data: rendered
+    });
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(templateErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
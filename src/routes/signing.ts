@@ -0,0 +1,121 @@
+import express from 'express';
+import {
+  declineSigningRequest,
+  handleSigningWebhook,
+  openSigningRequest,
+  SignerContext,
+  submitSignature
+} from '../services/signingService.js';
+
+// Public: signers aren't users, the token in their signing link is what lets them in. Provider
+// webhooks are verified by the provider's adapter against the raw body (see main.ts).
+
+const router = express.Router();
+
+const signerContext = (req: express.Request): SignerContext => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent')
+});
+
+const signingErrorStatus = (message: string): number => {
+  if (message === 'Signing link not found') return 404;
+  if (message === 'Signing link has expired') return 410;
+  if (message.startsWith('Signing request is already') || message.includes('changed after it was sent')) return 409;
+  if (
+    message.startsWith('Consent') ||
+    message.startsWith('Signature method') ||
+    message.startsWith('Type your full name') ||
+    message.startsWith('Invalid signature image')
+  ) {
+    return 400;
+  }
+  return 500;
+};
+
+// WEBHOOK - POST /api/signing/webhooks/:provider (DocuSign Connect, Dropbox Sign events, ...)
+router.post('/webhooks/:provider', async (req, res) => {
+  try {
+    const result = await handleSigningWebhook(req.params.provider, {
+      rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      headers: req.headers,
+      ip: req.ip
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('❌ Signing webhook error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Invalid webhook signature'
+      ? 401
+      : message.includes('is not configured') || message.includes('does not send webhooks') ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// OPEN - GET /api/signing/:token (the documents to review; the first visit is recorded as viewed)
+router.get('/:token', async (req, res) => {
+  try {
+    const view = await openSigningRequest(req.params.token, signerContext(req));
+
+    res.json({
+      success: true,
+      data: view
+    });
+  } catch (error) {
+    console.error('Error opening signing request:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(signingErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// SIGN - POST /api/signing/:token/sign { method: 'typed' | 'drawn', typedName?, image?, consent: true }
+router.post('/:token/sign', async (req, res) => {
+  try {
+    const { method, typedName, image, consent } = req.body ?? {};
+    const view = await submitSignature(req.params.token, { method, typedName, image, consent }, signerContext(req));
+
+    res.json({
+      success: true,
+      data: view
+    });
+  } catch (error) {
+    console.error('Error signing documents:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(signingErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// DECLINE - POST /api/signing/:token/decline { reason? }
+router.post('/:token/decline', async (req, res) => {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+    const view = await declineSigningRequest(req.params.token, reason, signerContext(req));
+
+    res.json({
+      success: true,
+      data: view
+    });
+  } catch (error) {
+    console.error('Error declining signing request:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(signingErrorStatus(message)).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,218 @@
+import express from 'express';
+import multer from 'multer';
+import {
+  compareTemplateVersions,
+  getTemplateVersion,
+  getTemplateVersions,
+  resolveTemplate,
+  setTemplateVersionActive,
+  uploadTemplateVersion
+} from '../services/templateService.js';
+import { getFormDefinitions, isRegisteredForm } from '../services/formRegistry.js';
+import { requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF files are allowed'));
+    }
+  }
+});
+
+// Every route is scoped to a registered form
+router.param('formType', (req, res, next, formType) => {
+  if (!isRegisteredForm(formType)) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown form ${formType}`
+    });
+  }
+  next();
+});
+
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version >= 0 ? version : null;
+};
+
+// LIST - GET /api/templates (each form with the template version in use)
+router.get('/', async (req, res) => {
+  try {
+    const forms = await Promise.all(getFormDefinitions().map(async (form) => {
+      const active = await resolveTemplate(form.formType);
+      return {
+        formType: form.formType,
+        title: form.title,
+        templateFile: form.templateFile,
+        activeVersion: active.version
+      };
+    }));
+
+    res.json({
+      success: true,
+      data: forms
+    });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// LIST VERSIONS - GET /api/templates/:formType/versions
+router.get('/:formType/versions', async (req, res) => {
+  try {
+    const versions = await getTemplateVersions(req.params.formType);
+
+    res.json({
+      success: true,
+      data: versions
+    });
+  } catch (error) {
+    console.error('Error fetching template versions:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// DIFF - GET /api/templates/:formType/diff?from=1&to=2 (version 0 is the bundled template)
+router.get('/:formType/diff', async (req, res) => {
+  try {
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be template versions (0 for the bundled template)'
+      });
+    }
+
+    const diff = await compareTemplateVersions(req.params.formType, from, to);
+
+    res.json({
+      success: true,
+      data: { from, to, ...diff }
+    });
+  } catch (error) {
+    console.error('Error comparing template versions:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Template version not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// READ (Single) - GET /api/templates/:formType/versions/:version
+router.get('/:formType/versions/:version', async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+
+    if (version === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Template version must be a number'
+      });
+    }
+
+    const template = await getTemplateVersion(req.params.formType, version);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template version not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error fetching template version:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// UPLOAD - POST /api/templates/:formType/versions (multipart "template"; diffed, not activated)
+router.post('/:formType/versions', requireAdmin, upload.single('template'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'A PDF template is required in the "template" field'
+      });
+    }
+
+    const template = await uploadTemplateVersion(req.params.formType, req.file.buffer, {
+      fileName: req.file.originalname,
+      notes: typeof req.body.notes === 'string' ? req.body.notes : undefined,
+      uploadedBy: req.user?._id?.toString()
+    });
+
+    res.status(201).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error uploading template version:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message.startsWith('Invalid template') || message.startsWith('Validation failed')
+      ? 400
+      : message.includes('already exists') ? 409 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// ACTIVATE / RETIRE - PATCH /api/templates/:formType/versions/:version/status
+router.patch('/:formType/versions/:version/status', requireAdmin, async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const { isActive, force } = req.body;
+
+    if (!version || typeof isActive !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'An uploaded template version and boolean isActive are required'
+      });
+    }
+
+    const template = await setTemplateVersionActive(req.params.formType, version, isActive, force === true);
+
+    res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error updating template version status:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message === 'Template version not found'
+      ? 404
+      : message.includes('is missing fields') ? 409 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+export default router;
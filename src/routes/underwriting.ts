@@ -0,0 +1,162 @@
+import express from 'express';
+import {
+  createRuleset,
+  getActiveRuleset,
+  getRulesets,
+  getRulesetByVersion,
+  setRulesetActive
+} from '../services/underwritingService.js';
+import { CreateUnderwritingRulesetRequest } from '../types/index.js';
+import { requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// LIST - GET /api/underwriting/rulesets
+router.get('/rulesets', async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive !== 'false';
+    const rulesets = await getRulesets(includeInactive);
+
+    res.json({
+      success: true,
+      data: rulesets
+    });
+  } catch (error) {
+    console.error('Error fetching underwriting rulesets:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// ACTIVE - GET /api/underwriting/rulesets/active?asOf=2025-01-01
+router.get('/rulesets/active', async (req, res) => {
+  try {
+    const asOf = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+
+    if (Number.isNaN(asOf.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'asOf must be a valid date'
+      });
+    }
+
+    const ruleset = await getActiveRuleset(asOf);
+
+    res.json({
+      success: true,
+      data: ruleset
+    });
+  } catch (error) {
+    console.error('Error resolving active underwriting ruleset:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// READ (Single) - GET /api/underwriting/rulesets/:version
+router.get('/rulesets/:version', async (req, res) => {
+  try {
+    const version = parseInt(req.params.version);
+
+    if (Number.isNaN(version)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Ruleset version must be a number'
+      });
+    }
+
+    const ruleset = await getRulesetByVersion(version);
+
+    if (!ruleset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ruleset not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: ruleset
+    });
+  } catch (error) {
+    console.error('Error fetching underwriting ruleset:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// CREATE - POST /api/underwriting/rulesets (publishes the next version)
+router.post('/rulesets', requireAdmin, async (req, res) => {
+  try {
+    const rulesetData: CreateUnderwritingRulesetRequest = req.body;
+
+    if (!rulesetData.name || !rulesetData.rules) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: name and rules are required'
+      });
+    }
+
+    if (rulesetData.effectiveDate && Number.isNaN(new Date(rulesetData.effectiveDate).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'effectiveDate must be a valid date'
+      });
+    }
+
+    const ruleset = await createRuleset(rulesetData, req.user?._id?.toString());
+
+    res.status(201).json({
+      success: true,
+      data: ruleset
+    });
+  } catch (error) {
+    console.error('Error creating underwriting ruleset:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = message.startsWith('Invalid ruleset') || message.startsWith('Validation failed')
+      ? 400
+      : message.includes('already exists') ? 409 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+// ACTIVATE / RETIRE - PATCH /api/underwriting/rulesets/:version/status
+router.patch('/rulesets/:version/status', requireAdmin, async (req, res) => {
+  try {
+    const version = parseInt(req.params.version);
+    const { isActive } = req.body;
+
+    if (Number.isNaN(version) || typeof isActive !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'A numeric version and boolean isActive are required'
+      });
+    }
+
+    const ruleset = await setRulesetActive(version, isActive);
+
+    res.json({
+      success: true,
+      data: ruleset
+    });
+  } catch (error) {
+    console.error('Error updating underwriting ruleset status:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    res.status(message === 'Ruleset not found' ? 404 : 500).json({
+      success: false,
+      error: message
+    });
+  }
+});
+
+export default router;
@@ -1,40 +1,55 @@
 /**
- * FormStateService - In-memory form state management
+ * FormStateService - Form state session management
  *
- * Manages form state for SBA loan applications in memory to avoid
- * repeated database reads. State is loaded once at session start
- * and saved at session end or on periodic auto-save.
+ * Manages form state for SBA loan applications in a session store to avoid
+ * repeated application reads. State is loaded once at session start, every
+ * field change is persisted to the store atomically, and the changed fields
+ * are saved to the application at session end, on auto-save, or when the
+ * session goes idle. Voice and chat share one session per application.
  */
 
+import { Types } from 'mongoose';
 import { Application } from '../models/Application.js';
 import {
-  SBA_1919_FIELD_NAMES,
-  SBA_413_FIELD_NAMES,
-  SBA_1919_REQUIRED,
-  SBA_413_REQUIRED,
   createEmptyFieldsObject,
   getFieldNamesForForm,
   getRequiredFieldsForForm,
   isFieldRequired,
-  getFieldLabel
+  getFieldLabel,
+  getComputedFieldsForForm
 } from './formFields.js';
 import { getFieldMapping, getEntityTypeMapping } from './fieldMapping.js';
+import { getFormLabel, getFormStoragePath, getFormTypes, isRegisteredForm } from './formRegistry.js';
+import {
+  FormStateBackend,
+  createMemoryFormStateBackend,
+  createMongoFormStateBackend
+} from './formStateBackends.js';
+import { describeValidationErrors, normalizeFieldValue, validateFormFields } from './fieldValidation.js';
+import { computeDerivedFields, checkFormConsistency } from './derivedFields.js';
+import {
+  businessLinesOf,
+  ownerFromForm1919Row,
+  ownerRowField,
+  ownerValueFromRow,
+  ownersFromForm1919Rows,
+  parseOwnerRowField,
+  read413Statement,
+  seedOwner413Fields
+} from './ownerFields.js';
+import { FieldValidationError, FormConsistencyIssue, FormSessionRecord, FormType, SBAApplication } from '../types/index.js';
 
 // ==============================
 // TYPES FOR PROGRESS
 // ==============================
 
-export interface FormProgress {
-  SBA_1919: number;
-  SBA_413: number;
-}
+// Percent complete for every registered form
+export type FormProgress = Record<FormType, number>;
 
 // ==============================
 // TYPES
 // ==============================
 
-export type FormType = 'SBA_1919' | 'SBA_413';
-
 export interface FormStateEntry {
   filledFields: string[];
   emptyFields: string[];
@@ -47,10 +62,13 @@ export interface FormStateEntry {
 export interface FormState {
   applicationId: string;
   currentForm: FormType | null;
+  forms: Record<FormType, FormStateEntry>;   // Every registered form
   sba1919: FormStateEntry;
   sba413: FormStateEntry;
   dirty: boolean;
   lastSaved: Date | null;
+  version: number;
+  currentOwnerId: string | null;  // Whose Form 413 sba413 holds
 }
 
 export interface UpdateFieldResult {
@@ -58,6 +76,12 @@ export interface UpdateFieldResult {
   nextField: string | null;
   isSubmittable: boolean;
   message?: string;
+  conflict?: boolean;  // expectedVersion was stale - another channel changed the session
+  version?: number;    // Session version after the write (or the current one on conflict)
+  value?: string | boolean;        // The value as stored, after normalization
+  errors?: FieldValidationError[]; // Why the value was refused, to read back to the user
+  computed?: Record<string, string>;  // Derived fields recalculated by this write
+  warnings?: FormConsistencyIssue[];  // Lines that don't fit together - mention, don't block
 }
 
 export interface SkipFieldResult {
@@ -68,16 +92,44 @@ export interface SkipFieldResult {
   message?: string;
 }
 
-export interface CrossFormUpdateResult {
-  SBA_1919: UpdateFieldResult | null;
-  SBA_413: UpdateFieldResult | null;
+export interface CompleteFormData {
+  fields: Record<string, string | boolean>;
+  progress: number;
+  submittable: boolean;
+  readOnly: string[];                 // Computed fields - the frontend shouldn't let these be edited
+  warnings: FormConsistencyIssue[];
+}
+
+// One entry for every form the unified field maps to
+export type CrossFormUpdateResult = Record<FormType, UpdateFieldResult | null>;
+
+export interface SwitchOwnerResult {
+  success: boolean;
+  message?: string;
+  state?: FormState;
 }
 
 // ==============================
-// IN-MEMORY STATE STORE
+// STATE BACKEND
 // ==============================
 
-const stateStore: Map<string, FormState> = new Map();
+// Sessions untouched for this long are saved to the application and ended by the sweeper
+const IDLE_TTL_MS = Number(process.env.FORM_SESSION_IDLE_TTL_MS) || 30 * 60 * 1000;
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+
+// Compare-and-set attempts before giving up on a session that keeps changing underneath us
+const MAX_CAS_ATTEMPTS = 5;
+
+let backend: FormStateBackend = process.env.FORM_STATE_BACKEND === 'memory'
+  ? createMemoryFormStateBackend()
+  : createMongoFormStateBackend();
+
+/**
+ * Swap the session store (e.g. the in-memory backend for local runs)
+ */
+export const setFormStateBackend = (next: FormStateBackend): void => {
+  backend = next;
+};
 
 // ==============================
 // HELPER FUNCTIONS
@@ -92,13 +144,17 @@ const calculateFieldLists = (
   allFields: Record<string, string | boolean>
 ): Pick<FormStateEntry, 'filledFields' | 'emptyFields' | 'missingRequired' | 'isSubmittable'> => {
   const fieldNames = getFieldNamesForForm(formType);
-  const requiredFields = getRequiredFieldsForForm(formType);
+  const requiredFields = getRequiredFieldsForForm(formType, allFields);
+  const computedFields = getComputedFieldsForForm(formType);
 
   const filledFields: string[] = [];
   const emptyFields: string[] = [];
 
   for (const name of fieldNames) {
     const value = allFields[name];
+    // Computed fields fill themselves - never list them as a field to ask for
+    if (computedFields.includes(name) && value === '') continue;
+
     // For booleans: true = filled, false = empty
     // For strings: non-empty trimmed string = filled
     const isFilled = typeof value === 'boolean'
@@ -119,39 +175,203 @@ const calculateFieldLists = (
 };
 
 /**
- * Create initial form state entry
+ * A form's values in a stored session - sessions started before a form was registered don't have it yet
  */
-const createFormStateEntry = (
-  formType: FormType,
-  existingFields?: Record<string, string | boolean>
-): FormStateEntry => {
-  const allFields = existingFields || createEmptyFieldsObject(formType);
-  const { filledFields, emptyFields, missingRequired, isSubmittable } = calculateFieldLists(formType, allFields);
+const formFieldsOf = (record: FormSessionRecord, formType: FormType): Record<string, string | boolean> =>
+  record.fields[formType] || createEmptyFieldsObject(formType);
+
+/**
+ * Build a form state entry from a stored session
+ */
+const toFormStateEntry = (record: FormSessionRecord, formType: FormType): FormStateEntry => {
+  const allFields = formFieldsOf(record, formType);
 
   return {
-    filledFields,
-    emptyFields,
-    missingRequired,
-    isSubmittable,
+    ...calculateFieldLists(formType, allFields),
     allFields,
-    currentFieldIndex: 0
+    currentFieldIndex: record.currentFieldIndex[formType] || 0
+  };
+};
+
+/**
+ * Build the full form state from a stored session
+ */
+const toFormState = (record: FormSessionRecord): FormState => {
+  const forms: Record<FormType, FormStateEntry> = {};
+  for (const formType of getFormTypes()) {
+    forms[formType] = toFormStateEntry(record, formType);
+  }
+
+  return {
+    applicationId: record.applicationId,
+    currentForm: record.currentForm,
+    forms,
+    sba1919: forms.SBA_1919,
+    sba413: forms.SBA_413,
+    dirty: record.dirtyFields.length > 0,
+    lastSaved: record.lastSaved,
+    version: record.version,
+    currentOwnerId: record.currentOwnerId ?? null
   };
 };
 
+/**
+ * Progress percentages for a loaded state
+ */
+const progressOf = (state: FormState): FormProgress => {
+  const progress: FormProgress = {};
+  for (const [formType, entry] of Object.entries(state.forms)) {
+    const total = getFieldNamesForForm(formType).length;
+    progress[formType] = total > 0 ? Math.round((entry.filledFields.length / total) * 100) : 0;
+  }
+  return progress;
+};
+
+/**
+ * Form 1919 row number of an owner, or null when the owner isn't on the application
+ */
+const ownerSlotOf = async (applicationId: string, ownerId: string | null): Promise<number | null> => {
+  if (!ownerId) return null;
+  const application = await Application.findById(applicationId).select('owners._id');
+  const index = (application?.owners || []).findIndex((owner) => String(owner._id) === ownerId);
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * Carry owner rows edited on Form 1919 over to the owners they belong to
+ * A name typed into the first empty row adds that owner
+ */
+const syncOwnersFromForm1919Rows = async (
+  application: SBAApplication,
+  fields: Record<string, string | boolean>,
+  rowFields: string[]
+): Promise<void> => {
+  const owners = application.owners || [];
+  const slots = [...new Set(rowFields.map((name) => parseOwnerRowField(name)!.slot))].sort((a, b) => a - b);
+
+  for (const slot of slots) {
+    const owner = owners[slot - 1];
+    if (owner) {
+      for (const name of rowFields) {
+        const row = parseOwnerRowField(name)!;
+        if (row.slot !== slot) continue;
+        const value = ownerValueFromRow(row.key, fields[name]);
+        // A cleared name leaves the owner in place - owners are removed explicitly, never by blanking a row
+        if (row.key === 'name' && value === undefined) continue;
+        Object.assign(owner, { [row.key]: value });
+      }
+    } else if (slot === owners.length + 1) {
+      const added = ownerFromForm1919Row(fields, slot);
+      if (!added) continue;
+      owners.push({
+        ...added,
+        sba413Fields: seedOwner413Fields(added, businessLinesOf(read413Statement(application.sba413Fields as Record<string, string | boolean>))),
+        signingStatus: 'not_started'
+      });
+      console.log(`👥 Added owner "${added.name}" from Form 1919 row ${slot}`);
+    }
+  }
+
+  application.markModified('owners');
+  await application.save();
+};
+
+/**
+ * Write the session's unsaved fields to the application
+ * Returns the session version after the save, or null if there was nothing to save or it failed
+ */
+const persistSession = async (applicationId: string): Promise<number | null> => {
+  for (let attempt = 1; attempt <= MAX_CAS_ATTEMPTS; attempt++) {
+    const record = await backend.get(applicationId);
+    if (!record) {
+      console.warn(`⚠️ No session to save for ${applicationId}`);
+      return null;
+    }
+
+    if (record.dirtyFields.length === 0) {
+      console.log(`📋 No changes to save for ${applicationId}`);
+      return record.version;
+    }
+
+    // Build $set object with dot notation for the changed fields only. Form 413 belongs to the
+    // current owner once the application has owners
+    const updateFields: Record<string, any> = {};
+    const ownerRowFields: string[] = [];
+    for (const path of record.dirtyFields) {
+      const [formType, fieldName] = path.split('.') as [FormType, string];
+      const target = formType === 'SBA_413' && record.currentOwnerId
+        ? 'owners.$[owner].sba413Fields'
+        : getFormStoragePath(formType);
+      updateFields[`${target}.${fieldName}`] = record.fields[formType][fieldName];
+      if (formType === 'SBA_1919' && parseOwnerRowField(fieldName)) ownerRowFields.push(fieldName);
+    }
+
+    console.log(`💾 Updating ${Object.keys(updateFields).length} fields for ${applicationId}`);
+
+    const writesOwnerStatement = Object.keys(updateFields).some((path) => path.startsWith('owners.'));
+
+    // Update with $set operator for atomic field-level updates
+    const application = await Application.findByIdAndUpdate(
+      applicationId,
+      { $set: updateFields },
+      {
+        new: true,
+        strict: false, // Return updated doc, disable strict mode for nested fields
+        ...(writesOwnerStatement && { arrayFilters: [{ 'owner._id': new Types.ObjectId(record.currentOwnerId!) }] })
+      }
+    );
+
+    if (application && ownerRowFields.length > 0) {
+      await syncOwnersFromForm1919Rows(application, record.fields.SBA_1919, ownerRowFields);
+    }
+
+    // Only clear the dirty flags if nobody changed the session while we were writing
+    const saved = await backend.update(
+      applicationId,
+      { saved: { at: new Date(), fields: record.dirtyFields } },
+      record.version
+    );
+    if (saved) {
+      console.log(`✅ Saved form state for ${applicationId} (${Object.keys(updateFields).length} fields)`);
+      return saved.version;
+    }
+  }
+
+  console.warn(`⚠️ Form state for ${applicationId} kept changing during save - remaining changes stay pending`);
+  return null;
+};
+
+/**
+ * Next empty field after the given position, wrapping to the beginning
+ */
+const findNextEmptyField = (
+  fieldNames: string[],
+  emptyFields: string[],
+  fromIndex: number
+): string | null => {
+  for (let i = fromIndex + 1; i < fieldNames.length; i++) {
+    if (emptyFields.includes(fieldNames[i])) return fieldNames[i];
+  }
+  for (let i = 0; i < fromIndex; i++) {
+    if (emptyFields.includes(fieldNames[i])) return fieldNames[i];
+  }
+  return null;
+};
+
 // ==============================
 // SERVICE METHODS
 // ==============================
 
 /**
  * Start a form state session for an application
- * Loads data from DB once and caches in memory
+ * Loads data from DB once; the session is then shared by every channel working on the application
  */
 export const startSession = async (applicationId: string): Promise<FormState> => {
-  // Check if already in memory
-  const existing = stateStore.get(applicationId);
+  // Check if a session is already running
+  const existing = await backend.get(applicationId);
   if (existing) {
     console.log(`📋 Form state session already exists for ${applicationId}`);
-    return existing;
+    return toFormState(existing);
   }
 
   console.log(`📋 Starting form state session for ${applicationId}`);
@@ -159,355 +379,523 @@ export const startSession = async (applicationId: string): Promise<FormState> =>
   // Load from database
   const application = await Application.findById(applicationId);
 
-  let sba1919Fields: Record<string, string | boolean> = createEmptyFieldsObject('SBA_1919');
-  let sba413Fields: Record<string, string | boolean> = createEmptyFieldsObject('SBA_413');
+  const fields: Record<FormType, Record<string, string | boolean>> = {};
+  for (const formType of getFormTypes()) {
+    fields[formType] = createEmptyFieldsObject(formType);
+  }
+  let currentOwnerId: string | null = null;
 
   if (application) {
-    // Load existing field values if available
-    if (application.get('sba1919Fields')) {
-      sba1919Fields = { ...sba1919Fields, ...application.get('sba1919Fields') };
+    // Load existing field values if available - known fields only, so no Mongoose internals
+    // end up in the stored session. Form 413 is the current owner's, loaded below
+    for (const formType of getFormTypes().filter((type) => type !== 'SBA_413')) {
+      for (const name of getFieldNamesForForm(formType)) {
+        const value = application.get(`${getFormStoragePath(formType)}.${name}`);
+        if (value !== undefined && value !== null) fields[formType][name] = value;
+      }
     }
-    if (application.get('sba413Fields')) {
-      sba413Fields = { ...sba413Fields, ...application.get('sba413Fields') };
+    const applicationStatement = read413Statement(application.sba413Fields as Record<string, string | boolean>);
+
+    // Applications filled in before owners were tracked get them from their Form 1919 rows;
+    // the statement already on the application is the first owner's
+    if ((application.owners || []).length === 0) {
+      const legacyOwners = ownersFromForm1919Rows(fields.SBA_1919);
+      if (legacyOwners.length > 0) {
+        application.owners = legacyOwners.map((owner, index) => ({
+          ...owner,
+          sba413Fields: index === 0 ? applicationStatement : seedOwner413Fields(owner, businessLinesOf(applicationStatement)),
+          signingStatus: 'not_started' as const
+        }));
+        await application.save();
+        console.log(`👥 Created ${legacyOwners.length} owners from Form 1919 rows for ${applicationId}`);
+      }
+    }
+
+    // The session starts on the first owner's Form 413
+    const firstOwner = application.owners?.[0];
+    if (firstOwner) {
+      currentOwnerId = String(firstOwner._id);
+      fields.SBA_413 = read413Statement(firstOwner.sba413Fields);
+    } else {
+      fields.SBA_413 = applicationStatement;
     }
   }
 
-  const state: FormState = {
+  // Totals dictated before they were computed may be stale - bring them in line and save them later
+  const derived413 = computeDerivedFields('SBA_413', fields.SBA_413, null);
+  Object.assign(fields.SBA_413, derived413);
+
+  // Another channel may have started the same session meanwhile - create returns whichever won
+  const record = await backend.create({
     applicationId,
     currentForm: null,
-    sba1919: createFormStateEntry('SBA_1919', sba1919Fields),
-    sba413: createFormStateEntry('SBA_413', sba413Fields),
-    dirty: false,
-    lastSaved: null
-  };
-
-  stateStore.set(applicationId, state);
+    currentOwnerId,
+    fields,
+    currentFieldIndex: Object.fromEntries(getFormTypes().map((formType) => [formType, 0])),
+    dirtyFields: Object.keys(derived413).map((name) => `SBA_413.${name}`),
+    version: 0,
+    lastSaved: null,
+    lastActivityAt: new Date()
+  });
+
+  const state = toFormState(record);
   console.log(`✅ Form state session started for ${applicationId}`);
   console.log(state)
   return state;
 };
 
 /**
- * Get current form state from memory (no DB read)
+ * Get current form state from the session store (no application read)
  */
-export const getState = (applicationId: string): FormState | null => {
-  return stateStore.get(applicationId) || null;
+export const getState = async (applicationId: string): Promise<FormState | null> => {
+  const record = await backend.get(applicationId);
+  return record ? toFormState(record) : null;
 };
 
 /**
- * Check if a session exists in memory
+ * Check if a session exists
  */
-export const hasSession = (applicationId: string): boolean => {
-  return stateStore.has(applicationId);
+export const hasSession = async (applicationId: string): Promise<boolean> => {
+  return (await backend.get(applicationId)) !== null;
 };
 
 /**
  * Set the current active form
  */
-export const setCurrentForm = (applicationId: string, formType: FormType): boolean => {
-  const state = stateStore.get(applicationId);
-  if (!state) {
+export const setCurrentForm = async (applicationId: string, formType: FormType): Promise<boolean> => {
+  if (!isRegisteredForm(formType)) {
+    console.warn(`⚠️ Unknown form ${formType}`);
+    return false;
+  }
+
+  const record = await backend.update(applicationId, { currentForm: formType });
+  if (!record) {
     console.warn(`⚠️ No session found for ${applicationId}`);
     return false;
   }
 
-  state.currentForm = formType;
   return true;
 };
 
 /**
- * Update a field value in memory
- * Returns the next empty field automatically
+ * Switch the owner whose Form 413 the session is filling
+ * The current owner's statement is saved first, so nothing typed for them carries over to the next one
+ */
+export const switchOwner = async (applicationId: string, ownerId: string): Promise<SwitchOwnerResult> => {
+  for (let attempt = 1; attempt <= MAX_CAS_ATTEMPTS; attempt++) {
+    const savedVersion = await persistSession(applicationId);
+    if (savedVersion === null) {
+      return { success: false, message: `No session found for ${applicationId}, or it couldn't be saved` };
+    }
+
+    const application = await Application.findById(applicationId).select('owners');
+    const owner = application?.owners?.find((candidate) => String(candidate._id) === ownerId);
+    if (!owner) {
+      return { success: false, message: `Owner ${ownerId} not found` };
+    }
+
+    // Totals may be stale here too - bring them in line like a freshly started session
+    const fields = read413Statement(owner.sba413Fields);
+    Object.assign(fields, computeDerivedFields('SBA_413', fields, null));
+
+    // Only if nobody wrote to the old owner's statement since it was saved; otherwise save again
+    const record = await backend.update(applicationId, { owner: { id: ownerId, fields } }, savedVersion);
+    if (record) {
+      console.log(`👤 Form 413 for ${applicationId} switched to owner "${owner.name}"`);
+      return { success: true, state: toFormState(record) };
+    }
+  }
+
+  return { success: false, message: 'The form is being changed elsewhere - try again' };
+};
+
+/**
+ * Mirror owner changes made outside the session into its Form 1919 owner rows
+ * The values come from the owners collection and were validated there
+ */
+export const syncOwnerRows = async (
+  applicationId: string,
+  rows: Record<string, string>
+): Promise<boolean> => {
+  const record = await backend.update(applicationId, {
+    fields: Object.entries(rows).map(([fieldName, value]) => ({ formType: 'SBA_1919' as FormType, fieldName, value }))
+  });
+  return record !== null;
+};
+
+/**
+ * Update a field value in the session
+ * Returns the next empty field automatically. Pass expectedVersion (the version the caller last saw)
+ * to refuse the write if another channel changed the session since.
  */
-export const updateField = (
+export const updateField = async (
   applicationId: string,
   formType: FormType,
   fieldName: string,
-  value: string | boolean
-): UpdateFieldResult => {
-  const state = stateStore.get(applicationId);
-  if (!state) {
-    return {
-      success: false,
-      nextField: null,
-      isSubmittable: false,
-      message: `No session found for ${applicationId}`
-    };
-  }
-
-  const formState = formType === 'SBA_1919' ? state.sba1919 : state.sba413;
+  value: string | boolean,
+  options: { expectedVersion?: number } = {}
+): Promise<UpdateFieldResult> => {
   const fieldNames = getFieldNamesForForm(formType);
 
   // Validate field exists
   if (!fieldNames.includes(fieldName)) {
+    const state = await getState(applicationId);
     return {
       success: false,
       nextField: null,
-      isSubmittable: formState.isSubmittable,
-      message: `Unknown field: ${fieldName}`
+      isSubmittable: state?.forms[formType]?.isSubmittable ?? false,
+      message: !state
+        ? `No session found for ${applicationId}`
+        : isRegisteredForm(formType) ? `Unknown field: ${fieldName}` : `Unknown form: ${formType}`
     };
   }
 
-  // Update the field
-  formState.allFields[fieldName] = value;
-  state.dirty = true;
+  // Check the value's format and store it in its normalized form
+  const normalized = normalizeFieldValue(formType, fieldName, value);
+  const currentIndex = fieldNames.indexOf(fieldName);
+  let record: FormSessionRecord | null = null;
+  let computed: Record<string, string> = {};
+
+  for (let attempt = 1; attempt <= MAX_CAS_ATTEMPTS && !record; attempt++) {
+    const current = await backend.get(applicationId);
+    if (!current) {
+      return {
+        success: false,
+        nextField: null,
+        isSubmittable: false,
+        message: `No session found for ${applicationId}`
+      };
+    }
 
-  // Recalculate field lists
-  const { filledFields, emptyFields, missingRequired, isSubmittable } = calculateFieldLists(
-    formType,
-    formState.allFields
-  );
-  formState.filledFields = filledFields;
-  formState.emptyFields = emptyFields;
-  formState.missingRequired = missingRequired;
-  formState.isSubmittable = isSubmittable;
+    if (options.expectedVersion !== undefined && current.version !== options.expectedVersion) {
+      console.warn(`⚠️ Version conflict on ${formType}.${fieldName} for ${applicationId} (expected ${options.expectedVersion}, now ${current.version})`);
+      return {
+        success: false,
+        nextField: null,
+        isSubmittable: calculateFieldLists(formType, formFieldsOf(current, formType)).isSubmittable,
+        message: `The form was changed elsewhere (now at version ${current.version}) - reload it and try again`,
+        conflict: true,
+        version: current.version
+      };
+    }
 
-  // Find current field index and determine next field
-  const currentIndex = fieldNames.indexOf(fieldName);
-  formState.currentFieldIndex = currentIndex;
-
-  // Get next empty field after current position
-  let nextField: string | null = null;
-  for (let i = currentIndex + 1; i < fieldNames.length; i++) {
-    if (emptyFields.includes(fieldNames[i])) {
-      nextField = fieldNames[i];
-      break;
+    // Rules spanning several fields are checked against the session as it will be after the write
+    const updatedFields = { ...formFieldsOf(current, formType), [fieldName]: normalized.value };
+    const errors = normalized.error
+      ? [normalized.error]
+      : validateFormFields(formType, updatedFields, [fieldName]);
+    if (errors.length > 0) {
+      console.log(`🚫 Rejected ${formType}.${fieldName} = "${value}": ${describeValidationErrors(errors)}`);
+      return {
+        success: false,
+        nextField: null,
+        isSubmittable: calculateFieldLists(formType, formFieldsOf(current, formType)).isSubmittable,
+        message: describeValidationErrors(errors),
+        errors,
+        version: current.version
+      };
     }
-  }
 
-  // If no empty field after current, wrap to beginning
-  if (!nextField) {
-    for (let i = 0; i < currentIndex; i++) {
-      if (emptyFields.includes(fieldNames[i])) {
-        nextField = fieldNames[i];
-        break;
-      }
+    // Totals that depend on this field are recomputed and written along with it
+    computed = computeDerivedFields(formType, updatedFields, [fieldName]);
+
+    // The write, its derived fields and the index move are one atomic change, made only if the session
+    // is still the one validated above; otherwise validate again
+    record = await backend.update(
+      applicationId,
+      {
+        fields: [
+          { formType, fieldName, value: normalized.value },
+          ...Object.entries(computed).map(([name, derived]) => ({ formType, fieldName: name, value: derived }))
+        ],
+        currentFieldIndex: { [formType]: currentIndex }
+      },
+      current.version
+    );
+
+    if (!record && options.expectedVersion !== undefined) {
+      const latest = await backend.get(applicationId);
+      return {
+        success: false,
+        nextField: null,
+        isSubmittable: latest ? calculateFieldLists(formType, formFieldsOf(latest, formType)).isSubmittable : false,
+        message: `The form was changed elsewhere (now at version ${latest?.version}) - reload it and try again`,
+        conflict: true,
+        version: latest?.version
+      };
     }
   }
 
-  console.log(`📝 Updated ${formType}.${fieldName} = "${value}", next: ${nextField || 'COMPLETE'}`);
+  if (!record) {
+    return {
+      success: false,
+      nextField: null,
+      isSubmittable: false,
+      message: 'The form is being changed elsewhere - try again'
+    };
+  }
+
+  // Recalculate field lists and get next empty field after current position
+  const { emptyFields, isSubmittable } = calculateFieldLists(formType, formFieldsOf(record, formType));
+  const nextField = findNextEmptyField(fieldNames, emptyFields, currentIndex);
+
+  const warnings = checkFormConsistency(formType, formFieldsOf(record, formType));
+
+  console.log(`📝 Updated ${formType}.${fieldName} = "${normalized.value}", next: ${nextField || 'COMPLETE'}`);
+  if (Object.keys(computed).length > 0) {
+    console.log(`🧮 Recomputed ${Object.entries(computed).map(([name, derived]) => `${name} = ${derived || '(empty)'}`).join(', ')}`);
+  }
 
   return {
     success: true,
     nextField,
     isSubmittable,
-    message: nextField ? undefined : 'All fields filled'
+    message: nextField ? undefined : 'All fields filled',
+    version: record.version,
+    value: normalized.value,
+    computed: Object.keys(computed).length > 0 ? computed : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined
   };
 };
 
 /**
  * Skip the current field and move to next
  */
-export const skipField = (
+export const skipField = async (
   applicationId: string,
   formType: FormType
-): SkipFieldResult => {
-  const state = stateStore.get(applicationId);
-  if (!state) {
-    return {
-      success: false,
-      skippedField: '',
-      nextField: null,
-      wasRequired: false,
-      message: `No session found for ${applicationId}`
-    };
-  }
-
-  const formState = formType === 'SBA_1919' ? state.sba1919 : state.sba413;
+): Promise<SkipFieldResult> => {
   const fieldNames = getFieldNamesForForm(formType);
 
-  // Get current field (the one being skipped)
-  const currentIndex = formState.currentFieldIndex;
-  const skippedField = formState.emptyFields[0] || fieldNames[currentIndex] || '';
-  const wasRequired = isFieldRequired(formType, skippedField);
+  for (let attempt = 1; attempt <= MAX_CAS_ATTEMPTS; attempt++) {
+    const record = await backend.get(applicationId);
+    if (!record) {
+      return {
+        success: false,
+        skippedField: '',
+        nextField: null,
+        wasRequired: false,
+        message: `No session found for ${applicationId}`
+      };
+    }
 
-  // Find next empty field
-  const skippedIndex = fieldNames.indexOf(skippedField);
-  let nextField: string | null = null;
+    const formState = toFormStateEntry(record, formType);
 
-  for (let i = skippedIndex + 1; i < fieldNames.length; i++) {
-    if (formState.emptyFields.includes(fieldNames[i])) {
-      nextField = fieldNames[i];
-      formState.currentFieldIndex = i;
-      break;
-    }
-  }
+    // Get current field (the one being skipped)
+    const currentIndex = formState.currentFieldIndex;
+    const skippedField = formState.emptyFields[0] || fieldNames[currentIndex] || '';
+    const wasRequired = isFieldRequired(formType, skippedField, formState.allFields);
 
-  // If no more empty fields, form is complete (or all remaining are skipped)
-  if (!nextField && formState.emptyFields.length > 1) {
-    // Wrap around to find any remaining empty fields
-    for (let i = 0; i < skippedIndex; i++) {
+    // Find next empty field
+    const skippedIndex = fieldNames.indexOf(skippedField);
+    let nextField: string | null = null;
+
+    for (let i = skippedIndex + 1; i < fieldNames.length; i++) {
       if (formState.emptyFields.includes(fieldNames[i])) {
         nextField = fieldNames[i];
-        formState.currentFieldIndex = i;
         break;
       }
     }
-  }
 
-  console.log(`⏭️ Skipped ${formType}.${skippedField} (required: ${wasRequired}), next: ${nextField || 'COMPLETE'}`);
+    // If no more empty fields, form is complete (or all remaining are skipped)
+    if (!nextField && formState.emptyFields.length > 1) {
+      // Wrap around to find any remaining empty fields
+      for (let i = 0; i < skippedIndex; i++) {
+        if (formState.emptyFields.includes(fieldNames[i])) {
+          nextField = fieldNames[i];
+          break;
+        }
+      }
+    }
+
+    // Move the cursor only if the session is still the one we looked at; otherwise look again
+    if (nextField) {
+      const moved = await backend.update(
+        applicationId,
+        { currentFieldIndex: { [formType]: fieldNames.indexOf(nextField) } },
+        record.version
+      );
+      if (!moved) continue;
+    }
+
+    console.log(`⏭️ Skipped ${formType}.${skippedField} (required: ${wasRequired}), next: ${nextField || 'COMPLETE'}`);
+
+    return {
+      success: true,
+      skippedField,
+      nextField,
+      wasRequired,
+      message: wasRequired ? `Skipped required field: ${getFieldLabel(formType, skippedField)}` : undefined
+    };
+  }
 
   return {
-    success: true,
-    skippedField,
-    nextField,
-    wasRequired,
-    message: wasRequired ? `Skipped required field: ${getFieldLabel(formType, skippedField)}` : undefined
+    success: false,
+    skippedField: '',
+    nextField: null,
+    wasRequired: false,
+    message: 'The form is being changed elsewhere - try again'
   };
 };
 
 /**
  * Get the next empty field for a form
  */
-export const getNextField = (applicationId: string, formType: FormType): string | null => {
-  const state = stateStore.get(applicationId);
+export const getNextField = async (applicationId: string, formType: FormType): Promise<string | null> => {
+  const state = await getState(applicationId);
   if (!state) return null;
 
-  const formState = formType === 'SBA_1919' ? state.sba1919 : state.sba413;
-  return formState.emptyFields[0] || null;
+  return state.forms[formType]?.emptyFields[0] || null;
 };
 
 /**
- * Save current state to database
+ * Save unsaved field changes to the application
  */
 export const saveSession = async (applicationId: string): Promise<boolean> => {
-  const state = stateStore.get(applicationId);
-  if (!state) {
-    console.warn(`⚠️ No session to save for ${applicationId}`);
+  try {
+    return (await persistSession(applicationId)) !== null;
+  } catch (error) {
+    console.error(`❌ Failed to save form state for ${applicationId}:`, error);
     return false;
   }
+};
 
-  if (!state.dirty) {
-    console.log(`📋 No changes to save for ${applicationId}`);
-    return true;
+/**
+ * End session - save to DB and remove the session
+ * A session that couldn't be saved, or that another channel changed after the save, is kept
+ */
+export const endSession = async (applicationId: string): Promise<boolean> => {
+  let savedVersion: number | null = null;
+  try {
+    savedVersion = await persistSession(applicationId);
+  } catch (error) {
+    console.error(`❌ Failed to save form state for ${applicationId}:`, error);
   }
 
-  try {
-    // Build $set object with dot notation for individual field updates
-    const updateFields: Record<string, any> = {};
+  if (savedVersion === null) {
+    console.warn(`⚠️ Keeping form state session for ${applicationId} - it wasn't saved`);
+    return false;
+  }
 
-    // Add SBA 1919 fields with dot notation
-    for (const [fieldName, fieldValue] of Object.entries(state.sba1919.allFields)) {
-      updateFields[`sba1919Fields.${fieldName}`] = fieldValue;
-    }
+  if (!(await backend.delete(applicationId, savedVersion))) {
+    console.log(`📋 Form state session for ${applicationId} is still in use - kept`);
+    return true;
+  }
 
-    // Add SBA 413 fields with dot notation
-    for (const [fieldName, fieldValue] of Object.entries(state.sba413.allFields)) {
-      updateFields[`sba413Fields.${fieldName}`] = fieldValue;
-    }
+  console.log(`🔚 Ended form state session for ${applicationId}`);
+  return true;
+};
 
-    console.log(`💾 Updating ${Object.keys(updateFields).length} fields for ${applicationId}`);
+/**
+ * Save and end sessions nobody has touched for IDLE_TTL_MS
+ */
+export const endIdleSessions = async (): Promise<number> => {
+  const idle = await backend.listIdle(new Date(Date.now() - IDLE_TTL_MS));
+  let ended = 0;
 
-    // Update with $set operator for atomic field-level updates
-    await Application.findByIdAndUpdate(
-      applicationId,
-      { $set: updateFields },
-      { new: true, strict: false } // Return updated doc, disable strict mode for nested fields
-    );
+  for (const applicationId of idle) {
+    if (await endSession(applicationId)) ended++;
+  }
 
-    state.dirty = false;
-    state.lastSaved = new Date();
-    console.log(`✅ Saved form state for ${applicationId} (${Object.keys(updateFields).length} fields)`);
-    return true;
-  } catch (error) {
-    console.error(`❌ Failed to save form state for ${applicationId}:`, error);
-    return false;
+  if (idle.length > 0) {
+    console.log(`🧹 Ended ${ended}/${idle.length} idle form state sessions`);
   }
+  return ended;
 };
 
 /**
- * End session - save to DB and remove from memory
+ * Start the idle session sweeper
  */
-export const endSession = async (applicationId: string): Promise<boolean> => {
-  const saved = await saveSession(applicationId);
-  stateStore.delete(applicationId);
-  console.log(`🔚 Ended form state session for ${applicationId}`);
-  return saved;
+export const startFormSessionSweeper = (): void => {
+  const sweep = async () => {
+    try {
+      await endIdleSessions();
+    } catch (error) {
+      console.error('❌ Form state sweep failed:', error);
+    } finally {
+      setTimeout(sweep, SWEEP_INTERVAL);
+    }
+  };
+
+  console.log(`🧹 Form state sweeper started (idle after ${Math.round(IDLE_TTL_MS / 60000)} min)`);
+  setTimeout(sweep, SWEEP_INTERVAL);
 };
 
 /**
  * Get minimal state context for LLM injection
  */
-export const getStateContext = (applicationId: string): string => {
-  const state = stateStore.get(applicationId);
+export const getStateContext = async (applicationId: string): Promise<string> => {
+  const state = await getState(applicationId);
   if (!state) {
     return '[FORM STATE]\nNo active form session.';
   }
 
   const currentForm = state.currentForm || 'None';
-  const form1919 = state.sba1919;
-  const form413 = state.sba413;
+  const forms = Object.entries(state.forms);
+  const current = state.currentForm ? state.forms[state.currentForm] : undefined;
 
   // Get next field for current form
-  let nextField = 'N/A';
-  if (state.currentForm === 'SBA_1919' && form1919.emptyFields.length > 0) {
-    nextField = form1919.emptyFields[0];
-  } else if (state.currentForm === 'SBA_413' && form413.emptyFields.length > 0) {
-    nextField = form413.emptyFields[0];
-  } else if (state.currentForm && (
-    (state.currentForm === 'SBA_1919' && form1919.emptyFields.length === 0) ||
-    (state.currentForm === 'SBA_413' && form413.emptyFields.length === 0)
-  )) {
-    nextField = 'COMPLETE';
-  }
-
-  // Calculate total fields for each form
-  const total1919 = SBA_1919_FIELD_NAMES.length;
-  const total413 = SBA_413_FIELD_NAMES.length;
+  const nextField = !current ? 'N/A' : current.emptyFields[0] || 'COMPLETE';
+
+  const warnings = forms.flatMap(([formType, entry]) => checkFormConsistency(formType, entry.allFields));
+  const computed = forms.flatMap(([formType]) => getComputedFieldsForForm(formType));
 
   // Simplified context showing only progress and missing required fields
+  const progressLines = forms.map(([formType, entry]) => {
+    const total = getFieldNamesForForm(formType).length;
+    return `${getFormLabel(formType)} Progress: ${entry.filledFields.length}/${total} fields (${total > 0 ? Math.round((entry.filledFields.length / total) * 100) : 0}%)`;
+  });
+  const missingLines = forms.map(([formType, entry]) =>
+    `Missing Required (${getFormLabel(formType)}): ${entry.missingRequired.length > 0 ? entry.missingRequired.join(', ') : 'None'}`
+  );
+
   return `[FORM STATE]
 Current Form: ${currentForm}
-Form 1919 Progress: ${form1919.filledFields.length}/${total1919} fields (${Math.round((form1919.filledFields.length / total1919) * 100)}%)
-Form 413 Progress: ${form413.filledFields.length}/${total413} fields (${Math.round((form413.filledFields.length / total413) * 100)}%)
-Missing Required (1919): ${form1919.missingRequired.length > 0 ? form1919.missingRequired.join(', ') : 'None'}
-Missing Required (413): ${form413.missingRequired.length > 0 ? form413.missingRequired.join(', ') : 'None'}
+Form 413 Owner: ${state.sba413.allFields.name || 'Not set'}
+${progressLines.join('\n')}
+${missingLines.join('\n')}
 Next Field: ${nextField}
+Computed (read-only, never ask for these): ${computed.length > 0 ? computed.join(', ') : 'None'}
+Consistency Warnings: ${warnings.length > 0 ? warnings.map((warning) => warning.message).join(' ') : 'None'}
+Version: ${state.version}
   `;
 };
 
 /**
- * Check submission readiness for both forms
+ * Check submission readiness for every form
  */
-export const checkSubmissionReadiness = (applicationId: string): {
-  sba1919: { ready: boolean; missing: string[] };
-  sba413: { ready: boolean; missing: string[] };
+export const checkSubmissionReadiness = async (applicationId: string): Promise<{
+  forms: Record<FormType, { ready: boolean; missing: string[] }>;
   allReady: boolean;
-} => {
-  const state = stateStore.get(applicationId);
-  if (!state) {
-    return {
-      sba1919: { ready: false, missing: SBA_1919_REQUIRED },
-      sba413: { ready: false, missing: SBA_413_REQUIRED },
-      allReady: false
-    };
+}> => {
+  const state = await getState(applicationId);
+  const forms: Record<FormType, { ready: boolean; missing: string[] }> = {};
+
+  for (const formType of getFormTypes()) {
+    const entry = state?.forms[formType];
+    forms[formType] = entry
+      ? { ready: entry.isSubmittable, missing: entry.missingRequired }
+      : { ready: false, missing: getRequiredFieldsForForm(formType) };
   }
 
   return {
-    sba1919: {
-      ready: state.sba1919.isSubmittable,
-      missing: state.sba1919.missingRequired
-    },
-    sba413: {
-      ready: state.sba413.isSubmittable,
-      missing: state.sba413.missingRequired
-    },
-    allReady: state.sba1919.isSubmittable && state.sba413.isSubmittable
+    forms,
+    allReady: Object.values(forms).every((form) => form.ready)
   };
 };
 
 /**
  * Get all active sessions (for debugging/admin)
  */
-export const getActiveSessions = (): string[] => {
-  return Array.from(stateStore.keys());
+export const getActiveSessions = async (): Promise<string[]> => {
+  return backend.list();
 };
 
 /**
  * Clear all sessions (for testing/cleanup)
  */
-export const clearAllSessions = (): void => {
-  stateStore.clear();
+export const clearAllSessions = async (): Promise<void> => {
+  await backend.clear();
   console.log('🧹 Cleared all form state sessions');
 };
 
@@ -515,98 +903,110 @@ export const clearAllSessions = (): void => {
  * Calculate form completion progress percentage
  * Returns percentage (0-100) for each form based on filled fields
  */
-export const calculateProgress = (applicationId: string): FormProgress | null => {
-  const state = stateStore.get(applicationId);
-  if (!state) return null;
-
-  const totalFields1919 = SBA_1919_FIELD_NAMES.length;
-  const totalFields413 = SBA_413_FIELD_NAMES.length;
-
-  return {
-    SBA_1919: Math.round((state.sba1919.filledFields.length / totalFields1919) * 100),
-    SBA_413: Math.round((state.sba413.filledFields.length / totalFields413) * 100)
-  };
+export const calculateProgress = async (applicationId: string): Promise<FormProgress | null> => {
+  const state = await getState(applicationId);
+  return state ? progressOf(state) : null;
 };
 
 /**
- * Update a unified field across both forms
+ * Update a unified field across every form
  * Uses field mapping to determine which fields to update in each form
  */
-export const updateFieldAcrossForms = (
+export const updateFieldAcrossForms = async (
   applicationId: string,
   unifiedFieldName: string,
   value: string | boolean
-): CrossFormUpdateResult => {
+): Promise<CrossFormUpdateResult> => {
   const mapping = getFieldMapping(unifiedFieldName);
 
   if (!mapping) {
     console.warn(`⚠️ No mapping found for unified field: ${unifiedFieldName}`);
-    return { SBA_1919: null, SBA_413: null };
+    return {};
   }
 
-  const result: CrossFormUpdateResult = {
-    SBA_1919: null,
-    SBA_413: null
-  };
+  const formTypes = Object.keys(mapping.fields);
+  const result: CrossFormUpdateResult = Object.fromEntries(formTypes.map((formType) => [formType, null]));
+
+  // Refuse the value on every form if any form's format rejects it, so they never disagree
+  const formatErrors = formTypes
+    .map((formType) => normalizeFieldValue(formType, mapping.fields[formType], value).error)
+    .filter((error): error is FieldValidationError => Boolean(error));
 
-  if (mapping.SBA_1919) {
-    result.SBA_1919 = updateField(applicationId, 'SBA_1919', mapping.SBA_1919, value);
-    console.log(`📝 Updated SBA_1919.${mapping.SBA_1919} = "${value}"`);
+  if (formatErrors.length > 0) {
+    const rejected: UpdateFieldResult = {
+      success: false,
+      nextField: null,
+      isSubmittable: false,
+      message: describeValidationErrors(formatErrors.slice(0, 1)),
+      errors: formatErrors
+    };
+    return Object.fromEntries(formTypes.map((formType) => [formType, rejected]));
   }
 
-  if (mapping.SBA_413) {
-    result.SBA_413 = updateField(applicationId, 'SBA_413', mapping.SBA_413, value);
-    console.log(`📝 Updated SBA_413.${mapping.SBA_413} = "${value}"`);
+  // Owner details go to the current owner's Form 1919 row; the applicant's name belongs to the first
+  // owner's statement, so it leaves another owner's Form 413 alone
+  const state = await getState(applicationId);
+  const ownerSlot = await ownerSlotOf(applicationId, state?.currentOwnerId ?? null);
+  const ownerRow = mapping.fields.SBA_1919 ? parseOwnerRowField(mapping.fields.SBA_1919) : null;
+  const skip413 = mapping.unifiedName === 'applicantName' && ownerSlot !== null && ownerSlot > 1;
+
+  for (const formType of formTypes) {
+    if (formType === 'SBA_413' && skip413) continue;
+
+    const fieldName = formType === 'SBA_1919' && ownerRow && ownerSlot
+      ? ownerRowField(ownerRow.key, ownerSlot)
+      : mapping.fields[formType];
+    result[formType] = await updateField(applicationId, formType, fieldName, value);
+    console.log(`📝 Updated ${formType}.${fieldName} = "${value}"`);
   }
 
   return result;
 };
 
 /**
- * Update entity type checkbox across both forms
+ * Update entity type checkbox across every form that has one
  * Clears other entity checkboxes and sets the selected one
  */
-export const updateEntityTypeAcrossForms = (
+export const updateEntityTypeAcrossForms = async (
   applicationId: string,
   entityType: string
-): CrossFormUpdateResult => {
+): Promise<CrossFormUpdateResult> => {
   const mapping = getEntityTypeMapping(entityType);
 
   if (!mapping) {
     console.warn(`⚠️ No mapping found for entity type: ${entityType}`);
-    return { SBA_1919: null, SBA_413: null };
+    return {};
   }
 
-  const result: CrossFormUpdateResult = {
-    SBA_1919: updateField(applicationId, 'SBA_1919', mapping.SBA_1919, true),
-    SBA_413: updateField(applicationId, 'SBA_413', mapping.SBA_413, true)
-  };
+  const result: CrossFormUpdateResult = {};
+  for (const [formType, fieldName] of Object.entries(mapping)) {
+    result[formType] = await updateField(applicationId, formType, fieldName, true);
+  }
 
-  console.log(`📝 Updated entity type "${entityType}" in both forms`);
+  console.log(`📝 Updated entity type "${entityType}" in ${Object.keys(mapping).join(', ')}`);
 
   return result;
 };
 
 /**
- * Get complete field data for both forms
+ * Get complete field data for every form
  * Returns all field values, progress percentages, and submittable status
  * Used for sending complete PDF field state to frontend
  */
-export const getCompleteFieldData = (applicationId: string): {
-  SBA_1919: { fields: Record<string, string | boolean>; progress: number; submittable: boolean };
-  SBA_413: { fields: Record<string, string | boolean>; progress: number; submittable: boolean };
-} | null => {
-  const state = stateStore.get(applicationId);
+export const getCompleteFieldData = async (applicationId: string): Promise<{
+  forms: Record<FormType, CompleteFormData>;
+  SBA_1919: CompleteFormData;
+  SBA_413: CompleteFormData;
+  version: number;  // Send back as expectedVersion to reject edits made against stale data
+  currentOwnerId: string | null;  // Whose Form 413 SBA_413 is
+} | null> => {
+  const state = await getState(applicationId);
   if (!state) {
     console.warn(`⚠️ No session found for ${applicationId}`);
     return null;
   }
 
-  const progress = calculateProgress(applicationId);
-  if (!progress) {
-    console.warn(`⚠️ Failed to calculate progress for ${applicationId}`);
-    return null;
-  }
+  const progress = progressOf(state);
 
   // Filter out Mongoose internal fields (like $__parent) from allFields
   const cleanFields = (fields: Record<string, string | boolean>): Record<string, string | boolean> => {
@@ -620,17 +1020,23 @@ export const getCompleteFieldData = (applicationId: string): {
     return cleaned;
   };
 
+  const forms: Record<FormType, CompleteFormData> = {};
+  for (const [formType, entry] of Object.entries(state.forms)) {
+    forms[formType] = {
+      fields: cleanFields(entry.allFields),
+      progress: progress[formType],
+      submittable: entry.isSubmittable,
+      readOnly: getComputedFieldsForForm(formType),
+      warnings: checkFormConsistency(formType, entry.allFields)
+    };
+  }
+
   return {
-    SBA_1919: {
-      fields: cleanFields(state.sba1919.allFields),
-      progress: progress.SBA_1919,
-      submittable: state.sba1919.isSubmittable
-    },
-    SBA_413: {
-      fields: cleanFields(state.sba413.allFields),
-      progress: progress.SBA_413,
-      submittable: state.sba413.isSubmittable
-    }
+    forms,
+    SBA_1919: forms.SBA_1919,
+    SBA_413: forms.SBA_413,
+    version: state.version,
+    currentOwnerId: state.currentOwnerId
   };
 };
 
@@ -640,11 +1046,16 @@ export default {
   getState,
   hasSession,
   setCurrentForm,
+  switchOwner,
+  syncOwnerRows,
   updateField,
   skipField,
   getNextField,
   saveSession,
   endSession,
+  endIdleSessions,
+  startFormSessionSweeper,
+  setFormStateBackend,
   getStateContext,
   checkSubmissionReadiness,
   getActiveSessions,
@@ -1,6 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import crypto from 'crypto';
 import { Application } from '../models/Application.js';
+import { Bank } from '../models/Bank.js';
 import {
   SBAApplicationData,
   ApplicationStatus,
@@ -9,73 +11,45 @@ import {
   SBAApplication,
   UserProvidedDocumentType,
   LoanChanceResult,
-  DefaultDocumentType,
+  OfferDetails,
+  BankSubmissionStatus,
+  BankSubmissionOptions,
+  BankSubmissionOutcome,
+  BankSubmissionResponse,
+  SubmissionWave,
+  EmailStatus,
+  OutboundEmailRecord,
+  FinalPackage,
 } from '../types/index.js';
-import { sendEmail } from './emailSender.js';
-import { composeEmail, createEmailAgent } from '../agents/EmailAgent.js';
-import { fillPDFForm, fillCheckboxGroup } from './pdfFormProcessor.js';
+import { sendTemplatedEmail } from './emailTemplateService.js';
+import { DeliveryOutcome, registerDeliveryHandler } from './outboundEmailQueue.js';
+import {
+  notifyDraftSaved,
+  notifySentToBank,
+  notifyOfferReceived,
+  notifyOfferAccepted
+} from './lifecycleEmailService.js';
+import { fillPDFForm } from './pdfFormProcessor.js';
+import { applyPdfMapping } from './pdfMappingProfiles.js';
+import { resolveTemplate } from './templateService.js';
+import { buildPackage, buildPackageManifest, PackageSource, sha256 } from './packageBuilder.js';
 import {
   uploadDocumentWithRetry,
   downloadDocument,
   deleteDocument
 } from './s3Service.js';
 import { recommendBank } from './bankService.js';
-import { PDFDocument } from 'pdf-lib';
+import { buildMatchProfile } from './bankMatchingService.js';
+import { getActiveRuleset } from './underwritingService.js';
 import { createEmptyFieldsObject } from './formFields.js';
+import { getFormDefinition, getFormDefinitions, getFormLabel, getFormTypeForFile } from './formRegistry.js';
+import { markOwnerSigned } from './ownerFields.js';
+import { extractUploadedFinancials } from './financialExtraction.js';
 
-// SBA Eligibility Calculator Interfaces
-interface SBAEligibilityRequestBuyer {
-  purchasePrice: string;
-  availableCash: string;
-  businessCashFlow: string;
-  buyerCreditScore: string;
-  isUSCitizen: boolean;
-  businessYearsRunning: string | number;
-  industryExperience?: string;
-}
-
-interface SBAEligibilityRequestOwner {
-  monthlyRevenue: string;
-  monthlyExpenses: string;
-  existingDebtPayment: string;
-  requestedLoanAmount: string;
-  loanPurpose: string;
-  ownerCreditScore: string;
-  isUSCitizen: boolean;
-  businessYearsRunning: string | number;
-}
-
-interface SBAEligibilityResponse {
-  eligible: boolean;
-  approvalChance: 'High' | 'Medium' | 'Low' | 'Very Low' | 'Ineligible';
-  approvalPercentage: number;
-  reasons: string[];
-  recommendations: string[];
-  eligibilityChecks: {
-    citizenship: { passed: boolean; message: string };
-    creditScore: { passed: boolean; message: string };
-    businessAge: { passed: boolean; message: string };
-    downPayment: { passed: boolean; message: string };
-    cashFlow: { passed: boolean; message: string };
-  };
-}
-
-const TEMPLATES_DIR = path.join(process.cwd(), 'templates');
 const GENERATED_DIR = path.join(process.cwd(), 'generated');
 
 // Credit score mapping removed - now using plain number strings
 
-// Helper function to determine DefaultDocumentType from fileName
-const getDefaultDocumentType = (fileName: string): DefaultDocumentType | undefined => {
-  if (fileName.includes('1919') || fileName.includes('SBAForm1919')) {
-    return DefaultDocumentType.SBA_1919;
-  }
-  if (fileName.includes('413') || fileName.includes('SBAForm413')) {
-    return DefaultDocumentType.SBA_413;
-  }
-  return undefined;
-};
-
 const getUserProvidedDocumentType = (fileName: string): UserProvidedDocumentType | undefined => {
   if (fileName.includes('taxReturn') || fileName.includes('TaxReturn')) {
     return UserProvidedDocumentType.TAX_RETURN;
@@ -94,7 +68,7 @@ const initializeDirectories = async (): Promise<void> => {
 // Create new SBA application as draft
 export const createDraft = async (
   applicantData: SBAApplicationData,
-  loanChances?: { score: number; chance: 'low' | 'medium' | 'high'; reasons: string[] },
+  loanChances?: LoanChanceResult,
   ownerId?: string
 ): Promise<SBAApplication> => {
   try {
@@ -121,6 +95,9 @@ export const createDraft = async (
 
     await application.save();
 
+    notifyDraftSaved(application)
+      .catch((error) => console.error('Failed to send draft saved email:', error));
+
     return application;
 
   } catch (error) {
@@ -264,10 +241,11 @@ export const generateDraftPDFs = async (
 
   try {
     await initializeDirectories();
-    const sbaForms = ['SBAForm1919.pdf', 'SBAForm413.pdf'];
-    
-    for (const formName of sbaForms) {
-      const templatePath = path.join(TEMPLATES_DIR, formName);
+
+    for (const form of getFormDefinitions()) {
+      const { formType, templateFile: formName } = form;
+      const template = await resolveTemplate(formType);
+      const templatePath = template.path;
       const outputFileName = `draft_${draftApplicationId}_${formName}`;
       
       if (!await fs.pathExists(templatePath)) {
@@ -276,14 +254,8 @@ export const generateDraftPDFs = async (
       }
       
       try {
-        // Simple direct mapping - only fill applicantname and yearbeginoperations
-        const formData: Record<string, any> = {};
-        if (applicantData.name) {
-          formData['applicantname'] = applicantData.name;
-        }
-        if (applicantData.yearFounded) {
-          formData['yearbeginoperations'] = String(applicantData.yearFounded);
-        }
+        // The form's mapping profile fills what the intake captured, checkbox_<group> answers included
+        const { data: formData } = applyPdfMapping(form, { applicantData });
         
         const fillResult = await fillPDFForm(
           templatePath,
@@ -292,33 +264,6 @@ export const generateDraftPDFs = async (
         );
 
         if (fillResult.success && fillResult.outputPath) {
-          // Extract checkbox selections from applicantData
-          const checkboxData: Record<string, string> = {};
-          for (const [key, value] of Object.entries(applicantData)) {
-            if (key.startsWith('checkbox_') && typeof value === 'string') {
-              const group = key.replace('checkbox_', '');
-              checkboxData[group] = value;
-            }
-          }
-
-          // Fill checkboxes if any were provided
-          if (Object.keys(checkboxData).length > 0) {
-
-            const pdfBytes = await fs.readFile(fillResult.outputPath);
-            const pdfDoc = await PDFDocument.load(pdfBytes);
-            const form = pdfDoc.getForm();
-
-            for (const [group, value] of Object.entries(checkboxData)) {
-              const success = fillCheckboxGroup(form, group, value);
-              if (success) {
-                console.log(`✅ Filled checkbox group "${group}" with value "${value}" in ${formName}`);
-              }
-            }
-
-            const updatedPdfBytes = await pdfDoc.save();
-            await fs.writeFile(fillResult.outputPath, updatedPdfBytes);
-          }
-
           const fileBuffer = await fs.readFile(fillResult.outputPath);
           const s3Key = `drafts/${draftApplicationId}/${formName}`;
 
@@ -331,19 +276,13 @@ export const generateDraftPDFs = async (
           console.log("s3 resukt:")
           console.log(s3Result);
           
-          const fileType = getDefaultDocumentType(formName);
-
-          if (!fileType) {
-            console.error(`Failed to get default document type for ${formName}`);
-            return [];
-          }
-
           generatedDraftPDFs.push({
             fileName: formName,
             s3Key: s3Result.key,
             s3Url: s3Result.url,
             uploadedAt: new Date(),
-            fileType: fileType
+            fileType: formType,
+            templateVersion: template.version
           });
           
           await fs.remove(fillResult.outputPath);
@@ -362,6 +301,60 @@ export const generateDraftPDFs = async (
   }
 };
 
+// Generate the draft Form 413 for one owner - every owner at or above the PFS threshold files their own
+export const generateOwnerDraft413 = async (
+  applicationId: string,
+  owner: { ownerId: string; name: string },
+  businessName?: string
+): Promise<DocumentStorageInfo | null> => {
+  const formName = 'SBAForm413.pdf';
+  const template = await resolveTemplate('SBA_413');
+  const templatePath = template.path;
+
+  await initializeDirectories();
+  if (!await fs.pathExists(templatePath)) {
+    console.warn(`Template not found: ${templatePath}`);
+    return null;
+  }
+
+  // The owner's name keeps drafts for different owners apart in downloads and bank packages
+  const ownerSlug = owner.name.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '') || owner.ownerId;
+  const fileName = `SBAForm413_${ownerSlug}.pdf`;
+
+  const { data: formData } = applyPdfMapping(getFormDefinition('SBA_413')!, {
+    sba413Fields: { name: owner.name, businessNameOfApplicantBorrower: businessName }
+  });
+
+  const fillResult = await fillPDFForm(templatePath, formData, `draft_${applicationId}_${owner.ownerId}_${formName}`);
+  if (!fillResult.success || !fillResult.outputPath) {
+    console.error(`Failed to generate draft ${formName} for owner ${owner.ownerId}:`, fillResult.error);
+    return null;
+  }
+
+  try {
+    const fileBuffer = await fs.readFile(fillResult.outputPath);
+    const s3Result = await uploadDocumentWithRetry(
+      applicationId,
+      fileName,
+      fileBuffer,
+      `drafts/${applicationId}/owners/${owner.ownerId}/${formName}`
+    );
+
+    return {
+      fileName,
+      s3Key: s3Result.key,
+      s3Url: s3Result.url,
+      uploadedAt: new Date(),
+      generatedAt: new Date(),
+      fileType: 'SBA_413',
+      ownerId: owner.ownerId,
+      templateVersion: template.version
+    };
+  } finally {
+    await fs.remove(fillResult.outputPath);
+  }
+};
+
 // Generate SBA documents using DocumentAgent and form processor
 const generateSBADocuments = async (
   applicantData: SBAApplicationData,
@@ -370,10 +363,9 @@ const generateSBADocuments = async (
   const generatedFiles: string[] = [];
   
   try {
-    const sbaForms = ['SBAForm1919.pdf', 'SBAForm413.pdf'];
-    
-    for (const formName of sbaForms) {
-      const templatePath = path.join(TEMPLATES_DIR, formName);
+    for (const form of getFormDefinitions()) {
+      const formName = form.templateFile;
+      const templatePath = (await resolveTemplate(form.formType)).path;
       const outputFileName = `${applicantData.businessName}_${formName}`;
       
       // Check if template exists
@@ -383,14 +375,7 @@ const generateSBADocuments = async (
       }
      
       try {
-        // Simple direct mapping - only fill applicantname and yearbeginoperations
-        const formData: Record<string, any> = {};
-        if (applicantData.name) {
-          formData['applicantname'] = applicantData.name;
-        }
-        if (applicantData.yearFounded) {
-          formData['yearbeginoperations'] = String(applicantData.yearFounded);
-        }
+        const { data: formData } = applyPdfMapping(form, { applicantData });
         // Fill the PDF form
         const fillResult = await fillPDFForm(
           templatePath,
@@ -445,9 +430,9 @@ const uploadDocumentsToS3 = async (
         fileBuffer
       );
 
-      const fileType = getDefaultDocumentType(fileName);
+      const fileType = getFormTypeForFile(fileName);
       if (!fileType) {
-        console.error(`Failed to get default document type for ${fileName}`);
+        console.error(`${fileName} is not one of the registered forms`);
         return [];
       }
       
@@ -618,6 +603,17 @@ export const addUserProvidedDocuments = async (
 
     await application.save();
 
+    // Read the returns and P&L in the background; the figures land on the application when done
+    extractUploadedFinancials(
+      applicationId,
+      uploadedDocuments.map((uploaded, index) => ({
+        s3Key: uploaded.s3Key,
+        fileName: uploaded.fileName,
+        fileType: documents[index].fileType,
+        buffer: documents[index].buffer
+      }))
+    ).catch((error) => console.error('❌ Failed to extract financials:', error));
+
     return {
       application,
       uploadedDocuments
@@ -706,7 +702,14 @@ export const markDraftDocumentAsSigned = async (
   }
 
   // Update the signed field to true
-  (application.draftDocuments[draftIndex] as any).signed = true;
+  const draft = application.draftDocuments[draftIndex];
+  draft.signed = true;
+
+  // A per-owner Form 413 is that owner's signature
+  const signedAtValue = signedAt ? new Date(signedAt) : new Date();
+  if (draft.ownerId) {
+    markOwnerSigned(application, draft.ownerId, { signedBy, signedAt: signedAtValue });
+  }
 
   // Optionally update S3 key/url if new signed versions are provided
   if (signedS3Key) {
@@ -731,10 +734,12 @@ export const markDraftDocumentAsSigned = async (
     application.signingRequestId = signingRequestId;
   }
 
-  // Update signing status and date
-  const signedAtValue = signedAt ? new Date(signedAt) : new Date();
-  application.signingStatus = 'completed';
-  application.signedDate = signedAtValue;
+  // Signing is complete once every draft is signed - with several owners that takes several signatures
+  const allSigned = application.draftDocuments.every((doc) => doc.signed);
+  application.signingStatus = allSigned ? 'completed' : 'pending';
+  if (allSigned) {
+    application.signedDate = signedAtValue;
+  }
 
   await application.save();
 
@@ -746,52 +751,37 @@ const sendApplicationEmailWithS3Docs = async (
   application: SBAApplication,
   documentBuffers: Array<{ fileName: string; buffer: Buffer }>,
   bankEmail?: string,
-  bankName?: string
-): Promise<void> => {
+  bankName?: string,
+  messageId?: string,
+  bankId?: string
+) => {
   try {
-    // Use provided bank email or fall back to application's bankEmail
-    const recipientEmail = bankEmail;
-    const recipient = bankName || 'Bank';
-
     // Prepare email attachments from buffers
     const attachments = documentBuffers.map(doc => ({
       filename: doc.fileName,
       content: doc.buffer,
-      contentType: 'application/pdf'
+      contentType: doc.fileName.endsWith('.json') ? 'application/json' : 'application/pdf'
     }));
 
-    // Generate professional email content using EmailAgent
-    const emailAgent = createEmailAgent();
-
-    const emailComposition = {
-      recipients: [recipientEmail ?? ""],
-      subject: `SBA Loan Application Submission - ${application.applicantData.businessName}`,
-      purpose: 'NEW LOAN APPLICATION' as any,
-      tone: 'PROFESSIONAL' as any,
-      keyPoints: [
-        `New SBA loan application from ${application.applicantData.businessName}`,
-        `Annual revenue: $${application.applicantData.annualRevenue?.toLocaleString()}`,
-        `Credit score: ${application.applicantData.creditScore}`,
-        'All required SBA forms completed, signed, and attached',
-        'Supporting applicant-provided documents attached',
-        'Ready for review and processing'
-      ],
-      context: `Signed loan application documents and supporting materials for ${application.applicantData.businessName}. All documents have been electronically signed and include applicant-provided attachments for ${recipient} review.`
-    };
-
-    const emailResult = await composeEmail(emailAgent, emailComposition);
+    const applicationId = (application._id as any).toString();
+    const { annualRevenue } = application.applicantData;
 
-    if (emailResult.success && emailResult.data) {
-      await sendEmail({
-        to: [recipientEmail ?? ""],
-        subject: emailResult.data.subject,
-        html: emailResult.data.body,
-        text: emailResult.data.body.replace(/<[^>]*>/g, ''),
-        attachments
-      });
-    } else {
-      throw new Error(`Failed to compose email: ${emailResult.error}`);
-    }
+    // The reference in the subject lets lender replies be matched back even when they start a new thread
+    return await sendTemplatedEmail({
+      templateId: 'bank_submission',
+      to: [bankEmail ?? ""],
+      variables: {
+        bankName: bankName || 'Bank',
+        businessName: application.applicantData.businessName,
+        applicationId,
+        annualRevenue: annualRevenue !== undefined ? `$${annualRevenue.toLocaleString()}` : undefined,
+        creditScore: application.applicantData.creditScore
+      },
+      attachments,
+      messageId,
+      context: { applicationId, bankId },
+      purpose: 'bank_submission'
+    });
 
   } catch (error) {
     console.error('Error sending application email with S3 docs:', error);
@@ -799,10 +789,432 @@ const sendApplicationEmailWithS3Docs = async (
   }
 };
 
-// Submit application to bank
+const DEFAULT_SUBMISSION_TOP_N = Number(process.env.BANK_SUBMISSION_TOP_N) || 3;
+const DEFAULT_WAVE_COOLDOWN_HOURS = Number(process.env.BANK_SUBMISSION_WAVE_COOLDOWN_HOURS) || 48;
+const MESSAGE_ID_DOMAIN = process.env.EMAIL_MESSAGE_ID_DOMAIN || 'salestorvely.com';
+
+// How long a claim on a bank delivery or a submission wave holds. A process that dies mid-send leaves
+// its claim behind; once the lease runs out the next attempt takes over instead of being blocked for good.
+const SUBMISSION_CLAIM_LEASE_MS = 10 * 60 * 1000;
+const SUBMISSION_WAVE_LEASE_MS = 30 * 60 * 1000;
+
+// A wave that fails is retried later, waiting twice as long each time, until it has failed too often
+const SUBMISSION_WAVE_MAX_ATTEMPTS = 5;
+const SUBMISSION_WAVE_RETRY_BASE_MS = 5 * 60 * 1000;
+
+// Applications past this point shouldn't be shopped to more lenders
+const CLOSED_APPLICATION_STATUSES = [
+  ApplicationStatus.APPROVED,
+  ApplicationStatus.REJECTED,
+  ApplicationStatus.CANCELLED
+];
+
+// Hash of the documents a package is built from - order-independent so re-downloads hash the same
+const computePackageHash = (documentBuffers: Array<{ fileName: string; buffer: Buffer }>): string => {
+  const hash = crypto.createHash('sha256');
+  [...documentBuffers]
+    .sort((a, b) => a.fileName.localeCompare(b.fileName))
+    .forEach((doc) => {
+      hash.update(`${doc.fileName}\0`);
+      hash.update(crypto.createHash('sha256').update(doc.buffer).digest('hex'));
+      hash.update('\n');
+    });
+  return hash.digest('hex');
+};
+
+// Deterministic per bank and package so a retried send carries the same Message-ID
+const buildSubmissionMessageId = (applicationId: string, bankId: string, packageHash: string): string =>
+  `<sba-${applicationId}-${bankId}-${packageHash.slice(0, 12)}@${MESSAGE_ID_DOMAIN}>`;
+
+const USER_DOCUMENT_TITLES: Record<UserProvidedDocumentType, string> = {
+  [UserProvidedDocumentType.TAX_RETURN]: 'Tax return',
+  [UserProvidedDocumentType.L_AND_P]: 'Profit and loss statement'
+};
+
+// The documents that make up the package: the forms in registry order (each owner's Form 413 in owner
+// order), then the applicant's supporting documents
+const loadPackageSources = async (application: SBAApplication): Promise<PackageSource[]> => {
+  const formOrder = getFormDefinitions().map((form) => form.formType);
+  const owners = application.owners || [];
+  const ownerIndex = (ownerId?: string) => owners.findIndex((owner) => String(owner._id) === ownerId);
+
+  const drafts = [...(application.draftDocuments || [])].sort((a, b) =>
+    formOrder.indexOf(a.fileType) - formOrder.indexOf(b.fileType) || ownerIndex(a.ownerId) - ownerIndex(b.ownerId)
+  );
+  const userDocuments = application.userProvidedDocuments || [];
+
+  const draftBuffers = await downloadDocumentsFromS3(drafts);
+  const userBuffers = await downloadDocumentsFromS3(userDocuments);
+
+  return [
+    ...drafts.map((doc, index): PackageSource => {
+      const owner = doc.ownerId ? owners[ownerIndex(doc.ownerId)] : undefined;
+      return {
+        title: owner ? `${getFormLabel(doc.fileType)} - ${owner.name}` : getFormLabel(doc.fileType),
+        fileName: doc.fileName,
+        fileType: doc.fileType,
+        ownerId: doc.ownerId,
+        signed: Boolean(doc.signed),
+        s3Key: doc.s3Key,
+        buffer: draftBuffers[index].buffer,
+        flatten: true
+      };
+    }),
+    ...userDocuments.map((doc, index): PackageSource => ({
+      title: USER_DOCUMENT_TITLES[doc.fileType as UserProvidedDocumentType] || doc.fileName,
+      fileName: doc.fileName,
+      fileType: doc.fileType,
+      s3Key: doc.s3Key,
+      buffer: userBuffers[index].buffer,
+      flatten: false
+    }))
+  ];
+};
+
+const packageFileName = (application: SBAApplication): string => {
+  const slug = (application.applicantData?.businessName || '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return `SBA_Package_${slug || (application._id as any).toString()}.pdf`;
+};
+
+// Build the lender package, or reuse the stored one while the documents it was built from are unchanged
+const ensureFinalPackage = async (
+  application: SBAApplication,
+  sources: PackageSource[],
+  sourceHash: string,
+  rebuild: boolean = false
+): Promise<{ finalPackage: FinalPackage; pdf: Buffer }> => {
+  const applicationId = (application._id as any).toString();
+  const stored = application.finalPackage;
+
+  if (!rebuild && stored?.s3Key && stored.sourceHash === sourceHash) {
+    try {
+      const pdf = await downloadDocument(stored.s3Key);
+      if (sha256(pdf) === stored.sha256) {
+        return { finalPackage: stored, pdf };
+      }
+      console.warn(`⚠️ Stored package for ${applicationId} doesn't match its manifest - rebuilding`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to download the stored package for ${applicationId} - rebuilding:`, error);
+    }
+  }
+
+  const generatedAt = new Date();
+  const built = await buildPackage(sources, {
+    applicationId,
+    businessName: application.applicantData?.businessName,
+    applicantName: application.applicantData?.name,
+    generatedAt
+  });
+
+  // Every build gets its own key, so a package a lender already has stays downloadable and verifiable
+  const fileName = packageFileName(application);
+  const s3Result = await uploadDocumentWithRetry(
+    applicationId,
+    fileName,
+    built.pdf,
+    `packages/${applicationId}/${built.sha256.slice(0, 16)}/${fileName}`
+  );
+
+  const finalPackage: FinalPackage = {
+    fileName,
+    s3Key: s3Result.key,
+    sha256: built.sha256,
+    size: built.pdf.length,
+    pageCount: built.pageCount,
+    sourceHash,
+    generatedAt,
+    documents: built.documents
+  };
+
+  await Application.updateOne({ _id: application._id }, { $set: { finalPackage } }).exec();
+  application.finalPackage = finalPackage;
+  console.log(`📦 Built package for ${applicationId}: ${built.pageCount} pages, sha256 ${built.sha256.slice(0, 12)}`);
+
+  return { finalPackage, pdf: built.pdf };
+};
+
+// The package and its manifest, attached to every bank submission
+const loadSubmissionPackage = async (application: SBAApplication) => {
+  const sources = await loadPackageSources(application);
+  const packageHash = computePackageHash(sources);
+  const { finalPackage, pdf } = await ensureFinalPackage(application, sources, packageHash);
+
+  const manifest = buildPackageManifest((application._id as any).toString(), finalPackage);
+  const documentBuffers = [
+    { fileName: finalPackage.fileName, buffer: pdf },
+    { fileName: finalPackage.fileName.replace(/\.pdf$/, '_manifest.json'), buffer: Buffer.from(JSON.stringify(manifest, null, 2)) }
+  ];
+
+  return { documentBuffers, packageHash };
+};
+
+// Build the lender package for an application - reused while its documents are unchanged unless rebuild is set
+export const buildFinalPackage = async (applicationId: string, rebuild: boolean = false): Promise<FinalPackage> => {
+  const application = await Application.findById(applicationId);
+
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const sources = await loadPackageSources(application);
+  if (sources.length === 0) {
+    throw new Error('No documents to package');
+  }
+
+  const { finalPackage } = await ensureFinalPackage(application, sources, computePackageHash(sources), rebuild);
+  return finalPackage;
+};
+
+// Check a file against the application's package manifest - the package itself or any document in it
+export const verifyPackageFile = async (applicationId: string, buffer: Buffer) => {
+  const application = await Application.findById(applicationId).select('finalPackage').exec();
+
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const finalPackage = application.finalPackage;
+  if (!finalPackage?.sha256) {
+    throw new Error('No package has been built for this application');
+  }
+
+  const fileHash = sha256(buffer);
+  const document = finalPackage.documents.find((entry) => entry.sha256 === fileHash);
+
+  return {
+    sha256: fileHash,
+    verified: fileHash === finalPackage.sha256 || Boolean(document),
+    matches: fileHash === finalPackage.sha256
+      ? { type: 'package' as const, fileName: finalPackage.fileName, generatedAt: finalPackage.generatedAt }
+      : document
+        ? { type: 'document' as const, fileName: document.fileName, title: document.title }
+        : null
+  };
+};
+
+// Claim, send and record one bank submission.
+// The claim is an atomic push guarded on (bank, package) so concurrent or retried calls can't double-email a lender;
+// only a failed delivery frees the pair up for another attempt.
+const deliverPackageToBank = async (
+  application: SBAApplication,
+  bank: any,
+  documentBuffers: Array<{ fileName: string; buffer: Buffer }>,
+  packageHash: string,
+  wave: number
+): Promise<BankSubmissionOutcome> => {
+  const applicationId = (application._id as any).toString();
+  const bankId = bank._id.toString();
+  const messageId = buildSubmissionMessageId(applicationId, bankId, packageHash);
+
+  // Drop a claim whose sender died before handing the email to the outbound queue
+  await Application.updateOne(
+    { _id: application._id },
+    {
+      $pull: {
+        banks: { bank: bankId, packageHash, status: BankSubmissionStatus.PENDING, claimExpiresAt: { $lt: new Date() } }
+      }
+    }
+  ).exec();
+
+  const claim = await Application.updateOne(
+    {
+      _id: application._id,
+      banks: {
+        $not: {
+          $elemMatch: { bank: bankId, packageHash, status: { $ne: BankSubmissionStatus.FAILED } }
+        }
+      }
+    },
+    {
+      $push: {
+        banks: {
+          bank: bankId,
+          status: BankSubmissionStatus.PENDING,
+          submittedAt: new Date(),
+          wave,
+          messageId,
+          packageHash,
+          deliveryResult: { status: 'pending', attemptedAt: new Date() },
+          claimExpiresAt: new Date(Date.now() + SUBMISSION_CLAIM_LEASE_MS)
+        }
+      }
+    }
+  ).exec();
+
+  if (claim.modifiedCount === 0) {
+    console.log(`⏭️ ${bank.name} already has this package - skipping`);
+    return { bankId, bankName: bank.name, outcome: 'skipped', messageId };
+  }
+
+  const entryFilter = {
+    arrayFilters: [{ 'entry.bank': bankId, 'entry.packageHash': packageHash, 'entry.status': BankSubmissionStatus.PENDING }]
+  };
+
+  try {
+    // The outbound queue's delivery handler (settleBankSubmission) moves the entry on once the outcome is known
+    const result = await sendApplicationEmailWithS3Docs(
+      application,
+      documentBuffers,
+      bank.contacts.email,
+      bank.name,
+      messageId,
+      bankId
+    );
+
+    // The outbound queue owns the email from here, so the claim no longer needs to expire
+    await Application.updateOne(
+      { _id: application._id },
+      {
+        $unset: { 'banks.$[entry].claimExpiresAt': '' },
+        ...(result.status === 'queued' && {
+          $set: { 'banks.$[entry].deliveryResult': { status: 'pending', error: result.error, attemptedAt: new Date() } }
+        })
+      },
+      entryFilter
+    ).exec();
+
+    if (result.status === 'queued') {
+      console.warn(`⏳ ${bank.name} hasn't received application ${applicationId} yet - retrying in the background`);
+      return { bankId, bankName: bank.name, outcome: 'queued', messageId, error: result.error };
+    }
+
+    console.log(`📤 Application ${applicationId} sent to ${bank.name}`);
+    return { bankId, bankName: bank.name, outcome: 'sent', messageId: result.messageId };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to submit to ${bank.name}:`, error);
+
+    await Application.updateOne(
+      { _id: application._id },
+      {
+        $set: {
+          'banks.$[entry].status': BankSubmissionStatus.FAILED,
+          'banks.$[entry].deliveryResult': { status: 'failed', error: message, attemptedAt: new Date() }
+        }
+      },
+      entryFilter
+    ).exec();
+
+    return { bankId, bankName: bank.name, outcome: 'failed', messageId, error: message };
+  }
+};
+
+// Final outcome of a package email from the outbound queue. A submission only counts once the mail server
+// accepted it; a later bounce turns it back into a failure so the package can be sent again.
+const settleBankSubmission = async (email: OutboundEmailRecord, outcome: DeliveryOutcome, background: boolean) => {
+  if (!email.application || !email.bank) return;
+
+  const now = new Date();
+  const accepted = email.recipients
+    .filter((recipient) => recipient.status === EmailStatus.SENT || recipient.status === EmailStatus.DELIVERED)
+    .map((recipient) => recipient.address);
+  const rejected = email.recipients
+    .filter((recipient) => recipient.status === EmailStatus.FAILED)
+    .map((recipient) => recipient.address);
+  const entryFilter = (statuses: BankSubmissionStatus[]) => ({
+    arrayFilters: [{ 'entry.messageId': email.messageId, 'entry.status': { $in: statuses } }]
+  });
+
+  if (outcome === 'failed') {
+    await Application.updateOne(
+      { _id: email.application },
+      {
+        $set: {
+          'banks.$[entry].status': BankSubmissionStatus.FAILED,
+          'banks.$[entry].deliveryResult': { status: 'failed', accepted, rejected, error: email.lastError, attemptedAt: now }
+        }
+      },
+      entryFilter([BankSubmissionStatus.PENDING, BankSubmissionStatus.SUBMITTED])
+    ).exec();
+    return;
+  }
+
+  const delivered = {
+    $set: {
+      'banks.$[entry].status': BankSubmissionStatus.SUBMITTED,
+      'banks.$[entry].submittedAt': now,
+      'banks.$[entry].deliveryResult': {
+        status: 'sent',
+        accepted,
+        rejected,
+        response: email.recipients.find((recipient) => recipient.response)?.response,
+        attemptedAt: now
+      }
+    }
+  };
+
+  let result = await Application.updateOne(
+    { _id: email.application },
+    delivered,
+    entryFilter([BankSubmissionStatus.PENDING])
+  ).exec();
+
+  if (result.modifiedCount === 0) {
+    // Retried from the dead-letter list after the submission had been marked failed
+    result = await Application.updateOne(
+      { _id: email.application },
+      delivered,
+      entryFilter([BankSubmissionStatus.FAILED])
+    ).exec();
+  }
+
+  // Inline sends are reported by submitApplicationToBank itself
+  if (!background || result.modifiedCount === 0) return;
+
+  const application = await Application.findById(email.application);
+  if (!application || CLOSED_APPLICATION_STATUSES.includes(application.status)) return;
+
+  if (application.status !== ApplicationStatus.SENT_TO_BANK) {
+    await markSentToBank(email.application);
+  }
+
+  const bank = await Bank.findById(email.bank).select('name').lean().exec();
+  console.log(`📤 Application ${email.application} reached ${bank?.name || email.bank} on a retry`);
+  notifySentToBank(application, [bank?.name || 'A lender'])
+    .catch((error) => console.error('Failed to send sent-to-bank email:', error));
+};
+
+registerDeliveryHandler('bank_submission', settleBankSubmission);
+
+const markSentToBank = async (applicationId: string): Promise<void> => {
+  await Application.updateOne(
+    { _id: applicationId },
+    {
+      $set: {
+        status: ApplicationStatus.SENT_TO_BANK,
+        emailSent: true,
+        emailSentAt: new Date()
+      }
+    }
+  ).exec();
+};
+
+// Resolve explicit targets in the order given, or take the top matches from the bank matcher
+const selectTargetBanks = async (application: SBAApplication, options: BankSubmissionOptions) => {
+  if (options.bankIds && options.bankIds.length > 0) {
+    const banks = await Bank.find({ _id: { $in: options.bankIds } }).exec();
+    const byId = new Map(banks.map((bank) => [bank._id.toString(), bank]));
+    const missing = options.bankIds.filter((id) => !byId.has(id));
+
+    if (missing.length > 0) {
+      throw new Error(`Bank not found: ${missing.join(', ')}`);
+    }
+
+    return [...new Set(options.bankIds)].map((id) => byId.get(id)!);
+  }
+
+  const ruleset = await getActiveRuleset();
+  const recommendations = await recommendBank(buildMatchProfile(application, ruleset));
+
+  return recommendations.matchingBanks.slice(0, options.topN || DEFAULT_SUBMISSION_TOP_N);
+};
+
+// Submit application to banks: the first wave goes out now, later waves wait out the cooldown
 export const submitApplicationToBank = async (
-  applicationId: string
-): Promise<ApplicationResponse> => {
+  applicationId: string,
+  options: BankSubmissionOptions = {}
+): Promise<BankSubmissionResponse> => {
   try {
     const application = await Application.findById(applicationId);
 
@@ -814,72 +1226,79 @@ export const submitApplicationToBank = async (
       throw new Error('Some documents are not signed found');
     }
 
-    // Get recommended banks based on applicant's credit score and years in business
-    const currentYear = new Date().getFullYear();
-    const yearsInBusiness = currentYear - application.applicantData.yearFounded;
+    const targetBanks = await selectTargetBanks(application, options);
 
-    const recommendations = await recommendBank({
-      creditScore: application.applicantData.creditScore,
-      yearsInBusiness
-    });
-
-    if (recommendations.matchingBanks.length === 0) {
+    if (targetBanks.length === 0) {
       throw new Error('No banks match the applicant requirements');
     }
 
+    const waveSize = options.waveSize && options.waveSize > 0 ? options.waveSize : targetBanks.length;
+    const cooldownHours = options.waveCooldownHours ?? DEFAULT_WAVE_COOLDOWN_HOURS;
+    const waves: any[][] = [];
+    for (let i = 0; i < targetBanks.length; i += waveSize) {
+      waves.push(targetBanks.slice(i, i + waveSize));
+    }
 
-    const userProvidedDocumentBuffers = application.userProvidedDocuments.length > 0
-      ? await downloadDocumentsFromS3(application.userProvidedDocuments)
-      : [];
+    // Continue numbering after any earlier submissions
+    const firstWave = Math.max(
+      0,
+      ...(application.banks || []).map((submission) => submission.wave || 0),
+      ...(application.submissionWaves || []).map((scheduled) => scheduled.wave)
+    ) + 1;
 
-    const draftDocumentBuffers = application.draftDocuments && application.draftDocuments.length > 0
-      ? await downloadDocumentsFromS3(application.draftDocuments as DocumentStorageInfo[])
-      : [];
+    const { documentBuffers, packageHash } = await loadSubmissionPackage(application);
 
-    const documentBuffers = [
-      ...draftDocumentBuffers,
-      ...userProvidedDocumentBuffers
-    ];
+    const submissions: BankSubmissionOutcome[] = [];
+    for (const bank of waves[0]) {
+      submissions.push(await deliverPackageToBank(application, bank, documentBuffers, packageHash, firstWave));
+    }
 
-    // Send emails to all recommended banks
-    const bankSubmissions = [];
-    for (const bank of recommendations.matchingBanks) {
-      try {
-        // Send email to this bank
-        await sendApplicationEmailWithS3Docs(
-          application,
-          documentBuffers,
-          bank.contacts.email,
-          bank.name
-        );
+    if (submissions.every((submission) => submission.outcome === 'failed')) {
+      throw new Error('Failed to submit application to any bank');
+    }
 
-        // Track successful submission
-        bankSubmissions.push({
-          bank: bank._id.toString(),
-          status: 'submitted' as any,
-          submittedAt: new Date()
-        });
+    // A new plan replaces any waves still waiting from an earlier one
+    const now = Date.now();
+    const scheduledWaves: SubmissionWave[] = waves.slice(1).map((banks, index) => ({
+      wave: firstWave + index + 1,
+      bankIds: banks.map((bank) => bank._id.toString()),
+      scheduledFor: new Date(now + (index + 1) * cooldownHours * 60 * 60 * 1000),
+      status: 'scheduled'
+    }));
 
-      } catch (emailError) {
-        console.error(`Failed to submit to ${bank.name}:`, emailError);
-        // Continue with other banks even if one fails
-      }
+    await Application.updateOne(
+      { _id: applicationId },
+      { $set: { 'submissionWaves.$[pending].status': 'cancelled' } },
+      { arrayFilters: [{ 'pending.status': 'scheduled' }] }
+    ).exec();
+
+    if (scheduledWaves.length > 0) {
+      await Application.updateOne(
+        { _id: applicationId },
+        { $push: { submissionWaves: { $each: scheduledWaves } } }
+      ).exec();
     }
 
-    if (bankSubmissions.length === 0) {
-      throw new Error('Failed to submit application to any bank');
+    const sentTo = submissions.filter((submission) => submission.outcome === 'sent');
+    if (sentTo.length > 0) {
+      await markSentToBank(applicationId);
+      notifySentToBank(application, sentTo.map((submission) => submission.bankName))
+        .catch((error) => console.error('Failed to send sent-to-bank email:', error));
     }
 
-    // Update application with bank submissions
-    application.banks = bankSubmissions;
-    application.status = ApplicationStatus.SENT_TO_BANK;
-    application.emailSent = true;
-    application.emailSentAt = new Date();
-    await application.save();
+    const sentCount = submissions.filter((submission) => submission.outcome === 'sent').length;
+    const skippedCount = submissions.filter((submission) => submission.outcome === 'skipped').length;
+    const queuedCount = submissions.filter((submission) => submission.outcome === 'queued').length;
 
     return {
       status: ApplicationStatus.SENT_TO_BANK,
-      message: `Application submitted to ${bankSubmissions.length} bank(s) successfully`
+      message: `Application submitted to ${sentCount} bank(s) successfully` +
+        (skippedCount > 0 ? `, ${skippedCount} already had this package` : '') +
+        (queuedCount > 0 ? `, ${queuedCount} awaiting delivery retry` : '') +
+        (scheduledWaves.length > 0 ? `, ${scheduledWaves.length} more wave(s) scheduled` : ''),
+      packageHash,
+      submissions,
+      scheduledWaves
     };
 
   } catch (error) {
@@ -888,6 +1307,105 @@ export const submitApplicationToBank = async (
   }
 };
 
+// Send every scheduled wave whose cooldown has passed
+export const processDueSubmissionWaves = async (): Promise<number> => {
+  const now = new Date();
+  // Due waves, plus waves whose sender died mid-wave and whose lease has run out
+  const claimable = {
+    $or: [
+      { status: 'scheduled', scheduledFor: { $lte: now } },
+      { status: 'sending', claimExpiresAt: { $lt: now } }
+    ]
+  };
+  const applications = await Application.find({ submissionWaves: { $elemMatch: claimable } }).exec();
+
+  let processed = 0;
+
+  for (const application of applications) {
+    const dueWaves = (application.submissionWaves || [])
+      .filter((scheduled) => scheduled.status === 'scheduled'
+        ? new Date(scheduled.scheduledFor) <= now
+        : scheduled.status === 'sending' && !!scheduled.claimExpiresAt && new Date(scheduled.claimExpiresAt) < now)
+      .sort((a, b) => a.wave - b.wave);
+
+    for (const scheduled of dueWaves) {
+      // Claim the wave so a second scheduler instance can't send it too
+      const claim = await Application.updateOne(
+        { _id: application._id, submissionWaves: { $elemMatch: { wave: scheduled.wave, ...claimable } } },
+        {
+          $set: {
+            'submissionWaves.$.status': 'sending',
+            'submissionWaves.$.claimExpiresAt': new Date(Date.now() + SUBMISSION_WAVE_LEASE_MS)
+          }
+        }
+      ).exec();
+
+      if (claim.modifiedCount === 0) {
+        continue;
+      }
+
+      const hasAcceptedOffer = (application.offers || []).some((offer) => offer.status === 'accepted');
+      const closed = hasAcceptedOffer || CLOSED_APPLICATION_STATUSES.includes(application.status);
+
+      try {
+        if (!closed) {
+          const banks = await Bank.find({ _id: { $in: scheduled.bankIds } }).exec();
+          const { documentBuffers, packageHash } = await loadSubmissionPackage(application);
+
+          const sentTo: string[] = [];
+          for (const bank of banks) {
+            const result = await deliverPackageToBank(application, bank, documentBuffers, packageHash, scheduled.wave);
+            if (result.outcome === 'sent') sentTo.push(result.bankName);
+          }
+          if (sentTo.length > 0) {
+            notifySentToBank(application, sentTo)
+              .catch((error) => console.error('Failed to send sent-to-bank email:', error));
+          }
+          console.log(`🌊 Sent submission wave ${scheduled.wave} for application ${application._id}`);
+        } else {
+          console.log(`🛑 Cancelled submission wave ${scheduled.wave} for application ${application._id} - application is closed`);
+        }
+
+        await Application.updateOne(
+          { _id: application._id, 'submissionWaves.wave': scheduled.wave },
+          {
+            $set: { 'submissionWaves.$.status': closed ? 'cancelled' : 'sent', 'submissionWaves.$.processedAt': new Date() },
+            $unset: { 'submissionWaves.$.claimExpiresAt': '' }
+          }
+        ).exec();
+
+        processed++;
+      } catch (error) {
+        // Hand the wave back for a later run with backoff; banks already sent to are skipped by their claims
+        const attempts = (scheduled.attempts || 0) + 1;
+        const givenUp = attempts >= SUBMISSION_WAVE_MAX_ATTEMPTS;
+        const lastError = error instanceof Error ? error.message : String(error);
+        console.error(
+          `❌ Submission wave ${scheduled.wave} for application ${application._id} failed ` +
+          `(attempt ${attempts}/${SUBMISSION_WAVE_MAX_ATTEMPTS}${givenUp ? ', giving up' : ''}):`,
+          error
+        );
+        await Application.updateOne(
+          { _id: application._id, 'submissionWaves.wave': scheduled.wave },
+          {
+            $set: {
+              'submissionWaves.$.status': givenUp ? 'failed' : 'scheduled',
+              'submissionWaves.$.attempts': attempts,
+              'submissionWaves.$.lastError': lastError,
+              ...(givenUp
+                ? { 'submissionWaves.$.processedAt': new Date() }
+                : { 'submissionWaves.$.scheduledFor': new Date(Date.now() + SUBMISSION_WAVE_RETRY_BASE_MS * 2 ** (attempts - 1)) })
+            },
+            $unset: { 'submissionWaves.$.claimExpiresAt': '' }
+          }
+        ).exec();
+      }
+    }
+  }
+
+  return processed;
+};
+
 // Get application by ID
 export const getApplication = async (applicationId: string): Promise<SBAApplication | null> => {
   try {
@@ -1003,12 +1521,7 @@ export const getApplications = async (
 export const createOffer = async (
   applicationId: string,
   bankId: string,
-  offerDetails: {
-    repaymentTermMonths: number;
-    annualInterestRate: number;
-    monthlyPayment: number;
-    downPaymentRequired: number;
-  }
+  offerDetails: OfferDetails
 ): Promise<SBAApplication> => {
   try {
     const application = await Application.findById(applicationId);
@@ -1024,7 +1537,9 @@ export const createOffer = async (
         repaymentTermMonths: offerDetails.repaymentTermMonths,
         annualInterestRate: offerDetails.annualInterestRate,
         monthlyPayment: offerDetails.monthlyPayment,
-        downPaymentRequired: offerDetails.downPaymentRequired
+        downPaymentRequired: offerDetails.downPaymentRequired,
+        ...(offerDetails.loanAmount !== undefined && { loanAmount: offerDetails.loanAmount }),
+        fees: offerDetails.fees || 0
       },
       status: 'pending' as const
     };
@@ -1035,6 +1550,8 @@ export const createOffer = async (
 
     await application.save();
 
+    notifyOfferReceived(application, bankId, offerDetails)
+      .catch((error) => console.error('Failed to send offer received email:', error));
 
     return application;
   } catch (error) {
@@ -1066,775 +1583,20 @@ export const updateOfferStatus = async (
     }
 
     // Update the offer status
+    const previousStatus = offer.status;
     offer.status = status;
     application.markModified('offers');
 
     await application.save();
+
+    if (status === 'accepted' && previousStatus !== 'accepted') {
+      notifyOfferAccepted(application, offer.bank.toString())
+        .catch((error) => console.error('Failed to send offer accepted email:', error));
+    }
+
     return application;
   } catch (error) {
     console.error('Error updating offer status:', error);
     throw error;
   }
 };
-
-// Helper function to calculate DSCR (Debt Service Coverage Ratio)
-function calculateDSCR(loanAmount: number, rate: number, years: number, sde: number): number {
-  if (sde <= 0) return 0;
-
-  const numPayments = years * 12;
-  const monthlyRate = rate / 12;
-  const monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-                        (Math.pow(1 + monthlyRate, numPayments) - 1);
-  const annualDebtService = monthlyPayment * 12;
-
-  return Number((sde / annualDebtService).toFixed(2));
-}
-
-// Calculate SBA eligibility and approval chances for BUYERS - VAPI version (returns single-line string)
-export function calculateSBAEligibilityForBuyerVAPI(data: SBAEligibilityRequestBuyer): string {
-  const purchasePrice = parseInt(data.purchasePrice);
-  const availableCash = parseInt(data.availableCash);
-  const businessCashFlow = parseInt(data.businessCashFlow || '0');
-  const businessYearsRunning = typeof data.businessYearsRunning === 'number'
-    ? data.businessYearsRunning
-    : parseInt(data.businessYearsRunning as any) || 0;
-
-  // Parse credit score as a plain number string
-  const creditScoreValue = parseInt(data.buyerCreditScore || '0');
-  console.log(data)
-  const isCitizen = data.isUSCitizen;
-
-  const downPaymentPercent = (availableCash / purchasePrice) * 100;
-
-  // Calculate DSCR for a typical 90% SBA loan
-  const typicalLoanAmount = purchasePrice * 0.9;
-  const dscr = calculateDSCR(typicalLoanAmount, 0.095, 10, businessCashFlow);
-
-  const reasons: string[] = [];
-  const recommendations: string[] = [];
-  let score = 100; // Start at 100, deduct points for issues
-
-  // 1. Citizenship Check (HARD STOP)
-  const citizenshipCheck = {
-    passed: isCitizen,
-    message: isCitizen
-      ? 'US Citizen or Lawful Permanent Resident ✓'
-      : 'Must be US Citizen or Lawful Permanent Resident'
-  };
-
-  if (!isCitizen) {
-    return 'Ineligible for SBA loan, Non-US citizens are ineligible for SBA loans, Recommendation: Consider seller financing or alternative lending options';
-  }
-
-  if (Number.isNaN(creditScoreValue) || creditScoreValue < 650) {
-    return 'Ineligible for SBA loan, Credit score below 650 minimum requirement, Recommendation: Improve personal credit profile before reapplying';
-  }
-
-  if (businessYearsRunning < 2) {
-    return 'Ineligible for SBA loan, Business must operate for at least 2 years under current ownership, Recommendation: Reapply once the business reaches 24 months of operating history';
-  }
-
-  if (!Number.isFinite(businessCashFlow) || businessCashFlow <= 0) {
-    return 'Ineligible for SBA loan, Business must demonstrate positive cash flow, Recommendation: Provide updated financials showing profitable operations';
-  }
-
-  // 2. Credit Score Check
-  let creditScoreCheck = { passed: true, message: 'Credit score not provided' };
-
-  if (creditScoreValue > 0) {
-    if (creditScoreValue >= 720) {
-      creditScoreCheck = { passed: true, message: 'Excellent credit score (720+) ✓' };
-      reasons.push('Strong credit profile');
-    } else if (creditScoreValue >= 680) {
-      creditScoreCheck = { passed: true, message: 'Good credit score (680-719) ✓' };
-      score -= 5;
-    } else if (creditScoreValue >= 650) {
-      creditScoreCheck = { passed: true, message: 'Fair credit score (650-679)' };
-      score -= 15;
-      reasons.push('Credit score is on the lower end for SBA approval');
-      recommendations.push('Consider improving credit score before applying');
-    } else {
-      creditScoreCheck = { passed: false, message: 'Credit score below 650 - High risk' };
-      score -= 30;
-      reasons.push('Credit score below SBA typical minimum (650)');
-      recommendations.push('Work on improving credit score to 680+ for better approval odds');
-    }
-  }
-
-  // 3. Business Age Check
-  let businessAgeCheck = { passed: true, message: 'Business age not provided' };
-
-  if (businessYearsRunning !== null && businessYearsRunning !== undefined) {
-    if (businessYearsRunning >= 5) {
-      businessAgeCheck = { passed: true, message: `Established business (${businessYearsRunning} years) ✓` };
-      reasons.push('Well-established business history');
-    } else if (businessYearsRunning >= 2) {
-      businessAgeCheck = { passed: true, message: `Business meets minimum (${businessYearsRunning} years) ✓` };
-      score -= 5;
-    } else {
-      businessAgeCheck = { passed: false, message: `Business too young (${businessYearsRunning} years < 2 years required)` };
-      score -= 40;
-      reasons.push('Business must operate for minimum 2 years for SBA eligibility');
-      recommendations.push('Wait until business reaches 2-year operating history');
-    }
-  }
-
-  // Immediate rejection if buyer equity below 10%
-  if (!Number.isFinite(downPaymentPercent) || downPaymentPercent < 10) {
-    return 'Ineligible for SBA loan, Buyer equity below required 10% down payment, Recommendation: Increase cash reserves or secure seller financing to reach 10% equity';
-  }
-
-  // 4. Down Payment Check
-  let downPaymentCheck = { passed: true, message: '' };
-
-  if (downPaymentPercent >= 20) {
-    downPaymentCheck = { passed: true, message: `Strong down payment (${downPaymentPercent.toFixed(1)}%) ✓` };
-    reasons.push('Substantial equity investment');
-  } else {
-    downPaymentCheck = { passed: true, message: `Adequate down payment (${downPaymentPercent.toFixed(1)}%) ✓` };
-    score -= 10;
-  }
-
-  // 5. Cash Flow / DSCR Check
-  let cashFlowCheck = { passed: true, message: '' };
-
-  if (businessCashFlow <= 0) {
-    cashFlowCheck = { passed: false, message: 'Business cash flow not provided' };
-    score -= 20;
-    reasons.push('Cash flow information required for approval');
-    recommendations.push('Obtain detailed financial statements showing business cash flow');
-  } else if (dscr >= 1.35) {
-    cashFlowCheck = { passed: true, message: `Excellent cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓` };
-    reasons.push('Strong debt service coverage ratio');
-  } else if (dscr >= 1.25) {
-    cashFlowCheck = { passed: true, message: `Good cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓` };
-    score -= 5;
-  } else if (dscr >= 1.15) {
-    cashFlowCheck = { passed: true, message: `Adequate cash flow coverage (DSCR: ${dscr.toFixed(2)})` };
-    score -= 15;
-    reasons.push('Cash flow is at minimum threshold for SBA approval');
-    recommendations.push('Consider increasing down payment to reduce loan amount and improve DSCR');
-  } else {
-    cashFlowCheck = { passed: false, message: `Insufficient cash flow (DSCR: ${dscr.toFixed(2)} < 1.15 required)` };
-    score -= 40;
-    reasons.push('Business cash flow cannot support SBA loan payments');
-    recommendations.push('Increase down payment significantly to reduce monthly debt service');
-    recommendations.push('Negotiate seller financing to reduce SBA loan amount');
-  }
-
-  // 6. Industry Experience (bonus factor)
-  if (data.industryExperience) {
-    const experience = data.industryExperience.toLowerCase();
-    if (experience.includes('owner') || experience.includes('manager') ||
-        experience.includes('director') || experience.match(/\d+\s*years?/)) {
-      reasons.push('Relevant industry experience strengthens application');
-      score += 5; // Bonus points
-    } else if (experience.includes('no') || experience.includes('none') ||
-               experience.includes('limited')) {
-      score -= 10;
-      recommendations.push('Develop detailed business plan to offset limited industry experience');
-    }
-  }
-
-  // Calculate final approval chance
-  score = Math.max(0, Math.min(100, score)); // Clamp between 0-100
-
-  let approvalChance: 'High' | 'Medium' | 'Low' | 'Very Low' | 'Ineligible';
-  let eligible = true;
-
-  if (score >= 80) {
-    approvalChance = 'High';
-  } else if (score >= 60) {
-    approvalChance = 'Medium';
-  } else if (score >= 40) {
-    approvalChance = 'Low';
-  } else if (score >= 20) {
-    approvalChance = 'Very Low';
-  } else {
-    approvalChance = 'Ineligible';
-    eligible = false;
-  }
-
-  // Add general recommendations if not already high approval
-  if (score < 80) {
-    if (!recommendations.length) {
-      recommendations.push('Prepare comprehensive business plan with 3-year projections');
-      recommendations.push('Gather all required SBA documentation in advance');
-      recommendations.push('Consider working with an SBA-experienced business broker or consultant');
-    }
-  }
-
-  // Build single-line string response
-  const parts: string[] = [];
-
-  // Add approval chance and percentage
-  parts.push(`Approval Chance: ${approvalChance}`);
-  parts.push(`Score: ${score} out of 100`);
-
-  // Add eligibility status
-  parts.push(eligible ? 'Eligible for SBA loan' : 'Not eligible for SBA loan');
-
-  // Add citizenship check
-  parts.push(citizenshipCheck.message);
-
-  // Add credit score check
-  parts.push(creditScoreCheck.message);
-
-  // Add business age check
-  parts.push(businessAgeCheck.message);
-
-  // Add down payment check
-  if (downPaymentCheck.message) {
-    parts.push(downPaymentCheck.message);
-  }
-
-  // Add cash flow check
-  if (cashFlowCheck.message) {
-    parts.push(cashFlowCheck.message);
-  }
-
-  // Add reasons
-  if (reasons.length > 0) {
-    parts.push(`Reasons: ${reasons.join(', ')}`);
-  }
-
-  // Add recommendations
-  if (recommendations.length > 0) {
-    parts.push(`Recommendations: ${recommendations.join(', ')}`);
-  }
-
-  // Join all parts with commas
-  return parts.join(', ');
-}
-
-// Calculate SBA eligibility and approval chances for BUYERS (returns structured data)
-export function calculateSBAEligibilityForBuyer(data: SBAEligibilityRequestBuyer): LoanChanceResult {
-  const purchasePrice = parseInt(data.purchasePrice);
-  const availableCash = parseInt(data.availableCash);
-  const businessCashFlow = parseInt(data.businessCashFlow || '0');
-  const businessYearsRunning = typeof data.businessYearsRunning === 'number'
-    ? data.businessYearsRunning
-    : parseInt(data.businessYearsRunning as any) || 0;
-
-  const creditScoreValue = parseInt(data.buyerCreditScore || '0');
-  const isCitizen = data.isUSCitizen;
-
-  const downPaymentPercent = (availableCash / purchasePrice) * 100;
-  const typicalLoanAmount = purchasePrice * 0.9;
-  const dscr = calculateDSCR(typicalLoanAmount, 0.095, 10, businessCashFlow);
-
-  const reasons: string[] = [];
-  let score = 100;
-
-  // Citizenship Check (HARD STOP)
-  if (!isCitizen) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: ['Non-US citizens are ineligible for SBA loans', 'Consider seller financing or alternative lending options']
-    };
-  }
-
-  // Down payment minimum check (HARD STOP)
-  if (!Number.isFinite(downPaymentPercent) || downPaymentPercent < 10) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Buyer equity below required 10% down payment for SBA financing',
-        'Increase cash reserves or secure seller financing to reach 10% equity'
-      ]
-    };
-  }
-
-  // Credit score minimum check (HARD STOP)
-  if (Number.isNaN(creditScoreValue) || creditScoreValue < 650) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Credit score below 650 minimum requirement for SBA financing',
-        'Improve personal credit profile before reapplying'
-      ]
-    };
-  }
-
-  // Operating history minimum check (HARD STOP)
-  if (businessYearsRunning < 2) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Business has operated for less than 2 years',
-        'Reapply once the business reaches 24 months of operating history'
-      ]
-    };
-  }
-
-  // Positive cash flow check (HARD STOP)
-  if (!Number.isFinite(businessCashFlow) || businessCashFlow <= 0) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Business must demonstrate positive cash flow',
-        'Provide updated financial statements showing profitable operations'
-      ]
-    };
-  }
-
-  // Credit Score Check
-  if (creditScoreValue > 0) {
-    if (creditScoreValue >= 720) {
-      reasons.push('Strong credit profile');
-    } else if (creditScoreValue >= 680) {
-      score -= 5;
-    } else if (creditScoreValue >= 650) {
-      score -= 15;
-      reasons.push('Credit score is on the lower end for SBA approval');
-    } else {
-      score -= 30;
-      reasons.push('Credit score below SBA typical minimum (650)');
-    }
-  }
-
-  // Business Age Check
-  if (businessYearsRunning >= 5) {
-    reasons.push('Well-established business history');
-  } else if (businessYearsRunning >= 2) {
-    score -= 5;
-  } else {
-    score -= 40;
-    reasons.push('Business must operate for minimum 2 years for SBA eligibility');
-  }
-
-  // Down Payment Check (only runs for 10%+ equity)
-  if (downPaymentPercent >= 20) {
-    reasons.push('Substantial equity investment');
-  } else {
-    score -= 10;
-    reasons.push('Down payment meets minimum 10% equity requirement');
-  }
-
-  // Cash Flow / DSCR Check
-  if (businessCashFlow <= 0) {
-    score -= 20;
-    reasons.push('Cash flow information required for approval');
-  } else if (dscr >= 1.35) {
-    reasons.push('Strong debt service coverage ratio');
-  } else if (dscr >= 1.25) {
-    score -= 5;
-  } else if (dscr >= 1.15) {
-    score -= 15;
-    reasons.push('Cash flow is at minimum threshold for SBA approval');
-  } else {
-    score -= 40;
-    reasons.push('Business cash flow cannot support SBA loan payments');
-  }
-
-  // Industry Experience
-  if (data.industryExperience) {
-    const experience = data.industryExperience.toLowerCase();
-    if (experience.includes('owner') || experience.includes('manager') ||
-        experience.includes('director') || experience.match(/\d+\s*years?/)) {
-      reasons.push('Relevant industry experience strengthens application');
-      score += 5;
-    } else if (experience.includes('no') || experience.includes('none') ||
-               experience.includes('limited')) {
-      score -= 10;
-    }
-  }
-
-  score = Math.max(0, Math.min(100, score));
-
-  let chance: 'low' | 'medium' | 'high';
-  if (score >= 80) {
-    chance = 'high';
-  } else if (score >= 60) {
-    chance = 'medium';
-  } else {
-    chance = 'low';
-  }
-
-  return { score, chance, reasons };
-}
-
-// Calculate SBA eligibility and approval chances for OWNERS (returns structured data)
-export function calculateSBAEligibilityForOwner(data: SBAEligibilityRequestOwner): LoanChanceResult {
-  const monthlyRevenue = parseInt(data.monthlyRevenue || '0');
-  const monthlyExpenses = parseInt(data.monthlyExpenses || '0');
-  const existingDebtPayment = parseInt(data.existingDebtPayment || '0');
-  const requestedLoanAmount = parseInt(data.requestedLoanAmount || '0');
-  const loanPurpose = data.loanPurpose?.toLowerCase() || '';
-  const businessYearsRunning = typeof data.businessYearsRunning === 'number'
-    ? data.businessYearsRunning
-    : parseInt(data.businessYearsRunning as any) || 0;
-
-  const creditScoreValue = parseInt(data.ownerCreditScore || '0');
-  const isCitizen = data.isUSCitizen;
-
-  const monthlyNetIncome = monthlyRevenue - monthlyExpenses;
-  const annualNetIncome = monthlyNetIncome * 12;
-
-  const dscr = calculateDSCRForOwner(
-    annualNetIncome,
-    existingDebtPayment,
-    requestedLoanAmount,
-    0.095,
-    10
-  );
-
-  const reasons: string[] = [];
-  let score = 100;
-
-  // Citizenship Check (HARD STOP)
-  if (!isCitizen) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: ['Non-US citizens are ineligible for SBA loans', 'Consider alternative lending options']
-    };
-  }
-
-  // Credit score minimum check (HARD STOP)
-  if (Number.isNaN(creditScoreValue) || creditScoreValue < 650) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Credit score below 650 minimum requirement for SBA financing',
-        'Improve personal credit profile before reapplying'
-      ]
-    };
-  }
-
-  // Operating history minimum check (HARD STOP)
-  if (businessYearsRunning < 2) {
-    return {
-      score: 0,
-      chance: 'low',
-      reasons: [
-        'Business has operated for less than 2 years',
-        'Reapply once the business reaches 24 months of operating history'
-      ]
-    };
-  }
-
-  // Credit Score Check (scoring for 650+)
-  if (creditScoreValue > 0) {
-    if (creditScoreValue >= 720) {
-      reasons.push('Strong credit profile');
-    } else if (creditScoreValue >= 680) {
-      score -= 5;
-    } else if (creditScoreValue >= 650) {
-      score -= 15;
-      reasons.push('Credit score is on the lower end for SBA approval');
-    }
-  }
-
-  // Business Age Check (scoring for 2+ years)
-  if (businessYearsRunning >= 5) {
-    reasons.push('Well-established business history');
-  } else if (businessYearsRunning >= 2) {
-    score -= 5;
-  }
-
-  // Cash Flow / DSCR Check
-  if (monthlyRevenue <= 0 || monthlyExpenses < 0) {
-    score -= 30;
-    reasons.push('Financial information required for approval');
-  } else if (monthlyNetIncome <= 0) {
-    score -= 50;
-    reasons.push('Business must show positive net income to qualify');
-  } else if (dscr >= 1.35) {
-    reasons.push('Strong debt service coverage ratio including existing debt');
-  } else if (dscr >= 1.25) {
-    score -= 5;
-  } else if (dscr >= 1.15) {
-    score -= 15;
-    reasons.push('Cash flow is at minimum threshold for SBA approval');
-  } else {
-    score -= 40;
-    reasons.push('Business cash flow cannot support additional SBA loan payments with existing debt');
-  }
-
-  // Existing Debt Consideration
-  if (existingDebtPayment > 0) {
-    const debtToIncomeRatio = (existingDebtPayment * 12) / annualNetIncome;
-    if (debtToIncomeRatio > 0.5) {
-      score -= 10;
-      reasons.push('High existing debt burden relative to income');
-    }
-  }
-
-  // Loan Amount Validation
-  if (requestedLoanAmount > annualNetIncome * 3) {
-    score -= 15;
-    reasons.push('Requested loan amount is high relative to annual income');
-  }
-
-  score = Math.max(0, Math.min(100, score));
-
-  let chance: 'low' | 'medium' | 'high';
-  if (score >= 80) {
-    chance = 'high';
-  } else if (score >= 60) {
-    chance = 'medium';
-  } else {
-    chance = 'low';
-  }
-
-  return { score, chance, reasons };
-}
-
-// Helper function to calculate DSCR for owners (includes existing debt)
-function calculateDSCRForOwner(
-  netIncome: number,
-  existingDebtPayment: number,
-  newLoanAmount: number,
-  rate: number,
-  years: number
-): number {
-  if (netIncome <= 0) return 0;
-
-  const numPayments = years * 12;
-  const monthlyRate = rate / 12;
-  const newMonthlyPayment = newLoanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-                           (Math.pow(1 + monthlyRate, numPayments) - 1);
-
-  const totalMonthlyDebt = existingDebtPayment + newMonthlyPayment;
-  const annualDebtService = totalMonthlyDebt * 12;
-
-  return Number((netIncome / annualDebtService).toFixed(2));
-}
-
-// Calculate SBA eligibility and approval chances for OWNERS - VAPI version (returns single-line string)
-export function calculateSBAEligibilityForOwnerVAPI(data: SBAEligibilityRequestOwner): string {
-  const monthlyRevenue = parseInt(data.monthlyRevenue || '0');
-  const monthlyExpenses = parseInt(data.monthlyExpenses || '0');
-  const existingDebtPayment = parseInt(data.existingDebtPayment || '0');
-  const requestedLoanAmount = parseInt(data.requestedLoanAmount || '0');
-  const loanPurpose = data.loanPurpose?.toLowerCase() || '';
-  const businessYearsRunning = typeof data.businessYearsRunning === 'number'
-    ? data.businessYearsRunning
-    : parseInt(data.businessYearsRunning as any) || 0;
-
-  // Parse credit score as a plain number string
-  const creditScoreValue = parseInt(data.ownerCreditScore || '0');
-  const isCitizen = data.isUSCitizen;
-
-  // Calculate net income (monthly revenue - monthly expenses)
-  const monthlyNetIncome = monthlyRevenue - monthlyExpenses;
-  const annualNetIncome = monthlyNetIncome * 12;
-
-  // Determine down payment percentage based on loan purpose
-  let requiredDownPayment = 0;
-  let downPaymentPercent = 0;
-
-  if (loanPurpose.includes('working capital')) {
-    requiredDownPayment = 0;
-    downPaymentPercent = 0;
-  } else if (loanPurpose.includes('real estate') || loanPurpose.includes('property')) {
-    requiredDownPayment = requestedLoanAmount * 0.10; // 10-15%, using 10% for calculation
-    downPaymentPercent = 10;
-  } else {
-    // General purpose, assume 5-10% range
-    requiredDownPayment = requestedLoanAmount * 0.05;
-    downPaymentPercent = 5;
-  }
-
-  // Calculate DSCR including existing debt
-  const dscr = calculateDSCRForOwner(
-    annualNetIncome,
-    existingDebtPayment,
-    requestedLoanAmount,
-    0.095,
-    10
-  );
-
-  const reasons: string[] = [];
-  const recommendations: string[] = [];
-  let score = 100; // Start at 100, deduct points for issues
-
-  // 1. Citizenship Check (HARD STOP)
-  const citizenshipCheck = {
-    passed: isCitizen,
-    message: isCitizen
-      ? 'US Citizen or Lawful Permanent Resident ✓'
-      : 'Must be US Citizen or Lawful Permanent Resident'
-  };
-
-  if (!isCitizen) {
-    return 'Ineligible for SBA loan, Non-US citizens are ineligible for SBA loans, Recommendation: Consider alternative lending options';
-  }
-
-  // 2. Credit Score Check (HARD STOP for < 650)
-  if (Number.isNaN(creditScoreValue) || creditScoreValue < 650) {
-    return 'Ineligible for SBA loan, Credit score below 650 minimum requirement for SBA financing, Recommendation: Improve personal credit profile before reapplying';
-  }
-
-  // 3. Business Age Check (HARD STOP for < 2 years)
-  if (businessYearsRunning < 2) {
-    return 'Ineligible for SBA loan, Business has operated for less than 2 years, Recommendation: Reapply once the business reaches 24 months of operating history';
-  }
-
-  // Credit Score scoring (for 650+)
-  let creditScoreCheck = { passed: true, message: 'Credit score not provided' };
-
-  if (creditScoreValue > 0) {
-    if (creditScoreValue >= 720) {
-      creditScoreCheck = { passed: true, message: 'Excellent credit score (720+) ✓' };
-      reasons.push('Strong credit profile');
-    } else if (creditScoreValue >= 680) {
-      creditScoreCheck = { passed: true, message: 'Good credit score (680-719) ✓' };
-      score -= 5;
-    } else if (creditScoreValue >= 650) {
-      creditScoreCheck = { passed: true, message: 'Fair credit score (650-679)' };
-      score -= 15;
-      reasons.push('Credit score is on the lower end for SBA approval');
-      recommendations.push('Consider improving credit score before applying');
-    }
-  }
-
-  // Business Age scoring (for 2+ years)
-  let businessAgeCheck = { passed: true, message: 'Business age not provided' };
-
-  if (businessYearsRunning >= 5) {
-    businessAgeCheck = { passed: true, message: `Established business (${businessYearsRunning} years) ✓` };
-    reasons.push('Well-established business history');
-  } else if (businessYearsRunning >= 2) {
-    businessAgeCheck = { passed: true, message: `Business meets minimum (${businessYearsRunning} years) ✓` };
-    score -= 5;
-  }
-
-  // 4. Down Payment Check (based on loan purpose)
-  let downPaymentCheck = { passed: true, message: '' };
-
-  if (loanPurpose.includes('working capital')) {
-    downPaymentCheck = { passed: true, message: 'Working capital loan - No down payment required ✓' };
-  } else if (loanPurpose.includes('real estate') || loanPurpose.includes('property')) {
-    downPaymentCheck = { passed: true, message: `Real estate loan - 10-15% down payment required (${downPaymentPercent}%)` };
-    recommendations.push('Prepare 10-15% down payment for real estate purchase');
-  } else {
-    downPaymentCheck = { passed: true, message: `General purpose loan - ${downPaymentPercent}% down payment may be required` };
-  }
-
-  // 5. Cash Flow / DSCR Check (includes existing debt)
-  let cashFlowCheck = { passed: true, message: '' };
-
-  if (monthlyRevenue <= 0 || monthlyExpenses < 0) {
-    cashFlowCheck = { passed: false, message: 'Business revenue and expense data required' };
-    score -= 30;
-    reasons.push('Financial information required for approval');
-    recommendations.push('Provide detailed financial statements showing monthly revenue and expenses');
-  } else if (monthlyNetIncome <= 0) {
-    cashFlowCheck = { passed: false, message: 'Business is not profitable - cannot support additional debt' };
-    score -= 50;
-    reasons.push('Business must show positive net income to qualify');
-    recommendations.push('Improve business profitability before seeking additional financing');
-  } else if (dscr >= 1.35) {
-    cashFlowCheck = { passed: true, message: `Excellent cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓` };
-    reasons.push('Strong debt service coverage ratio including existing debt');
-  } else if (dscr >= 1.25) {
-    cashFlowCheck = { passed: true, message: `Good cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓` };
-    score -= 5;
-  } else if (dscr >= 1.15) {
-    cashFlowCheck = { passed: true, message: `Adequate cash flow coverage (DSCR: ${dscr.toFixed(2)})` };
-    score -= 15;
-    reasons.push('Cash flow is at minimum threshold for SBA approval');
-    recommendations.push('Consider reducing loan amount to improve debt service coverage');
-  } else {
-    cashFlowCheck = { passed: false, message: `Insufficient cash flow (DSCR: ${dscr.toFixed(2)} < 1.15 required)` };
-    score -= 40;
-    reasons.push('Business cash flow cannot support additional SBA loan payments with existing debt');
-    recommendations.push('Reduce requested loan amount or pay down existing debt first');
-    recommendations.push('Increase business profitability to improve cash flow');
-  }
-
-  // 6. Existing Debt Consideration
-  if (existingDebtPayment > 0) {
-    const debtToIncomeRatio = (existingDebtPayment * 12) / annualNetIncome;
-    if (debtToIncomeRatio > 0.5) {
-      score -= 10;
-      reasons.push('High existing debt burden relative to income');
-      recommendations.push('Consider paying down existing debt before taking on additional financing');
-    }
-  }
-
-  // 7. Loan Amount Validation
-  if (requestedLoanAmount > annualNetIncome * 3) {
-    score -= 15;
-    reasons.push('Requested loan amount is high relative to annual income');
-    recommendations.push('Consider reducing loan request to align with cash flow capacity');
-  }
-
-  // Calculate final approval chance
-  score = Math.max(0, Math.min(100, score)); // Clamp between 0-100
-
-  let approvalChance: 'High' | 'Medium' | 'Low' | 'Very Low' | 'Ineligible';
-  let eligible = true;
-
-  if (score >= 80) {
-    approvalChance = 'High';
-  } else if (score >= 60) {
-    approvalChance = 'Medium';
-  } else if (score >= 40) {
-    approvalChance = 'Low';
-  } else if (score >= 20) {
-    approvalChance = 'Very Low';
-  } else {
-    approvalChance = 'Ineligible';
-    eligible = false;
-  }
-
-  // Add general recommendations if not already high approval
-  if (score < 80) {
-    if (!recommendations.length) {
-      recommendations.push('Prepare comprehensive business plan with 3-year projections');
-      recommendations.push('Gather all required SBA documentation in advance');
-      recommendations.push('Consider working with an SBA-experienced business consultant');
-    }
-  }
-
-  // Build single-line string response
-  const parts: string[] = [];
-
-  // Add approval chance and percentage
-  parts.push(`Approval Chance: ${approvalChance}`);
-  parts.push(`Score: ${score} out of 100`);
-
-  // Add eligibility status
-  parts.push(eligible ? 'Eligible for SBA loan' : 'Not eligible for SBA loan');
-
-  // Add citizenship check
-  parts.push(citizenshipCheck.message);
-
-  // Add credit score check
-  parts.push(creditScoreCheck.message);
-
-  // Add business age check
-  parts.push(businessAgeCheck.message);
-
-  // Add down payment check
-  if (downPaymentCheck.message) {
-    parts.push(downPaymentCheck.message);
-  }
-
-  // Add cash flow check
-  if (cashFlowCheck.message) {
-    parts.push(cashFlowCheck.message);
-  }
-
-  // Add reasons
-  if (reasons.length > 0) {
-    parts.push(`Reasons: ${reasons.join(', ')}`);
-  }
-
-  // Add recommendations
-  if (recommendations.length > 0) {
-    parts.push(`Recommendations: ${recommendations.join(', ')}`);
-  }
-
-  // Join all parts with commas
-  return parts.join(', ');
-}
\ No newline at end of file
@@ -0,0 +1,385 @@
+import { Application } from '../models/Application.js';
+import { Bank } from '../models/Bank.js';
+import {
+  BankEmailClassification,
+  BankEmailMatch,
+  BankEmailResponse,
+  BankEmailProcessingResult,
+  BankSubmissionStatus,
+  ExtractedOfferTerms,
+  SBAApplication
+} from '../types/index.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { getLatestBankSubmission, postBankDecision, requestDocuments } from './bankPortalService.js';
+import { calculateMonthlyPayment } from './structuringService.js';
+import { getActiveRuleset } from './underwritingService.js';
+import websocketService from './websocket.js';
+
+// Lender replies about submitted applications are turned into submission status, offers and
+// document requests instead of getting a generic auto-reply.
+
+const OPEN_SUBMISSION_STATUSES = [BankSubmissionStatus.SUBMITTED, BankSubmissionStatus.ACCEPTED];
+const VISIBLE_SUBMISSION_STATUSES = [...OPEN_SUBMISSION_STATUSES, BankSubmissionStatus.REJECTED];
+
+const OBJECT_ID_PATTERN = /\b([a-f0-9]{24})\b/i;
+
+// Checked in order - a decline that mentions "term sheet" is still a decline
+const CLASSIFICATION_RULES: Array<[BankEmailClassification, RegExp]> = [
+  ['decline', /\b(declin(e|ed|ing)|regret to inform|not approved|cannot approve|can't approve|unable to (approve|move forward|proceed|offer)|not (be )?able to (approve|move forward|proceed|offer)|(will|must|have to) pass|pass on this|not a (good )?fit|does not meet|doesn't meet|(won't|will not) be moving forward)\b/i],
+  ['term_sheet', /\b(term sheet|commitment letter|letter of intent|pleased to (offer|approve|present)|approved (for|the loan)|conditional(ly)? approv(al|ed)|proposed terms|indicative terms|loan terms)\b/i],
+  ['info_request', /\b(please (provide|send|upload|forward|submit)|(could|can) you (please )?(provide|send|upload|forward)|need (the following|additional|more|a copy|copies)|(we('re| are)|you('re| are)|(the )?(file|application|package) is|still|currently) missing|(?<!\bno )(?<!\bnot )missing (the following|documents?|items?|information|info|pages?|signatures?)|additional (documents|information|info)|outstanding items|require(s|d)? (the following|additional))\b/i]
+];
+
+const parseAmount = (value: string, unit?: string): number => {
+  const amount = parseFloat(value.replace(/,/g, ''));
+  const scale = unit?.toLowerCase();
+  if (scale === 'k' || scale === 'thousand') return amount * 1000;
+  if (scale === 'm' || scale === 'mm' || scale === 'million') return amount * 1000000;
+  return amount;
+};
+
+const extractEmailAddress = (from: string): string => {
+  const match = from.match(/<([^>]+)>/) || from.match(/([^\s"<>]+@[^\s"<>]+)/);
+  return (match ? match[1] : from).trim().toLowerCase();
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeMessageId = (id: string): string => `<${id.replace(/[<>]/g, '').trim()}>`;
+
+// Drop quoted history so our own submission email doesn't get classified or mined for terms
+export const stripQuotedReply = (body: string): string => {
+  const lines = body.split(/\r?\n/);
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/i.test(line.trim()) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line.trim()) || /^From:\s.+/i.test(line.trim())) {
+      break;
+    }
+    if (!line.trim().startsWith('>')) {
+      kept.push(line);
+    }
+  }
+
+  return kept.join('\n').trim();
+};
+
+export const classifyBankEmail = (subject: string, body: string): BankEmailClassification => {
+  const text = `${subject}\n${body}`;
+  for (const [classification, pattern] of CLASSIFICATION_RULES) {
+    if (pattern.test(text)) {
+      return classification;
+    }
+  }
+  return 'question';
+};
+
+// Pull structured terms out of free-text term sheets. Prime-based quotes use the ruleset's prime rate.
+export const extractOfferTerms = (text: string, primeRatePercent: number): ExtractedOfferTerms => {
+  const terms: ExtractedOfferTerms = {};
+  const money = '\\$\\s?([\\d,]+(?:\\.\\d+)?)\\s*(k|mm|m|million|thousand)?\\b';
+
+  const loanAmount = text.match(new RegExp(`(?:loan amount|amount of|approved (?:for|amount)|principal)[^$\\d]{0,20}${money}`, 'i'))
+    || text.match(new RegExp(`${money}\\s+(?:sba\\s+)?(?:7\\(a\\)\\s+)?(?:term\\s+)?loan`, 'i'));
+  if (loanAmount) {
+    terms.loanAmount = parseAmount(loanAmount[1], loanAmount[2]);
+  }
+
+  // "Prime + 2.75% variable" is a spread, not a 2.75% rate - an all-in rate only counts when it isn't one
+  const primeSpread = text.match(/prime(?:\s+rate)?\s*\+\s*(\d+(?:\.\d+)?)\s*%?/i);
+  const statedRate = [
+    ...text.matchAll(/(?:interest rate|rate)\s*(?:of|:|is|at)?\s*(\d+(?:\.\d+)?)\s*%/gi),
+    ...text.matchAll(/(\d+(?:\.\d+)?)\s*%\s*(?:fixed|variable|interest|rate|apr)/gi)
+  ].find((match) => {
+    const start = match.index! + match[0].indexOf(match[1]);
+    return !/prime(?:\s+rate)?\s*\+\s*$/i.test(text.slice(Math.max(0, start - 20), start));
+  });
+  if (statedRate) {
+    terms.annualInterestRate = parseFloat(statedRate[1]);
+  } else if (primeSpread) {
+    terms.annualInterestRate = Number((primeRatePercent + parseFloat(primeSpread[1])).toFixed(3));
+  }
+
+  const term = text.match(/(?:term|amortization|maturity)[^\d]{0,20}(\d+)\s*[- ]?(years?|yrs?|months?|mos?)\b/i)
+    || text.match(/(\d+)[- ]?(years?|yrs?|months?|mos?)\s+(?:term|amortization|maturity|loan)/i);
+  if (term) {
+    const value = parseInt(term[1]);
+    terms.repaymentTermMonths = /^y/i.test(term[2]) ? value * 12 : value;
+  }
+
+  const payment = text.match(/(?:monthly payment|payment of|monthly installment)s?[^$\d]{0,20}\$\s?([\d,]+(?:\.\d+)?)/i)
+    || text.match(/\$\s?([\d,]+(?:\.\d+)?)\s*(?:\/|per)\s*(?:month|mo)\b/i);
+  if (payment) {
+    terms.monthlyPayment = parseAmount(payment[1]);
+  }
+
+  const downPayment = text.match(/(?:down payment|equity injection|injection)[^$\d%]{0,20}(?:\$\s?([\d,]+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s*%)/i);
+  if (downPayment?.[1]) {
+    terms.downPaymentRequired = parseAmount(downPayment[1]);
+  } else if (downPayment?.[2] && terms.loanAmount) {
+    // A percent down is a share of the project, and the loan covers the rest
+    const percent = parseFloat(downPayment[2]) / 100;
+    terms.downPaymentRequired = Math.round(terms.loanAmount * percent / (1 - percent));
+  }
+
+  // Fees are quoted either way round: "packaging fee of $2,500" or "$2,500 packaging fee"
+  const feeAmounts = new Map<number, number>();
+  for (const match of text.matchAll(/(?:fee|fees|closing costs?)[^$\d\n]{0,25}\$\s?([\d,]+(?:\.\d+)?)/gi)) {
+    feeAmounts.set(match.index! + match[0].length, parseAmount(match[1]));
+  }
+  for (const match of text.matchAll(/\$\s?([\d,]+(?:\.\d+)?)\s+(?:[a-z]+\s+)?(?:fee|closing costs?)\b/gi)) {
+    feeAmounts.set(match.index! + match[0].indexOf(match[1]) + match[1].length, parseAmount(match[1]));
+  }
+  if (feeAmounts.size > 0) {
+    terms.fees = [...feeAmounts.values()].reduce((sum, fee) => sum + fee, 0);
+  }
+
+  // Term sheets often leave out the payment; derive it when we know the rest
+  if (!terms.monthlyPayment && terms.loanAmount && terms.annualInterestRate && terms.repaymentTermMonths) {
+    terms.monthlyPayment = Math.round(
+      calculateMonthlyPayment(terms.loanAmount, terms.annualInterestRate / 100, terms.repaymentTermMonths / 12) * 100
+    ) / 100;
+  }
+
+  return terms;
+};
+
+// Bulleted or numbered lines are the items being asked for
+const extractRequestedItems = (body: string): string[] => {
+  const items = [...body.matchAll(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/gm)]
+    .map((match) => match[1].trim())
+    .filter((item) => item.length > 0 && item.length <= 200);
+
+  return items.length > 0 ? items : ['Additional information requested - see lender email'];
+};
+
+const firstSentenceMatching = (body: string, pattern: RegExp): string | undefined => {
+  const sentence = body.split(/(?<=[.!?])\s+/).find((s) => pattern.test(s));
+  return sentence?.trim().slice(0, 500);
+};
+
+const findByThread = async (email: FetchedEmail): Promise<BankEmailMatch | null> => {
+  const candidates = [email.threadId, email.inReplyTo, ...(email.references || [])]
+    .filter((id): id is string => Boolean(id))
+    .map(normalizeMessageId);
+
+  if (candidates.length === 0) return null;
+
+  const application = await Application.findOne({ 'banks.messageId': { $in: candidates } }).exec();
+  const submission = application?.banks.find((s) => s.messageId && candidates.includes(s.messageId));
+
+  return application && submission
+    ? { applicationId: (application._id as any).toString(), bankId: submission.bank, matchedBy: 'thread' }
+    : null;
+};
+
+const findBySubject = async (email: FetchedEmail, senderDomain: string): Promise<BankEmailMatch | null> => {
+  const idMatch = email.subject.match(OBJECT_ID_PATTERN);
+  if (!idMatch) return null;
+
+  const application = await Application.findById(idMatch[1]).exec();
+  if (!application) return null;
+
+  const submittedBankIds = [...new Set(
+    application.banks.filter((s) => VISIBLE_SUBMISSION_STATUSES.includes(s.status)).map((s) => s.bank)
+  )];
+  if (submittedBankIds.length === 0) return null;
+
+  // Prefer the bank the sender works for; a single submission is still checked against the sender later
+  const banks = await Bank.find({ _id: { $in: submittedBankIds } }).exec();
+  const senderBank = banks.find((bank) => bank.contacts.email.toLowerCase().endsWith(`@${senderDomain}`));
+  const bankId = senderBank ? senderBank._id.toString() : submittedBankIds.length === 1 ? submittedBankIds[0] : null;
+
+  return bankId
+    ? { applicationId: (application._id as any).toString(), bankId, matchedBy: 'subject' }
+    : null;
+};
+
+const findBySenderDomain = async (email: FetchedEmail, senderDomain: string): Promise<BankEmailMatch | null> => {
+  const banks = await Bank.find({
+    'contacts.email': { $regex: `@${escapeRegex(senderDomain)}$`, $options: 'i' }
+  }).exec();
+  if (banks.length === 0) return null;
+
+  const bankIds = banks.map((bank) => bank._id.toString());
+  const applications = await Application.find({
+    banks: { $elemMatch: { bank: { $in: bankIds }, status: { $in: OPEN_SUBMISSION_STATUSES } } }
+  }).exec();
+
+  // Several open applications with this lender - only a business name mention can tell them apart
+  const text = `${email.subject}\n${email.body}`.toLowerCase();
+  const candidates = applications.length === 1
+    ? applications
+    : applications.filter((app) => app.applicantData.businessName && text.includes(app.applicantData.businessName.toLowerCase()));
+
+  if (candidates.length !== 1) return null;
+
+  const application = candidates[0];
+  const submission = [...application.banks].reverse().find(
+    (s) => bankIds.includes(s.bank) && OPEN_SUBMISSION_STATUSES.includes(s.status)
+  );
+
+  return submission
+    ? { applicationId: (application._id as any).toString(), bankId: submission.bank, matchedBy: 'senderDomain' }
+    : null;
+};
+
+const isBankDomain = async (bankId: string, senderDomain: string): Promise<boolean> => {
+  if (!senderDomain) return false;
+  const bank = await Bank.findById(bankId).select('contacts.email').exec();
+  return Boolean(bank?.contacts?.email?.toLowerCase().endsWith(`@${senderDomain}`));
+};
+
+/**
+ * Match an inbound email to an application and bank: thread first, then the reference in the subject, then sender domain
+ * Anyone can quote a thread or an application ID, so those matches only count when the sender is at the bank's domain
+ */
+export const matchBankEmail = async (
+  email: FetchedEmail
+): Promise<{ match: BankEmailMatch | null; unverified?: BankEmailMatch }> => {
+  const senderDomain = (extractEmailAddress(email.from).split('@')[1] || '').toLowerCase();
+
+  const referenced = (await findByThread(email)) || (await findBySubject(email, senderDomain));
+  if (referenced) {
+    return await isBankDomain(referenced.bankId, senderDomain)
+      ? { match: referenced }
+      : { match: null, unverified: referenced };
+  }
+
+  return { match: senderDomain ? await findBySenderDomain(email, senderDomain) : null };
+};
+
+// Record the email as the submission's last response, unless it already is. Taken before acting on the
+// email so a retried or re-read message can't post a second offer or document request.
+const claimLastResponse = async (
+  applicationId: string,
+  submissionId: string,
+  email: FetchedEmail,
+  classification: BankEmailClassification
+): Promise<boolean> => {
+  const claim = await Application.updateOne(
+    { _id: applicationId, banks: { $elemMatch: { _id: submissionId, 'lastResponse.messageId': { $ne: email.messageId } } } },
+    {
+      $set: {
+        'banks.$.lastResponse': {
+          classification,
+          messageId: email.messageId,
+          subject: email.subject,
+          receivedAt: email.date
+        }
+      }
+    }
+  ).exec();
+
+  return claim.modifiedCount > 0;
+};
+
+// Put the previous response back when acting on the email failed, so it's processed again next time
+const releaseLastResponse = async (
+  applicationId: string,
+  submissionId: string,
+  previous: BankEmailResponse | undefined
+): Promise<void> => {
+  await Application.updateOne(
+    { _id: applicationId, 'banks._id': submissionId },
+    previous ? { $set: { 'banks.$.lastResponse': previous } } : { $unset: { 'banks.$.lastResponse': '' } }
+  ).exec();
+};
+
+// Process a lender email. Returns matched: false for anything that isn't about a submitted application.
+export const processBankEmail = async (email: FetchedEmail): Promise<BankEmailProcessingResult> => {
+  const { match, unverified } = await matchBankEmail(email);
+  if (unverified) {
+    console.warn(`⚠️ ${email.from} referenced application ${unverified.applicationId} (by ${unverified.matchedBy}) but isn't at that bank's domain - holding for review`);
+    return { matched: false, needsReview: true };
+  }
+  if (!match) {
+    return { matched: false };
+  }
+
+  const application = await Application.findById(match.applicationId).exec();
+  const submission = application && getLatestBankSubmission(application as SBAApplication, match.bankId);
+
+  const body = stripQuotedReply(email.body);
+  const classification = classifyBankEmail(email.subject, body);
+  const result: BankEmailProcessingResult = { matched: true, match, classification };
+
+  // The submission was withdrawn or failed in the meantime - nothing left to update
+  if (!submission) {
+    console.log(`⏭️ Bank email ${email.messageId} has no open submission to update`);
+    return result;
+  }
+
+  // Already handled this exact message (e.g. it was marked unread again, or another worker has it)
+  const last = submission.lastResponse;
+  const previousResponse: BankEmailResponse | undefined = last?.messageId
+    ? { classification: last.classification, messageId: last.messageId, subject: last.subject, receivedAt: last.receivedAt }
+    : undefined;
+  if (!(await claimLastResponse(match.applicationId, String(submission._id), email, classification))) {
+    console.log(`⏭️ Bank email ${email.messageId} already processed`);
+    return { matched: true, match, classification: submission.lastResponse?.classification || classification };
+  }
+
+  console.log(`🏦 Bank email for application ${match.applicationId} matched by ${match.matchedBy}: ${classification}`);
+
+  try {
+    await actOnBankEmail(email, body, match, classification, result);
+  } catch (error) {
+    await releaseLastResponse(match.applicationId, String(submission._id), previousResponse);
+    throw error;
+  }
+
+  websocketService.broadcast('bank-email', {
+    applicationId: match.applicationId,
+    bankId: match.bankId,
+    classification,
+    subject: email.subject,
+    offerCreated: result.offerCreated || false,
+    timestamp: new Date().toISOString()
+  });
+
+  return result;
+};
+
+// Turn the classified email into a decision, offer or document request
+const actOnBankEmail = async (
+  email: FetchedEmail,
+  body: string,
+  match: BankEmailMatch,
+  classification: BankEmailClassification,
+  result: BankEmailProcessingResult
+): Promise<void> => {
+  if (classification === 'decline') {
+    await postBankDecision(match.bankId, match.applicationId, {
+      decision: 'reject',
+      reason: firstSentenceMatching(body, CLASSIFICATION_RULES[0][1]) || email.subject
+    });
+  } else if (classification === 'term_sheet') {
+    const ruleset = await getActiveRuleset();
+    const terms = extractOfferTerms(body, ruleset.rules.structuring.primeRate * 100);
+    result.extractedTerms = terms;
+
+    const complete = terms.repaymentTermMonths && terms.annualInterestRate && terms.monthlyPayment;
+    await postBankDecision(match.bankId, match.applicationId, {
+      decision: complete ? 'offer' : 'accept',
+      reason: `Term sheet received by email: ${email.subject}`,
+      ...(complete && {
+        offerDetails: {
+          repaymentTermMonths: terms.repaymentTermMonths!,
+          annualInterestRate: terms.annualInterestRate!,
+          monthlyPayment: terms.monthlyPayment!,
+          downPaymentRequired: terms.downPaymentRequired || 0,
+          loanAmount: terms.loanAmount,
+          fees: terms.fees
+        }
+      })
+    });
+    result.offerCreated = Boolean(complete);
+  } else if (classification === 'info_request') {
+    const bank = await Bank.findById(match.bankId).exec();
+    await requestDocuments(match.bankId, bank?.name || 'Your lender', match.applicationId, {
+      documents: extractRequestedItems(body),
+      message: body.slice(0, 1000)
+    });
+  }
+};
@@ -0,0 +1,291 @@
+import {
+  Bank,
+  BankMatch,
+  BankMatchCriterion,
+  BankMatchCriterionId,
+  BankMatchProfile,
+  ResolvedUnderwritingRuleset,
+  SBAApplication
+} from '../types/index.js';
+import { evaluateBuyerEligibility, evaluateOwnerEligibility } from './eligibilityService.js';
+import { DEFAULT_UNDERWRITING_RULESET } from './underwritingService.js';
+
+// Relative importance of each criterion in the fit score
+const MATCH_WEIGHTS: Record<BankMatchCriterionId, number> = {
+  creditScore: 25,
+  yearsInBusiness: 15,
+  loanAmount: 15,
+  dscr: 15,
+  equity: 10,
+  industry: 10,
+  state: 5,
+  borrowerType: 5,
+  sbaPreferredLender: 5
+};
+
+// Score given when the applicant hasn't told us enough to judge a criterion
+const NEUTRAL_SCORE = 0.5;
+
+const formatCurrency = (amount: number): string => `$${Math.round(amount).toLocaleString('en-US')}`;
+
+// Clearing a minimum earns half credit; the rest scales with headroom above it.
+// A bank whose floor sits right at the applicant's numbers is a riskier fit than one with room to spare.
+const headroomScore = (value: number, minimum: number, fullCreditHeadroom: number): number => {
+  if (fullCreditHeadroom <= 0) return 1;
+  return 0.5 + 0.5 * Math.min(1, Math.max(0, value - minimum) / fullCreditHeadroom);
+};
+
+const criterion = (
+  id: BankMatchCriterionId,
+  score: number,
+  passed: boolean,
+  hardRequirement: boolean,
+  explanation: string
+): BankMatchCriterion => ({
+  criterion: id,
+  weight: MATCH_WEIGHTS[id],
+  score: Number(score.toFixed(2)),
+  passed,
+  hardRequirement,
+  explanation
+});
+
+const normalizeIndustry = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const scoreCreditScore = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const minimum = bank.requirements.minimumCreditScore;
+  if (profile.creditScore < minimum) {
+    return criterion('creditScore', 0, false, true, `Credit score ${profile.creditScore} is below the ${minimum} minimum`);
+  }
+  return criterion('creditScore', headroomScore(profile.creditScore, minimum, 80), true, true,
+    `Credit score ${profile.creditScore} meets the ${minimum} minimum`);
+};
+
+const scoreYearsInBusiness = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const minimum = bank.requirements.minimumYearsInBusiness;
+  if (profile.yearsInBusiness < minimum) {
+    return criterion('yearsInBusiness', 0, false, true,
+      `${profile.yearsInBusiness} years in business is below the ${minimum}-year minimum`);
+  }
+  return criterion('yearsInBusiness', headroomScore(profile.yearsInBusiness, minimum, 5), true, true,
+    `${profile.yearsInBusiness} years in business meets the ${minimum}-year minimum`);
+};
+
+const scoreLoanAmount = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const range = bank.requirements.loanAmountRange;
+  const min = range?.min;
+  const max = range?.max;
+
+  if (min === undefined && max === undefined) {
+    return criterion('loanAmount', 1, true, true, 'Bank has no loan size restrictions');
+  }
+  if (!profile.loanAmount) {
+    return criterion('loanAmount', NEUTRAL_SCORE, true, true, 'Loan amount not provided');
+  }
+  if (min !== undefined && profile.loanAmount < min) {
+    return criterion('loanAmount', 0, false, true,
+      `Loan of ${formatCurrency(profile.loanAmount)} is below the bank's ${formatCurrency(min)} minimum`);
+  }
+  if (max !== undefined && profile.loanAmount > max) {
+    return criterion('loanAmount', 0, false, true,
+      `Loan of ${formatCurrency(profile.loanAmount)} exceeds the bank's ${formatCurrency(max)} maximum`);
+  }
+  return criterion('loanAmount', 1, true, true, `Loan of ${formatCurrency(profile.loanAmount)} is within the bank's lending range`);
+};
+
+const scoreDSCR = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const minimum = bank.requirements.minimumDSCR;
+
+  if (minimum === undefined || minimum === null) {
+    return criterion('dscr', 1, true, true, 'Bank has no minimum DSCR');
+  }
+  if (profile.dscr === undefined) {
+    return criterion('dscr', NEUTRAL_SCORE, true, true, 'DSCR not available');
+  }
+  if (profile.dscr < minimum) {
+    return criterion('dscr', 0, false, true, `DSCR of ${profile.dscr.toFixed(2)}x is below the ${minimum}x minimum`);
+  }
+  return criterion('dscr', headroomScore(profile.dscr, minimum, 0.5), true, true,
+    `DSCR of ${profile.dscr.toFixed(2)}x meets the ${minimum}x minimum`);
+};
+
+// Equity injection only applies to acquisitions
+const scoreEquity = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const minimum = bank.requirements.minimumEquityPercent;
+
+  if (minimum === undefined || minimum === null || profile.userType === 'owner') {
+    return criterion('equity', 1, true, true, 'No equity injection requirement applies');
+  }
+  if (profile.equityPercent === undefined) {
+    return criterion('equity', NEUTRAL_SCORE, true, true, 'Equity injection not available');
+  }
+  if (profile.equityPercent < minimum) {
+    return criterion('equity', 0, false, true,
+      `Equity injection of ${profile.equityPercent.toFixed(1)}% is below the required ${minimum}%`);
+  }
+  return criterion('equity', headroomScore(profile.equityPercent, minimum, 10), true, true,
+    `Equity injection of ${profile.equityPercent.toFixed(1)}% meets the required ${minimum}%`);
+};
+
+// Industry focus is a preference, not a rule: specialists score higher, generalists sit in the middle
+const scoreIndustry = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const industries = bank.requirements.industries || [];
+
+  if (industries.length === 0) {
+    return criterion('industry', NEUTRAL_SCORE, true, false, 'Bank lends across all industries');
+  }
+  if (!profile.industry) {
+    return criterion('industry', NEUTRAL_SCORE, true, false, 'Industry not provided');
+  }
+
+  const applicantIndustry = normalizeIndustry(profile.industry);
+  const match = industries.find((industry) => {
+    const normalized = normalizeIndustry(industry);
+    return normalized.length > 0 && (applicantIndustry.includes(normalized) || normalized.includes(applicantIndustry));
+  });
+
+  return match
+    ? criterion('industry', 1, true, false, `Bank specializes in ${match}`)
+    : criterion('industry', 0, false, false, `${profile.industry} is outside the bank's focus industries`);
+};
+
+const scoreState = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const states = (bank.requirements.statesServed || []).map((state) => state.toUpperCase());
+
+  if (states.length === 0) {
+    return criterion('state', 1, true, true, 'Bank lends nationwide');
+  }
+  if (!profile.state) {
+    return criterion('state', NEUTRAL_SCORE, true, true, 'Business state not provided');
+  }
+  if (!states.includes(profile.state.toUpperCase())) {
+    return criterion('state', 0, false, true, `Bank does not lend in ${profile.state.toUpperCase()}`);
+  }
+  return criterion('state', 1, true, true, `Bank lends in ${profile.state.toUpperCase()}`);
+};
+
+const scoreBorrowerType = (bank: Bank, profile: BankMatchProfile): BankMatchCriterion => {
+  const preference = bank.requirements.borrowerPreference || 'both';
+
+  if (preference === 'both') {
+    return criterion('borrowerType', 0.75, true, false, 'Bank works with both buyers and owners');
+  }
+  if (!profile.userType) {
+    return criterion('borrowerType', NEUTRAL_SCORE, true, false, 'Borrower type not provided');
+  }
+
+  const label = (type: string) => (type === 'buyer' ? 'acquisition buyers' : 'existing business owners');
+  return preference === profile.userType
+    ? criterion('borrowerType', 1, true, false, `Bank prefers ${label(preference)}`)
+    : criterion('borrowerType', 0, false, false, `Bank prefers ${label(preference)}`);
+};
+
+// PLP lenders decide in-house, which usually means a faster close
+const scoreSBAPreferredLender = (bank: Bank): BankMatchCriterion => {
+  return bank.requirements.sbaPreferredLender
+    ? criterion('sbaPreferredLender', 1, true, false, 'SBA Preferred Lender - can approve without SBA review')
+    : criterion('sbaPreferredLender', NEUTRAL_SCORE, true, false, 'Not an SBA Preferred Lender - approvals go through the SBA');
+};
+
+// Score how well one bank fits the applicant, with an explanation per criterion
+export const scoreBankFit = (bank: Bank, profile: BankMatchProfile): BankMatch => {
+  const criteria = [
+    scoreCreditScore(bank, profile),
+    scoreYearsInBusiness(bank, profile),
+    scoreLoanAmount(bank, profile),
+    scoreDSCR(bank, profile),
+    scoreEquity(bank, profile),
+    scoreIndustry(bank, profile),
+    scoreState(bank, profile),
+    scoreBorrowerType(bank, profile),
+    scoreSBAPreferredLender(bank)
+  ];
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weightedScore = criteria.reduce((sum, c) => sum + c.weight * c.score, 0);
+  const disqualifiers = criteria
+    .filter((c) => c.hardRequirement && !c.passed)
+    .map((c) => c.explanation);
+
+  return {
+    bank,
+    fitScore: totalWeight > 0 ? Math.round((weightedScore / totalWeight) * 100) : 0,
+    eligible: disqualifiers.length === 0,
+    criteria,
+    disqualifiers
+  };
+};
+
+// Split banks into eligible matches (best fit first) and excluded banks
+export const rankBanks = (
+  banks: Bank[],
+  profile: BankMatchProfile
+): { matches: BankMatch[]; excluded: BankMatch[] } => {
+  const scored = banks
+    .map((bank) => scoreBankFit(bank, profile))
+    .sort((a, b) => b.fitScore - a.fitScore || a.bank.name.localeCompare(b.bank.name));
+
+  return {
+    matches: scored.filter((match) => match.eligible),
+    excluded: scored.filter((match) => !match.eligible)
+  };
+};
+
+// Pull the state code out of an address like "123 Main St, Austin, TX 78701"
+export const parseStateFromAddress = (address?: string): string | undefined => {
+  if (!address) return undefined;
+  const match = address.match(/\b([A-Z]{2})\s+\d{5}(?:-\d{4})?\b/) || address.match(/,\s*([A-Z]{2})\s*$/);
+  return match ? match[1] : undefined;
+};
+
+// Build the matcher profile for a stored application, running eligibility for DSCR, loan size and equity
+export const buildMatchProfile = (
+  application: SBAApplication,
+  ruleset: ResolvedUnderwritingRuleset = DEFAULT_UNDERWRITING_RULESET
+): BankMatchProfile => {
+  const data = application.applicantData;
+  const fields = application.sba1919Fields;
+
+  const profile: BankMatchProfile = {
+    creditScore: data.creditScore,
+    yearsInBusiness: new Date().getFullYear() - data.yearFounded,
+    userType: data.userType,
+    industry: fields?.PrimarIndustry || undefined,
+    state: parseStateFromAddress(fields?.busAddr)
+  };
+
+  // Financials are only there when the applicant went through the chances flow
+  if (data.userType === 'buyer' && data.purchasePrice) {
+    const evaluation = evaluateBuyerEligibility({
+      purchasePrice: data.purchasePrice,
+      availableCash: data.availableCash || '0',
+      businessCashFlow: data.businessCashFlow || '0',
+      buyerCreditScore: data.buyerCreditScore || String(data.creditScore),
+      isUSCitizen: data.isUSCitizen,
+      businessYearsRunning: data.businessYearsRunning ?? profile.yearsInBusiness,
+      industryExperience: data.industryExperience,
+      sellerFinancingPercentage: data.sellerFinancingPercentage,
+      sellerFinancingOnStandby: data.sellerFinancingOnStandby === true
+    }, ruleset);
+
+    profile.loanAmount = evaluation.metrics.loanAmount;
+    profile.dscr = evaluation.metrics.dscr;
+    profile.equityPercent = evaluation.metrics.capitalStack?.equityInjection.creditedPercent;
+  } else if (data.userType === 'owner' && data.requestedLoanAmount) {
+    const evaluation = evaluateOwnerEligibility({
+      monthlyRevenue: data.monthlyRevenue || '0',
+      monthlyExpenses: data.monthlyExpenses || '0',
+      existingDebtPayment: data.existingDebtPayment || '0',
+      requestedLoanAmount: data.requestedLoanAmount,
+      loanPurpose: data.loanPurpose || '',
+      ownerCreditScore: data.ownerCreditScore || String(data.creditScore),
+      isUSCitizen: data.isUSCitizen,
+      businessYearsRunning: data.businessYearsRunning ?? profile.yearsInBusiness
+    }, ruleset);
+
+    profile.loanAmount = evaluation.metrics.loanAmount;
+    profile.dscr = evaluation.metrics.dscr;
+  }
+
+  return profile;
+};
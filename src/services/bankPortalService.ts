@@ -0,0 +1,250 @@
+import { Application } from '../models/Application.js';
+import {
+  BankDecisionRequest,
+  BankDocumentRequestInput,
+  BankSubmissionStatus,
+  SBAApplication
+} from '../types/index.js';
+import { generatePresignedUrl } from './s3Service.js';
+import { buildPackageManifest } from './packageBuilder.js';
+import { notifyDocumentsMissing, notifyOfferReceived } from './lifecycleEmailService.js';
+import websocketService from './websocket.js';
+
+// Lender-facing view of applications. A bank only ever sees applications that were actually
+// delivered to it, and only its own submission history, offers and document requests.
+
+// Pending and failed deliveries never reached the lender
+const VISIBLE_SUBMISSION_STATUSES = [
+  BankSubmissionStatus.SUBMITTED,
+  BankSubmissionStatus.ACCEPTED,
+  BankSubmissionStatus.REJECTED
+];
+
+const submittedToBankQuery = (bankId: string, status?: BankSubmissionStatus) => ({
+  banks: {
+    $elemMatch: {
+      bank: bankId,
+      status: status ? status : { $in: VISIBLE_SUBMISSION_STATUSES }
+    }
+  }
+});
+
+// Most recent delivered submission for this bank
+export const getLatestBankSubmission = (application: SBAApplication, bankId: string) => {
+  const submissions = (application.banks || []).filter(
+    (submission) => submission.bank === bankId && VISIBLE_SUBMISSION_STATUSES.includes(submission.status)
+  );
+  return submissions[submissions.length - 1];
+};
+
+const toPortalSummary = (application: SBAApplication, bankId: string) => {
+  const submission = getLatestBankSubmission(application, bankId);
+  const data = application.applicantData;
+
+  return {
+    applicationId: (application._id as any).toString(),
+    businessName: data.businessName,
+    applicantName: data.name,
+    userType: data.userType,
+    creditScore: data.creditScore,
+    yearFounded: data.yearFounded,
+    annualRevenue: data.annualRevenue,
+    requestedLoanAmount: data.requestedLoanAmount,
+    purchasePrice: data.purchasePrice,
+    loanChances: application.loanChances,
+    submission: submission && {
+      status: submission.status,
+      submittedAt: submission.submittedAt,
+      wave: submission.wave,
+      packageHash: submission.packageHash,
+      decidedAt: submission.decidedAt,
+      decisionReason: submission.decisionReason
+    },
+    offers: (application.offers || []).filter((offer) => offer.bank === bankId),
+    documentRequests: (application.documentRequests || []).filter((request) => request.bank === bankId)
+  };
+};
+
+const findSubmittedApplication = async (bankId: string, applicationId: string) => {
+  const application = await Application.findOne({
+    _id: applicationId,
+    ...submittedToBankQuery(bankId)
+  }).exec();
+
+  // Same message whether it doesn't exist or wasn't sent to this bank - don't leak other lenders' applications
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  return application;
+};
+
+// List applications delivered to a bank, newest submission activity first
+export const listSubmittedApplications = async (
+  bankId: string,
+  page: number = 1,
+  limit: number = 10,
+  status?: BankSubmissionStatus
+) => {
+  const query = submittedToBankQuery(bankId, status);
+  const skip = (page - 1) * limit;
+
+  const [applications, total] = await Promise.all([
+    Application.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit).exec(),
+    Application.countDocuments(query).exec()
+  ]);
+
+  return {
+    applications: applications.map((application) => toPortalSummary(application, bankId)),
+    total,
+    page,
+    pages: Math.ceil(total / limit)
+  };
+};
+
+// Application detail with time-limited download links for every document in the package
+export const getSubmittedApplication = async (
+  bankId: string,
+  applicationId: string,
+  expiresIn: number = 3600
+) => {
+  const application = await findSubmittedApplication(bankId, applicationId);
+
+  const packageDocuments = [
+    ...(application.draftDocuments || []).filter((doc) => doc.signed),
+    ...(application.userProvidedDocuments || [])
+  ];
+
+  const documents = await Promise.all(
+    packageDocuments.map(async (doc) => ({
+      fileName: doc.fileName,
+      fileType: doc.fileType,
+      url: await generatePresignedUrl(doc.s3Key, expiresIn),
+      expiresIn
+    }))
+  );
+
+  // The flattened package and its manifest, so the lender can check what they received
+  const finalPackage = application.finalPackage?.sha256
+    ? {
+        ...buildPackageManifest(applicationId, application.finalPackage),
+        url: await generatePresignedUrl(application.finalPackage.s3Key, expiresIn),
+        expiresIn
+      }
+    : undefined;
+
+  return {
+    ...toPortalSummary(application, bankId),
+    documents,
+    package: finalPackage
+  };
+};
+
+// Ask the applicant for more documents; they're notified by email when we know their address
+export const requestDocuments = async (
+  bankId: string,
+  bankName: string,
+  applicationId: string,
+  input: BankDocumentRequestInput
+) => {
+  const application = await findSubmittedApplication(bankId, applicationId);
+
+  const documentRequest = {
+    bank: bankId,
+    documents: input.documents,
+    message: input.message,
+    status: 'open' as const,
+    requestedAt: new Date()
+  };
+
+  application.documentRequests = [...(application.documentRequests || []), documentRequest];
+  application.markModified('documentRequests');
+  await application.save();
+
+  try {
+    await notifyDocumentsMissing(application, input.documents, {
+      requestedBy: bankName,
+      note: input.message && `Note from the lender: ${input.message}`,
+      bankId
+    });
+  } catch (error) {
+    // The request is recorded either way; the applicant also sees it in the portal
+    console.error('Failed to notify applicant of document request:', error);
+  }
+
+  websocketService.broadcast('bank-document-request', {
+    applicationId,
+    bankId,
+    documents: input.documents,
+    timestamp: new Date().toISOString()
+  });
+
+  const saved = application.documentRequests[application.documentRequests.length - 1];
+  return saved;
+};
+
+// Record a lender decision against its latest submission; offers land directly on the application
+export const postBankDecision = async (
+  bankId: string,
+  applicationId: string,
+  request: BankDecisionRequest
+) => {
+  const application = await findSubmittedApplication(bankId, applicationId);
+  const submission = getLatestBankSubmission(application, bankId);
+
+  if (!submission) {
+    throw new Error('Application not found');
+  }
+
+  const decidedAt = new Date();
+  submission.status = request.decision === 'reject'
+    ? BankSubmissionStatus.REJECTED
+    : BankSubmissionStatus.ACCEPTED;
+  submission.decidedAt = decidedAt;
+  submission.decisionReason = request.reason;
+
+  if (request.decision === 'reject') {
+    // A declined application withdraws whatever this bank still had on the table
+    application.offers.forEach((offer) => {
+      if (offer.bank === bankId && offer.status === 'pending') {
+        offer.status = 'declined';
+      }
+    });
+  } else if (request.offerDetails) {
+    const details = request.offerDetails;
+    application.offers.push({
+      bank: bankId,
+      offerDetails: {
+        repaymentTermMonths: details.repaymentTermMonths,
+        annualInterestRate: details.annualInterestRate,
+        monthlyPayment: details.monthlyPayment,
+        downPaymentRequired: details.downPaymentRequired,
+        ...(details.loanAmount !== undefined && { loanAmount: details.loanAmount }),
+        fees: details.fees || 0
+      },
+      status: 'pending'
+    });
+  }
+
+  application.markModified('banks');
+  application.markModified('offers');
+  await application.save();
+
+  websocketService.broadcast('bank-decision', {
+    applicationId,
+    bankId,
+    decision: request.decision,
+    timestamp: decidedAt.toISOString()
+  });
+
+  if (request.decision !== 'reject' && request.offerDetails) {
+    notifyOfferReceived(application, bankId, request.offerDetails)
+      .catch((error) => console.error('Failed to send offer received email:', error));
+  }
+
+  const summary = toPortalSummary(application, bankId);
+  return {
+    ...summary,
+    offer: request.offerDetails ? summary.offers[summary.offers.length - 1] : undefined
+  };
+};
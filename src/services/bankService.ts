@@ -1,10 +1,21 @@
+import crypto from 'crypto';
 import { Bank } from '../models/Bank.js';
-import { CreateBankRequest, UpdateBankRequest, BankListResponse } from '../types/index.js';
+import {
+  CreateBankRequest,
+  UpdateBankRequest,
+  BankListResponse,
+  BankMatchProfile,
+  BankRecommendation
+} from '../types/index.js';
+import { rankBanks } from './bankMatchingService.js';
 
 // CREATE
 export const createBank = async (bankData: CreateBankRequest) => {
   try {
-    const bank = new Bank(bankData);
+    // Portal credentials are managed through their own endpoints only
+    const { portalCredentials, ...safeData } = bankData as CreateBankRequest & { portalCredentials?: unknown };
+
+    const bank = new Bank(safeData);
     await bank.save();
     return bank;
   } catch (error: any) {
@@ -69,9 +80,12 @@ export const getBanks = async (
 // UPDATE
 export const updateBank = async (bankId: string, updateData: UpdateBankRequest) => {
   try {
+    // Portal credentials are managed through their own endpoints only
+    const { portalCredentials, ...safeUpdate } = updateData as UpdateBankRequest & { portalCredentials?: unknown };
+
     const bank = await Bank.findByIdAndUpdate(
       bankId,
-      { $set: updateData },
+      { $set: safeUpdate },
       { new: true, runValidators: true }
     ).exec();
     return bank;
@@ -109,27 +123,115 @@ export const getBankByName = async (name: string) => {
   }
 };
 
-// RECOMMEND - Find banks that match application requirements
-export const recommendBank = async (applicationData: {
-  creditScore: number;
-  yearsInBusiness: number;
-}) => {
+// RECOMMEND - Rank every bank by weighted fit; banks failing a hard requirement are returned separately
+export const recommendBank = async (applicationData: BankMatchProfile): Promise<BankRecommendation> => {
   try {
-    // Find banks where applicant meets or exceeds the minimum requirements
-    const matchingBanks = await Bank.find({
-      'requirements.minimumCreditScore': { $lte: applicationData.creditScore },
-      'requirements.minimumYearsInBusiness': { $lte: applicationData.yearsInBusiness }
-    })
-      .sort({ 'requirements.minimumCreditScore': -1 }) // Sort by highest credit score requirement first
-      .exec();
+    const banks = await Bank.find().exec();
+    const { matches, excluded } = rankBanks(banks, applicationData);
 
     return {
       applicantProfile: applicationData,
-      matchingBanks,
-      totalMatches: matchingBanks.length
+      matches,
+      matchingBanks: matches.map((match) => match.bank),
+      excludedBanks: excluded,
+      totalMatches: matches.length
     };
   } catch (error) {
     console.error('Error recommending banks:', error);
     throw error;
   }
 };
+
+// PORTAL CREDENTIALS - API keys look like bk_<keyId>_<secret>; only the secret's hash is stored
+const PORTAL_KEY_PATTERN = /^bk_([a-f0-9]{16})_([A-Za-z0-9_-]+)$/;
+
+const hashPortalSecret = (secret: string): string =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+// Issue a new portal API key; the plaintext key is only ever returned here
+export const createPortalCredential = async (bankId: string, label?: string) => {
+  const keyId = crypto.randomBytes(8).toString('hex');
+  const secret = crypto.randomBytes(24).toString('base64url');
+  const createdAt = new Date();
+
+  const bank = await Bank.findByIdAndUpdate(
+    bankId,
+    {
+      $push: {
+        portalCredentials: {
+          keyId,
+          secretHash: hashPortalSecret(secret),
+          label,
+          createdAt
+        }
+      }
+    },
+    { new: true }
+  ).exec();
+
+  if (!bank) {
+    throw new Error('Bank not found');
+  }
+
+  return {
+    keyId,
+    label,
+    createdAt,
+    apiKey: `bk_${keyId}_${secret}`
+  };
+};
+
+export const listPortalCredentials = async (bankId: string) => {
+  const bank = await Bank.findById(bankId).select('portalCredentials').exec();
+
+  if (!bank) {
+    throw new Error('Bank not found');
+  }
+
+  return (bank.portalCredentials || []).map((credential) => ({
+    keyId: credential.keyId,
+    label: credential.label,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt,
+    revokedAt: credential.revokedAt
+  }));
+};
+
+export const revokePortalCredential = async (bankId: string, keyId: string) => {
+  const result = await Bank.updateOne(
+    { _id: bankId, portalCredentials: { $elemMatch: { keyId, revokedAt: { $exists: false } } } },
+    { $set: { 'portalCredentials.$.revokedAt': new Date() } }
+  ).exec();
+
+  if (result.matchedCount === 0) {
+    throw new Error('Credential not found');
+  }
+};
+
+// Resolve the bank behind a portal API key, or null when the key is unknown or revoked
+export const authenticatePortalKey = async (apiKey: string) => {
+  const match = apiKey.match(PORTAL_KEY_PATTERN);
+  if (!match) return null;
+
+  const [, keyId, secret] = match;
+  const bank = await Bank.findOne({ 'portalCredentials.keyId': keyId })
+    .select('+portalCredentials.secretHash')
+    .exec();
+
+  const credential = bank?.portalCredentials?.find((c) => c.keyId === keyId);
+  if (!bank || !credential || credential.revokedAt) return null;
+
+  const expected = Buffer.from(credential.secretHash, 'hex');
+  const actual = Buffer.from(hashPortalSecret(secret), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  // Usage tracking shouldn't hold up the request
+  Bank.updateOne(
+    { _id: bank._id, 'portalCredentials.keyId': keyId },
+    { $set: { 'portalCredentials.$.lastUsedAt': new Date() } }
+  ).exec().catch((error) => console.error('Failed to record portal key usage:', error));
+
+  return bank;
+};
@@ -1,24 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
 import { ChatSession, IChatSessionDocument } from '../models/ChatSession.js';
-import { ChatDocument, ChatMessage, SBAApplicationData } from '../types/index.js';
+import {
+  ApplicationOwnerInput,
+  ChatDocument,
+  ChatMessage,
+  FieldValidationError,
+  FormConsistencyIssue,
+  FormType,
+  OwnerSummary,
+  SBAApplicationData
+} from '../types/index.js';
 import websocketService from './websocket.js';
 import {
-  CHECKBOX_GROUPS,
-  CHECKBOX_GROUPS_413,
   extractFormFieldValues,
-  getGroupCheckboxes,
-  getGroupCheckboxes413
+  getCheckboxGroups,
+  getGroupCheckboxes
 } from './pdfFormProcessor.js';
 import { Application } from '../models/Application.js';
 import {
-  calculateSBAEligibilityForBuyer,
-  calculateSBAEligibilityForOwner,
   createDraft,
   generateDraftPDFs
 } from './applicationService.js';
+import { evaluateBuyerEligibility, evaluateOwnerEligibility } from './eligibilityService.js';
+import { toLoanChanceResult, formatEligibilityForChat } from '../utils/eligibilityFormatters.js';
 import { downloadDocument, generatePresignedUrl } from './s3Service.js';
+import { getActiveRuleset } from './underwritingService.js';
 import formStateService from './FormStateService.js';
 import { getFieldLabel } from './formFields.js';
+import { getFormLabel, getFormTypes, isRegisteredForm } from './formRegistry.js';
+import { describeValidationErrors, normalizeFieldValue } from './fieldValidation.js';
+import { addOwner, listOwners, switchOwner } from './ownerService.js';
+import { PFS_OWNERSHIP_THRESHOLD } from './ownerFields.js';
 
 /**
  * Create a new chat session
@@ -119,6 +131,29 @@ interface ToolResult {
  */
 const getRooms = (sessionId: string): string[] => ['global', sessionId];
 
+/**
+ * Tool result for a field value that failed validation
+ * The errors are plain sentences the agent reads back before asking again
+ */
+const rejectedValueResult = (
+  field: string,
+  formType: FormType,
+  errors: FieldValidationError[]
+): ToolResult => ({
+  success: false,
+  message: describeValidationErrors(errors),
+  instruction: 'The value was NOT saved. Tell the user what is wrong with it in plain words, then ask for the field again.',
+  data: { field, formType, errors }
+});
+
+/**
+ * Tool result for a formType the registry doesn't know
+ */
+const unknownFormResult = (formType: string): ToolResult => ({
+  success: false,
+  message: `Unknown form: ${formType}. Available forms: ${getFormTypes().join(', ')}`
+});
+
 /**
  * Generate flow context string for LLM injection
  * This reminds the LLM which conversation flow it's in to prevent random flow switches
@@ -304,13 +339,16 @@ export const handleCaptureCreditScore = async (
     source: 'chat'
   }, rooms);
 
-  // HARD STOP: Credit score below 650
-  if (creditScore && creditScore < 650) {
+  // HARD STOP: Credit score below the active ruleset minimum
+  const { version: rulesetVersion, rules } = await getActiveRuleset();
+  const minimumCreditScore = rules.creditScore.minimum;
+  if (creditScore && creditScore < minimumCreditScore) {
     const chanceResult = {
       score: 0,
       chance: 'low' as const,
+      rulesetVersion,
       reasons: [
-        'Credit score below 650 minimum requirement for SBA financing',
+        `Credit score below ${minimumCreditScore} minimum requirement for SBA financing`,
         'Improve personal credit profile before reapplying'
       ]
     };
@@ -325,7 +363,7 @@ export const handleCaptureCreditScore = async (
     return {
       success: true,
       message: 'Ineligible for SBA loan',
-      instruction: `STOP the application flow. Inform the user: 'Unfortunately, SBA loans typically require a minimum credit score of 650. Your current score of ${creditScore} is below this threshold. We recommend working on improving your credit before reapplying.'`,
+      instruction: `STOP the application flow. Inform the user: 'Unfortunately, SBA loans typically require a minimum credit score of ${minimumCreditScore}. Your current score of ${creditScore} is below this threshold. We recommend working on improving your credit before reapplying.'`,
       data: { rejected: true, ...chanceResult }
     };
   }
@@ -356,16 +394,19 @@ export const handleCaptureYearFounded = async (
     source: 'chat'
   }, rooms);
 
-  // HARD STOP: Business less than 2 years old
+  // HARD STOP: Business younger than the active ruleset minimum
+  const { version: rulesetVersion, rules } = await getActiveRuleset();
+  const minimumYears = rules.yearsInBusiness.minimum;
   const currentYear = new Date().getFullYear();
   const businessAge = currentYear - (yearFounded || currentYear);
-  if (yearFounded && businessAge < 2) {
+  if (yearFounded && businessAge < minimumYears) {
     const chanceResult = {
       score: 0,
       chance: 'low' as const,
+      rulesetVersion,
       reasons: [
-        'Business has operated for less than 2 years',
-        'Reapply once the business reaches 24 months of operating history'
+        `Business has operated for less than ${minimumYears} years`,
+        `Reapply once the business reaches ${minimumYears * 12} months of operating history`
       ]
     };
 
@@ -379,7 +420,7 @@ export const handleCaptureYearFounded = async (
     return {
       success: true,
       message: 'Ineligible for SBA loan',
-      instruction: `STOP the application flow. Inform the user: 'Unfortunately, SBA loans require the business to have at least 2 years of operating history. The business was founded in ${yearFounded}, which is only ${businessAge} year(s) ago. Please reapply once the business reaches 24 months of operation.'`,
+      instruction: `STOP the application flow. Inform the user: 'Unfortunately, SBA loans require the business to have at least ${minimumYears} years of operating history. The business was founded in ${yearFounded}, which is only ${businessAge} year(s) ago. Please reapply once the business reaches ${minimumYears * 12} months of operation.'`,
       data: { rejected: true, ...chanceResult }
     };
   }
@@ -790,13 +831,16 @@ export const handleCaptureOpenSBAForm = async (
 ): Promise<ToolResult> => {
   const { formType } = args;
   const rooms = getRooms(sessionId);
-  await updateUserData(sessionId, { formType });
 
-  const activeFormType = (formType as 'SBA_1919' | 'SBA_413') || 'SBA_1919';
+  const activeFormType = formType || 'SBA_1919';
+  if (!isRegisteredForm(activeFormType)) {
+    return unknownFormResult(activeFormType);
+  }
+  await updateUserData(sessionId, { formType });
 
   // Set current form in FormStateService and get next field
-  formStateService.setCurrentForm(sessionId, activeFormType);
-  const nextField = formStateService.getNextField(sessionId, activeFormType);
+  await formStateService.setCurrentForm(sessionId, activeFormType);
+  const nextField = await formStateService.getNextField(sessionId, activeFormType);
 
   // Broadcast form open event
   websocketService.broadcast('open-sba-form', {
@@ -843,10 +887,10 @@ export const handleCaptureOpenSBAForm = async (
  */
 export const handleCaptureHighlightField = async (
   sessionId: string,
-  args: { field?: string; text?: string; formType?: 'SBA_1919' | 'SBA_413' },
+  args: { field?: string; text?: string; formType?: FormType; expectedVersion?: number },
   applicationId?: string
 ): Promise<ToolResult> => {
-  const { field, text, formType } = args;
+  const { field, text, formType, expectedVersion } = args;
   const rooms = getRooms(sessionId);
 
   if (!field) {
@@ -857,23 +901,54 @@ export const handleCaptureHighlightField = async (
   }
 
   const activeFormType = formType || 'SBA_1919';
-  const formLabel = activeFormType === 'SBA_413' ? '[Form 413]' : '[Form 1919]';
+  if (!isRegisteredForm(activeFormType)) {
+    return unknownFormResult(activeFormType);
+  }
+  const formLabel = `[${getFormLabel(activeFormType)}]`;
 
   // If text is provided and we have an applicationId, update the form state
   let nextField: string | null = null;
   let isSubmittable = false;
+  let storedText = text;
+  let computed: Record<string, string> | undefined;
+  let warnings: FormConsistencyIssue[] = [];
+
+  if (text && applicationId && await formStateService.hasSession(applicationId)) {
+    const result = await formStateService.updateField(applicationId, activeFormType, field, text, { expectedVersion });
+
+    // The other channel (voice or chat) changed the form since this value was read
+    if (result.conflict) {
+      return {
+        success: false,
+        message: result.message || 'The form was changed elsewhere',
+        instruction: 'Tell the user the form was just updated from another session, then re-check the field before capturing it again.',
+        data: { field, formType: activeFormType, conflict: true, version: result.version }
+      };
+    }
+
+    if (result.errors) {
+      return rejectedValueResult(field, activeFormType, result.errors);
+    }
 
-  if (text && applicationId && formStateService.hasSession(applicationId)) {
-    const result = formStateService.updateField(applicationId, activeFormType, field, text);
     nextField = result.nextField;
     isSubmittable = result.isSubmittable;
+    storedText = result.value as string;
+    computed = result.computed;
+    warnings = result.warnings || [];
+  } else if (text) {
+    // No session to store it in, but the form still shouldn't show a malformed value
+    const checked = normalizeFieldValue(activeFormType, field, text);
+    if (checked.error) {
+      return rejectedValueResult(field, activeFormType, [checked.error]);
+    }
+    storedText = checked.value as string;
   }
 
   websocketService.broadcast('highlight-fields', {
     sessionId,
     timestamp: new Date().toISOString(),
     field,
-    text,
+    text: storedText,
     formType: activeFormType,
     source: 'chat'
   }, rooms);
@@ -881,7 +956,9 @@ export const handleCaptureHighlightField = async (
   // Build instruction based on whether there's a next field
   let instruction: string;
   if (text) {
-    if (nextField) {
+    if (warnings.length > 0) {
+      instruction = `Acknowledge the value was captured, then point out: ${warnings.map((warning) => warning.message).join(' ')} Ask whether that's right before moving on.`;
+    } else if (nextField) {
       instruction = `Acknowledge the value was captured. The next field is "${nextField}" (${getFieldLabel(activeFormType, nextField)}). Ask about it.`;
     } else if (isSubmittable) {
       instruction = `Acknowledge the value was captured. All required fields are complete! Ask if they want to review the form or continue to the next form.`;
@@ -902,7 +979,9 @@ export const handleCaptureHighlightField = async (
       formType: activeFormType,
       filled: !!text,
       nextField,
-      isSubmittable
+      isSubmittable,
+      computed,
+      warnings
     }
   };
 };
@@ -941,36 +1020,35 @@ export const handleCaptureUnifiedField = async (
   }
 
   // Ensure form state session exists
-  if (!formStateService.hasSession(applicationId)) {
+  if (!await formStateService.hasSession(applicationId)) {
     await formStateService.startSession(applicationId);
   }
 
-  // Update both forms via FormStateService
-  const results = formStateService.updateFieldAcrossForms(applicationId, unifiedFieldName, value);
-
-  // Calculate updated progress
-  const formProgress = formStateService.calculateProgress(applicationId);
+  // Update both forms via FormStateService (each write marks the field for the next save)
+  const results = await formStateService.updateFieldAcrossForms(applicationId, unifiedFieldName, value);
 
-  // Mark as dirty for periodic save
-  const state = formStateService.getState(applicationId);
-  if (state) {
-    state.dirty = true;
+  const errors = Object.values(results).flatMap((result) => result?.errors || []);
+  if (errors.length > 0) {
+    return rejectedValueResult(unifiedFieldName, errors[0].formType, errors);
   }
 
-  console.log(`✅ Unified field "${unifiedFieldName}" saved to both forms`);
-  console.log(`   Progress: SBA_1919=${formProgress?.SBA_1919}%, SBA_413=${formProgress?.SBA_413}%`);
+  // Calculate updated progress
+  const formProgress = await formStateService.calculateProgress(applicationId);
+  const savedTo = Object.keys(results).filter((formType) => results[formType]);
+
+  console.log(`✅ Unified field "${unifiedFieldName}" saved to ${savedTo.join(', ')}`);
+  console.log(`   Progress: ${Object.entries(formProgress || {}).map(([formType, percent]) => `${formType}=${percent}%`).join(', ')}`);
 
   return {
     success: true,
-    message: `Saved "${unifiedFieldName}" to both forms.`,
-    instruction: 'Value saved to both forms. Ask the next question.',
+    message: `Saved "${unifiedFieldName}" to ${savedTo.map(getFormLabel).join(' and ')}.`,
+    instruction: 'Value saved to every form that asks for it. Ask the next question.',
     data: {
       unified: true,
       unifiedFieldName,
       value,
       formProgress,
-      SBA_1919: results.SBA_1919,
-      SBA_413: results.SBA_413
+      ...results
     }
   };
 };
@@ -981,17 +1059,20 @@ export const handleCaptureUnifiedField = async (
  */
 export const handleCaptureSkipField = async (
   sessionId: string,
-  args: { formType?: 'SBA_1919' | 'SBA_413' },
+  args: { formType?: FormType },
   applicationId?: string
 ): Promise<ToolResult> => {
   const { formType } = args;
   const rooms = getRooms(sessionId);
   const activeFormType = formType || 'SBA_1919';
-  const formLabel = activeFormType === 'SBA_413' ? '[Form 413]' : '[Form 1919]';
+  if (!isRegisteredForm(activeFormType)) {
+    return unknownFormResult(activeFormType);
+  }
+  const formLabel = `[${getFormLabel(activeFormType)}]`;
 
   // Use FormStateService if we have an active session
-  if (applicationId && formStateService.hasSession(applicationId)) {
-    const result = formStateService.skipField(applicationId, activeFormType);
+  if (applicationId && await formStateService.hasSession(applicationId)) {
+    const result = await formStateService.skipField(applicationId, activeFormType);
 
     if (!result.success) {
       return {
@@ -1044,19 +1125,165 @@ export const handleCaptureSkipField = async (
   };
 };
 
+/**
+ * Tell the frontend the owners changed - Form 1919's owner rows and the open Form 413 may have moved
+ */
+const broadcastOwnersUpdated = async (
+  sessionId: string,
+  applicationId: string,
+  owners: OwnerSummary[]
+): Promise<void> => {
+  websocketService.broadcast('owners-updated', {
+    sessionId,
+    timestamp: new Date().toISOString(),
+    applicationId,
+    owners,
+    formFieldData: await formStateService.getCompleteFieldData(applicationId),
+    source: 'chat'
+  }, getRooms(sessionId));
+};
+
+const describeOwner = (owner: OwnerSummary): string => {
+  const share = owner.ownershipPercent !== undefined ? `${owner.ownershipPercent}%` : 'ownership not given';
+  const statement = owner.requiresPersonalFinancialStatement ? 'needs Form 413' : 'no Form 413 needed';
+  return `${owner.slot}. ${owner.name} (${share}, ${statement}, signature ${owner.signingStatus.replace('_', ' ')})${owner.isCurrent ? ' - Form 413 open' : ''}`;
+};
+
+/**
+ * Handle addOwner tool - adds an owner to the owners list and their Form 1919 row
+ */
+export const handleAddOwner = async (
+  sessionId: string,
+  args: ApplicationOwnerInput,
+  applicationId?: string
+): Promise<ToolResult> => {
+  if (!applicationId) {
+    return {
+      success: false,
+      message: 'No active application. Cannot add an owner.'
+    };
+  }
+
+  const result = await addOwner(applicationId, args);
+  if (!result.success) {
+    return {
+      success: false,
+      message: result.message || 'Failed to add owner',
+      instruction: 'The owner was NOT added. Tell the user what is wrong in plain words, then ask for the corrected detail.',
+      data: { errors: result.errors, owners: result.owners }
+    };
+  }
+
+  await broadcastOwnersUpdated(sessionId, applicationId, result.owners);
+
+  const owner = result.owner!;
+  const instruction = owner.requiresPersonalFinancialStatement
+    ? `Tell the user ${owner.name} was added as owner ${owner.slot}. Because they own ${PFS_OWNERSHIP_THRESHOLD}% or more, they also need their own Form 413 and signature. Ask if anyone else owns part of the business.`
+    : `Tell the user ${owner.name} was added as owner ${owner.slot}. Ask if anyone else owns part of the business.`;
+
+  return {
+    success: true,
+    message: `Added ${owner.name} as owner ${owner.slot}.`,
+    instruction,
+    data: { owner, owners: result.owners }
+  };
+};
+
+/**
+ * Handle listOwners tool
+ */
+export const handleListOwners = async (
+  sessionId: string,
+  args: {},
+  applicationId?: string
+): Promise<ToolResult> => {
+  if (!applicationId) {
+    return {
+      success: false,
+      message: 'No active application. Please select an application first.'
+    };
+  }
+
+  const owners = await listOwners(applicationId);
+  if (owners.length === 0) {
+    return {
+      success: true,
+      message: 'No owners have been added yet.',
+      instruction: 'Tell the user no owners are listed yet and ask who owns the business, starting with the largest owner.',
+      data: { owners }
+    };
+  }
+
+  return {
+    success: true,
+    message: `Owners: ${owners.map(describeOwner).join('; ')}`,
+    instruction: 'Summarize the owners for the user in a sentence or two.',
+    data: { owners }
+  };
+};
+
+/**
+ * Handle switchOwner tool - points Form 413 at another owner's statement
+ */
+export const handleSwitchOwner = async (
+  sessionId: string,
+  args: { owner?: string },
+  applicationId?: string
+): Promise<ToolResult> => {
+  if (!applicationId) {
+    return {
+      success: false,
+      message: 'No active application. Please select an application first.'
+    };
+  }
+
+  if (!args.owner) {
+    return {
+      success: false,
+      message: 'owner is required'
+    };
+  }
+
+  const result = await switchOwner(applicationId, args.owner);
+  if (!result.success) {
+    return {
+      success: false,
+      message: result.message || 'Failed to switch owner',
+      instruction: 'Tell the user which owners are on the application and ask whose Form 413 to fill.',
+      data: { owners: result.owners }
+    };
+  }
+
+  await broadcastOwnersUpdated(sessionId, applicationId, result.owners);
+
+  const owner = result.owner!;
+  const nextField = result.state?.sba413.emptyFields[0];
+  return {
+    success: true,
+    message: `Form 413 is now ${owner.name}'s personal financial statement.`,
+    instruction: nextField
+      ? `Tell the user you are now filling ${owner.name}'s Form 413, then ask about "${nextField}" (${getFieldLabel('SBA_413', nextField)}).`
+      : `Tell the user ${owner.name}'s Form 413 is already complete.`,
+    data: { owner, owners: result.owners, nextField: nextField || null }
+  };
+};
+
 /**
  * Handle captureCheckboxSelection tool
  */
 export const handleCaptureCheckboxSelection = async (
   sessionId: string,
-  args: { group?: string; value?: string; formType?: 'SBA_1919' | 'SBA_413' }
+  args: { group?: string; value?: string; formType?: FormType }
 ): Promise<ToolResult> => {
   let { group, value, formType } = args;
   const rooms = getRooms(sessionId);
 
   // Default to SBA_1919 if not specified
   const activeFormType = formType || 'SBA_1919';
-  const formLabel = activeFormType === 'SBA_413' ? '[Form 413]' : '[Form 1919]';
+  if (!isRegisteredForm(activeFormType)) {
+    return unknownFormResult(activeFormType);
+  }
+  const formLabel = `[${getFormLabel(activeFormType)}]`;
 
   // Normalize: trim whitespace and newlines
   group = group?.trim();
@@ -1070,9 +1297,8 @@ export const handleCaptureCheckboxSelection = async (
     };
   }
 
-  // Select appropriate checkbox groups based on form type
-  const checkboxGroups = activeFormType === 'SBA_413' ? CHECKBOX_GROUPS_413 : CHECKBOX_GROUPS;
-  const getCheckboxesFn = activeFormType === 'SBA_413' ? getGroupCheckboxes413 : getGroupCheckboxes;
+  // Each form declares its own checkbox groups
+  const checkboxGroups = getCheckboxGroups(activeFormType);
 
   // Validate group exists
   const groupConfig = checkboxGroups[group];
@@ -1099,7 +1325,7 @@ export const handleCaptureCheckboxSelection = async (
   // Get all checkboxes in group for exclusive groups
   let groupCheckboxes: string[] | undefined = undefined;
   if (groupConfig.exclusive) {
-    groupCheckboxes = getCheckboxesFn(group);
+    groupCheckboxes = getGroupCheckboxes(group, activeFormType);
   }
 
   // Broadcast to WebSocket
@@ -1209,16 +1435,21 @@ export const handleChancesUserSBAApprovedBUYER = async (
   }
 
   try {
-    // Call the existing eligibility calculation function
-    const result = calculateSBAEligibilityForBuyer({
+    // Seller financing is captured earlier in the conversation by its own tools
+    const session = await getSession(sessionId);
+    const userData = session?.userData || {};
+
+    const evaluation = evaluateBuyerEligibility({
       purchasePrice: String(purchasePrice),
       availableCash: String(availableCash),
       businessCashFlow: String(businessCashFlow),
       buyerCreditScore: String(buyerCreditScore),
       isUSCitizen,
       businessYearsRunning,
-      industryExperience
-    });
+      industryExperience,
+      sellerFinancingPercentage: userData.sellerFinancingPercentage,
+      sellerFinancingOnStandby: userData.sellerFinancingOnStandbyExists === true
+    }, await getActiveRuleset());
 
     const applicantData: any = {
       name: "Undisclosed",
@@ -1231,11 +1462,15 @@ export const handleChancesUserSBAApprovedBUYER = async (
       purchasePrice: String(purchasePrice || ''),
       availableCash: String(availableCash || ''),
       businessCashFlow: String(businessCashFlow || ''),
-      industryExperience: String(industryExperience || '')
+      industryExperience: String(industryExperience || ''),
+      ...(userData.sellerFinancingPercentage !== undefined && {
+        sellerFinancingPercentage: String(userData.sellerFinancingPercentage),
+        sellerFinancingOnStandby: userData.sellerFinancingOnStandbyExists === true
+      })
     };
 
     // Create draft application
-    const draftApp = await createDraft(applicantData as SBAApplicationData, result);
+    const draftApp = await createDraft(applicantData as SBAApplicationData, toLoanChanceResult(evaluation));
     const draftApplicationId = draftApp._id?.toString();
 
     if (!draftApplicationId) {
@@ -1260,14 +1495,14 @@ export const handleChancesUserSBAApprovedBUYER = async (
     );
 
 
+    const rendered = formatEligibilityForChat(evaluation);
+
     return {
       success: true,
-      message: `Eligibility calculated: ${result.chance} chance`,
-      instruction: "Present their approval chances and list the reasons. If eligible, ask if they're ready to fill out the form",
+      message: rendered.message,
+      instruction: rendered.instruction,
       data: {
-        score: result.score,
-        chance: result.chance,
-        reasons: result.reasons,
+        ...rendered.data,
         draftApplicationId,
         documents: documentsWithUrls
       }
@@ -1314,8 +1549,7 @@ export const handleChancesUserSBAApprovedOWNER = async (
     };
   }
   try {
-    // Call the existing eligibility calculation function
-    const result = calculateSBAEligibilityForOwner({
+    const evaluation = evaluateOwnerEligibility({
       monthlyRevenue: String(monthlyRevenue),
       monthlyExpenses: String(monthlyExpenses),
       existingDebtPayment: String(existingDebtPayment || 0),
@@ -1324,7 +1558,7 @@ export const handleChancesUserSBAApprovedOWNER = async (
       ownerCreditScore: String(ownerCreditScore),
       isUSCitizen,
       businessYearsRunning
-    });
+    }, await getActiveRuleset());
     const applicantData: any = {
       name: "Undisclosed",
       businessName: "Undisclosed",
@@ -1340,7 +1574,7 @@ export const handleChancesUserSBAApprovedOWNER = async (
     };
 
     // Create draft application
-    const draftApp = await createDraft(applicantData as SBAApplicationData, result);
+    const draftApp = await createDraft(applicantData as SBAApplicationData, toLoanChanceResult(evaluation));
     const draftApplicationId = draftApp._id?.toString();
 
     if (!draftApplicationId) {
@@ -1364,14 +1598,14 @@ export const handleChancesUserSBAApprovedOWNER = async (
       }))
     );
 
+    const rendered = formatEligibilityForChat(evaluation);
+
     return {
       success: true,
-      message: `Eligibility calculated: ${result.chance} chance`,
-      instruction: "Present their approval chances and list the reasons. If eligible, ask if they're ready to fill out the form",
+      message: rendered.message,
+      instruction: rendered.instruction,
       data: {
-        score: result.score,
-        chance: result.chance,
-        reasons: result.reasons,
+        ...rendered.data,
         draftApplicationId,
         documents: documentsWithUrls
       }
@@ -1508,7 +1742,7 @@ export const handleGetFilledFields = async (
     }
 
     // Start or get existing FormStateService session (loads from MongoDB)
-    let state = formStateService.getState(applicationId);
+    let state = await formStateService.getState(applicationId);
     if (!state) {
       console.log('📋 Starting FormStateService session for getFilledFields');
       state = await formStateService.startSession(applicationId);
@@ -1537,7 +1771,7 @@ export const handleGetFilledFields = async (
     );
 
     // Calculate form progress percentages
-    const formProgress = formStateService.calculateProgress(applicationId);
+    const formProgress = await formStateService.calculateProgress(applicationId);
 
     return {
       success: true,
@@ -1643,14 +1877,14 @@ export const handleCheckSubmissionReadiness = async (
   args: {},
   applicationId?: string
 ): Promise<ToolResult> => {
-  if (!applicationId || !formStateService.hasSession(applicationId)) {
+  if (!applicationId || !await formStateService.hasSession(applicationId)) {
     return {
       success: false,
       message: 'No active form state session. Please select an application first.'
     };
   }
 
-  const readiness = formStateService.checkSubmissionReadiness(applicationId);
+  const readiness = await formStateService.checkSubmissionReadiness(applicationId);
 
   // If all forms are ready, trigger background PDF update
   if (readiness.allReady && applicationId) {
@@ -1659,23 +1893,21 @@ export const handleCheckSubmissionReadiness = async (
       .catch(err => console.error('Background PDF update failed:', err));
   }
 
+  const forms = Object.entries(readiness.forms);
+
   let instruction: string;
   if (readiness.allReady) {
-    instruction = "Tell them both forms are complete and ready for submission! Ask if they want to submit now.";
+    instruction = "Tell them all forms are complete and ready for submission! Ask if they want to submit now.";
   } else {
-    const missing: string[] = [];
-    if (!readiness.sba1919.ready) {
-      missing.push(`Form 1919 needs: ${readiness.sba1919.missing.join(', ')}`);
-    }
-    if (!readiness.sba413.ready) {
-      missing.push(`Form 413 needs: ${readiness.sba413.missing.join(', ')}`);
-    }
+    const missing = forms
+      .filter(([, form]) => !form.ready)
+      .map(([formType, form]) => `${getFormLabel(formType)} needs: ${form.missing.join(', ')}`);
     instruction = `Tell them which forms are incomplete and what's missing. Missing: ${missing.join('; ')}`;
   }
 
   return {
     success: true,
-    message: `Form 1919: ${readiness.sba1919.ready ? 'READY' : 'NOT READY'}. Form 413: ${readiness.sba413.ready ? 'READY' : 'NOT READY'}.`,
+    message: forms.map(([formType, form]) => `${getFormLabel(formType)}: ${form.ready ? 'READY' : 'NOT READY'}.`).join(' '),
     instruction,
     data: readiness
   };
@@ -1741,6 +1973,12 @@ export const executeToolCall = async (
       return handleCaptureUnifiedField(sessionId, args, applicationId);
     case 'captureSkipField':
       return handleCaptureSkipField(sessionId, args, applicationId);
+    case 'addOwner':
+      return handleAddOwner(sessionId, args, applicationId);
+    case 'listOwners':
+      return handleListOwners(sessionId, args, applicationId);
+    case 'switchOwner':
+      return handleSwitchOwner(sessionId, args, applicationId);
     case 'captureCheckboxSelection':
       return handleCaptureCheckboxSelection(sessionId, args);
     case 'captureLoan':
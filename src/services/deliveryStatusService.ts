@@ -0,0 +1,111 @@
+import { DeliveryStatusAction, DeliveryStatusReport, OutboundEmailRecord } from '../types/index.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { applyDeliveryReport } from './outboundEmailQueue.js';
+
+// Bounces and other delivery status notifications (RFC 3464) that come back to our inbox. They update
+// the outbound queue and must never get an auto-reply.
+
+const DSN_ACTIONS: DeliveryStatusAction[] = ['failed', 'delayed', 'delivered', 'relayed', 'expanded'];
+
+const BOUNCE_SENDER = /mailer-daemon|postmaster/i;
+const BOUNCE_SUBJECT = /undeliver|delivery status notification|delivery failure|failure notice|returned mail|mail delivery failed/i;
+
+// Parts that carry the report itself or the headers of the message it is about
+const REPORT_CONTENT_TYPES = ['message/delivery-status', 'message/rfc822', 'text/rfc822-headers', 'message/rfc822-headers'];
+
+const reportParts = (email: FetchedEmail): string[] => [
+  ...(email.attachments || [])
+    .filter((attachment) => REPORT_CONTENT_TYPES.includes(attachment.contentType.toLowerCase()))
+    .map((attachment) => attachment.content.toString('utf8')),
+  // mailparser folds message/delivery-status into the text body by default
+  email.body
+];
+
+export const isDeliveryStatusNotification = (email: FetchedEmail): boolean => {
+  const hasReportPart = (email.attachments || [])
+    .some((attachment) => attachment.contentType.toLowerCase() === 'message/delivery-status');
+  // Anyone can type report fields into an ordinary email; they only count coming from a mail server
+  const fromMailServer = BOUNCE_SENDER.test(email.from);
+  const hasReportFields = fromMailServer && /^\s*Final-Recipient:/im.test(email.body) && /^\s*Action:/im.test(email.body);
+  const looksLikeBounce = fromMailServer && BOUNCE_SUBJECT.test(email.subject);
+
+  return hasReportPart || hasReportFields || looksLikeBounce;
+};
+
+export const parseDeliveryStatusReport = (email: FetchedEmail): DeliveryStatusReport => {
+  const report: DeliveryStatusReport = { recipients: [] };
+  const parts = reportParts(email);
+
+  for (const part of parts) {
+    // Header-style fields may be folded over several lines
+    const lines = part.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+    let current: DeliveryStatusReport['recipients'][number] | null = null;
+
+    for (const line of lines) {
+      const field = line.match(/^\s*([A-Za-z-]+):\s*(.*?)\s*$/);
+      if (!field) continue;
+      const [, name, value] = field;
+
+      switch (name.toLowerCase()) {
+        case 'original-envelope-id':
+          report.originalEnvelopeId = report.originalEnvelopeId || value;
+          break;
+        case 'message-id':
+          // Inside the returned headers this is the Message-ID of our original email
+          report.originalMessageId = report.originalMessageId || value.match(/<[^>]+>/)?.[0];
+          break;
+        case 'final-recipient': {
+          const address = value.replace(/^[\w-]+;\s*/, '').replace(/[<>]/g, '').trim().toLowerCase();
+          if (report.recipients.some((recipient) => recipient.address === address)) {
+            current = null;
+            break;
+          }
+          current = { address, action: 'failed' };
+          report.recipients.push(current);
+          break;
+        }
+        case 'action':
+          if (current && DSN_ACTIONS.includes(value.toLowerCase() as DeliveryStatusAction)) {
+            current.action = value.toLowerCase() as DeliveryStatusAction;
+          }
+          break;
+        case 'status':
+          if (current) current.status = value.match(/\d\.\d{1,3}\.\d{1,3}/)?.[0];
+          break;
+        case 'diagnostic-code':
+          if (current) current.diagnostic = value.replace(/^[\w-]+;\s*/, '');
+          break;
+      }
+    }
+  }
+
+  // Some servers thread the bounce to the original instead of returning its headers
+  report.originalMessageId = report.originalMessageId || email.inReplyTo || email.references?.[0];
+
+  return report;
+};
+
+// Returns whether the email was a delivery report (handled here) and the queue entry it concerned, if ours
+export const processDeliveryStatusNotification = async (email: FetchedEmail): Promise<{
+  isReport: boolean;
+  outbound: OutboundEmailRecord | null;
+}> => {
+  if (!isDeliveryStatusNotification(email)) {
+    return { isReport: false, outbound: null };
+  }
+
+  const report = parseDeliveryStatusReport(email);
+  if (report.recipients.length === 0) {
+    console.warn(`⚠️ Delivery report from ${email.from} names no recipients - nothing to update`);
+  }
+  const outbound = await applyDeliveryReport(report);
+
+  if (outbound) {
+    const summary = report.recipients.map((recipient) => `${recipient.address}: ${recipient.action}`).join(', ') || 'bounced';
+    console.log(`📨 Delivery report for ${outbound.messageId} (${summary})`);
+  } else {
+    console.log(`📨 Delivery report from ${email.from} doesn't match any queued email`);
+  }
+
+  return { isReport: true, outbound };
+};
@@ -0,0 +1,127 @@
+import { FormConsistencyIssue, FormType } from '../types/index.js';
+import { SBA_413_ASSET_FIELDS, SBA_413_LIABILITY_FIELDS } from './formFields.js';
+import { formatAmount, parseAmount } from './fieldValidation.js';
+
+// Form 413 fields the system works out itself. Computed fields are marked `computed` in the form definition,
+// so agents can't write them; FormStateService recomputes them in the same write as the line that changed.
+
+interface DerivedFieldRule {
+  formType: FormType;
+  field: string;
+  dependsOn: string[];
+  compute: (fields: Record<string, string | boolean>) => string;
+}
+
+const amountOf = (value: string | boolean | undefined): number | null =>
+  typeof value === 'string' ? parseAmount(value) : null;
+
+// Sum of the lines that have an amount; '' while none of them do, so an untouched section stays empty
+const sumOf = (names: string[]) => (fields: Record<string, string | boolean>): string => {
+  const amounts = names.map((name) => amountOf(fields[name])).filter((amount): amount is number => amount !== null);
+  return amounts.length > 0 ? formatAmount(amounts.reduce((sum, amount) => sum + amount, 0)) : '';
+};
+
+// Rules run in this order, so anything a rule depends on is computed before it
+const DERIVED_FIELD_RULES: DerivedFieldRule[] = [
+  {
+    formType: 'SBA_413',
+    field: 'totalAssets',
+    dependsOn: SBA_413_ASSET_FIELDS,
+    compute: sumOf(SBA_413_ASSET_FIELDS)
+  },
+  {
+    formType: 'SBA_413',
+    field: 'totalLiabilities',
+    dependsOn: SBA_413_LIABILITY_FIELDS,
+    compute: sumOf(SBA_413_LIABILITY_FIELDS)
+  },
+  {
+    formType: 'SBA_413',
+    field: 'netWorth',
+    dependsOn: ['totalAssets', 'totalLiabilities'],
+    compute: (fields) => {
+      const assets = amountOf(fields.totalAssets);
+      const liabilities = amountOf(fields.totalLiabilities);
+      if (assets === null && liabilities === null) return '';
+      return formatAmount((assets || 0) - (liabilities || 0));
+    }
+  }
+];
+
+/**
+ * Recompute derived fields affected by the changed fields
+ * fields must already contain the changes; returns only the computed values that differ
+ * Pass changedFields = null to recompute everything (e.g. when loading a session)
+ */
+export const computeDerivedFields = (
+  formType: FormType,
+  fields: Record<string, string | boolean>,
+  changedFields: string[] | null
+): Record<string, string> => {
+  const working = { ...fields };
+  const changed = new Set(changedFields || []);
+  const updates: Record<string, string> = {};
+
+  for (const rule of DERIVED_FIELD_RULES) {
+    if (rule.formType !== formType) continue;
+    if (changedFields && !rule.dependsOn.some((name) => changed.has(name))) continue;
+
+    const value = rule.compute(working);
+    if (value !== (working[rule.field] ?? '')) {
+      updates[rule.field] = value;
+      working[rule.field] = value;
+      // Lets rules further down (net worth) see that a total moved
+      changed.add(rule.field);
+    }
+  }
+
+  return updates;
+};
+
+const hasAmount = (fields: Record<string, string | boolean>, name: string): boolean =>
+  (amountOf(fields[name]) || 0) > 0;
+
+// [code, lines that must both be present, message when only the first one is]
+const PAIRED_LINES: Array<[string, string, string, string]> = [
+  ['mortgage_without_real_estate', 'mortgagesOnRealEstate', 'realEstate',
+    'Mortgages on real estate are listed but no real estate is.'],
+  ['auto_payment_without_balance', 'installmentAccountMonthlyPaymentsAuto', 'installmentAccountAuto',
+    'There is a monthly auto installment payment but no auto installment balance.'],
+  ['auto_balance_without_payment', 'installmentAccountAuto', 'installmentAccountMonthlyPaymentsAuto',
+    'There is an auto installment balance but no monthly payment for it.'],
+  ['other_payment_without_balance', 'installmentAccountMonthlyPaymentsOther', 'installmentAccountOther',
+    'There is a monthly installment payment on another account but no balance for it.'],
+  ['other_balance_without_payment', 'installmentAccountOther', 'installmentAccountMonthlyPaymentsOther',
+    'There is another installment account balance but no monthly payment for it.'],
+  ['life_insurance_loan_without_value', 'loansAgainstLifeInsurance', 'lifeInsuranceCashSurrenderValueOnly',
+    'There are loans against life insurance but no cash surrender value is listed.'],
+  ['real_estate_income_without_real_estate', 'realEstateIncome', 'realEstate',
+    'Real estate income is listed but no real estate is.']
+];
+
+/**
+ * Lines that don't fit together - warnings to raise with the user, not reasons to refuse a value
+ */
+export const checkFormConsistency = (
+  formType: FormType,
+  fields: Record<string, string | boolean>
+): FormConsistencyIssue[] => {
+  if (formType !== 'SBA_413') return [];
+
+  const issues: FormConsistencyIssue[] = PAIRED_LINES
+    .filter(([, present, missing]) => hasAmount(fields, present) && !hasAmount(fields, missing))
+    .map(([code, present, missing, message]) => ({ formType, code, fields: [present, missing], message }));
+
+  const monthlyAuto = amountOf(fields.installmentAccountMonthlyPaymentsAuto);
+  const balanceAuto = amountOf(fields.installmentAccountAuto);
+  if (monthlyAuto !== null && balanceAuto !== null && balanceAuto > 0 && monthlyAuto > balanceAuto) {
+    issues.push({
+      formType,
+      code: 'auto_payment_exceeds_balance',
+      fields: ['installmentAccountMonthlyPaymentsAuto', 'installmentAccountAuto'],
+      message: 'The monthly auto payment is larger than the remaining auto balance.'
+    });
+  }
+
+  return issues;
+};
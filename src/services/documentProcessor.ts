@@ -1,7 +1,7 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import * as pdfParse from 'pdf-parse';
+import { PDFParse } from 'pdf-parse';
 import * as mammoth from 'mammoth';
 
 import { 
@@ -43,14 +43,19 @@ export const createDocumentMetadata = (
 });
 
 // Extract text from different file types
-export const extractTextFromPDF = async (filePath: string): Promise<{ text: string; pageCount: number }> => {
-  const dataBuffer = await fs.readFile(filePath);
-  //@ts-expect-error false positive
-  const data = await pdfParse(dataBuffer);
-  return {
-    text: data.text,
-    pageCount: data.numpages
-  };
+// pages[0] is page 1
+export const extractTextFromPDF = async (filePath: string): Promise<{ text: string; pageCount: number; pages: string[] }> => {
+  const parser = new PDFParse({ data: await fs.readFile(filePath) });
+  try {
+    const data = await parser.getText();
+    return {
+      text: data.text,
+      pageCount: data.total,
+      pages: [...data.pages].sort((a, b) => a.num - b.num).map((page) => page.text)
+    };
+  } finally {
+    await parser.destroy();
+  }
 };
 
 export const extractTextFromWord = async (filePath: string): Promise<string> => {
@@ -63,7 +68,7 @@ export const extractTextFromPlain = async (filePath: string): Promise<string> =>
 };
 
 // Main text extraction function
-export const extractText = async (filePath: string, mimeType: string): Promise<{ text: string; pageCount?: number }> => {
+export const extractText = async (filePath: string, mimeType: string): Promise<{ text: string; pageCount?: number; pages?: string[] }> => {
   switch (mimeType) {
     case SupportedMimeTypes.PDF:
       return await extractTextFromPDF(filePath);
@@ -0,0 +1,403 @@
+import {
+  SBAEligibilityRequestBuyer,
+  SBAEligibilityRequestOwner,
+  EligibilityCheck,
+  EligibilityCheckId,
+  EligibilityEvaluation,
+  EligibilityMetrics,
+  ApprovalChanceTier,
+  ResolvedUnderwritingRuleset
+} from '../types/index.js';
+import { DEFAULT_UNDERWRITING_RULESET } from './underwritingService.js';
+import { buildCapitalStack } from './structuringService.js';
+
+// Single evaluation pipeline for SBA eligibility. Every channel (REST, chat, Vapi)
+// evaluates here and renders the result with utils/eligibilityFormatters.ts.
+
+interface CheckOutcome {
+  check: EligibilityCheck;
+  reasons: string[];
+  recommendations: string[];
+}
+
+const outcome = (
+  id: EligibilityCheckId,
+  passed: boolean,
+  message: string,
+  options: { points?: number; hardStop?: boolean; reasons?: string[]; recommendations?: string[] } = {}
+): CheckOutcome => ({
+  check: {
+    id,
+    passed,
+    hardStop: options.hardStop === true,
+    message,
+    points: options.points || 0
+  },
+  reasons: options.reasons || [],
+  recommendations: options.recommendations || []
+});
+
+const parseYears = (value: string | number): number => {
+  return typeof value === 'number' ? value : parseInt(value as any) || 0;
+};
+
+const evaluateCitizenship = (isCitizen: boolean, alternative: string): CheckOutcome => {
+  if (isCitizen) {
+    return outcome('citizenship', true, 'US Citizen or Lawful Permanent Resident ✓');
+  }
+  return outcome('citizenship', false, 'Must be US Citizen or Lawful Permanent Resident', {
+    hardStop: true,
+    reasons: ['Non-US citizens are ineligible for SBA loans'],
+    recommendations: [alternative]
+  });
+};
+
+const evaluateCreditScore = (creditScore: number, ruleset: ResolvedUnderwritingRuleset): CheckOutcome => {
+  const { creditScore: tiers, deductions } = ruleset.rules;
+
+  if (Number.isNaN(creditScore) || creditScore < tiers.minimum) {
+    return outcome('creditScore', false, `Credit score below ${tiers.minimum} - High risk`, {
+      hardStop: true,
+      reasons: [`Credit score below ${tiers.minimum} minimum requirement for SBA financing`],
+      recommendations: ['Improve personal credit profile before reapplying']
+    });
+  }
+  if (creditScore >= tiers.excellent) {
+    return outcome('creditScore', true, `Excellent credit score (${tiers.excellent}+) ✓`, {
+      reasons: ['Strong credit profile']
+    });
+  }
+  if (creditScore >= tiers.good) {
+    return outcome('creditScore', true, `Good credit score (${tiers.good}-${tiers.excellent - 1}) ✓`, {
+      points: -deductions.creditGood
+    });
+  }
+  return outcome('creditScore', true, `Fair credit score (${tiers.minimum}-${tiers.good - 1})`, {
+    points: -deductions.creditFair,
+    reasons: ['Credit score is on the lower end for SBA approval'],
+    recommendations: ['Consider improving credit score before applying']
+  });
+};
+
+const evaluateBusinessAge = (years: number, ruleset: ResolvedUnderwritingRuleset): CheckOutcome => {
+  const { yearsInBusiness, deductions } = ruleset.rules;
+
+  if (years < yearsInBusiness.minimum) {
+    return outcome('businessAge', false, `Business too young (${years} years < ${yearsInBusiness.minimum} years required)`, {
+      hardStop: true,
+      reasons: [`Business has operated for less than ${yearsInBusiness.minimum} years`],
+      recommendations: [`Reapply once the business reaches ${yearsInBusiness.minimum * 12} months of operating history`]
+    });
+  }
+  if (years >= yearsInBusiness.established) {
+    return outcome('businessAge', true, `Established business (${years} years) ✓`, {
+      reasons: ['Well-established business history']
+    });
+  }
+  return outcome('businessAge', true, `Business meets minimum (${years} years) ✓`, {
+    points: -deductions.yearsMinimum
+  });
+};
+
+const evaluateDSCRTiers = (
+  dscr: number,
+  ruleset: ResolvedUnderwritingRuleset,
+  copy: { strongReason: string; minimumRecommendation: string; insufficientReason: string; insufficientRecommendations: string[] }
+): CheckOutcome => {
+  const { dscr: tiers, deductions } = ruleset.rules;
+
+  if (dscr >= tiers.excellent) {
+    return outcome('cashFlow', true, `Excellent cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓`, {
+      reasons: [copy.strongReason]
+    });
+  }
+  if (dscr >= tiers.good) {
+    return outcome('cashFlow', true, `Good cash flow coverage (DSCR: ${dscr.toFixed(2)}) ✓`, {
+      points: -deductions.dscrGood
+    });
+  }
+  if (dscr >= tiers.minimum) {
+    return outcome('cashFlow', true, `Adequate cash flow coverage (DSCR: ${dscr.toFixed(2)})`, {
+      points: -deductions.dscrMinimum,
+      reasons: ['Cash flow is at minimum threshold for SBA approval'],
+      recommendations: [copy.minimumRecommendation]
+    });
+  }
+  return outcome('cashFlow', false, `Insufficient cash flow (DSCR: ${dscr.toFixed(2)} < ${tiers.minimum} required)`, {
+    points: -deductions.dscrInsufficient,
+    reasons: [copy.insufficientReason],
+    recommendations: copy.insufficientRecommendations
+  });
+};
+
+const toApprovalChance = (score: number, ruleset: ResolvedUnderwritingRuleset): ApprovalChanceTier => {
+  const thresholds = ruleset.rules.chanceThresholds;
+  if (score >= thresholds.high) return 'High';
+  if (score >= thresholds.medium) return 'Medium';
+  if (score >= thresholds.low) return 'Low';
+  if (score >= thresholds.veryLow) return 'Very Low';
+  return 'Ineligible';
+};
+
+// Combine check outcomes into the final evaluation. A failed hard stop zeroes the
+// score and only the hard-stop reasons are reported.
+const finalizeEvaluation = (
+  userType: 'buyer' | 'owner',
+  outcomes: CheckOutcome[],
+  metrics: EligibilityMetrics,
+  ruleset: ResolvedUnderwritingRuleset,
+  fallbackRecommendations: string[]
+): EligibilityEvaluation => {
+  const thresholds = ruleset.rules.chanceThresholds;
+  const failedHardStops = outcomes.filter((o) => o.check.hardStop && !o.check.passed);
+  const rejected = failedHardStops.length > 0;
+  const reported = rejected ? failedHardStops : outcomes;
+
+  const reasons = reported.flatMap((o) => o.reasons);
+  const recommendations = reported.flatMap((o) => o.recommendations);
+
+  const rawScore = outcomes.reduce((total, o) => total + o.check.points, 100);
+  const score = rejected ? 0 : Math.max(0, Math.min(100, rawScore)); // Clamp between 0-100
+
+  const approvalChance: ApprovalChanceTier = rejected ? 'Ineligible' : toApprovalChance(score, ruleset);
+  const chance: 'low' | 'medium' | 'high' =
+    score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+
+  // Add general recommendations if not already high approval
+  if (!rejected && score < thresholds.high && !recommendations.length) {
+    recommendations.push(...fallbackRecommendations);
+  }
+
+  const subScores: Partial<Record<EligibilityCheckId, number>> = {};
+  for (const o of outcomes) {
+    subScores[o.check.id] = o.check.points;
+  }
+
+  return {
+    userType,
+    eligible: approvalChance !== 'Ineligible',
+    rejected,
+    score,
+    chance,
+    approvalChance,
+    checks: outcomes.map((o) => o.check),
+    subScores,
+    reasons,
+    recommendations,
+    metrics,
+    rulesetVersion: ruleset.version
+  };
+};
+
+// Evaluate SBA eligibility and approval chances for BUYERS
+export const evaluateBuyerEligibility = (
+  data: SBAEligibilityRequestBuyer,
+  ruleset: ResolvedUnderwritingRuleset = DEFAULT_UNDERWRITING_RULESET
+): EligibilityEvaluation => {
+  const { rules } = ruleset;
+  const purchasePrice = parseInt(data.purchasePrice);
+  const availableCash = parseInt(data.availableCash);
+  const businessCashFlow = parseInt(data.businessCashFlow || '0');
+  const businessYearsRunning = parseYears(data.businessYearsRunning);
+  const creditScoreValue = parseInt(data.buyerCreditScore || '0');
+
+  // Structure the acquisition: SBA loan + seller note + buyer equity (+ working capital)
+  const capitalStack = buildCapitalStack({
+    purchasePrice: purchasePrice || 0,
+    workingCapital: Number(data.workingCapital) || 0,
+    buyerEquity: availableCash || 0,
+    sellerNotePercent: Number(data.sellerFinancingPercentage) || 0,
+    sellerNoteOnStandby: data.sellerFinancingOnStandby === true,
+    annualCashFlow: businessCashFlow || 0
+  }, ruleset);
+
+  const dscr = capitalStack.globalDSCR;
+  const { equityInjection } = capitalStack;
+  const downPaymentPercent = equityInjection.creditedPercent;
+
+  const outcomes: CheckOutcome[] = [
+    evaluateCitizenship(data.isUSCitizen, 'Consider seller financing or alternative lending options'),
+    evaluateCreditScore(creditScoreValue, ruleset),
+    evaluateBusinessAge(businessYearsRunning, ruleset)
+  ];
+
+  // Down payment / equity injection (a full-standby seller note may count toward it)
+  if (!equityInjection.compliant) {
+    outcomes.push(outcome('downPayment', false, `Insufficient down payment (${downPaymentPercent.toFixed(1)}% < ${rules.equity.minimumPercent}% required)`, {
+      hardStop: true,
+      reasons: [`Buyer equity below required ${rules.equity.minimumPercent}% down payment for SBA financing`],
+      recommendations: [`Increase cash reserves or secure seller financing to reach ${rules.equity.minimumPercent}% equity`]
+    }));
+  } else if (downPaymentPercent >= rules.equity.strongPercent) {
+    outcomes.push(outcome('downPayment', true, `Strong down payment (${downPaymentPercent.toFixed(1)}%) ✓`, {
+      reasons: ['Substantial equity investment']
+    }));
+  } else {
+    outcomes.push(outcome('downPayment', true, `Adequate down payment (${downPaymentPercent.toFixed(1)}%) ✓`, {
+      points: -rules.deductions.equityMinimum,
+      reasons: [`Down payment meets minimum ${rules.equity.minimumPercent}% equity requirement`]
+    }));
+  }
+
+  // Cash flow / DSCR
+  if (!Number.isFinite(businessCashFlow) || businessCashFlow <= 0) {
+    outcomes.push(outcome('cashFlow', false, 'Business cash flow not provided or not positive', {
+      hardStop: true,
+      reasons: ['Business must demonstrate positive cash flow'],
+      recommendations: ['Provide updated financial statements showing profitable operations']
+    }));
+  } else {
+    outcomes.push(evaluateDSCRTiers(dscr, ruleset, {
+      strongReason: 'Strong debt service coverage ratio',
+      minimumRecommendation: 'Consider increasing down payment to reduce loan amount and improve DSCR',
+      insufficientReason: 'Business cash flow cannot support SBA loan payments',
+      insufficientRecommendations: [
+        'Increase down payment significantly to reduce monthly debt service',
+        'Negotiate seller financing to reduce SBA loan amount'
+      ]
+    }));
+  }
+
+  // Industry experience (bonus factor)
+  if (data.industryExperience) {
+    const experience = data.industryExperience.toLowerCase();
+    if (experience.includes('owner') || experience.includes('manager') ||
+        experience.includes('director') || experience.match(/\d+\s*years?/)) {
+      outcomes.push(outcome('industryExperience', true, 'Relevant industry experience ✓', {
+        points: rules.deductions.industryExperienceBonus,
+        reasons: ['Relevant industry experience strengthens application']
+      }));
+    } else if (experience.includes('no') || experience.includes('none') ||
+               experience.includes('limited')) {
+      outcomes.push(outcome('industryExperience', false, 'Limited industry experience', {
+        points: -rules.deductions.limitedIndustryExperience,
+        recommendations: ['Develop detailed business plan to offset limited industry experience']
+      }));
+    }
+  }
+
+  return finalizeEvaluation('buyer', outcomes, {
+    dscr,
+    loanAmount: capitalStack.sbaLoan.amount,
+    downPaymentPercent,
+    sellerNoteAmount: capitalStack.sellerNote.amount,
+    capitalStack
+  }, ruleset, [
+    'Prepare comprehensive business plan with 3-year projections',
+    'Gather all required SBA documentation in advance',
+    'Consider working with an SBA-experienced business broker or consultant'
+  ]);
+};
+
+// Evaluate SBA eligibility and approval chances for OWNERS
+export const evaluateOwnerEligibility = (
+  data: SBAEligibilityRequestOwner,
+  ruleset: ResolvedUnderwritingRuleset = DEFAULT_UNDERWRITING_RULESET
+): EligibilityEvaluation => {
+  const { rules } = ruleset;
+  const monthlyRevenue = parseInt(data.monthlyRevenue || '0');
+  const monthlyExpenses = parseInt(data.monthlyExpenses || '0');
+  const existingDebtPayment = parseInt(data.existingDebtPayment || '0');
+  const requestedLoanAmount = parseInt(data.requestedLoanAmount || '0');
+  const loanPurpose = data.loanPurpose?.toLowerCase() || '';
+  const businessYearsRunning = parseYears(data.businessYearsRunning);
+  const creditScoreValue = parseInt(data.ownerCreditScore || '0');
+
+  const monthlyNetIncome = monthlyRevenue - monthlyExpenses;
+  const annualNetIncome = monthlyNetIncome * 12;
+
+  // Structure the requested loan; real estate purposes get the longer real estate term
+  const isRealEstate = loanPurpose.includes('real estate') || loanPurpose.includes('property');
+  const isWorkingCapital = loanPurpose.includes('working capital');
+  const loanAmount = Math.max(0, requestedLoanAmount || 0);
+  const capitalStack = buildCapitalStack({
+    sbaLoanAmount: loanAmount,
+    realEstateAmount: isRealEstate ? loanAmount : 0,
+    workingCapital: isWorkingCapital ? loanAmount : 0,
+    annualCashFlow: annualNetIncome,
+    existingAnnualDebtService: Math.max(0, existingDebtPayment || 0) * 12
+  }, ruleset);
+
+  // DSCR including existing debt
+  const dscr = capitalStack.globalDSCR;
+
+  const outcomes: CheckOutcome[] = [
+    evaluateCitizenship(data.isUSCitizen, 'Consider alternative lending options'),
+    evaluateCreditScore(creditScoreValue, ruleset),
+    evaluateBusinessAge(businessYearsRunning, ruleset)
+  ];
+
+  // Down payment expectations depend on loan purpose (informational only)
+  if (isWorkingCapital) {
+    outcomes.push(outcome('downPayment', true, 'Working capital loan - No down payment required ✓'));
+  } else if (isRealEstate) {
+    outcomes.push(outcome('downPayment', true, 'Real estate loan - 10-15% down payment required (10%)', {
+      recommendations: ['Prepare 10-15% down payment for real estate purchase']
+    }));
+  } else {
+    outcomes.push(outcome('downPayment', true, 'General purpose loan - 5% down payment may be required'));
+  }
+
+  // Cash flow / DSCR (includes existing debt)
+  if (monthlyRevenue <= 0 || monthlyExpenses < 0) {
+    outcomes.push(outcome('cashFlow', false, 'Business revenue and expense data required', {
+      points: -rules.deductions.ownerMissingFinancials,
+      reasons: ['Financial information required for approval'],
+      recommendations: ['Provide detailed financial statements showing monthly revenue and expenses']
+    }));
+  } else if (monthlyNetIncome <= 0) {
+    outcomes.push(outcome('cashFlow', false, 'Business is not profitable - cannot support additional debt', {
+      points: -rules.deductions.ownerNoProfit,
+      reasons: ['Business must show positive net income to qualify'],
+      recommendations: ['Improve business profitability before seeking additional financing']
+    }));
+  } else {
+    outcomes.push(evaluateDSCRTiers(dscr, ruleset, {
+      strongReason: 'Strong debt service coverage ratio including existing debt',
+      minimumRecommendation: 'Consider reducing loan amount to improve debt service coverage',
+      insufficientReason: 'Business cash flow cannot support additional SBA loan payments with existing debt',
+      insufficientRecommendations: [
+        'Reduce requested loan amount or pay down existing debt first',
+        'Increase business profitability to improve cash flow'
+      ]
+    }));
+  }
+
+  // Existing debt consideration
+  let debtToIncomeRatio: number | undefined;
+  if (existingDebtPayment > 0) {
+    debtToIncomeRatio = (existingDebtPayment * 12) / annualNetIncome;
+    if (debtToIncomeRatio > rules.ownerLimits.maxDebtToIncomeRatio) {
+      outcomes.push(outcome('existingDebt', false, 'High existing debt burden', {
+        points: -rules.deductions.ownerHighDebt,
+        reasons: ['High existing debt burden relative to income'],
+        recommendations: ['Consider paying down existing debt before taking on additional financing']
+      }));
+    } else {
+      outcomes.push(outcome('existingDebt', true, 'Existing debt is manageable ✓'));
+    }
+  }
+
+  // Loan amount validation
+  if (requestedLoanAmount > annualNetIncome * rules.ownerLimits.maxLoanToAnnualIncomeMultiple) {
+    outcomes.push(outcome('loanAmount', false, 'Requested loan amount is high relative to income', {
+      points: -rules.deductions.ownerHighLoanAmount,
+      reasons: ['Requested loan amount is high relative to annual income'],
+      recommendations: ['Consider reducing loan request to align with cash flow capacity']
+    }));
+  }
+
+  return finalizeEvaluation('owner', outcomes, {
+    dscr,
+    loanAmount: capitalStack.sbaLoan.amount,
+    capitalStack,
+    annualNetIncome,
+    ...(debtToIncomeRatio !== undefined && Number.isFinite(debtToIncomeRatio) && {
+      debtToIncomeRatio: Number(debtToIncomeRatio.toFixed(2))
+    })
+  }, ruleset, [
+    'Prepare comprehensive business plan with 3-year projections',
+    'Gather all required SBA documentation in advance',
+    'Consider working with an SBA-experienced business consultant'
+  ]);
+};
@@ -0,0 +1,112 @@
+import { Application } from '../models/Application.js';
+import { User } from '../models/User.js';
+import { SBAApplication, UserProvidedDocumentType } from '../types/index.js';
+import { formatApplicationStatus } from '../utils/formatters.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { findThreadIdForMessage, getThreadMessages } from './emailStoreService.js';
+
+// What the reply agent is allowed to know about the sender. Applications are only included when the
+// sender's address is the owning user's login email or the point-of-contact email on the 1919.
+
+const MAX_APPLICATIONS = 3;
+const MAX_PRIOR_MESSAGES = 10;
+const MAX_PRIOR_MESSAGE_LENGTH = 1500;
+
+const extractEmailAddress = (from: string): string => {
+  const match = from.match(/<([^>]+)>/) || from.match(/([^\s"<>]+@[^\s"<>]+)/);
+  return (match ? match[1] : from).trim().toLowerCase();
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Everything still standing between the applicant and a complete package
+export const getMissingDocuments = (application: SBAApplication): string[] => {
+  const missing: string[] = [];
+  const uploadedTypes = new Set((application.userProvidedDocuments || []).map((doc) => doc.fileType));
+
+  if (!uploadedTypes.has(UserProvidedDocumentType.TAX_RETURN)) missing.push('Tax Return');
+  if (!uploadedTypes.has(UserProvidedDocumentType.L_AND_P)) missing.push('L&P (Profit & Loss)');
+
+  (application.draftDocuments || [])
+    .filter((doc) => !doc.signed)
+    .forEach((doc) => missing.push(`Signature on ${doc.fileName}`));
+
+  (application.documentRequests || [])
+    .filter((request) => request.status === 'open')
+    .forEach((request) => missing.push(...request.documents.map((doc) => `${doc} (requested by lender)`)));
+
+  return missing;
+};
+
+export const findApplicationsForSender = async (from: string) => {
+  const address = extractEmailAddress(from);
+  if (!address.includes('@')) return [];
+
+  const users = await User.find({ email: address }).select('_id').exec();
+  const ownerIds = users.map((user) => user._id.toString());
+
+  return Application.find({
+    $or: [
+      ...(ownerIds.length > 0 ? [{ ownerId: { $in: ownerIds } }] : []),
+      { 'sba1919Fields.pocEmail': { $regex: `^${escapeRegex(address)}$`, $options: 'i' } }
+    ]
+  })
+    .sort({ updatedAt: -1 })
+    .limit(MAX_APPLICATIONS)
+    .populate({ path: 'banks.bank', model: 'Bank', select: 'name' })
+    .populate({ path: 'offers.bank', model: 'Bank', select: 'name' })
+    .exec();
+};
+
+const describeApplication = (application: SBAApplication): string => {
+  const missing = getMissingDocuments(application);
+  const lines = [
+    `Application ${application._id}: ${formatApplicationStatus(application)}`,
+    missing.length > 0 ? `Missing: ${missing.join(', ')}` : 'Missing: nothing - the package is complete'
+  ];
+
+  // The status line just omits banks when there are none; say so explicitly so the agent doesn't guess
+  const delivered = (application.banks || []).filter((submission) => ['submitted', 'accepted', 'rejected'].includes(submission.status));
+  if (delivered.length === 0) {
+    lines.push('Lender submissions: not submitted to any lender yet');
+  }
+
+  return lines.join('\n');
+};
+
+const describePriorMessages = async (email: FetchedEmail): Promise<string | undefined> => {
+  const threadId = (await findThreadIdForMessage(email.messageId)) || email.threadId;
+  if (!threadId) return undefined;
+
+  const ownId = email.messageId.replace(/[<>]/g, '');
+  const messages = (await getThreadMessages(threadId))
+    .filter((message) => message.messageId.replace(/[<>]/g, '') !== ownId)
+    .slice(-MAX_PRIOR_MESSAGES);
+
+  if (messages.length === 0) return undefined;
+
+  return messages.map((message) => {
+    const body = message.text.length > MAX_PRIOR_MESSAGE_LENGTH
+      ? `${message.text.slice(0, MAX_PRIOR_MESSAGE_LENGTH)}...`
+      : message.text;
+    return `[${message.sentAt.toISOString()}] ${message.direction === 'outbound' ? 'Us' : message.from}:\n${body}`;
+  }).join('\n\n');
+};
+
+// Background for the reply agent; both parts are empty for unknown senders and new threads
+export const buildReplyContext = async (email: FetchedEmail): Promise<{
+  applicationContext?: string;
+  priorMessages?: string;
+}> => {
+  const [applications, priorMessages] = await Promise.all([
+    findApplicationsForSender(email.from),
+    describePriorMessages(email)
+  ]);
+
+  return {
+    applicationContext: applications.length > 0
+      ? applications.map((application) => describeApplication(application)).join('\n\n')
+      : undefined,
+    priorMessages
+  };
+};
@@ -1,5 +1,6 @@
 import Imap from 'imap';
 import { simpleParser } from 'mailparser';
+import { getThreadMessages } from './emailStoreService.js';
 
 export interface FetchedEmail {
   from: string;
@@ -10,25 +11,37 @@ export interface FetchedEmail {
   inReplyTo?: string;
   references?: string[];
   threadId?: string;
+  to?: string[];
+  cc?: string[];
+  html?: string;
+  attachments?: Array<{
+    filename: string;
+    contentType: string;
+    size: number;
+    content: Buffer;
+  }>;
 }
 
 // Global connection state
 let imapConnection: Imap | null = null;
 let isConnected = false;
 
+// Shared by this module's on-demand connection and the long-lived mailbox listener
+export const getImapConfig = (): Imap.Config => ({
+  user: process.env.IMAP_USER || '',
+  password: process.env.IMAP_PASSWORD || '',
+  host: process.env.IMAP_HOST || 'imap.gmail.com',
+  port: parseInt(process.env.IMAP_PORT || '993'),
+  tls: true,
+  tlsOptions: { 
+    rejectUnauthorized: false 
+  },
+  authTimeout: 10000,
+  connTimeout: 15000
+});
+
 function createIMAPConnection(): Imap {
-  const imap = new Imap({
-    user: process.env.IMAP_USER || '',
-    password: process.env.IMAP_PASSWORD || '',
-    host: process.env.IMAP_HOST || 'imap.gmail.com',
-    port: parseInt(process.env.IMAP_PORT || '993'),
-    tls: true,
-    tlsOptions: { 
-      rejectUnauthorized: false 
-    },
-    authTimeout: 10000,
-    connTimeout: 15000
-  });
+  const imap = new Imap(getImapConfig());
 
   // Setup event handlers
   imap.once('ready', () => {
@@ -97,12 +110,16 @@ function computeThreadId(messageId: string, inReplyTo?: string, references?: str
   return messageId.replace(/[<>]/g, '');
 }
 
-async function parseEmailMessage(emailData: Buffer, seqno: number): Promise<FetchedEmail> {
+// fallbackMessageId should be stable for the message (e.g. built from UIDVALIDITY and UID) so
+// exactly-once processing still works for mail that arrives without a Message-ID header
+export async function parseEmailMessage(emailData: Buffer, seqno: number, fallbackMessageId?: string): Promise<FetchedEmail> {
   const parsed = await simpleParser(emailData);
   
-  const messageId = parsed.messageId || `unknown-${seqno}-${Date.now()}`;
+  const messageId = parsed.messageId || fallbackMessageId || `unknown-${seqno}-${Date.now()}`;
   const inReplyTo = parsed.inReplyTo || undefined;
   const references = Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : [];
+  const addressList = (field: typeof parsed.to) =>
+    (Array.isArray(field) ? field : field ? [field] : []).flatMap((group) => group.value.map((entry) => entry.address || ''));
   
   return {
     messageId,
@@ -112,85 +129,39 @@ async function parseEmailMessage(emailData: Buffer, seqno: number): Promise<Fetc
     date: parsed.date || new Date(),
     inReplyTo,
     references,
-    threadId: computeThreadId(messageId, inReplyTo, references)
+    threadId: computeThreadId(messageId, inReplyTo, references),
+    to: addressList(parsed.to).filter(Boolean),
+    cc: addressList(parsed.cc).filter(Boolean),
+    html: parsed.html || undefined,
+    attachments: parsed.attachments.map((attachment, index) => ({
+      filename: attachment.filename || `attachment-${index + 1}`,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      content: attachment.content
+    }))
   };
 }
 
-async function fetchUnreadEmails(imap: Imap): Promise<FetchedEmail[]> {
-  return new Promise((resolve, reject) => {
-    imap.openBox('INBOX', false, (err: any, box: any) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-
-      // Search for unread emails
-      imap.search(['UNSEEN'], (searchErr: any, results: number[]) => {        
-        if (searchErr) {
-          reject(searchErr);
-          return;
-        }
-
-        if (!results || results.length === 0) {
-          resolve([]);
-          return;
-        }
-        console.log(`Found ${results.length} unread emails`);
-
-        // Fetch the emails
-        const fetch = imap.fetch(results, {
-          bodies: '',
-          struct: true,
-          markSeen: true // Mark as read after fetching
-        });
-
-        const emails: FetchedEmail[] = [];
-        let processedCount = 0;
-
-        fetch.on('message', (msg: any, seqno: any) => {
-          let emailData: Buffer = Buffer.alloc(0);
-
-          msg.on('body', (stream: any) => {
-            stream.on('data', (chunk: any) => {
-              emailData = Buffer.concat([emailData, chunk]);
-            });
-            stream.once('end', async () => {
-              try {
-                const fetchedEmail = await parseEmailMessage(emailData, seqno);
-                emails.push(fetchedEmail);
-              } catch (parseError) {
-                console.error('Error parsing email:', parseError);
-              } finally {
-                processedCount++;
-                
-                if (processedCount === results.length) {
-                  resolve(emails);
-                }
-              }
-            });
-          });
-
-          msg.once('end', () => {
-            // Message processing complete
-          });
-        });
-
-        fetch.once('error', (fetchErr: any) => {
-          reject(fetchErr);
-        });
-
-        fetch.once('end', () => {
-          if (processedCount === results.length) {
-            resolve(emails);
-          }
-        });
-      });
-    });
-  });
-}
-
-// Fetch all emails with specific thread ID
+// Fetch all emails with specific thread ID - from the email store, falling back to IMAP for
+// conversations that predate it
 export async function fetchEmailsByThreadId(threadId: string): Promise<FetchedEmail[]> {
+  const stored = await getThreadMessages(threadId);
+  if (stored.length > 0) {
+    return stored.map((message) => ({
+      messageId: message.messageId,
+      subject: message.subject,
+      from: message.from,
+      body: message.text,
+      date: message.sentAt,
+      inReplyTo: message.inReplyTo,
+      references: message.references,
+      threadId: message.threadId,
+      to: message.to,
+      cc: message.cc,
+      html: message.html
+    }));
+  }
+
   return new Promise(async (resolve, reject) => {
     try {
       const imap = await connectToIMAP();
@@ -269,16 +240,3 @@ export async function fetchEmailsByThreadId(threadId: string): Promise<FetchedEm
     }
   });
 }
-
-// Main export function that poller.ts expects
-export async function fetchEmails(): Promise<FetchedEmail[]> {
-  try {
-    const imap = await connectToIMAP();
-    const unreadEmails = await fetchUnreadEmails(imap);
-    
-    return unreadEmails;
-  } catch (error) {
-    console.error('Error fetching emails:', error);
-    throw error;
-  }
-}
\ No newline at end of file
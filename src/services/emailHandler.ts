@@ -11,6 +11,7 @@ import {
   EmailPriority 
 } from '../types/index.js';
 import { FetchedEmail } from './emailFetcher.js';
+import { buildReplyContext } from './emailContextService.js';
 
 export interface EmailHandlerResult {
   reply: string;
@@ -27,64 +28,26 @@ function convertToEmailMessage(fetchedEmail: FetchedEmail): EmailMessage {
     subject: fetchedEmail.subject,
     body: fetchedEmail.body,
     from: fetchedEmail.from,
-    to: ['agent@yourdomain.com'], // Placeholder for your agent email
+    to: fetchedEmail.to && fetchedEmail.to.length > 0
+      ? fetchedEmail.to
+      : [process.env.IMAP_USER || process.env.SMTP_USER || 'team@salestorvely.com'],
     createdAt: fetchedEmail.date,
     updatedAt: new Date(),
+    threadId: fetchedEmail.threadId,
     inReplyTo: fetchedEmail.inReplyTo,
     priority: EmailPriority.NORMAL,
     status: EmailStatus.DELIVERED,
   };
 }
 
-// Check if email should be flagged for human review
-// function shouldFlagForReview(email: FetchedEmail): boolean {
-//   const body = email.body.toLowerCase();
-//   const wordCount = email.body.split(/\s+/).length;
-  
-//   // Flag very long emails (over 200 words)
-//   if (wordCount > 200) {
-//     return true;
-//   }
-  
-//   // Flag emails with complex/sensitive keywords
-//   const sensitiveKeywords = [
-//     'complaint', 'refund', 'cancel', 'legal', 'lawsuit', 'angry', 'furious',
-//     'terrible', 'worst', 'horrible', 'disgusted', 'unacceptable', 'urgent',
-//     'emergency', 'asap', 'immediately', 'contract', 'billing issue', 'payment problem'
-//   ];
-  
-//   const hasSensitiveContent = sensitiveKeywords.some(keyword => 
-//     body.includes(keyword)
-//   );
-  
-//   if (hasSensitiveContent) {
-//     return true;
-//   }
-  
-//   // Flag emails with multiple questions (complex inquiries)
-//   const questionMarks = (email.body.match(/\?/g) || []).length;
-//   if (questionMarks > 2) {
-//     return true;
-//   }
-  
-//   // Flag emails that seem like they need human attention
-//   const needsHumanKeywords = [
-//     'speak to manager', 'human representative', 'real person', 'not automated',
-//     'escalate', 'supervisor', 'manager', 'director'
-//   ];
-  
-//   const needsHuman = needsHumanKeywords.some(keyword => 
-//     body.includes(keyword)
-//   );
-  
-//   return needsHuman;
-// }
-
 // Generate AI reply using existing email agent
 async function generateAIReply(email: FetchedEmail): Promise<string> {
   try {
     // Convert to EmailMessage format
     const emailMessage = convertToEmailMessage(email);
+
+    // Known applicants get answers from their own application instead of a referral to support
+    const { applicationContext, priorMessages } = await buildReplyContext(email);
     
     // Create reply context
     const replyContext: EmailReplyContext = {
@@ -92,7 +55,11 @@ async function generateAIReply(email: FetchedEmail): Promise<string> {
       replyType: ReplyType.REPLY,
       tone: EmailTone.PROFESSIONAL,
       includeOriginal: false,
-      customInstructions: 'Keep the response helpful, professional, and concise. If you cannot fully address their request, suggest they contact support for further assistance.'
+      customInstructions: applicationContext
+        ? 'Keep the response helpful, professional, and concise. Answer questions about their application from the application details provided. Only mention lenders, offers and documents that appear there.'
+        : 'Keep the response helpful, professional, and concise. If you cannot fully address their request, suggest they contact support for further assistance.',
+      applicationContext,
+      priorMessages
     };
     
     // Generate reply using existing agent
@@ -115,15 +82,7 @@ export async function handleEmail(email: FetchedEmail): Promise<EmailHandlerResu
   try {
     console.log(`Analyzing email from ${email.from}: "${email.subject}"`);
     
-    // Check if email should be flagged for human review
-    // if (shouldFlagForReview(email)) {
-    //   console.log('Email flagged for human review due to complexity or sensitive content');
-    //   return {
-    //     reply: '',
-    //     flagForReview: true
-    //   };
-    // }
-    
+    // Review policy is applied by the caller (see emailReviewService)
     // Generate AI reply for simple emails
     console.log('Generating AI reply for email...');
     const reply = await generateAIReply(email);
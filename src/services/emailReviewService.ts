@@ -0,0 +1,365 @@
+import { EmailReview, EmailReviewSettings } from '../models/EmailReview.js';
+import { Bank } from '../models/Bank.js';
+import {
+  EmailReviewDecision,
+  EmailReviewFlag,
+  EmailReviewMode,
+  EmailReviewPolicy,
+  EmailReviewStatus,
+  OutboundEmailRecord
+} from '../types/index.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { sendEmail } from './emailSender.js';
+import { DeliveryOutcome, registerDeliveryHandler } from './outboundEmailQueue.js';
+import websocketService from './websocket.js';
+
+// Outgoing AI replies either go straight out or wait in a review queue, depending on the policy
+
+const REVIEW_MODES: EmailReviewMode[] = ['auto', 'review_all', 'review_flagged'];
+
+export const DEFAULT_REVIEW_POLICY: EmailReviewPolicy = {
+  mode: REVIEW_MODES.includes(process.env.EMAIL_REVIEW_MODE as EmailReviewMode)
+    ? process.env.EMAIL_REVIEW_MODE as EmailReviewMode
+    : 'review_flagged',
+  keywords: [
+    'complaint', 'refund', 'cancel', 'legal', 'lawsuit', 'attorney', 'angry', 'furious',
+    'terrible', 'worst', 'horrible', 'unacceptable', 'urgent', 'emergency', 'asap',
+    'immediately', 'contract', 'billing issue', 'payment problem', 'speak to manager',
+    'human representative', 'real person', 'not automated', 'escalate', 'supervisor'
+  ],
+  maxWordCount: 200,
+  maxQuestions: 2,
+  minConfidence: 0.6,
+  flagLenderSenders: true,
+  senderAllowlist: []
+};
+
+// Phrases that suggest the agent couldn't actually answer
+const HEDGING_PATTERNS = [
+  /\b(not sure|unsure|uncertain)\b/i,
+  /\b(i|we) (don't|do not|can't|cannot) (have|know|confirm|access)\b/i,
+  /\bcontact (our )?support\b/i,
+  /\bunable to (help|assist|answer|confirm)\b/i,
+  /\[[^\]]*(name|date|amount|insert)[^\]]*\]/i  // Unfilled template placeholders
+];
+
+const extractEmailAddress = (from: string): string => {
+  const match = from.match(/<([^>]+)>/) || from.match(/([^\s"<>]+@[^\s"<>]+)/);
+  return (match ? match[1] : from).trim().toLowerCase();
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isAllowlisted = (address: string, allowlist: string[]): boolean => {
+  const domain = address.split('@')[1];
+  return allowlist.some((entry) => entry.startsWith('@') ? entry.slice(1) === domain : entry === address);
+};
+
+const isLenderSender = async (address: string): Promise<boolean> => {
+  const domain = address.split('@')[1];
+  if (!domain) return false;
+
+  const bank = await Bank.exists({ 'contacts.email': { $regex: `@${escapeRegex(domain)}$`, $options: 'i' } });
+  return Boolean(bank);
+};
+
+// Rough 0-1 score of how safe a reply is to send unseen: starts at 1 and loses points for hedging,
+// near-empty replies and inbound emails that ask more than one thing
+export const estimateReplyConfidence = (email: FetchedEmail, reply: string): number => {
+  if (!reply.trim()) return 0;
+
+  let confidence = 1;
+  confidence -= HEDGING_PATTERNS.filter((pattern) => pattern.test(reply)).length * 0.25;
+
+  if (reply.trim().split(/\s+/).length < 5) {
+    confidence -= 0.3;
+  }
+
+  const questions = (email.body.match(/\?/g) || []).length;
+  confidence -= Math.min(0.3, Math.max(0, questions - 1) * 0.1);
+
+  return Math.max(0, Math.min(1, Number(confidence.toFixed(2))));
+};
+
+export const getReviewPolicy = async (): Promise<EmailReviewPolicy> => {
+  const settings = await EmailReviewSettings.findOne({ key: 'default' }).lean().exec();
+  if (!settings) {
+    return DEFAULT_REVIEW_POLICY;
+  }
+
+  return {
+    mode: settings.mode,
+    keywords: settings.keywords,
+    maxWordCount: settings.maxWordCount,
+    maxQuestions: settings.maxQuestions,
+    minConfidence: settings.minConfidence,
+    flagLenderSenders: settings.flagLenderSenders,
+    senderAllowlist: settings.senderAllowlist,
+    updatedBy: settings.updatedBy,
+    updatedAt: settings.updatedAt
+  };
+};
+
+// Partial updates are merged over the current policy
+export const updateReviewPolicy = async (
+  update: Partial<EmailReviewPolicy>,
+  updatedBy?: string
+): Promise<EmailReviewPolicy> => {
+  const current = await getReviewPolicy();
+  const { updatedAt, ...merged } = { ...current, ...update, updatedBy };
+
+  if (!REVIEW_MODES.includes(merged.mode)) {
+    throw new Error(`Invalid review policy: mode must be one of ${REVIEW_MODES.join(', ')}`);
+  }
+  if (merged.minConfidence < 0 || merged.minConfidence > 1) {
+    throw new Error('Invalid review policy: minConfidence must be between 0 and 1');
+  }
+
+  await EmailReviewSettings.findOneAndUpdate(
+    { key: 'default' },
+    { $set: merged },
+    { upsert: true, new: true, runValidators: true }
+  ).exec();
+
+  return getReviewPolicy();
+};
+
+// Decide whether a generated reply needs a human before it goes out
+export const evaluateReply = async (
+  email: FetchedEmail,
+  reply: string,
+  policy: EmailReviewPolicy
+): Promise<EmailReviewDecision> => {
+  const flagReasons: EmailReviewFlag[] = [];
+  const confidence = estimateReplyConfidence(email, reply);
+  const sender = extractEmailAddress(email.from);
+
+  if (!reply.trim()) {
+    flagReasons.push('generation_failed');
+  }
+
+  if (!isAllowlisted(sender, policy.senderAllowlist)) {
+    const body = email.body.toLowerCase();
+
+    if (policy.keywords.some((keyword) => body.includes(keyword.toLowerCase()))) {
+      flagReasons.push('sensitive_keyword');
+    }
+    if (email.body.split(/\s+/).length > policy.maxWordCount) {
+      flagReasons.push('long_email');
+    }
+    if ((email.body.match(/\?/g) || []).length > policy.maxQuestions) {
+      flagReasons.push('many_questions');
+    }
+    if (reply.trim() && confidence < policy.minConfidence) {
+      flagReasons.push('low_confidence');
+    }
+    if (policy.flagLenderSenders && await isLenderSender(sender)) {
+      flagReasons.push('lender_sender');
+    }
+  }
+
+  // An empty reply can never be sent, whatever the mode
+  const requiresReview = flagReasons.includes('generation_failed')
+    || policy.mode === 'review_all'
+    || (policy.mode === 'review_flagged' && flagReasons.length > 0);
+
+  return { flagReasons, confidence, requiresReview };
+};
+
+const queueReply = async (email: FetchedEmail, subject: string, reply: string, decision: EmailReviewDecision) => {
+  try {
+    const item = await EmailReview.create({
+      inboundMessageId: email.messageId,
+      inboundReferences: email.references || [],
+      from: email.from,
+      subject: email.subject,
+      inboundBody: email.body,
+      receivedAt: email.date,
+      draft: { subject, body: reply },
+      originalBody: reply,
+      confidence: decision.confidence,
+      flagReasons: decision.flagReasons
+    });
+
+    websocketService.broadcast('email-review-queued', {
+      reviewId: item._id.toString(),
+      from: email.from,
+      subject: email.subject,
+      flagReasons: decision.flagReasons,
+      timestamp: new Date().toISOString()
+    });
+
+    return item;
+  } catch (error: any) {
+    // Already queued when this message was fetched before
+    if (error.code === 11000) {
+      return EmailReview.findOne({ inboundMessageId: email.messageId }).exec();
+    }
+    throw error;
+  }
+};
+
+// Park an inbound email for a human without drafting a reply - the reviewer writes one or rejects it
+export const holdForReview = async (email: FetchedEmail, flag: EmailReviewFlag): Promise<void> => {
+  await queueReply(email, `Re: ${email.subject}`, '', { flagReasons: [flag], confidence: 0, requiresReview: true });
+  console.log(`📝 "${email.subject}" held for review (${flag})`);
+};
+
+// Entry point for inbound mail processing: send the reply now or park it for review
+export const dispatchReply = async (
+  email: FetchedEmail,
+  reply: string,
+  flagForReview: boolean = false
+): Promise<{ queued: boolean; decision: EmailReviewDecision }> => {
+  const policy = await getReviewPolicy();
+  const decision = await evaluateReply(email, flagForReview ? '' : reply, policy);
+  const subject = `Re: ${email.subject}`;
+
+  if (decision.requiresReview) {
+    await queueReply(email, subject, reply, decision);
+    console.log(`📝 Reply to "${email.subject}" queued for review (${decision.flagReasons.join(', ') || policy.mode})`);
+    return { queued: true, decision };
+  }
+
+  await sendEmail({
+    to: [email.from],
+    subject,
+    text: reply,
+    html: reply.replace(/\n/g, '<br>'),
+    inReplyTo: email.messageId,
+    references: [...(email.references || []), email.messageId]
+  });
+
+  return { queued: false, decision };
+};
+
+export const listReviewItems = async (
+  status: EmailReviewStatus | undefined,
+  page: number = 1,
+  limit: number = 20
+) => {
+  const query = status ? { status } : {};
+  const skip = (page - 1) * limit;
+
+  const [items, total] = await Promise.all([
+    EmailReview.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).exec(),
+    EmailReview.countDocuments(query).exec()
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    pages: Math.ceil(total / limit)
+  };
+};
+
+export const getReviewItem = async (reviewId: string) => {
+  const item = await EmailReview.findById(reviewId).exec();
+  if (!item) {
+    throw new Error('Review item not found');
+  }
+  return item;
+};
+
+// Distinguish a missing item from one a reviewer already handled
+const throwForUnclaimable = async (reviewId: string): Promise<never> => {
+  await getReviewItem(reviewId);
+  throw new Error('Review item is not pending');
+};
+
+export const updateReviewDraft = async (
+  reviewId: string,
+  draft: { subject?: string; body?: string }
+) => {
+  const set: Record<string, unknown> = { edited: true };
+  if (draft.subject !== undefined) set['draft.subject'] = draft.subject;
+  if (draft.body !== undefined) set['draft.body'] = draft.body;
+
+  const item = await EmailReview.findOneAndUpdate(
+    { _id: reviewId, status: { $in: ['pending', 'failed'] } },
+    { $set: set },
+    { new: true }
+  ).exec();
+
+  return item || throwForUnclaimable(reviewId);
+};
+
+// Approve and send. Claiming the item first keeps two reviewers from sending the same reply.
+export const approveReviewItem = async (
+  reviewId: string,
+  reviewedBy?: string,
+  draft?: { subject?: string; body?: string }
+) => {
+  if (draft && (draft.subject !== undefined || draft.body !== undefined)) {
+    await updateReviewDraft(reviewId, draft);
+  }
+
+  const item = await EmailReview.findOneAndUpdate(
+    { _id: reviewId, status: { $in: ['pending', 'failed'] } },
+    { $set: { status: 'approved', reviewedBy, reviewedAt: new Date() }, $unset: { error: 1 } },
+    { new: true }
+  ).exec();
+
+  if (!item) {
+    return throwForUnclaimable(reviewId);
+  }
+
+  if (!item.draft.body.trim()) {
+    item.status = 'pending';
+    await item.save();
+    throw new Error('Cannot send an empty reply');
+  }
+
+  try {
+    const result = await sendEmail({
+      to: [item.from],
+      subject: item.draft.subject,
+      text: item.draft.body,
+      html: item.draft.body.replace(/\n/g, '<br>'),
+      inReplyTo: item.inboundMessageId,
+      references: [...(item.inboundReferences || []), item.inboundMessageId],
+      purpose: 'review_reply'
+    });
+    // A queued reply stays approved until the outbound queue reports how it went
+    if (result.status === 'sent') {
+      item.status = 'sent';
+      item.sentAt = new Date();
+      console.log(`✅ Reviewed reply sent to ${item.from}`);
+    } else {
+      console.warn(`⏳ Reviewed reply to ${item.from} queued for retry: ${result.error}`);
+    }
+  } catch (error) {
+    // Stays approvable so it can be retried
+    item.status = 'failed';
+    item.error = error instanceof Error ? error.message : 'Unknown send error';
+    console.error(`❌ Failed to send reviewed reply to ${item.from}:`, error);
+  }
+
+  await item.save();
+  return item;
+};
+
+// Outcome of an approved reply that didn't go out on the first attempt
+const settleReviewReply = async (email: OutboundEmailRecord, outcome: DeliveryOutcome, background: boolean) => {
+  if (!background || !email.inReplyTo) return;
+
+  await EmailReview.updateOne(
+    { inboundMessageId: email.inReplyTo, status: { $in: ['approved', 'sent'] } },
+    outcome === 'sent'
+      ? { $set: { status: 'sent', sentAt: new Date() }, $unset: { error: 1 } }
+      : { $set: { status: 'failed', error: email.lastError || 'Reply could not be delivered' } }
+  ).exec();
+};
+
+registerDeliveryHandler('review_reply', settleReviewReply);
+
+export const rejectReviewItem = async (reviewId: string, reviewedBy?: string, reason?: string) => {
+  const item = await EmailReview.findOneAndUpdate(
+    { _id: reviewId, status: { $in: ['pending', 'failed'] } },
+    { $set: { status: 'rejected', reviewedBy, reviewedAt: new Date(), rejectionReason: reason } },
+    { new: true }
+  ).exec();
+
+  return item || throwForUnclaimable(reviewId);
+};
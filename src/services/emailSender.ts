@@ -1,62 +1,63 @@
 import dotenv from "dotenv";
-import nodemailer from "nodemailer";
+import { EmailRecordContext, OutboundSendResult } from "../types/index.js";
+import { sendQueuedEmail } from "./outboundEmailQueue.js";
 
 dotenv.config();
 
-export async function sendEmail({ 
-  to, 
-  subject, 
-  text, 
-  html, 
-  from, 
-  attachments 
-}: { 
-  to: string[], 
-  subject: string, 
-  text?: string, 
-  html?: string, 
-  from?: string, 
+// Sends through the outbound queue: resolves once the email is sent or queued for a retry (status 'queued'),
+// and throws only when it can't be delivered at all.
+export async function sendEmail({
+  to,
+  subject,
+  text,
+  html,
+  from,
+  attachments,
+  messageId,
+  inReplyTo,
+  references,
+  context,
+  purpose
+}: {
+  to: string[],
+  subject: string,
+  text?: string,
+  html?: string,
+  from?: string,
+  messageId?: string,  // Set a known Message-ID so replies and retries can be traced back
+  inReplyTo?: string,
+  references?: string[],
+  context?: EmailRecordContext,  // Application and bank the email is about, for the correspondence record
+  purpose?: string,  // Routes the final delivery outcome to a handler registered for it
   attachments?: Array<{
     filename: string;
     path?: string;
     content?: string | Buffer;
     contentType?: string;
     encoding?: string;
-  }> 
-}) {
+  }>
+}): Promise<OutboundSendResult> {
 
-  // Create transporter using SMTP
-  const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,       // e.g., smtp.gmail.com
-    port: Number(process.env.SMTP_PORT) || 587, // 465 for SSL, 587 for TLS
-    secure: process.env.SMTP_SECURE === 'true', // true for 465, false for 587
-    auth: {
-      user: process.env.SMTP_USER,     // your email
-      pass: process.env.SMTP_PASS      // your email password or app password
-    }
-  });
-
-  const mailOptions = {
-    from: from || `team@salestorvely.com`,
-    to: to.join(', '),   // Nodemailer wants a comma-separated string
-    subject,
-    text,
-    html,
-    attachments
-  };
-
-  if (mailOptions.attachments && mailOptions.attachments.length > 0) {
-    mailOptions.attachments.forEach((att, index) => {
+  if (attachments && attachments.length > 0) {
+    attachments.forEach((att, index) => {
       console.log(`  Attachment ${index + 1}: ${att.filename} (${att.contentType || 'unknown type'})`);
     });
   }
 
   try {
-    const info = await transporter.sendMail(mailOptions);
-    if (info.rejected && info.rejected.length > 0) {
-      console.warn('Rejected recipients:', info.rejected);
-    }
-    return info;
+    return await sendQueuedEmail({
+      to,
+      subject,
+      text,
+      html,
+      from,
+      messageId,
+      inReplyTo,
+      references,
+      context,
+      purpose,
+      attachments
+    });
   } catch (error) {
     console.error('Error sending email:', error);
     throw error;
@@ -0,0 +1,350 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Application } from '../models/Application.js';
+import { EmailMessage, EmailThread } from '../models/EmailThread.js';
+import {
+  CorrespondenceTimeline,
+  EmailDirection,
+  EmailMessageRecord,
+  EmailRecordAttachmentInput,
+  EmailRecordContext,
+  StoredEmailAttachment
+} from '../types/index.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { generatePresignedUrl, uploadDocument } from './s3Service.js';
+
+// Every email we send or receive, grouped into threads and linked to the application and bank
+// it concerns. Recording is best-effort: a storage failure never blocks sending or processing mail.
+
+interface MessageInput {
+  messageId: string;
+  direction: EmailDirection;
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  sentAt: Date;
+  attachments: Array<{ filename: string; contentType: string; content: Buffer }>;
+  storedAttachments?: StoredEmailAttachment[];
+  deliveryStatus?: 'sent' | 'failed';
+  error?: string;
+}
+
+const normalizeMessageId = (id: string): string => `<${id.replace(/[<>]/g, '').trim()}>`;
+
+const stripBrackets = (id: string): string => id.replace(/[<>]/g, '').trim();
+
+const extractEmailAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/) || value.match(/([^\s"<>]+@[^\s"<>]+)/);
+  return (match ? match[1] : value).trim().toLowerCase();
+};
+
+// A reply joins the thread of whatever it answers; otherwise the oldest reference is the root
+const resolveThreadId = async (messageId: string, inReplyTo?: string, references: string[] = []): Promise<string> => {
+  const ancestors = [inReplyTo, ...references]
+    .filter((id): id is string => Boolean(id))
+    .map(normalizeMessageId);
+
+  if (ancestors.length > 0) {
+    const parent = await EmailMessage.findOne({ messageId: { $in: ancestors } }).select('threadId').lean().exec();
+    if (parent) {
+      return parent.threadId;
+    }
+  }
+
+  return stripBrackets(references[0] || inReplyTo || messageId);
+};
+
+const storeAttachments = async (
+  messageId: string,
+  applicationId: string | undefined,
+  attachments: MessageInput['attachments']
+): Promise<StoredEmailAttachment[]> => {
+  const folder = crypto.createHash('sha256').update(messageId).digest('hex').slice(0, 16);
+  const prefix = applicationId ? `applications/${applicationId}/emails` : 'emails';
+  const stored: StoredEmailAttachment[] = [];
+
+  for (const [index, attachment] of attachments.entries()) {
+    const safeName = attachment.filename.replace(/[^\w.\-]+/g, '_');
+    try {
+      const { key } = await uploadDocument(
+        applicationId || 'unlinked',
+        safeName,
+        attachment.content,
+        `${prefix}/${folder}/${index + 1}-${safeName}`,
+        attachment.contentType
+      );
+      stored.push({
+        fileName: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        s3Key: key
+      });
+    } catch (error) {
+      console.error(`Failed to store attachment ${attachment.filename}:`, error);
+    }
+  }
+
+  return stored;
+};
+
+const recordMessage = async (input: MessageInput, context: EmailRecordContext = {}) => {
+  const messageId = normalizeMessageId(input.messageId);
+
+  if (await EmailMessage.exists({ messageId })) {
+    return null;
+  }
+
+  const threadId = await resolveThreadId(messageId, input.inReplyTo, input.references);
+
+  // Unlinked replies inherit the application and bank of their thread
+  const existingThread = await EmailThread.findOne({ threadId }).lean().exec();
+  const applicationId = context.applicationId || existingThread?.application;
+  const bankId = context.bankId || existingThread?.bank;
+
+  const attachments = [
+    ...(input.storedAttachments || []),
+    ...await storeAttachments(messageId, applicationId, input.attachments)
+  ];
+
+  const message = await EmailMessage.findOneAndUpdate(
+    { messageId },
+    {
+      $setOnInsert: {
+        messageId,
+        threadId,
+        direction: input.direction,
+        from: input.from,
+        to: input.to,
+        cc: input.cc || [],
+        subject: input.subject,
+        text: input.text,
+        html: input.html,
+        inReplyTo: input.inReplyTo && normalizeMessageId(input.inReplyTo),
+        references: (input.references || []).map(normalizeMessageId),
+        sentAt: input.sentAt,
+        application: applicationId,
+        bank: bankId,
+        attachments,
+        deliveryStatus: input.deliveryStatus,
+        error: input.error
+      }
+    },
+    { upsert: true, new: true }
+  ).exec();
+
+  const participants = [input.from, ...input.to, ...(input.cc || [])]
+    .map(extractEmailAddress)
+    .filter(Boolean);
+
+  await EmailThread.updateOne(
+    { threadId },
+    {
+      $setOnInsert: { subject: input.subject.replace(/^(re|fwd?):\s*/i, '') },
+      $addToSet: { participants: { $each: participants } },
+      $inc: { messageCount: 1 },
+      $max: { lastMessageAt: input.sentAt },
+      ...((applicationId || bankId) && {
+        $set: {
+          ...(applicationId && { application: applicationId }),
+          ...(bankId && { bank: bankId })
+        }
+      })
+    },
+    { upsert: true }
+  ).exec();
+
+  return message;
+};
+
+// Record an inbound email; context comes from bank email matching when it recognised the sender
+export const recordInboundEmail = async (email: FetchedEmail, context: EmailRecordContext = {}) => {
+  try {
+    return await recordMessage({
+      messageId: email.messageId,
+      direction: 'inbound',
+      from: email.from,
+      to: email.to || [],
+      cc: email.cc,
+      subject: email.subject,
+      text: email.body,
+      html: email.html,
+      inReplyTo: email.inReplyTo,
+      references: email.references,
+      sentAt: email.date,
+      attachments: (email.attachments || []).map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content
+      }))
+    }, context);
+  } catch (error) {
+    console.error(`Failed to record inbound email ${email.messageId}:`, error);
+    return null;
+  }
+};
+
+const loadAttachmentContent = async (attachment: EmailRecordAttachmentInput): Promise<Buffer | null> => {
+  if (Buffer.isBuffer(attachment.content)) return attachment.content;
+  if (typeof attachment.content === 'string') return Buffer.from(attachment.content);
+  if (attachment.path) return fs.readFile(attachment.path);
+  return null;
+};
+
+// Record an email we sent (or gave up on); called by the outbound queue
+export const recordOutboundEmail = async (
+  email: {
+    messageId?: string;
+    from: string;
+    to: string[];
+    subject: string;
+    text?: string;
+    html?: string;
+    inReplyTo?: string;
+    references?: string[];
+    attachments?: EmailRecordAttachmentInput[];
+    deliveryStatus: 'sent' | 'failed';
+    error?: string;
+  },
+  context: EmailRecordContext = {}
+) => {
+  try {
+    const attachments = [];
+    const storedAttachments: StoredEmailAttachment[] = [];
+    for (const attachment of email.attachments || []) {
+      if (attachment.stored) {
+        storedAttachments.push(attachment.stored);
+        continue;
+      }
+      const content = await loadAttachmentContent(attachment);
+      if (content) {
+        attachments.push({
+          filename: attachment.filename || path.basename(attachment.path || 'attachment'),
+          contentType: attachment.contentType || 'application/octet-stream',
+          content
+        });
+      }
+    }
+
+    return await recordMessage({
+      // Failed sends never got a Message-ID from the server
+      messageId: email.messageId || `<failed-${crypto.randomUUID()}@local>`,
+      direction: 'outbound',
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text || (email.html || '').replace(/<[^>]*>/g, ''),
+      html: email.html,
+      inReplyTo: email.inReplyTo,
+      references: email.references,
+      sentAt: new Date(),
+      attachments,
+      storedAttachments,
+      deliveryStatus: email.deliveryStatus,
+      error: email.error
+    }, context);
+  } catch (error) {
+    console.error(`Failed to record outbound email "${email.subject}":`, error);
+    return null;
+  }
+};
+
+// Whether we already answered a message - guards against double replies when processing is retried
+export const hasOutboundReply = async (messageId: string): Promise<boolean> => {
+  const reply = await EmailMessage.exists({
+    direction: 'outbound',
+    deliveryStatus: 'sent',
+    inReplyTo: normalizeMessageId(messageId)
+  });
+  return Boolean(reply);
+};
+
+// A message we recorded as sent later bounced
+export const markOutboundDeliveryFailed = async (messageId: string, error: string) => {
+  await EmailMessage.updateOne(
+    { messageId: normalizeMessageId(messageId), direction: 'outbound' },
+    { $set: { deliveryStatus: 'failed', error } }
+  ).exec();
+};
+
+// Thread a stored message was filed under, which can differ from the header-derived ID on FetchedEmail
+export const findThreadIdForMessage = async (messageId: string): Promise<string | null> => {
+  const message = await EmailMessage.findOne({ messageId: normalizeMessageId(messageId) }).select('threadId').lean().exec();
+  return message?.threadId || null;
+};
+
+export const getThreadMessages = async (threadId: string) => {
+  return EmailMessage.find({ threadId: stripBrackets(threadId) }).sort({ sentAt: 1 }).exec();
+};
+
+const withAttachmentUrls = async (message: EmailMessageRecord, expiresIn: number) => ({
+  ...message,
+  attachments: await Promise.all(
+    message.attachments.map(async (attachment) => ({
+      ...attachment,
+      url: await generatePresignedUrl(attachment.s3Key, expiresIn),
+      expiresIn
+    }))
+  )
+});
+
+// Thread with its messages in order and time-limited attachment links
+export const getThread = async (threadId: string, expiresIn: number = 3600, applicationId?: string) => {
+  const thread = await EmailThread.findOne({
+    threadId: stripBrackets(threadId),
+    ...(applicationId && { application: applicationId })
+  }).lean().exec();
+
+  if (!thread) {
+    throw new Error('Thread not found');
+  }
+
+  const messages = await EmailMessage.find({ threadId: thread.threadId }).sort({ sentAt: 1 }).lean().exec();
+
+  return {
+    ...thread,
+    messages: await Promise.all(messages.map((message) => withAttachmentUrls(message, expiresIn)))
+  };
+};
+
+// Full correspondence for an application, oldest first, optionally narrowed to one bank or direction
+export const getApplicationCorrespondence = async (
+  applicationId: string,
+  options: { bankId?: string; direction?: EmailDirection; page?: number; limit?: number } = {}
+): Promise<CorrespondenceTimeline> => {
+  const application = await Application.exists({ _id: applicationId });
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const page = options.page || 1;
+  const limit = options.limit || 50;
+  const filter = {
+    application: applicationId,
+    ...(options.bankId && { bank: options.bankId })
+  };
+  const messageFilter = {
+    ...filter,
+    ...(options.direction && { direction: options.direction })
+  };
+
+  const [threads, messages, total] = await Promise.all([
+    EmailThread.find(filter).sort({ lastMessageAt: -1 }).lean().exec(),
+    EmailMessage.find(messageFilter).sort({ sentAt: 1 }).skip((page - 1) * limit).limit(limit).lean().exec(),
+    EmailMessage.countDocuments(messageFilter).exec()
+  ]);
+
+  return {
+    applicationId,
+    threads: threads as CorrespondenceTimeline['threads'],
+    messages: messages as CorrespondenceTimeline['messages'],
+    total,
+    page,
+    pages: Math.ceil(total / limit)
+  };
+};
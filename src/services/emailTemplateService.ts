@@ -0,0 +1,222 @@
+import { marked } from 'marked';
+import { EmailRecordContext, EmailTemplate, TemplateVariable } from '../types/index.js';
+import { BUILT_IN_EMAIL_TEMPLATES } from './emailTemplates.js';
+import { sendEmail } from './emailSender.js';
+
+// Registry and renderer for transactional emails. A template's Markdown body becomes both the HTML
+// part (wrapped in the branded layout) and the plain-text part, so the two never drift apart.
+
+export const DASHBOARD_URL = process.env.DASHBOARD_URL || 'https://new-torvely-dashboard.vercel.app';
+const BRAND_NAME = process.env.EMAIL_BRAND_NAME || 'Torvely';
+const BRAND_COLOR = '#1a3c6e';
+
+export type TemplateVariables = Record<string, unknown>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const registry = new Map<string, EmailTemplate>(
+  BUILT_IN_EMAIL_TEMPLATES.map((template) => [template.id, template])
+);
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const registerEmailTemplate = (template: EmailTemplate) => {
+  // Every placeholder has to be declared, otherwise it would silently render empty
+  const declared = new Set(template.variables.map((variable) => variable.name));
+  const undeclared = [...`${template.subject}\n${template.body}`.matchAll(PLACEHOLDER)]
+    .map((match) => match[1])
+    .filter((name) => !declared.has(name));
+
+  if (undeclared.length > 0) {
+    throw new Error(`Invalid template ${template.id}: undeclared variables ${[...new Set(undeclared)].join(', ')}`);
+  }
+
+  registry.set(template.id, template);
+  return template;
+};
+
+export const listEmailTemplates = (): EmailTemplate[] => [...registry.values()];
+
+export const getEmailTemplate = (templateId: string): EmailTemplate => {
+  const template = registry.get(templateId);
+  if (!template) {
+    throw new Error('Template not found');
+  }
+  return template;
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const formatValue = (variable: TemplateVariable, value: unknown): string | null => {
+  switch (variable.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return null;
+      return number.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    }
+    case 'date': {
+      const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) return null;
+      return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') return null;
+      return value ? 'Yes' : 'No';
+    case 'url': {
+      if (typeof value !== 'string') return null;
+      let url: URL;
+      try {
+        url = new URL(value.trim());
+      } catch {
+        return null;
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+      // Parentheses would end a Markdown link destination early
+      return url.href.replace(/\(/g, '%28').replace(/\)/g, '%29');
+    }
+    case 'list':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' && typeof item !== 'number')) return null;
+      return value.map((item) => `- ${String(item).replace(/\s+/g, ' ').trim()}`).join('\n');
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+  }
+};
+
+// Checks required variables and types; preview mode fills gaps with [name] instead of failing
+export const resolveTemplateVariables = (
+  template: EmailTemplate,
+  variables: TemplateVariables,
+  preview: boolean = false
+): Record<string, string> => {
+  const resolved: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const variable of template.variables) {
+    const value = isMissing(variables[variable.name]) ? variable.defaultValue : variables[variable.name];
+
+    if (value === undefined || value === null || (value === '' && variable.required)) {
+      if (variable.required && !preview) {
+        errors.push(`${variable.name} is required`);
+      }
+      resolved[variable.name] = variable.required && preview ? `[${variable.name}]` : '';
+      continue;
+    }
+
+    // Defaults are written by the template author and used as-is
+    const formatted = value === variable.defaultValue ? String(value) : formatValue(variable, value);
+    if (formatted === null) {
+      errors.push(`${variable.name} must be a ${variable.type}`);
+      continue;
+    }
+    resolved[variable.name] = formatted;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid template variables: ${errors.join('; ')}`);
+  }
+
+  return resolved;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Backslash-escape Markdown syntax so a value can't become a link, image or emphasis. HTML characters
+// are left to escapeHtml - a backslash in front of an entity would print it literally.
+const escapeMarkdown = (value: string): string => value.replace(/[\\`*_{}\[\]()#+\-.!|~:]/g, '\\$&');
+
+const escapeValue = (value: string): string => escapeHtml(escapeMarkdown(value));
+
+// List values are escaped item by item so their bullets still render
+const escapeList = (value: string): string =>
+  value.split('\n').map((line) => (line.startsWith('- ') ? `- ${escapeValue(line.slice(2))}` : escapeValue(line))).join('\n');
+
+const fillPlaceholders = (source: string, values: Record<string, string>, escape: (value: string, name: string) => string) =>
+  source.replace(PLACEHOLDER, (_, name: string) => escape(values[name] ?? '', name));
+
+// Markdown reads fine as plain text once links and emphasis are unwrapped
+const markdownToText = (markdown: string): string =>
+  markdown
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1: $2')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const wrapInLayout = (content: string, subject: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f9;font-family:Helvetica,Arial,sans-serif;color:#1f2933;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f6f9;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${BRAND_COLOR};padding:20px 32px;color:#ffffff;font-size:20px;font-weight:bold;">${escapeHtml(BRAND_NAME)}</td></tr>
+<tr><td style="padding:32px;font-size:15px;line-height:1.6;">
+${content}
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #e4e7eb;font-size:12px;color:#7b8794;">
+${escapeHtml(BRAND_NAME)} &middot; <a href="${escapeHtml(DASHBOARD_URL)}" style="color:#7b8794;">${escapeHtml(DASHBOARD_URL)}</a>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+export const renderEmailTemplate = (
+  templateId: string,
+  variables: TemplateVariables,
+  options: { preview?: boolean } = {}
+): RenderedEmail => {
+  const template = getEmailTemplate(templateId);
+  const values = resolveTemplateVariables(template, variables, options.preview);
+
+  const subject = fillPlaceholders(template.subject, values, (value) => value).replace(/\s+/g, ' ').trim();
+  // Values are escaped before Markdown parsing so user-supplied text can't inject markup or links
+  const lists = new Set(template.variables.filter((variable) => variable.type === 'list').map((variable) => variable.name));
+  const content = marked.parse(
+    fillPlaceholders(template.body, values, (value, name) => (lists.has(name) ? escapeList(value) : escapeValue(value))),
+    { async: false }
+  );
+  const text = `${markdownToText(fillPlaceholders(template.body, values, (value) => value))}\n\n--\n${BRAND_NAME}\n${DASHBOARD_URL}`;
+
+  return {
+    subject,
+    html: wrapInLayout(content, subject),
+    text
+  };
+};
+
+// Render and send in one step; attachments, threading and correspondence context pass straight through
+export const sendTemplatedEmail = async ({
+  templateId,
+  to,
+  variables,
+  ...options
+}: {
+  templateId: string;
+  to: string[];
+  variables: TemplateVariables;
+} & Omit<Parameters<typeof sendEmail>[0], 'to' | 'subject' | 'text' | 'html'>) => {
+  const rendered = renderEmailTemplate(templateId, variables);
+
+  return sendEmail({
+    ...options,
+    to,
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html
+  });
+};
@@ -0,0 +1,173 @@
+import { EmailTemplate, TemplateCategory } from '../types/index.js';
+
+// Built-in transactional templates. Bodies are Markdown with {{variable}} placeholders; rendering
+// produces the HTML part through marked and uses the Markdown itself as the plain-text part.
+
+const created = new Date('2025-01-01T00:00:00Z');
+
+export const BUILT_IN_EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'draft_saved',
+    name: 'Draft application saved',
+    category: TemplateCategory.NOTIFICATION,
+    subject: 'Your SBA loan application for {{businessName}} is saved',
+    body: `Hi {{applicantName}},
+
+We saved your SBA loan application for **{{businessName}}** as a draft. You can pick up where you left off at any time.
+
+**Next step:** upload your tax return and profit & loss statement so we can prepare your forms.
+
+[Continue your application]({{applicationUrl}})`,
+    variables: [
+      { name: 'applicantName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'applicationUrl', type: 'url', required: true, description: 'Link to the application in the dashboard' }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'documents_missing',
+    name: 'Documents missing',
+    category: TemplateCategory.NOTIFICATION,
+    subject: '{{requestedBy}} needs a few more documents - {{businessName}}',
+    body: `Hi {{applicantName}},
+
+{{requestedBy}} is reviewing your SBA loan application for **{{businessName}}** and needs the following:
+
+{{documentList}}
+
+{{note}}
+
+[Upload documents]({{applicationUrl}})`,
+    variables: [
+      { name: 'applicantName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'requestedBy', type: 'string', required: false, defaultValue: 'Our team' },
+      { name: 'documentList', type: 'list', required: true, description: 'Documents, one bullet each' },
+      { name: 'note', type: 'string', required: false, defaultValue: '' },
+      { name: 'applicationUrl', type: 'url', required: true }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'sent_to_bank',
+    name: 'Application sent to lenders',
+    category: TemplateCategory.NOTIFICATION,
+    subject: 'Your application for {{businessName}} is with lenders',
+    body: `Hi {{applicantName}},
+
+Good news - your SBA loan package for **{{businessName}}** was sent to:
+
+{{bankList}}
+
+Lenders usually respond within a few business days. We'll email you as soon as one of them asks for something or makes an offer.
+
+[View your application]({{applicationUrl}})`,
+    variables: [
+      { name: 'applicantName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'bankList', type: 'list', required: true, description: 'Lender names, one bullet each' },
+      { name: 'applicationUrl', type: 'url', required: true }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'offer_received',
+    name: 'Offer received',
+    category: TemplateCategory.NOTIFICATION,
+    subject: 'New loan offer from {{bankName}} - {{businessName}}',
+    body: `Hi {{applicantName}},
+
+**{{bankName}}** made an offer on your SBA loan application for {{businessName}}:
+
+- Term: {{repaymentTermMonths}} months
+- Interest rate: {{annualInterestRate}}%
+- Monthly payment: \${{monthlyPayment}}
+- Down payment: \${{downPaymentRequired}}
+
+[Compare your offers]({{applicationUrl}})`,
+    variables: [
+      { name: 'applicantName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'bankName', type: 'string', required: true },
+      { name: 'repaymentTermMonths', type: 'number', required: true },
+      { name: 'annualInterestRate', type: 'number', required: true },
+      { name: 'monthlyPayment', type: 'number', required: true },
+      { name: 'downPaymentRequired', type: 'number', required: true },
+      { name: 'applicationUrl', type: 'url', required: true }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'offer_accepted',
+    name: 'Offer accepted',
+    category: TemplateCategory.NOTIFICATION,
+    subject: 'You accepted the {{bankName}} offer - {{businessName}}',
+    body: `Hi {{applicantName}},
+
+You accepted the offer from **{{bankName}}** on {{acceptedAt}}. They'll be in touch about the next steps toward closing.
+
+[View your application]({{applicationUrl}})`,
+    variables: [
+      { name: 'applicantName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'bankName', type: 'string', required: true },
+      { name: 'acceptedAt', type: 'date', required: true },
+      { name: 'applicationUrl', type: 'url', required: true }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'signature_request',
+    name: 'Documents ready to sign',
+    category: TemplateCategory.NOTIFICATION,
+    subject: 'Please sign your SBA loan documents - {{businessName}}',
+    body: `Hi {{signerName}},
+
+The SBA loan application for **{{businessName}}** is ready for your signature:
+
+{{documentList}}
+
+This link is only for you and expires on {{expiresAt}}.
+
+[Review and sign]({{signingUrl}})`,
+    variables: [
+      { name: 'signerName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'documentList', type: 'list', required: true, description: 'Documents, one bullet each' },
+      { name: 'expiresAt', type: 'date', required: true },
+      { name: 'signingUrl', type: 'url', required: true, description: 'Personal signing link' }
+    ],
+    createdAt: created,
+    updatedAt: created
+  },
+  {
+    id: 'bank_submission',
+    name: 'Loan package for a lender',
+    category: TemplateCategory.BUSINESS,
+    subject: 'SBA Loan Application Submission - {{businessName}} [Ref {{applicationId}}]',
+    body: `Hello {{bankName}} team,
+
+Please find attached a complete SBA loan application for **{{businessName}}**.
+
+- Annual revenue: {{annualRevenue}}
+- Credit score: {{creditScore}}
+- Documents: all required SBA forms, completed and signed, plus the applicant's supporting documents
+
+Reply to this email with any questions or requests - please keep the reference in the subject line.`,
+    variables: [
+      { name: 'bankName', type: 'string', required: true },
+      { name: 'businessName', type: 'string', required: true },
+      { name: 'applicationId', type: 'string', required: true },
+      { name: 'annualRevenue', type: 'string', required: false, defaultValue: 'Not provided', description: 'Formatted amount, e.g. $1,200,000' },
+      { name: 'creditScore', type: 'number', required: true }
+    ],
+    createdAt: created,
+    updatedAt: created
+  }
+];
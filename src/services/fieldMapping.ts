@@ -1,95 +1,45 @@
 /**
  * Cross-form field mapping for unified data capture
- * Maps a unified question to fields in both SBA forms (1919 and 413)
+ * Maps a unified question to the matching field in every form that has one. The questions live
+ * here; each form declares which of its fields answer them (unifiedFields in its definition).
  */
 
+import { FormType } from '../types/index.js';
+import { getFormDefinitions } from './formRegistry.js';
+
 // ==============================
 // TYPES
 // ==============================
 
-export interface FieldMapping {
+export interface UnifiedFieldQuestion {
   unifiedName: string;           // Internal name for the unified field
   question: string;              // Question to ask user
-  SBA_1919: string | null;       // Field name in Form 1919 (null if not applicable)
-  SBA_413: string | null;        // Field name in Form 413 (null if not applicable)
+}
+
+export interface FieldMapping extends UnifiedFieldQuestion {
+  fields: Record<FormType, string>;  // Form type -> field name, for the forms that have the field
 }
 
 // ==============================
-// UNIFIED FIELD MAPPINGS
+// UNIFIED FIELDS
 // ==============================
 
 /**
- * Shared fields that exist in both forms
- * When user answers these questions, BOTH forms get updated
+ * Shared questions asked once for every form
+ * When user answers these questions, every form mapping the field gets updated
  */
-export const UNIFIED_FIELDS: FieldMapping[] = [
+export const UNIFIED_FIELDS: UnifiedFieldQuestion[] = [
   // Personal/Applicant Info
-  {
-    unifiedName: 'applicantName',
-    question: "What's your full name?",
-    SBA_1919: 'applicantname',
-    SBA_413: 'name'
-  },
-  {
-    unifiedName: 'businessName',
-    question: "What's your business name?",
-    SBA_1919: 'operatingnbusname',
-    SBA_413: 'businessNameOfApplicantBorrower'
-  },
-  {
-    unifiedName: 'businessPhone',
-    question: "What's your business phone number?",
-    SBA_1919: 'busphone',
-    SBA_413: 'businessPhone'
-  },
-  {
-    unifiedName: 'businessAddress',
-    question: "What's your business address?",
-    SBA_1919: 'busAddr',
-    SBA_413: 'businessAddress'
-  },
-  {
-    unifiedName: 'homeAddress',
-    question: "What's your home address?",
-    SBA_1919: 'ownHome1',
-    SBA_413: 'homeAddress'
-  },
-  {
-    unifiedName: 'ownerSSN',
-    question: "What's your Social Security Number?",
-    SBA_1919: 'ownTin1',
-    SBA_413: 'socialSecurityNo'
-  },
-  {
-    unifiedName: 'printName',
-    question: "What name should be printed on the signature line?",
-    SBA_1919: 'ownName1',
-    SBA_413: 'printName'
-  },
-  {
-    unifiedName: 'signatureDate',
-    question: "What's today's date for the signature?",
-    SBA_1919: null,  // 1919 has different date field
-    SBA_413: 'date'
-  }
+  { unifiedName: 'applicantName', question: "What's your full name?" },
+  { unifiedName: 'businessName', question: "What's your business name?" },
+  { unifiedName: 'businessPhone', question: "What's your business phone number?" },
+  { unifiedName: 'businessAddress', question: "What's your business address?" },
+  { unifiedName: 'homeAddress', question: "What's your home address?" },
+  { unifiedName: 'ownerSSN', question: "What's your Social Security Number?" },
+  { unifiedName: 'printName', question: "What name should be printed on the signature line?" },
+  { unifiedName: 'signatureDate', question: "What's today's date for the signature?" }
 ];
 
-// ==============================
-// ENTITY TYPE MAPPING
-// ==============================
-
-/**
- * Entity type checkbox mapping (exclusive - only one can be selected)
- * Maps user-friendly entity names to checkbox field names in both forms
- */
-export const ENTITY_TYPE_MAPPING: Record<string, { SBA_1919: string; SBA_413: string }> = {
-  'Sole Proprietor': { SBA_1919: 'soleprop', SBA_413: 'businessTypeSoleProprietor' },
-  'Partnership': { SBA_1919: 'partnership', SBA_413: 'businessTypePartnership' },
-  'C-Corp': { SBA_1919: 'ccorp', SBA_413: 'businessTypeCorporation' },
-  'S-Corp': { SBA_1919: 'scorp', SBA_413: 'businessTypeSCorp' },
-  'LLC': { SBA_1919: 'llc', SBA_413: 'businessTypeLLC' }
-};
-
 // ==============================
 // HELPER FUNCTIONS
 // ==============================
@@ -98,24 +48,37 @@ export const ENTITY_TYPE_MAPPING: Record<string, { SBA_1919: string; SBA_413: st
  * Get field mapping by unified name
  */
 export const getFieldMapping = (unifiedName: string): FieldMapping | undefined => {
-  return UNIFIED_FIELDS.find(f => f.unifiedName === unifiedName);
+  const unified = UNIFIED_FIELDS.find(f => f.unifiedName === unifiedName);
+  if (!unified) return undefined;
+
+  const fields: Record<FormType, string> = {};
+  for (const form of getFormDefinitions()) {
+    const fieldName = form.unifiedFields?.[unifiedName];
+    if (fieldName) fields[form.formType] = fieldName;
+  }
+  return { ...unified, fields };
 };
 
 /**
  * Check if a field name belongs to a unified field
  */
-export const isUnifiedField = (fieldName: string, formType: 'SBA_1919' | 'SBA_413'): FieldMapping | undefined => {
-  return UNIFIED_FIELDS.find(f =>
-    (formType === 'SBA_1919' && f.SBA_1919 === fieldName) ||
-    (formType === 'SBA_413' && f.SBA_413 === fieldName)
-  );
+export const isUnifiedField = (fieldName: string, formType: FormType): FieldMapping | undefined => {
+  return UNIFIED_FIELDS
+    .map(f => getFieldMapping(f.unifiedName)!)
+    .find(mapping => mapping.fields[formType] === fieldName);
 };
 
 /**
  * Get entity type mapping by user-friendly name
+ * Entity types are exclusive checkboxes - returns the checkbox to tick in each form that has one
  */
-export const getEntityTypeMapping = (entityType: string): { SBA_1919: string; SBA_413: string } | undefined => {
-  return ENTITY_TYPE_MAPPING[entityType];
+export const getEntityTypeMapping = (entityType: string): Record<FormType, string> | undefined => {
+  const fields: Record<FormType, string> = {};
+  for (const form of getFormDefinitions()) {
+    const fieldName = form.entityTypes?.[entityType];
+    if (fieldName) fields[form.formType] = fieldName;
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
 };
 
 /**
@@ -129,5 +92,5 @@ export const getUnifiedFieldNames = (): string[] => {
  * Get all entity type options
  */
 export const getEntityTypeOptions = (): string[] => {
-  return Object.keys(ENTITY_TYPE_MAPPING);
+  return [...new Set(getFormDefinitions().flatMap(form => Object.keys(form.entityTypes || {})))];
 };
@@ -0,0 +1,305 @@
+import { FieldValidationError, FieldValidationCode, FormType } from '../types/index.js';
+import {
+  FieldFormat,
+  getFieldDefinition,
+  getFieldLabel
+} from './formFields.js';
+
+// Checks and normalizes SBA form values before FormStateService stores them. Values arrive typed
+// or transcribed from speech, so normalizers are forgiving about input and strict about what they store.
+
+const OWNER_PERCENT_FIELDS = ['ownPerc1', 'ownPerc2', 'ownPerc3', 'ownPerc4', 'ownPerc5'];
+
+// Currency fields that may legitimately be negative
+const SIGNED_CURRENCY_FIELDS = ['netWorth'];
+
+const FORMAT_EXAMPLES: Record<FieldFormat, string> = {
+  ein: '12-3456789',
+  ssn: '123-45-6789',
+  phone: '(555) 123-4567',
+  email: 'name@example.com',
+  uei: 'J7M9HPTGJ1S9',
+  currency: '$25,000',
+  date: '01/31/2025',
+  percentage: '25%',
+  year: '2015',
+  integer: '12'
+};
+
+const SSN_PATTERN = /^\d{3}-\d{2}-\d{4}$/;
+const EIN_PATTERN = /^\d{2}-\d{7}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+// 12 characters, no leading zero, and SAM never issues the letters O or I
+const UEI_PATTERN = /^[1-9A-HJ-NP-Z][0-9A-HJ-NP-Z]{11}$/;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+type Normalized = { value: string } | { code: FieldValidationCode; message: string };
+
+const invalid = (message: string, code: FieldValidationCode = 'invalid_format'): Normalized => ({ code, message });
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Parse a dollar amount like "$1,250.50", "50k" or "1.2 million"
+ * Returns null when the text isn't an amount
+ */
+export const parseAmount = (value: string): number | null => {
+  const cleaned = value.trim().toLowerCase().replace(/usd|dollars?/g, '').replace(/[$,\s]/g, '');
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-');
+  const match = cleaned.replace(/^[(-]|\)$/g, '').match(/^(\d+(?:\.\d+)?)(k|thousand|m|mm|million)?$/);
+  if (!match) return null;
+
+  const [, digits, unit] = match;
+  let amount = parseFloat(digits);
+  if (unit === 'k' || unit === 'thousand') amount *= 1000;
+  if (unit === 'm' || unit === 'mm' || unit === 'million') amount *= 1000000;
+
+  return negative ? -amount : amount;
+};
+
+/**
+ * Format an amount the way currency fields are stored: $12,500 or $12,500.50
+ */
+export const formatAmount = (amount: number): string => {
+  const hasCents = Math.round(amount * 100) % 100 !== 0;
+  const formatted = Math.abs(amount).toLocaleString('en-US', {
+    minimumFractionDigits: hasCents ? 2 : 0,
+    maximumFractionDigits: 2
+  });
+  return `${amount < 0 ? '-' : ''}$${formatted}`;
+};
+
+/**
+ * Parse a stored percentage ("25%", "25") into a number
+ */
+export const parsePercentage = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(%|percent)?$/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+const parseDate = (value: string): Date | null => {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const us = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const written = text.toLowerCase().match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+
+  if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (written) {
+    month = MONTHS.findIndex((name) => name.startsWith(written[1]) && written[1].length >= 3) + 1;
+    [day, year] = [Number(written[2]), Number(written[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Rejects 02/30 and friends, which Date would silently roll over
+  if (month < 1 || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+const normalizeTaxId = (value: string, format: 'ein' | 'ssn'): Normalized => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9 || /[^\d\s-]/.test(value)) {
+    return invalid(`must be 9 digits, like ${FORMAT_EXAMPLES[format]}`);
+  }
+
+  // Sole proprietors use their SSN as the business TIN and owners can be entities with an EIN,
+  // so a number typed in the other pattern keeps that pattern
+  const typed = value.trim();
+  const asSsn = `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+  const asEin = `${digits.slice(0, 2)}-${digits.slice(2)}`;
+  const useSsn = SSN_PATTERN.test(typed) || (format === 'ssn' && !EIN_PATTERN.test(typed));
+
+  if (useSsn) {
+    const [area, group, serial] = asSsn.split('-');
+    if (area === '000' || area === '666' || area.startsWith('9') || group === '00' || serial === '0000') {
+      return invalid(`isn't a valid Social Security number`);
+    }
+    return { value: asSsn };
+  }
+
+  if (digits.startsWith('00')) {
+    return invalid(`isn't a valid EIN - it can't start with 00`);
+  }
+  return { value: asEin };
+};
+
+const normalizers: Record<FieldFormat, (value: string, fieldName: string) => Normalized> = {
+  ein: (value) => normalizeTaxId(value, 'ein'),
+
+  ssn: (value) => normalizeTaxId(value, 'ssn'),
+
+  phone: (value) => {
+    const [number, extension] = value.split(/\s*(?:x|ext\.?|extension)\s*/i);
+    let digits = number.replace(/\D/g, '');
+    if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+    if (digits.length !== 10 || /[^\d\s().+-]/.test(number)) {
+      return invalid(`must be a 10-digit US phone number, like ${FORMAT_EXAMPLES.phone}`);
+    }
+    const formatted = `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+    const ext = extension?.replace(/\D/g, '');
+    return { value: ext ? `${formatted} x${ext}` : formatted };
+  },
+
+  email: (value) => {
+    const email = value.trim().toLowerCase();
+    return EMAIL_PATTERN.test(email)
+      ? { value: email }
+      : invalid(`must be an email address, like ${FORMAT_EXAMPLES.email}`);
+  },
+
+  uei: (value) => {
+    const uei = value.replace(/[\s-]/g, '').toUpperCase();
+    if (uei.length !== 12) {
+      return invalid(`must be the 12-character Unique Entity ID from SAM.gov`);
+    }
+    return UEI_PATTERN.test(uei)
+      ? { value: uei }
+      : invalid(`must be letters and digits only, can't start with 0, and never contains the letters O or I`);
+  },
+
+  currency: (value, fieldName) => {
+    const amount = parseAmount(value);
+    if (amount === null) {
+      return invalid(`must be a dollar amount, like ${FORMAT_EXAMPLES.currency}`);
+    }
+    if (amount < 0 && !SIGNED_CURRENCY_FIELDS.includes(fieldName)) {
+      return invalid(`can't be negative`, 'out_of_range');
+    }
+    return { value: formatAmount(amount) };
+  },
+
+  date: (value) => {
+    const date = parseDate(value);
+    if (!date) {
+      return invalid(`must be a date, like ${FORMAT_EXAMPLES.date}`);
+    }
+    return { value: `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}` };
+  },
+
+  percentage: (value) => {
+    const percent = parsePercentage(value);
+    if (percent === null) {
+      return invalid(`must be a percentage, like ${FORMAT_EXAMPLES.percentage}`);
+    }
+    if (percent <= 0 || percent > 100) {
+      return invalid(`must be more than 0% and at most 100%`, 'out_of_range');
+    }
+    return { value: `${Number(percent.toFixed(2))}%` };
+  },
+
+  year: (value) => {
+    const year = Number(value.trim());
+    if (!/^\d{4}$/.test(value.trim())) {
+      return invalid(`must be a four-digit year, like ${FORMAT_EXAMPLES.year}`);
+    }
+    if (year < 1800 || year > new Date().getFullYear()) {
+      return invalid(`must be a year between 1800 and ${new Date().getFullYear()}`, 'out_of_range');
+    }
+    return { value: String(year) };
+  },
+
+  integer: (value) => {
+    const digits = value.trim().replace(/,/g, '');
+    if (!/^\d+$/.test(digits)) {
+      return invalid(`must be a whole number, like ${FORMAT_EXAMPLES.integer}`);
+    }
+    return { value: String(Number(digits)) };
+  }
+};
+
+/**
+ * Format a value the way fields of the given format are stored, or null when it doesn't fit the format
+ * For data that reaches a PDF without going through the form tools, e.g. PDF mapping profiles
+ */
+export const formatAs = (format: FieldFormat, value: string): string | null => {
+  const result = normalizers[format](value, '');
+  return 'code' in result ? null : result.value;
+};
+
+const fieldError = (
+  formType: FormType,
+  field: string,
+  code: FieldValidationCode,
+  problem: string,
+  value: string,
+  expected?: string
+): FieldValidationError => {
+  const label = getFieldLabel(formType, field);
+  return { formType, field, label, code, message: `${label} ${problem}.`, value, expected };
+};
+
+/**
+ * Check and normalize a single field value
+ * Checkboxes and cleared (empty) values pass through untouched; computed fields are refused
+ */
+export const normalizeFieldValue = (
+  formType: FormType,
+  fieldName: string,
+  value: string | boolean
+): { value: string | boolean; error?: FieldValidationError } => {
+  const definition = getFieldDefinition(formType, fieldName);
+  if (definition?.computed) {
+    const text = String(value);
+    return { value, error: fieldError(formType, fieldName, 'read_only', `is calculated automatically from the other lines and can't be entered`, text) };
+  }
+
+  const format = definition?.format;
+  if (!format || typeof value !== 'string' || value.trim() === '') {
+    return { value };
+  }
+
+  const result = normalizers[format](value, fieldName);
+  if ('code' in result) {
+    return { value, error: fieldError(formType, fieldName, result.code, result.message, value, FORMAT_EXAMPLES[format]) };
+  }
+  return { value: result.value };
+};
+
+/**
+ * Rules that span several fields, checked for the fields that just changed
+ * fields must already contain the new (normalized) values
+ */
+export const validateFormFields = (
+  formType: FormType,
+  fields: Record<string, string | boolean>,
+  changedFields: string[]
+): FieldValidationError[] => {
+  const errors: FieldValidationError[] = [];
+  const changed = (names: string[]) => changedFields.some((name) => names.includes(name));
+
+  if (formType === 'SBA_1919' && changed(OWNER_PERCENT_FIELDS)) {
+    const total = OWNER_PERCENT_FIELDS
+      .map((name) => typeof fields[name] === 'string' ? parsePercentage(fields[name] as string) : null)
+      .reduce<number>((sum, percent) => sum + (percent || 0), 0);
+
+    if (total > 100) {
+      const field = changedFields.find((name) => OWNER_PERCENT_FIELDS.includes(name))!;
+      errors.push(fieldError(
+        formType,
+        field,
+        'sum_exceeded',
+        `would bring the owners' combined share to ${Number(total.toFixed(2))}% - ownership can't add up to more than 100%`,
+        String(fields[field])
+      ));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * One sentence per problem, for agents to read back to the user
+ */
+export const describeValidationErrors = (errors: FieldValidationError[]): string => {
+  return errors.map((error) => error.message).join(' ');
+};
@@ -0,0 +1,442 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import { Application } from '../models/Application.js';
+import {
+  ExtractedFinancialValue,
+  FinancialDocumentKind,
+  FinancialExtraction,
+  FinancialLineItem,
+  SupportedMimeTypes,
+  UserProvidedDocumentType
+} from '../types/index.js';
+import { extractText } from './documentProcessor.js';
+import { downloadDocument } from './s3Service.js';
+
+// Reads the figures underwriting needs from uploaded business tax returns (Forms 1120, 1120-S, 1065
+// and Schedule C) and P&L statements. Returns are read by their form line numbers and labels, P&L
+// statements by their row labels; every value keeps the page it came from and a confidence score so
+// a person can check it against the document.
+
+// ==============================
+// RULES
+// ==============================
+
+interface LineRule {
+  item: FinancialLineItem;
+  label: RegExp;              // Matched against the line's text without its line number and amounts
+  line?: string;              // Form line number; a match on it raises confidence
+  requireLine?: boolean;      // The label alone is ambiguous (e.g. interest income vs. expense)
+  confidence: number;
+}
+
+type TaxFormKind = Exclude<FinancialDocumentKind, 'profitAndLoss'>;
+
+const TAX_FORM_RULES: Record<TaxFormKind, LineRule[]> = {
+  form1120: [
+    { item: 'grossReceipts', line: '1a', label: /^gross receipts or sales/i, confidence: 0.7 },
+    { item: 'officerCompensation', line: '12', label: /^compensation of officers/i, confidence: 0.7 },
+    { item: 'interest', line: '18', label: /^interest\b/i, requireLine: true, confidence: 0.7 },
+    { item: 'depreciation', line: '20', label: /^depreciation/i, confidence: 0.7 },
+    { item: 'depletion', line: '21', label: /^depletion/i, confidence: 0.7 },
+    { item: 'netIncome', line: '28', label: /^taxable income before net operating loss/i, confidence: 0.7 }
+  ],
+  form1120S: [
+    { item: 'grossReceipts', line: '1a', label: /^gross receipts or sales/i, confidence: 0.7 },
+    { item: 'officerCompensation', line: '7', label: /^compensation of officers/i, confidence: 0.7 },
+    { item: 'interest', line: '13', label: /^interest\b/i, requireLine: true, confidence: 0.7 },
+    { item: 'depreciation', line: '14', label: /^depreciation/i, confidence: 0.7 },
+    { item: 'depletion', line: '15', label: /^depletion/i, confidence: 0.7 },
+    { item: 'netIncome', line: '21', label: /^ordinary business income/i, confidence: 0.7 }
+  ],
+  form1065: [
+    { item: 'grossReceipts', line: '1a', label: /^gross receipts or sales/i, confidence: 0.7 },
+    { item: 'officerCompensation', line: '10', label: /^guaranteed payments to partners/i, confidence: 0.7 },
+    { item: 'interest', line: '15', label: /^interest\b/i, requireLine: true, confidence: 0.7 },
+    { item: 'depreciation', line: '16a', label: /^depreciation/i, confidence: 0.7 },
+    { item: 'depletion', line: '17', label: /^depletion/i, confidence: 0.7 },
+    { item: 'netIncome', line: '23', label: /^ordinary business income/i, confidence: 0.7 }
+  ],
+  scheduleC: [
+    { item: 'grossReceipts', line: '1', label: /^gross receipts or sales/i, confidence: 0.7 },
+    { item: 'depreciation', line: '13', label: /^depreciation and section 179/i, confidence: 0.7 },
+    // Interest is two lines - mortgage interest and other interest - and is their total
+    { item: 'interest', line: '16a', label: /^mortgage\b/i, requireLine: true, confidence: 0.7 },
+    { item: 'interest', line: '16b', label: /^other\b/i, requireLine: true, confidence: 0.7 },
+    { item: 'netIncome', line: '31', label: /^net profit or \(?loss\)?/i, confidence: 0.7 }
+  ]
+};
+
+// Row labels vary by accounting package; the more specific label wins when a statement has both
+const STATEMENT_RULES: LineRule[] = [
+  { item: 'grossReceipts', label: /^total (revenue|sales|income)$/i, confidence: 0.8 },
+  { item: 'grossReceipts', label: /^(gross (receipts|sales|revenue)|revenue|sales|net sales)$/i, confidence: 0.7 },
+  { item: 'netIncome', label: /^net (income|profit|earnings)( \(loss\))?$/i, confidence: 0.8 },
+  { item: 'netIncome', label: /^net (ordinary|operating) income$/i, confidence: 0.5 },
+  { item: 'officerCompensation', label: /^(officers?'? (compensation|salar(y|ies)|wages)|owners?'? (compensation|salary|wages))$/i, confidence: 0.8 },
+  { item: 'depreciation', label: /^depreciation( expense)?$/i, confidence: 0.8 },
+  { item: 'depreciation', label: /depreciation/i, confidence: 0.6 },
+  { item: 'amortization', label: /^amortization( expense)?$/i, confidence: 0.8 },
+  { item: 'amortization', label: /amortization/i, confidence: 0.6 },
+  { item: 'interest', label: /^interest( expense| paid)?$/i, confidence: 0.8 },
+  { item: 'interest', label: /^(?!.*income).*interest expense/i, confidence: 0.6 }
+];
+
+// Markers in the order they're tried - the 1120-S before the 1120 it contains
+const KIND_MARKERS: Array<{ kind: FinancialDocumentKind; pattern: RegExp }> = [
+  { kind: 'form1120S', pattern: /form\s*1120-?s\b|income tax return for an s corporation/i },
+  { kind: 'form1120', pattern: /form\s*1120\b(?!-?s)|u\.\s?s\. corporation income tax return/i },
+  { kind: 'form1065', pattern: /form\s*1065\b|return of partnership income/i },
+  { kind: 'scheduleC', pattern: /schedule c\s*\(form 1040\)|profit or loss from business/i },
+  { kind: 'profitAndLoss', pattern: /profit\s*(and|&)\s*loss|income statement|statement of (operations|income)/i }
+];
+
+// What each kind of document should yield - confidence is spread across these
+const EXPECTED_ITEMS: Record<FinancialDocumentKind, FinancialLineItem[]> = {
+  form1120: ['grossReceipts', 'netIncome', 'officerCompensation', 'depreciation', 'interest'],
+  form1120S: ['grossReceipts', 'netIncome', 'officerCompensation', 'depreciation', 'interest'],
+  form1065: ['grossReceipts', 'netIncome', 'officerCompensation', 'depreciation', 'interest'],
+  scheduleC: ['grossReceipts', 'netIncome', 'depreciation', 'interest'],
+  profitAndLoss: ['grossReceipts', 'netIncome', 'depreciation', 'interest']
+};
+
+// Non-cash charges and financing costs added back to net income for cash flow
+const ADD_BACK_ITEMS: FinancialLineItem[] = ['depreciation', 'amortization', 'depletion', 'interest'];
+
+const LINE_MATCH_BONUS = 0.2;
+const NEXT_LINE_PENALTY = 0.1;
+const CONFLICT_PENALTY = 0.2;
+const MULTI_COLUMN_PENALTY = 0.1;
+const OTHER_PAGE_PENALTY = 0.15;
+
+// ==============================
+// PARSING
+// ==============================
+
+interface ParsedLine {
+  page: number;
+  lineNumber?: string;        // The form line the amount is entered on
+  label: string;
+  amounts: number[];
+}
+
+const AMOUNT = /^(\(?)-?\$?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{0,2}))?(\)?)$/;
+const LINE_NUMBER = /^\d{1,2}[a-z]?$/i;
+
+const parseAmount = (token: string): number | null => {
+  const match = token.match(AMOUNT);
+  if (!match || Boolean(match[1]) !== Boolean(match[4])) return null;   // Parentheses must pair up
+  const value = Number(`${match[2].replace(/,/g, '')}.${match[3] || '0'}`);
+  return match[1] || token.includes('-') ? -value : value;
+};
+
+/**
+ * Split a line of text into its form line number, label and trailing amounts
+ * e.g. '1a Gross receipts or sales . . . 1a 1,234,567.' -> line 1a, 'Gross receipts or sales', [1234567]
+ */
+const parseLine = (text: string, page: number): ParsedLine => {
+  const tokens = text
+    .replace(/(?:\s*\.){2,}/g, ' ')   // Dot leaders
+    .replace(/\s\$\s/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const leading = tokens.length > 1 && (LINE_NUMBER.test(tokens[0]) || /^[a-z]$/.test(tokens[0])) ? tokens.shift() : undefined;
+
+  const tail: string[] = [];
+  while (tokens.length > 0 && parseAmount(tokens[tokens.length - 1]) !== null) {
+    tail.unshift(tokens.pop()!);
+  }
+
+  // The line number is repeated in the entry column before the amount. '1a' can't be an amount; a
+  // plain '21' can, so it's found by matching the leading number ('... from line 6 . . 21 (15,250)')
+  let lineNumber = tokens.length > 0 && LINE_NUMBER.test(tokens[tokens.length - 1]) ? tokens.pop() : undefined;
+  if (!lineNumber && leading && LINE_NUMBER.test(leading)) {
+    const repeated = tail.lastIndexOf(leading);
+    if (repeated >= 0) {
+      tokens.push(...tail.splice(0, repeated + 1).slice(0, -1));
+    }
+    lineNumber = leading;
+  }
+
+  return {
+    page,
+    lineNumber: lineNumber?.toLowerCase(),
+    label: tokens.join(' ').replace(/[:.\s]+$/, ''),
+    amounts: tail.map((token) => parseAmount(token)!)
+  };
+};
+
+const parsePages = (pages: string[]): ParsedLine[][] =>
+  pages.map((text, index) => text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\t/g, ' ').trim())
+    .filter(Boolean)
+    .map((line) => parseLine(line, index + 1)));
+
+interface Candidate extends ExtractedFinancialValue {
+  item: FinancialLineItem;
+  ruleIndex: number;
+}
+
+/**
+ * Every line that could be a rule's value, scored
+ * A line with a label but no amount takes a bare amount on the next line, less confidently. A return's
+ * income and deductions are on its first page (mainPage); the same labels on schedules score lower
+ */
+const findCandidates = (pages: ParsedLine[][], rules: LineRule[], mainPage?: number): Candidate[] => {
+  const isStatement = mainPage === undefined;
+  const candidates: Candidate[] = [];
+
+  for (const lines of pages) {
+    lines.forEach((line, index) => {
+      if (!line.label) return;
+
+      rules.forEach((rule, ruleIndex) => {
+        if (!rule.label.test(line.label)) return;
+        const lineMatches = Boolean(rule.line && line.lineNumber === rule.line);
+        if (rule.requireLine && !lineMatches) return;
+
+        let amounts = line.amounts;
+        let confidence = rule.confidence + (lineMatches ? LINE_MATCH_BONUS : 0);
+        const next = lines[index + 1];
+        if (amounts.length === 0 && next && !next.label && next.amounts.length > 0) {
+          amounts = next.amounts;
+          confidence -= NEXT_LINE_PENALTY;
+        }
+        if (amounts.length === 0) return;
+
+        // Statements with period columns put the total last
+        if (isStatement && amounts.length > 1) confidence -= MULTI_COLUMN_PENALTY;
+        if (!isStatement && line.page !== mainPage) confidence -= OTHER_PAGE_PENALTY;
+
+        candidates.push({
+          item: rule.item,
+          ruleIndex,
+          value: amounts[amounts.length - 1],
+          confidence,
+          page: line.page,
+          line: lineMatches ? rule.line : undefined,
+          label: line.label
+        });
+      });
+    });
+  }
+
+  return candidates;
+};
+
+const round = (value: number, places: number = 2): number => Number(value.toFixed(places));
+
+/**
+ * The best candidate for each line item - highest confidence, then earliest page
+ * Equally good candidates that disagree lower the confidence; items made of several form lines are summed
+ */
+const pickValues = (candidates: Candidate[], rules: LineRule[]): Partial<Record<FinancialLineItem, ExtractedFinancialValue>> => {
+  const values: Partial<Record<FinancialLineItem, ExtractedFinancialValue>> = {};
+  const items = [...new Set(rules.map((rule) => rule.item))];
+
+  for (const item of items) {
+    const ruleIndexes = rules.map((rule, index) => (rule.item === item ? index : -1)).filter((index) => index >= 0);
+    const summed = ruleIndexes.length > 1 && rules[ruleIndexes[0]].requireLine;
+    const parts = (summed ? ruleIndexes.map((index) => [index]) : [ruleIndexes])
+      .map((indexes) => {
+        const matching = candidates
+          .filter((candidate) => candidate.item === item && indexes.includes(candidate.ruleIndex))
+          .sort((a, b) => b.confidence - a.confidence || a.page - b.page);
+        if (matching.length === 0) return null;
+        const [best] = matching;
+        const conflicting = matching.some((other) => other.confidence === best.confidence && other.value !== best.value);
+        return { ...best, confidence: best.confidence - (conflicting ? CONFLICT_PENALTY : 0) };
+      })
+      .filter((part): part is Candidate => part !== null);
+
+    if (parts.length === 0) continue;
+    const [first] = parts;
+    values[item] = {
+      value: round(parts.reduce((total, part) => total + part.value, 0)),
+      confidence: round(Math.max(0, Math.min(1, Math.min(...parts.map((part) => part.confidence))))),
+      page: first.page,
+      line: parts.length > 1 ? parts.map((part) => part.line).join('+') : first.line,
+      label: parts.map((part) => part.label).join(' + ')
+    };
+  }
+
+  return values;
+};
+
+const detectKind = (text: string, fileType: UserProvidedDocumentType): FinancialDocumentKind | null => {
+  const marker = KIND_MARKERS.find(({ pattern }) => pattern.test(text));
+  if (marker) return marker.kind;
+  // A statement uploaded as the P&L is read as one even without a recognizable title
+  return fileType === UserProvidedDocumentType.L_AND_P ? 'profitAndLoss' : null;
+};
+
+const detectTaxYear = (firstPage: string): number | undefined => {
+  const currentYear = new Date().getFullYear();
+  const explicit = firstPage.match(/(?:calendar year|tax year|year ended|year ending|for the year)[^\n]{0,40}?\b(20\d{2})\b/i);
+  if (explicit) return Number(explicit[1]);
+
+  const counts = new Map<number, number>();
+  for (const [year] of firstPage.matchAll(/\b20\d{2}\b/g)) {
+    const value = Number(year);
+    if (value <= currentYear) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0];
+};
+
+export type ExtractedFigures = Pick<FinancialExtraction, 'status' | 'documentKind' | 'taxYear' | 'values' | 'addBacks' | 'confidence'>;
+
+/**
+ * Read the figures from a document's text, one string per page
+ */
+export const extractFinancialsFromPages = (pages: string[], fileType: UserProvidedDocumentType): ExtractedFigures => {
+  const empty = { values: {}, addBacks: { items: [], total: 0 }, confidence: 0 };
+  const text = pages.join('\n');
+  if (text.replace(/\s/g, '').length === 0) {
+    return { status: 'no_text', ...empty };
+  }
+
+  const documentKind = detectKind(text, fileType);
+  if (!documentKind) {
+    return { status: 'unrecognized', ...empty };
+  }
+
+  let values: FinancialExtraction['values'];
+  if (documentKind === 'profitAndLoss') {
+    values = pickValues(findCandidates(parsePages(pages), STATEMENT_RULES), STATEMENT_RULES);
+  } else {
+    // Returns are often filed with other forms in front, e.g. a Schedule C behind the 1040
+    const marker = KIND_MARKERS.find(({ kind }) => kind === documentKind)!;
+    const mainPage = pages.findIndex((page) => marker.pattern.test(page)) + 1 || 1;
+    const rules = TAX_FORM_RULES[documentKind];
+    values = pickValues(findCandidates(parsePages(pages), rules, mainPage), rules);
+  }
+
+  const addBackItems = ADD_BACK_ITEMS.filter((item) => values[item] && values[item]!.value !== 0);
+  const expected = EXPECTED_ITEMS[documentKind];
+
+  return {
+    status: 'completed',
+    documentKind,
+    taxYear: detectTaxYear(pages[0] || ''),
+    values,
+    addBacks: {
+      items: addBackItems,
+      total: round(addBackItems.reduce((total, item) => total + values[item]!.value, 0))
+    },
+    confidence: round(expected.reduce((total, item) => total + (values[item]?.confidence || 0), 0) / expected.length)
+  };
+};
+
+// ==============================
+// PIPELINE
+// ==============================
+
+interface FinancialSource {
+  s3Key: string;
+  fileName: string;
+  fileType: UserProvidedDocumentType;
+}
+
+// documentProcessor reads from disk, so the upload is written to a temporary file first
+const readPages = async (buffer: Buffer): Promise<{ pages: string[]; pageCount: number }> => {
+  const tempPath = path.join(os.tmpdir(), `financials_${crypto.randomBytes(8).toString('hex')}.pdf`);
+  await fs.writeFile(tempPath, buffer);
+  try {
+    const { text, pages, pageCount } = await extractText(tempPath, SupportedMimeTypes.PDF);
+    return { pages: pages || [text], pageCount: pageCount ?? pages?.length ?? 1 };
+  } finally {
+    await fs.remove(tempPath);
+  }
+};
+
+/**
+ * Extract one document's figures - an unreadable document is recorded as failed rather than thrown
+ */
+export const extractDocumentFinancials = async (source: FinancialSource, buffer: Buffer): Promise<FinancialExtraction> => {
+  const base = { s3Key: source.s3Key, fileName: source.fileName, fileType: source.fileType, extractedAt: new Date() };
+
+  try {
+    const { pages, pageCount } = await readPages(buffer);
+    const figures = extractFinancialsFromPages(pages, source.fileType);
+    console.log(`📊 ${source.fileName}: ${figures.status}${figures.documentKind ? ` (${figures.documentKind}${figures.taxYear ? ` ${figures.taxYear}` : ''})` : ''}, ${Object.keys(figures.values).length} values, confidence ${figures.confidence}`);
+    return { ...base, pageCount, ...figures };
+  } catch (error) {
+    console.error(`⚠️ Failed to extract financials from ${source.fileName}:`, error);
+    return {
+      ...base,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Could not read the document',
+      values: {},
+      addBacks: { items: [], total: 0 },
+      confidence: 0
+    };
+  }
+};
+
+// Replace any earlier extraction of the same document
+const saveExtraction = async (applicationId: string, extraction: FinancialExtraction) => {
+  await Application.updateOne({ _id: applicationId }, { $pull: { extractedFinancials: { s3Key: extraction.s3Key } } }).exec();
+  await Application.updateOne({ _id: applicationId }, { $push: { extractedFinancials: extraction } }).exec();
+};
+
+/**
+ * Extract and store the figures from freshly uploaded documents
+ * Runs after the upload has been saved; callers don't wait for it
+ */
+export const extractUploadedFinancials = async (
+  applicationId: string,
+  documents: Array<FinancialSource & { buffer: Buffer }>
+): Promise<FinancialExtraction[]> => {
+  const extractions: FinancialExtraction[] = [];
+  for (const { buffer, ...source } of documents) {
+    const extraction = await extractDocumentFinancials(source, buffer);
+    await saveExtraction(applicationId, extraction);
+    extractions.push(extraction);
+  }
+  return extractions;
+};
+
+/**
+ * Run the extraction again over stored uploads - all of them, or the one with the given S3 key
+ */
+export const reextractFinancials = async (applicationId: string, s3Key?: string): Promise<FinancialExtraction[]> => {
+  const application = await Application.findById(applicationId).select('userProvidedDocuments').exec();
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const documents = (application.userProvidedDocuments || [])
+    .filter((doc) => !s3Key || doc.s3Key === s3Key);
+  if (documents.length === 0) {
+    throw new Error(s3Key ? 'Document not found' : 'No tax returns or P&L statements uploaded');
+  }
+
+  const extractions: FinancialExtraction[] = [];
+  for (const doc of documents) {
+    const source = { s3Key: doc.s3Key, fileName: doc.fileName, fileType: doc.fileType as UserProvidedDocumentType };
+    const extraction = await extractDocumentFinancials(source, await downloadDocument(doc.s3Key));
+    await saveExtraction(applicationId, extraction);
+    extractions.push(extraction);
+  }
+  return extractions;
+};
+
+export const getExtractedFinancials = async (applicationId: string): Promise<FinancialExtraction[]> => {
+  const application = await Application.findById(applicationId).select('extractedFinancials').exec();
+  if (!application) {
+    throw new Error('Application not found');
+  }
+  return application.extractedFinancials || [];
+};
+
+export default {
+  extractFinancialsFromPages,
+  extractDocumentFinancials,
+  extractUploadedFinancials,
+  reextractFinancials,
+  getExtractedFinancials
+};
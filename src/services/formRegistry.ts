@@ -0,0 +1,227 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { FormType } from '../types/index.js';
+import { FormFieldDefinition } from './formFields.js';
+import { PdfMappingProfile } from './pdfMappingProfiles.js';
+import { SBA_1919_FORM } from '../forms/sba1919.js';
+import { SBA_413_FORM } from '../forms/sba413.js';
+
+// Every SBA form the application can fill. A form is declared as data - its template, fields, checkbox
+// groups, cross-form mappings and required rules - and everything else (sessions, chat and voice tools,
+// PDF generation, draft documents) works from the declaration. Forms beyond the built-in 1919 and 413
+// are JSON files in forms/ next to templates/, loaded at startup.
+
+const FORMS_DIR = process.env.FORM_DEFINITIONS_DIR || path.join(process.cwd(), 'forms');
+
+// ==============================
+// TYPES
+// ==============================
+
+export interface CheckboxGroupDefinition {
+  description: string;
+  options: Record<string, string>; // user value -> PDF field name
+  exclusive?: boolean; // true if only one can be selected at a time
+}
+
+export interface SignatureFieldDefinition {
+  pdfField: string;          // Signature widget the signer's signature is drawn into
+  dateField?: string;        // Text field that gets the signing date
+}
+
+export interface FormDefinition {
+  formType: FormType;        // Key used in sessions, tool calls and draft documents, e.g. 'SBA_912'
+  title: string;             // Full name, e.g. 'SBA Form 912 - Statement of Personal History'
+  label: string;             // Short name for prompts and logs, e.g. 'Form 912'
+  templateFile: string;      // Fillable PDF in templates/
+  storagePath?: string;      // Where the application keeps the values - formFields.<formType> unless set
+  fields: FormFieldDefinition[];   // In the order the agents ask for them
+  checkboxGroups?: Record<string, CheckboxGroupDefinition>;
+  unifiedFields?: Record<string, string>;  // Unified field (fieldMapping.ts) -> this form's field
+  entityTypes?: Record<string, string>;    // Entity type option -> this form's checkbox
+  pdfMapping?: PdfMappingProfile;          // Application data -> template fields (pdfMappingProfiles.ts)
+  signatureFields?: SignatureFieldDefinition[];   // Where the signer signs; every signature widget when unset
+}
+
+// ==============================
+// REGISTRY
+// ==============================
+
+const forms = new Map<FormType, FormDefinition>();
+
+/**
+ * Reasons a definition can't be used, empty when it's fine
+ */
+const checkDefinition = (definition: FormDefinition): string[] => {
+  const problems: string[] = [];
+
+  // The form type is the first segment of "formType.fieldName" session paths
+  if (!/^[A-Z][A-Z0-9_]*$/.test(definition.formType || '')) {
+    problems.push('formType must be upper case letters, digits and underscores (e.g. SBA_912)');
+  }
+  if (!definition.title || !definition.label) problems.push('title and label are required');
+  if (!definition.templateFile?.toLowerCase().endsWith('.pdf')) problems.push('templateFile must be a PDF');
+  if (!Array.isArray(definition.fields) || definition.fields.length === 0) {
+    problems.push('fields must list at least one field');
+    return problems;
+  }
+
+  const names = new Set<string>();
+  for (const field of definition.fields) {
+    if (!field.name || field.name.includes('.') || field.name.startsWith('$')) {
+      problems.push(`invalid field name "${field.name}"`);
+    } else if (names.has(field.name)) {
+      problems.push(`duplicate field "${field.name}"`);
+    }
+    names.add(field.name);
+    if (!['text', 'checkbox', 'number', 'date'].includes(field.type)) {
+      problems.push(`field "${field.name}" has unknown type "${field.type}"`);
+    }
+  }
+
+  for (const field of definition.fields) {
+    if (field.requiredWhen && !names.has(field.requiredWhen.field)) {
+      problems.push(`field "${field.name}" is required when unknown field "${field.requiredWhen.field}" is set`);
+    }
+  }
+  for (const [unifiedName, fieldName] of Object.entries(definition.unifiedFields || {})) {
+    if (!names.has(fieldName)) problems.push(`unified field "${unifiedName}" maps to unknown field "${fieldName}"`);
+  }
+  for (const [entityType, fieldName] of Object.entries(definition.entityTypes || {})) {
+    if (!names.has(fieldName)) problems.push(`entity type "${entityType}" maps to unknown field "${fieldName}"`);
+  }
+  for (const [group, config] of Object.entries(definition.checkboxGroups || {})) {
+    if (!config.options || Object.keys(config.options).length === 0) problems.push(`checkbox group "${group}" has no options`);
+  }
+
+  for (const field of definition.signatureFields || []) {
+    if (!field.pdfField) problems.push('signatureFields need a pdfField');
+  }
+
+  const mapping = definition.pdfMapping;
+  if (mapping) {
+    if (mapping.formFields && !mapping.formFields.source) problems.push('pdfMapping.formFields needs a source');
+    for (const fieldName of Object.keys(mapping.formFields?.pdfFields || {})) {
+      if (!names.has(fieldName)) problems.push(`pdfMapping renames unknown field "${fieldName}"`);
+    }
+    for (const rule of mapping.fields || []) {
+      if (!rule.pdfField || !rule.source) problems.push('pdfMapping field rules need a pdfField and a source');
+    }
+    for (const list of mapping.lists || []) {
+      if (!list.source || !(list.rows > 0)) problems.push('pdfMapping lists need a source and a number of rows');
+      for (const field of list.fields || []) {
+        if (!field.pdfField?.includes('{n}')) problems.push(`pdfMapping list field "${field.pdfField}" must contain {n}`);
+      }
+    }
+    for (const rule of mapping.checkboxGroups || []) {
+      if (!definition.checkboxGroups?.[rule.group]) problems.push(`pdfMapping uses unknown checkbox group "${rule.group}"`);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Add a form to the registry
+ * Throws if the definition is incomplete or the form type is taken
+ */
+export const registerForm = (definition: FormDefinition): FormDefinition => {
+  const problems = checkDefinition(definition);
+  if (problems.length > 0) {
+    throw new Error(`Invalid form definition ${definition.formType || '(no formType)'}: ${problems.join('; ')}`);
+  }
+  if (forms.has(definition.formType)) {
+    throw new Error(`Form ${definition.formType} is already registered`);
+  }
+
+  forms.set(definition.formType, definition);
+  return definition;
+};
+
+/**
+ * Register every *.json form definition in a directory
+ * A broken file is logged and skipped so one bad form can't keep the others from loading
+ */
+export const loadFormDefinitions = (directory: string = FORMS_DIR): FormDefinition[] => {
+  if (!fs.existsSync(directory)) return [];
+
+  const loaded: FormDefinition[] = [];
+  for (const file of fs.readdirSync(directory).filter((name) => name.endsWith('.json')).sort()) {
+    try {
+      loaded.push(registerForm(fs.readJsonSync(path.join(directory, file))));
+    } catch (error) {
+      console.error(`❌ Skipping form definition ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (loaded.length > 0) {
+    console.log(`📄 Registered forms from ${directory}: ${loaded.map((form) => form.formType).join(', ')}`);
+  }
+  return loaded;
+};
+
+/**
+ * A registered form's definition
+ */
+export const getFormDefinition = (formType: string): FormDefinition | undefined => forms.get(formType);
+
+/**
+ * Every registered form, in registration order (built-in forms first)
+ */
+export const getFormDefinitions = (): FormDefinition[] => [...forms.values()];
+
+/**
+ * Every registered form type - the values the agents' formType parameters accept
+ */
+export const getFormTypes = (): FormType[] => [...forms.keys()];
+
+/**
+ * Check a form type from a tool call or request body
+ */
+export const isRegisteredForm = (formType: unknown): formType is FormType =>
+  typeof formType === 'string' && forms.has(formType);
+
+/**
+ * Short name for prompts and logs, e.g. 'Form 1919'
+ */
+export const getFormLabel = (formType: string): string => forms.get(formType)?.label || formType;
+
+/**
+ * Application path holding a form's values
+ */
+export const getFormStoragePath = (formType: string): string =>
+  forms.get(formType)?.storagePath || `formFields.${formType}`;
+
+/**
+ * Which form a generated or uploaded PDF is, from its file name (SBAForm413_Jane_Doe.pdf -> SBA_413)
+ */
+export const getFormTypeForFile = (fileName: string): FormType | undefined => {
+  const matches = getFormDefinitions()
+    .map((form) => ({ formType: form.formType, template: path.basename(form.templateFile, '.pdf') }))
+    .filter(({ template }) => fileName.includes(template))
+    // SBAForm1919 must not be taken for a form whose template is called SBAForm19
+    .sort((a, b) => b.template.length - a.template.length);
+  return matches[0]?.formType;
+};
+
+/**
+ * One line per form, for the agents' prompts and tool descriptions
+ */
+export const describeForms = (): string =>
+  getFormDefinitions().map((form) => `${form.formType} (${form.title})`).join(', ');
+
+registerForm(SBA_1919_FORM);
+registerForm(SBA_413_FORM);
+loadFormDefinitions();
+
+export default {
+  registerForm,
+  loadFormDefinitions,
+  getFormDefinition,
+  getFormDefinitions,
+  getFormTypes,
+  isRegisteredForm,
+  getFormLabel,
+  getFormStoragePath,
+  getFormTypeForFile,
+  describeForms
+};
@@ -0,0 +1,179 @@
+import { FormSession } from '../models/FormSession.js';
+import { FormSessionChange, FormSessionRecord, FormType } from '../types/index.js';
+
+// Storage for FormStateService sessions. Every change is applied atomically and bumps the record's
+// version; passing expectedVersion turns a change into a compare-and-set that fails (null) when
+// someone else changed the session in between.
+
+export interface FormStateBackend {
+  // Reading a session counts as activity and keeps it from expiring
+  get(applicationId: string): Promise<FormSessionRecord | null>;
+  // Insert unless a session already exists; returns whichever one is stored
+  create(record: FormSessionRecord): Promise<FormSessionRecord>;
+  // null when there is no session or expectedVersion no longer matches
+  update(applicationId: string, change: FormSessionChange, expectedVersion?: number): Promise<FormSessionRecord | null>;
+  delete(applicationId: string, expectedVersion?: number): Promise<boolean>;
+  list(): Promise<string[]>;
+  listIdle(idleSince: Date): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+const fieldPath = (formType: FormType, fieldName: string) => `${formType}.${fieldName}`;
+
+/**
+ * Process-local backend - fast, but sessions are lost on restart and invisible to other instances
+ */
+export const createMemoryFormStateBackend = (): FormStateBackend => {
+  const store = new Map<string, FormSessionRecord>();
+
+  // Hand out copies so callers can't change stored state behind the backend's back
+  const copy = (record: FormSessionRecord | undefined): FormSessionRecord | null =>
+    record ? structuredClone(record) : null;
+
+  return {
+    async get(applicationId) {
+      const record = store.get(applicationId);
+      if (record) record.lastActivityAt = new Date();
+      return copy(record);
+    },
+
+    async create(record) {
+      if (!store.has(record.applicationId)) {
+        store.set(record.applicationId, structuredClone(record));
+      }
+      return copy(store.get(record.applicationId))!;
+    },
+
+    async update(applicationId, change, expectedVersion) {
+      const record = store.get(applicationId);
+      if (!record || (expectedVersion !== undefined && record.version !== expectedVersion)) {
+        return null;
+      }
+
+      for (const { formType, fieldName, value } of change.fields || []) {
+        // Sessions started before a form was registered have no entry for it yet
+        (record.fields[formType] ??= {})[fieldName] = value;
+        const path = fieldPath(formType, fieldName);
+        if (!record.dirtyFields.includes(path)) record.dirtyFields.push(path);
+      }
+      if (change.owner) {
+        record.currentOwnerId = change.owner.id;
+        record.fields.SBA_413 = structuredClone(change.owner.fields);
+        record.currentFieldIndex.SBA_413 = 0;
+      }
+      if (change.currentForm) record.currentForm = change.currentForm;
+      Object.assign(record.currentFieldIndex, change.currentFieldIndex || {});
+      if (change.saved) {
+        record.lastSaved = change.saved.at;
+        record.dirtyFields = record.dirtyFields.filter((path) => !change.saved!.fields.includes(path));
+      }
+
+      record.version++;
+      record.lastActivityAt = new Date();
+      return copy(record);
+    },
+
+    async delete(applicationId, expectedVersion) {
+      const record = store.get(applicationId);
+      if (!record || (expectedVersion !== undefined && record.version !== expectedVersion)) {
+        return false;
+      }
+      return store.delete(applicationId);
+    },
+
+    async list() {
+      return Array.from(store.keys());
+    },
+
+    async listIdle(idleSince) {
+      return Array.from(store.values())
+        .filter((record) => record.lastActivityAt < idleSince)
+        .map((record) => record.applicationId);
+    },
+
+    async clear() {
+      store.clear();
+    }
+  };
+};
+
+/**
+ * Mongo backend - sessions survive restarts and are shared by every instance
+ */
+export const createMongoFormStateBackend = (): FormStateBackend => ({
+  async get(applicationId) {
+    return FormSession.findOneAndUpdate(
+      { applicationId },
+      { $set: { lastActivityAt: new Date() } },
+      { new: true }
+    ).lean<FormSessionRecord>().exec();
+  },
+
+  async create(record) {
+    try {
+      return await FormSession.findOneAndUpdate(
+        { applicationId: record.applicationId },
+        { $setOnInsert: record },
+        { upsert: true, new: true }
+      ).lean<FormSessionRecord>().exec() as FormSessionRecord;
+    } catch (error: any) {
+      // Two instances upserting at once - the other one won
+      if (error.code !== 11000) throw error;
+      return await FormSession.findOne({ applicationId: record.applicationId }).lean<FormSessionRecord>().exec() as FormSessionRecord;
+    }
+  },
+
+  async update(applicationId, change, expectedVersion) {
+    const set: Record<string, unknown> = { lastActivityAt: new Date() };
+    const dirty: string[] = [];
+
+    // Dotted paths so each write touches only its own field
+    for (const { formType, fieldName, value } of change.fields || []) {
+      set[`fields.${formType}.${fieldName}`] = value;
+      dirty.push(fieldPath(formType, fieldName));
+    }
+    if (change.owner) {
+      set.currentOwnerId = change.owner.id;
+      set['fields.SBA_413'] = change.owner.fields;
+      set['currentFieldIndex.SBA_413'] = 0;
+    }
+    if (change.currentForm) set.currentForm = change.currentForm;
+    for (const [formType, index] of Object.entries(change.currentFieldIndex || {})) {
+      set[`currentFieldIndex.${formType}`] = index;
+    }
+    if (change.saved) set.lastSaved = change.saved.at;
+
+    return FormSession.findOneAndUpdate(
+      { applicationId, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+      {
+        $set: set,
+        $inc: { version: 1 },
+        ...(dirty.length > 0 && { $addToSet: { dirtyFields: { $each: dirty } } }),
+        ...(change.saved && { $pullAll: { dirtyFields: change.saved.fields } })
+      },
+      { new: true }
+    ).lean<FormSessionRecord>().exec();
+  },
+
+  async delete(applicationId, expectedVersion) {
+    const result = await FormSession.deleteOne({
+      applicationId,
+      ...(expectedVersion !== undefined && { version: expectedVersion })
+    }).exec();
+    return result.deletedCount > 0;
+  },
+
+  async list() {
+    const sessions = await FormSession.find().select('applicationId').lean().exec();
+    return sessions.map((session) => session.applicationId);
+  },
+
+  async listIdle(idleSince) {
+    const sessions = await FormSession.find({ lastActivityAt: { $lt: idleSince } }).select('applicationId').lean().exec();
+    return sessions.map((session) => session.applicationId);
+  },
+
+  async clear() {
+    await FormSession.deleteMany({}).exec();
+  }
+});
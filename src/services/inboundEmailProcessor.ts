@@ -0,0 +1,138 @@
+import { ProcessedEmail } from '../models/MailboxCheckpoint.js';
+import { InboundProcessingOutcome } from '../types/index.js';
+import { FetchedEmail } from './emailFetcher.js';
+import { handleEmail } from './emailHandler.js';
+import { dispatchReply, holdForReview } from './emailReviewService.js';
+import { processBankEmail } from './bankEmailService.js';
+import { processDeliveryStatusNotification } from './deliveryStatusService.js';
+import { hasOutboundReply, recordInboundEmail } from './emailStoreService.js';
+
+// Each inbound Message-ID is claimed in Mongo before any side effect runs, so a message seen twice
+// (restart, UIDVALIDITY reset, a second listener) is only ever handled once.
+
+export const MAX_PROCESSING_ATTEMPTS = Number(process.env.INBOUND_EMAIL_MAX_ATTEMPTS) || 5;
+
+// A claim older than this belongs to a process that died mid-message
+const CLAIM_LEASE_MS = Number(process.env.INBOUND_EMAIL_CLAIM_LEASE_MS) || 10 * 60 * 1000;
+
+const claimMessage = async (messageId: string, mailbox: string, uid: number) => {
+  try {
+    return await ProcessedEmail.create({ messageId, mailbox, uid, status: 'processing', claimedAt: new Date() });
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      throw error;
+    }
+
+    // Already claimed - take it over only if the last attempt failed or its lease ran out
+    return ProcessedEmail.findOneAndUpdate(
+      {
+        messageId,
+        attempts: { $lt: MAX_PROCESSING_ATTEMPTS },
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', claimedAt: { $lt: new Date(Date.now() - CLAIM_LEASE_MS) } }
+        ]
+      },
+      { $set: { status: 'processing', claimedAt: new Date(), mailbox, uid }, $inc: { attempts: 1 } },
+      { new: true }
+    ).exec();
+  }
+};
+
+const handleMessage = async (email: FetchedEmail): Promise<void> => {
+  console.log(`Processing email from: ${email.from}, subject: ${email.subject}`);
+
+  // Bounces update the outbound queue; answering a mailer daemon would only bounce again
+  const deliveryReport = await processDeliveryStatusNotification(email);
+  if (deliveryReport.isReport) {
+    await recordInboundEmail(email, deliveryReport.outbound ? {
+      applicationId: deliveryReport.outbound.application,
+      bankId: deliveryReport.outbound.bank
+    } : {});
+    return;
+  }
+
+  // Lender replies update the submission instead of getting an auto-reply
+  const bankResult = await processBankEmail(email);
+  await recordInboundEmail(email, bankResult.match && {
+    applicationId: bankResult.match.applicationId,
+    bankId: bankResult.match.bankId
+  });
+  if (bankResult.matched) {
+    return;
+  }
+
+  // Claims to be about a submission but can't be tied to the bank - a human decides, nothing is sent
+  if (bankResult.needsReview) {
+    await holdForReview(email, 'unverified_lender');
+    return;
+  }
+
+  // GPT generates reply; flagForReview means generation failed
+  const { reply, flagForReview } = await handleEmail(email);
+
+  // Sent now or held for a human, depending on the review policy
+  const { queued } = await dispatchReply(email, reply, flagForReview);
+  if (!queued) {
+    console.log('Reply sent for email:', email.subject);
+  }
+};
+
+// A message that can't be parsed is recorded as failed for good rather than holding up the mailbox
+export const recordUnparseableEmail = async (
+  messageId: string,
+  mailbox: string,
+  uid: number,
+  error: unknown
+): Promise<void> => {
+  const message = error instanceof Error ? error.message : String(error);
+  await ProcessedEmail.updateOne(
+    { messageId },
+    {
+      $set: { mailbox, uid, status: 'failed', attempts: MAX_PROCESSING_ATTEMPTS, error: `Could not parse message: ${message}` },
+      $setOnInsert: { claimedAt: new Date() }
+    },
+    { upsert: true }
+  ).exec();
+};
+
+// Run the inbound pipeline for one message at most once
+export const processInboundEmail = async (
+  email: FetchedEmail,
+  mailbox: string,
+  uid: number
+): Promise<InboundProcessingOutcome> => {
+  const claim = await claimMessage(email.messageId, mailbox, uid);
+  if (!claim) {
+    // Someone else holds a live claim (possibly us before a restart) - come back once it's done or expired
+    const existing = await ProcessedEmail.findOne({ messageId: email.messageId }).select('status').lean().exec();
+    if (existing?.status === 'processing') return 'retry';
+    return existing?.status === 'done' ? 'duplicate' : 'abandoned';
+  }
+
+  try {
+    // A retried claim may have got as far as replying before it died
+    if (claim.attempts > 1 && await hasOutboundReply(email.messageId)) {
+      console.log(`⏭️ ${email.messageId} was already answered on an earlier attempt`);
+    } else {
+      await handleMessage(email);
+    }
+
+    await ProcessedEmail.updateOne(
+      { _id: claim._id },
+      { $set: { status: 'done', completedAt: new Date() }, $unset: { error: 1 } }
+    ).exec();
+    return 'processed';
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Failed to process email ${email.messageId} (attempt ${claim.attempts}):`, error);
+
+    await ProcessedEmail.updateOne(
+      { _id: claim._id },
+      { $set: { status: 'failed', error: message } }
+    ).exec();
+
+    return claim.attempts < MAX_PROCESSING_ATTEMPTS ? 'retry' : 'abandoned';
+  }
+};
@@ -0,0 +1,98 @@
+import { Bank } from '../models/Bank.js';
+import { User } from '../models/User.js';
+import { OfferDetails, SBAApplication } from '../types/index.js';
+import { DASHBOARD_URL, TemplateVariables, sendTemplatedEmail } from './emailTemplateService.js';
+
+// Applicant notifications at each step of an application's life. Callers fire these without awaiting:
+// a notification that can't be sent is logged and never fails the operation that triggered it.
+
+const isEnabled = () => process.env.LIFECYCLE_EMAILS_ENABLED !== 'false';
+
+// The owner's login email, else the point of contact on the 1919
+const findRecipient = async (application: SBAApplication): Promise<string | null> => {
+  if (application.ownerId) {
+    const owner = await User.findById(application.ownerId).select('email').lean().exec();
+    if (owner?.email) return owner.email;
+  }
+  return application.sba1919Fields?.pocEmail || null;
+};
+
+const findBankName = async (bankId: string): Promise<string> => {
+  const bank = await Bank.findById(bankId).select('name').lean().exec();
+  return bank?.name || 'A lender';
+};
+
+const notify = async (
+  templateId: string,
+  application: SBAApplication,
+  variables: TemplateVariables,
+  bankId?: string,
+  to?: string
+) => {
+  if (!isEnabled()) return null;
+
+  const recipient = to || await findRecipient(application);
+  if (!recipient) {
+    console.log(`✉️ No applicant email for application ${application._id} - skipping ${templateId}`);
+    return null;
+  }
+
+  const applicationId = (application._id as any).toString();
+
+  return sendTemplatedEmail({
+    templateId,
+    to: [recipient],
+    variables: {
+      applicantName: application.applicantData.name,
+      businessName: application.applicantData.businessName,
+      applicationUrl: `${DASHBOARD_URL}/applications/${applicationId}`,
+      ...variables
+    },
+    context: { applicationId, bankId }
+  });
+};
+
+export const notifyDraftSaved = (application: SBAApplication) =>
+  notify('draft_saved', application, {});
+
+export const notifyDocumentsMissing = (
+  application: SBAApplication,
+  documents: string[],
+  options: { requestedBy?: string; note?: string; bankId?: string } = {}
+) =>
+  notify('documents_missing', application, {
+    documentList: documents,
+    requestedBy: options.requestedBy,
+    note: options.note
+  }, options.bankId);
+
+export const notifySentToBank = (application: SBAApplication, bankNames: string[]) =>
+  notify('sent_to_bank', application, { bankList: bankNames });
+
+export const notifyOfferReceived = async (application: SBAApplication, bankId: string, offer: OfferDetails) =>
+  notify('offer_received', application, {
+    bankName: await findBankName(bankId),
+    repaymentTermMonths: offer.repaymentTermMonths,
+    annualInterestRate: offer.annualInterestRate,
+    monthlyPayment: offer.monthlyPayment,
+    downPaymentRequired: offer.downPaymentRequired
+  }, bankId);
+
+export const notifyOfferAccepted = async (application: SBAApplication, bankId: string) =>
+  notify('offer_accepted', application, {
+    bankName: await findBankName(bankId),
+    acceptedAt: new Date()
+  }, bankId);
+
+// Goes to the signer - an owner signing their own Form 413 - and to the applicant when there's no signer email
+export const notifySignatureRequested = (
+  application: SBAApplication,
+  signer: { name: string; email?: string },
+  signing: { signingUrl: string; expiresAt: Date; documents: string[] }
+) =>
+  notify('signature_request', application, {
+    signerName: signer.name,
+    documentList: signing.documents,
+    expiresAt: signing.expiresAt,
+    signingUrl: signing.signingUrl
+  }, undefined, signer.email);
@@ -0,0 +1,240 @@
+import Imap from 'imap';
+import { MailboxCheckpoint } from '../models/MailboxCheckpoint.js';
+import { getImapConfig, parseEmailMessage } from './emailFetcher.js';
+import { processInboundEmail, recordUnparseableEmail } from './inboundEmailProcessor.js';
+
+// Long-lived IMAP connection that waits in IDLE and processes new mail by UID. Progress is
+// checkpointed in Mongo, so neither the \Seen flag nor a restart decides what gets processed.
+
+const MAILBOX = process.env.IMAP_MAILBOX || 'INBOX';
+const FETCH_BATCH_SIZE = 25;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 5 * 60 * 1000;
+// Catches anything IDLE missed and retries failed messages
+const SWEEP_INTERVAL = Number(process.env.MAILBOX_SWEEP_INTERVAL) || 5 * 60 * 1000;
+
+let connection: Imap | null = null;
+let uidValidity: number | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let draining = false;
+let drainRequested = false;
+
+const openMailbox = (imap: Imap): Promise<Imap.Box> =>
+  new Promise((resolve, reject) => {
+    imap.openBox(MAILBOX, false, (err, box) => (err ? reject(err) : resolve(box)));
+  });
+
+const searchUids = (imap: Imap, criteria: any[]): Promise<number[]> =>
+  new Promise((resolve, reject) => {
+    imap.search(criteria, (err, uids) => (err ? reject(err) : resolve(uids || [])));
+  });
+
+const fetchRawMessages = (imap: Imap, uids: number[]): Promise<Array<{ uid: number; raw: Buffer }>> =>
+  new Promise((resolve, reject) => {
+    const messages: Array<{ uid: number; raw: Buffer }> = [];
+    const fetch = imap.fetch(uids, { bodies: '', struct: true });
+
+    fetch.on('message', (msg) => {
+      const chunks: Buffer[] = [];
+      let uid = 0;
+
+      msg.on('body', (stream) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      });
+      msg.once('attributes', (attrs) => {
+        uid = attrs.uid;
+      });
+      msg.once('end', () => {
+        messages.push({ uid, raw: Buffer.concat(chunks) });
+      });
+    });
+
+    fetch.once('error', reject);
+    fetch.once('end', () => resolve(messages.sort((a, b) => a.uid - b.uid)));
+  });
+
+// Nice-to-have for humans reading the same inbox; processing never depends on it
+const markSeen = (imap: Imap, uid: number): Promise<void> =>
+  new Promise((resolve) => {
+    imap.addFlags(uid, '\\Seen', (err) => {
+      if (err) console.warn(`⚠️ Could not mark UID ${uid} as seen:`, err.message);
+      resolve();
+    });
+  });
+
+const saveCheckpoint = async (validity: number, lastUid: number, reset: boolean = false) => {
+  await MailboxCheckpoint.updateOne(
+    { mailbox: MAILBOX },
+    reset
+      ? { $set: { uidValidity: validity, lastUid } }
+      : { $set: { uidValidity: validity }, $max: { lastUid } },
+    { upsert: true }
+  ).exec();
+};
+
+// UIDs still to process, plus whether the stored checkpoint can be trusted
+const findPendingUids = async (imap: Imap, box: Imap.Box): Promise<{ uids: number[]; reset: boolean }> => {
+  const checkpoint = await MailboxCheckpoint.findOne({ mailbox: MAILBOX }).lean().exec();
+
+  if (!checkpoint) {
+    // First run: pick up unread mail, then follow UIDs from here on
+    const unseen = await searchUids(imap, ['UNSEEN']);
+    if (unseen.length === 0) {
+      await saveCheckpoint(box.uidvalidity, Math.max(0, box.uidnext - 1), true);
+    }
+    return { uids: unseen, reset: true };
+  }
+
+  if (checkpoint.uidValidity !== box.uidvalidity) {
+    // The server renumbered the mailbox - rescan recent mail; the Message-ID claim filters repeats
+    console.warn(`⚠️ UIDVALIDITY changed for ${MAILBOX} (${checkpoint.uidValidity} -> ${box.uidvalidity}), rescanning`);
+    const since = checkpoint.updatedAt || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    return { uids: await searchUids(imap, [['SINCE', since]]), reset: true };
+  }
+
+  // "n:*" always matches the newest message, even when its UID is below n
+  const uids = await searchUids(imap, [['UID', `${checkpoint.lastUid + 1}:*`]]);
+  return { uids: uids.filter((uid) => uid > checkpoint.lastUid), reset: false };
+};
+
+const drainMailbox = async (imap: Imap, box: Imap.Box) => {
+  const { uids, reset } = await findPendingUids(imap, box);
+  if (uids.length === 0) return;
+
+  console.log(`📬 ${uids.length} new message(s) in ${MAILBOX}`);
+  const sorted = [...uids].sort((a, b) => a - b);
+  let firstSave = reset;
+
+  for (let i = 0; i < sorted.length; i += FETCH_BATCH_SIZE) {
+    const batch = await fetchRawMessages(imap, sorted.slice(i, i + FETCH_BATCH_SIZE));
+
+    for (const { uid, raw } of batch) {
+      const fallbackMessageId = `<uid-${box.uidvalidity}-${uid}@${MAILBOX.toLowerCase()}>`;
+      let email;
+      try {
+        email = await parseEmailMessage(raw, uid, fallbackMessageId);
+      } catch (error) {
+        // Parsing again won't go any better - record it and move past it
+        console.error(`❌ Could not parse UID ${uid} in ${MAILBOX}; skipping it:`, error);
+        await recordUnparseableEmail(fallbackMessageId, MAILBOX, uid, error);
+        await saveCheckpoint(box.uidvalidity, uid, firstSave);
+        firstSave = false;
+        continue;
+      }
+      const outcome = await processInboundEmail(email, MAILBOX, uid);
+
+      // Hold the checkpoint on a retryable failure so the next sweep sees this message again
+      if (outcome === 'retry') {
+        console.warn(`⏸️ Holding checkpoint before UID ${uid}; will retry`);
+        return;
+      }
+
+      if (outcome === 'processed') {
+        await markSeen(imap, uid);
+      }
+      await saveCheckpoint(box.uidvalidity, uid, firstSave);
+      firstSave = false;
+    }
+  }
+};
+
+// Serialise drains - IDLE can announce new mail while we're still working through the last batch
+const requestDrain = async () => {
+  if (!connection || uidValidity === null) return;
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    do {
+      drainRequested = false;
+      const box = await openMailbox(connection);
+      uidValidity = box.uidvalidity;
+      await drainMailbox(connection, box);
+    } while (drainRequested && connection);
+  } catch (error) {
+    console.error('❌ Error draining mailbox:', error);
+  } finally {
+    draining = false;
+  }
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer) return;
+
+  const stale = connection;
+  connection = null;
+  uidValidity = null;
+  if (stale) {
+    stale.removeAllListeners();
+    stale.on('error', () => {});  // Late socket errors from the dead connection
+    stale.destroy();
+  }
+
+  // Exponential backoff with jitter, capped
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** reconnectAttempts) * (0.5 + Math.random() / 2);
+  reconnectAttempts++;
+  console.log(`🔌 Reconnecting to IMAP in ${Math.round(delay / 1000)}s (attempt ${reconnectAttempts})`);
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+};
+
+const connect = () => {
+  const imap = new Imap({
+    ...getImapConfig(),
+    keepalive: {
+      interval: 10000,
+      idleInterval: 5 * 60 * 1000,  // Re-issue IDLE before servers drop it (most allow ~29 minutes)
+      forceNoop: false
+    }
+  });
+  connection = imap;
+
+  imap.once('ready', async () => {
+    try {
+      const box = await openMailbox(imap);
+      uidValidity = box.uidvalidity;
+      reconnectAttempts = 0;
+      console.log(`✅ Listening for mail in ${MAILBOX} (IDLE)`);
+      await requestDrain();
+    } catch (error) {
+      console.error('❌ Failed to open mailbox:', error);
+      scheduleReconnect();
+    }
+  });
+
+  // Fired for new mail while the connection sits in IDLE
+  imap.on('mail', () => {
+    requestDrain();
+  });
+
+  imap.once('error', (err: Error) => {
+    console.error('IMAP listener error:', err.message);
+    scheduleReconnect();
+  });
+
+  imap.once('close', () => {
+    scheduleReconnect();
+  });
+
+  imap.connect();
+};
+
+async function sweepMailbox() {
+  try {
+    await requestDrain();
+  } finally {
+    setTimeout(sweepMailbox, SWEEP_INTERVAL);
+  }
+}
+
+export const startMailboxListener = () => {
+  connect();
+  setTimeout(sweepMailbox, SWEEP_INTERVAL);
+};
@@ -0,0 +1,194 @@
+import { Application } from '../models/Application.js';
+import {
+  OfferAnalysis,
+  OfferComparison,
+  OfferDetails,
+  OfferPaymentCheck,
+  RankedOfferAnalysis
+} from '../types/index.js';
+import { calculateMonthlyPayment, buildAmortizationSchedule } from './structuringService.js';
+
+// Bank offers quote a rate, term and payment - check they agree and put every offer on the same cost basis.
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Banks round their quoted payment; anything within a dollar or half a percent is a match
+const PAYMENT_TOLERANCE_AMOUNT = 1;
+const PAYMENT_TOLERANCE_PERCENT = 0.5;
+
+const APR_MAX_ITERATIONS = 100;
+const APR_PRECISION = 1e-10;
+
+// Offers store the rate as a percent (10.5, or 0.75 for a sub-1% rate)
+const toDecimalRate = (annualInterestRate: number): number => annualInterestRate / 100;
+
+// Principal that a level payment retires over the term at the given monthly rate
+const presentValue = (payment: number, monthlyRate: number, numPayments: number): number => {
+  if (monthlyRate === 0) return payment * numPayments;
+  return payment * (1 - Math.pow(1 + monthlyRate, -numPayments)) / monthlyRate;
+};
+
+// Solve for the monthly rate at which the payments repay only the amount actually received.
+// Present value falls as the rate rises, so bisection always converges.
+const solveMonthlyRate = (payment: number, amountFinanced: number, numPayments: number): number => {
+  let low = 0;
+  let high = 1;
+
+  if (presentValue(payment, low, numPayments) <= amountFinanced) {
+    return 0;
+  }
+
+  for (let i = 0; i < APR_MAX_ITERATIONS && high - low > APR_PRECISION; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(payment, mid, numPayments) > amountFinanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+};
+
+const checkPayment = (stated: number, expected: number, inferred: boolean): OfferPaymentCheck => {
+  if (inferred) return 'unverified';
+  const tolerance = Math.max(PAYMENT_TOLERANCE_AMOUNT, expected * (PAYMENT_TOLERANCE_PERCENT / 100));
+  return Math.abs(stated - expected) <= tolerance ? 'match' : 'mismatch';
+};
+
+// Validate one offer's payment against its rate and term and compute its full cost
+export const analyzeOffer = (
+  offer: { _id?: any; bank: any; offerDetails: OfferDetails; status: 'pending' | 'accepted' | 'declined' },
+  includeSchedule: boolean = false
+): OfferAnalysis => {
+  const details = offer.offerDetails;
+  const issues: string[] = [];
+
+  const numPayments = Math.round(details.repaymentTermMonths);
+  const termYears = numPayments / 12;
+  const annualRate = toDecimalRate(details.annualInterestRate);
+  const fees = Math.max(0, details.fees || 0);
+
+  // Without a loan amount the best we can do is back the principal out of the quoted payment
+  const loanAmountInferred = !(details.loanAmount && details.loanAmount > 0);
+  const loanAmount = loanAmountInferred
+    ? presentValue(details.monthlyPayment, annualRate / 12, numPayments)
+    : details.loanAmount as number;
+
+  const expectedMonthlyPayment = calculateMonthlyPayment(loanAmount, annualRate, termYears);
+  const paymentCheck = checkPayment(details.monthlyPayment, expectedMonthlyPayment, loanAmountInferred);
+  const paymentVariance = details.monthlyPayment - expectedMonthlyPayment;
+
+  if (paymentCheck === 'mismatch') {
+    issues.push(
+      `Quoted payment of $${details.monthlyPayment.toFixed(2)} does not match the $${expectedMonthlyPayment.toFixed(2)} ` +
+      `implied by ${details.annualInterestRate}% over ${numPayments} months`
+    );
+  }
+  if (loanAmountInferred) {
+    issues.push('Offer has no loan amount; principal was inferred from the quoted payment');
+  }
+
+  const schedule = buildAmortizationSchedule(loanAmount, annualRate, termYears);
+  const totalOfPayments = schedule.reduce((sum, row) => sum + row.payment, 0);
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+
+  // APR is the rate at which the payment the bank quoted repays only the net proceeds, so both
+  // upfront fees and a payment above what the stated rate implies raise it
+  const amountFinanced = loanAmount - fees;
+  let apr = annualRate * 100;
+  if (amountFinanced <= 0) {
+    issues.push('Fees meet or exceed the loan amount; APR cannot be calculated');
+  } else if (details.monthlyPayment > 0) {
+    apr = solveMonthlyRate(details.monthlyPayment, amountFinanced, numPayments) * 12 * 100;
+  }
+
+  const effectiveCost = totalInterest + fees;
+  const bankId = typeof offer.bank === 'object' && offer.bank?._id ? offer.bank._id.toString() : String(offer.bank);
+
+  return {
+    ...(offer._id && { offerId: offer._id.toString() }),
+    bankId,
+    ...(typeof offer.bank === 'object' && offer.bank?.name && { bankName: offer.bank.name }),
+    status: offer.status,
+    loanAmount: roundCurrency(loanAmount),
+    loanAmountInferred,
+    annualInterestRate: details.annualInterestRate,
+    repaymentTermMonths: numPayments,
+    statedMonthlyPayment: roundCurrency(details.monthlyPayment),
+    expectedMonthlyPayment: roundCurrency(expectedMonthlyPayment),
+    paymentVariance: roundCurrency(paymentVariance),
+    paymentCheck,
+    totalOfPayments: roundCurrency(totalOfPayments),
+    totalInterest: roundCurrency(totalInterest),
+    fees: roundCurrency(fees),
+    apr: Number(apr.toFixed(3)),
+    effectiveCost: roundCurrency(effectiveCost),
+    effectiveCostPercent: loanAmount > 0 ? Number(((effectiveCost / loanAmount) * 100).toFixed(2)) : 0,
+    downPaymentRequired: roundCurrency(details.downPaymentRequired),
+    issues,
+    ...(includeSchedule && { schedule })
+  };
+};
+
+// Lowest APR first; ties go to the offer with the lower total cost
+export const rankOffers = (analyses: OfferAnalysis[]): RankedOfferAnalysis[] => {
+  return [...analyses]
+    .sort((a, b) => a.apr - b.apr || a.effectiveCost - b.effectiveCost)
+    .map((analysis, index) => ({ ...analysis, rank: index + 1 }));
+};
+
+// Side-by-side comparison of every offer on an application
+export const compareApplicationOffers = async (
+  applicationId: string,
+  includeSchedules: boolean = false
+): Promise<OfferComparison> => {
+  const application = await Application.findById(applicationId)
+    .populate({
+      path: 'offers.bank',
+      model: 'Bank'
+    })
+    .exec();
+
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const offers = rankOffers(
+    (application.offers || []).map((offer: any) => analyzeOffer(offer, includeSchedules))
+  );
+
+  // Declined offers are still shown for reference but can't be the best option
+  const best = offers.find((offer) => offer.status !== 'declined');
+
+  return {
+    applicationId,
+    offers,
+    bestOfferId: best?.offerId || null,
+    rankedBy: 'apr'
+  };
+};
+
+// Full analysis of a single offer, schedule included
+export const getOfferAnalysis = async (applicationId: string, offerId: string): Promise<OfferAnalysis> => {
+  const application = await Application.findById(applicationId)
+    .populate({
+      path: 'offers.bank',
+      model: 'Bank'
+    })
+    .exec();
+
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const offer = application.offers.find(
+    (o) => o._id && o._id.toString() === offerId
+  );
+
+  if (!offer) {
+    throw new Error('Offer not found');
+  }
+
+  return analyzeOffer(offer, true);
+};
@@ -0,0 +1,536 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import nodemailer from 'nodemailer';
+import SMTPPool from 'nodemailer/lib/smtp-pool';
+import { OutboundEmail } from '../models/OutboundEmail.js';
+import {
+  DeliveryStatusReport,
+  EmailRecordAttachmentInput,
+  EmailRecordContext,
+  EmailStatus,
+  OutboundEmailRecord,
+  OutboundEmailStatus,
+  OutboundRecipient,
+  OutboundSendResult,
+  StoredEmailAttachment
+} from '../types/index.js';
+import { markOutboundDeliveryFailed, recordOutboundEmail } from './emailStoreService.js';
+import { downloadDocument, uploadDocument } from './s3Service.js';
+import websocketService from './websocket.js';
+
+// Every outgoing email goes through this queue. The first attempt runs inline so callers still get an
+// immediate answer; transient failures are retried with exponential backoff and anything that can't be
+// delivered ends up in the dead-letter list. Attachments are kept in S3 so a retry doesn't need the caller.
+
+const DEFAULT_FROM = 'team@salestorvely.com';
+const MESSAGE_ID_DOMAIN = process.env.EMAIL_MESSAGE_ID_DOMAIN || 'salestorvely.com';
+const MAX_ATTEMPTS = Number(process.env.OUTBOUND_EMAIL_MAX_ATTEMPTS) || 8;
+const RETRY_BASE_DELAY = Number(process.env.OUTBOUND_EMAIL_RETRY_BASE_MS) || 60 * 1000;
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000;
+const QUEUE_INTERVAL = Number(process.env.OUTBOUND_EMAIL_QUEUE_INTERVAL) || 30 * 1000;
+const QUEUE_BATCH_SIZE = 25;
+// A claim older than this belongs to a process that died mid-send
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+type OutboundAttachmentInput = EmailRecordAttachmentInput & { encoding?: string };
+
+export interface OutboundEmailInput {
+  to: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  from?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  context?: EmailRecordContext;
+  purpose?: string;
+  attachments?: OutboundAttachmentInput[];
+}
+
+export type DeliveryOutcome = 'sent' | 'failed';
+
+// Senders that care about the final outcome (e.g. bank submissions) register a handler for their purpose.
+// background is true when the outcome arrives after the original caller got its answer - a retry or a bounce.
+type DeliveryHandler = (email: OutboundEmailRecord, outcome: DeliveryOutcome, background: boolean) => Promise<void>;
+
+const deliveryHandlers = new Map<string, DeliveryHandler>();
+
+export const registerDeliveryHandler = (purpose: string, handler: DeliveryHandler) => {
+  deliveryHandlers.set(purpose, handler);
+};
+
+let transporter: nodemailer.Transporter<SMTPPool.SentMessageInfo, SMTPPool.Options> | null = null;
+
+// One pooled SMTP connection for the whole process
+const getTransporter = () => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      pool: true,
+      host: process.env.SMTP_HOST,       // e.g., smtp.gmail.com
+      port: Number(process.env.SMTP_PORT) || 587, // 465 for SSL, 587 for TLS
+      secure: process.env.SMTP_SECURE === 'true', // true for 465, false for 587
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      }
+    });
+  }
+  return transporter;
+};
+
+const normalizeMessageId = (id: string): string => `<${id.replace(/[<>]/g, '').trim()}>`;
+
+const extractEmailAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/) || value.match(/([^\s"<>]+@[^\s"<>]+)/);
+  return (match ? match[1] : value).trim().toLowerCase();
+};
+
+const toAddressList = (recipients?: Array<string | { address: string }>): string[] =>
+  (recipients || []).map((recipient) => extractEmailAddress(typeof recipient === 'string' ? recipient : recipient.address));
+
+const retryDelay = (attempts: number): number =>
+  Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1)) * (0.5 + Math.random() / 2);
+
+// 5xx answers to the envelope or the message itself won't change on a retry; everything else might
+const isPermanentFailure = (error: any): boolean =>
+  ['EENVELOPE', 'EMESSAGE'].includes(error?.code) && error?.responseCode >= 500;
+
+const loadAttachmentContent = async (attachment: OutboundAttachmentInput): Promise<Buffer | null> => {
+  if (Buffer.isBuffer(attachment.content)) return attachment.content;
+  if (typeof attachment.content === 'string') {
+    return Buffer.from(attachment.content, (attachment.encoding as BufferEncoding) || 'utf8');
+  }
+  if (attachment.path) return fs.readFile(attachment.path);
+  return null;
+};
+
+const storeAttachments = async (
+  messageId: string,
+  applicationId: string | undefined,
+  attachments: OutboundAttachmentInput[] = []
+): Promise<{ stored: StoredEmailAttachment[]; contents: Buffer[] }> => {
+  const folder = crypto.createHash('sha256').update(messageId).digest('hex').slice(0, 16);
+  const prefix = applicationId ? `applications/${applicationId}/outbound` : 'outbound';
+  const stored: StoredEmailAttachment[] = [];
+  const contents: Buffer[] = [];
+
+  for (const [index, attachment] of attachments.entries()) {
+    if (attachment.stored) {
+      stored.push(attachment.stored);
+      contents.push(await downloadDocument(attachment.stored.s3Key));
+      continue;
+    }
+
+    const content = await loadAttachmentContent(attachment);
+    if (!content) continue;
+
+    const safeName = attachment.filename.replace(/[^\w.\-]+/g, '_');
+    const contentType = attachment.contentType || 'application/octet-stream';
+    const { key } = await uploadDocument(
+      applicationId || 'outbound',
+      safeName,
+      content,
+      `${prefix}/${folder}/${index + 1}-${safeName}`,
+      contentType
+    );
+
+    stored.push({ fileName: attachment.filename, contentType, size: content.length, s3Key: key });
+    contents.push(content);
+  }
+
+  return { stored, contents };
+};
+
+const settle = async (email: OutboundEmailRecord, outcome: DeliveryOutcome, background: boolean) => {
+  if (outcome === 'sent') {
+    await recordOutboundEmail({
+      messageId: email.messageId,
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      inReplyTo: email.inReplyTo,
+      references: email.references,
+      attachments: email.attachments.map((stored) => ({ filename: stored.fileName, stored })),
+      deliveryStatus: 'sent'
+    }, { applicationId: email.application, bankId: email.bank });
+  } else {
+    websocketService.broadcast('email-dead-letter', {
+      id: email._id?.toString(),
+      messageId: email.messageId,
+      to: email.to,
+      subject: email.subject,
+      error: email.lastError,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const handler = email.purpose ? deliveryHandlers.get(email.purpose) : undefined;
+  if (handler) {
+    try {
+      await handler(email, outcome, background);
+    } catch (error) {
+      console.error(`Delivery handler for ${email.purpose} failed on ${email.messageId}:`, error);
+    }
+  }
+};
+
+const markDead = async (email: OutboundEmailRecord, error: string, background: boolean) => {
+  const now = new Date();
+  const recipients = email.recipients.map((recipient) =>
+    recipient.status === 'pending' ? { ...recipient, status: EmailStatus.FAILED, response: error, updatedAt: now } : recipient
+  );
+
+  const dead = await OutboundEmail.findByIdAndUpdate(
+    email._id,
+    { $set: { status: 'dead', deadAt: now, lastError: error, recipients } },
+    { new: true }
+  ).lean().exec();
+
+  console.error(`💀 Gave up on "${email.subject}" to ${email.to.join(', ')} after ${email.attempts} attempt(s): ${error}`);
+
+  // Nothing reached the server, so the correspondence record gets a failed entry rather than the real Message-ID
+  await recordOutboundEmail({
+    from: email.from,
+    to: email.to,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    inReplyTo: email.inReplyTo,
+    references: email.references,
+    attachments: email.attachments.map((stored) => ({ filename: stored.fileName, stored })),
+    deliveryStatus: 'failed',
+    error
+  }, { applicationId: email.application, bankId: email.bank });
+
+  await settle(dead as OutboundEmailRecord, 'failed', background);
+  return dead as OutboundEmailRecord;
+};
+
+const handleFailure = async (email: OutboundEmailRecord, error: any, background: boolean) => {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isPermanentFailure(error) || email.attempts >= email.maxAttempts) {
+    return markDead(email, message, background);
+  }
+
+  const nextAttemptAt = new Date(Date.now() + retryDelay(email.attempts));
+  console.warn(`⏳ Send of "${email.subject}" failed (attempt ${email.attempts}/${email.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${message}`);
+
+  return await OutboundEmail.findByIdAndUpdate(
+    email._id,
+    { $set: { status: 'queued', nextAttemptAt, lastError: message } },
+    { new: true }
+  ).lean().exec() as OutboundEmailRecord;
+};
+
+// One SMTP attempt for a claimed email. contents are the attachment buffers when the caller still has them.
+const attemptDelivery = async (email: OutboundEmailRecord, background: boolean, contents?: Buffer[]) => {
+  let info: any;
+
+  try {
+    const buffers = contents || await Promise.all(email.attachments.map((attachment) => downloadDocument(attachment.s3Key)));
+
+    info = await getTransporter().sendMail({
+      from: email.from,
+      to: email.to.join(', '),   // Nodemailer wants a comma-separated string
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      messageId: email.messageId,
+      ...(email.inReplyTo && { inReplyTo: email.inReplyTo }),
+      ...(email.references && email.references.length > 0 && { references: email.references }),
+      attachments: email.attachments.map((attachment, index) => ({
+        filename: attachment.fileName,
+        content: buffers[index],
+        contentType: attachment.contentType
+      })),
+      // Ask for delivery status notifications; the envelope ID brings bounces back to this entry
+      dsn: {
+        envid: email._id!.toString(),
+        ret: 'HDRS',
+        notify: ['SUCCESS', 'FAILURE', 'DELAY']
+      }
+    });
+  } catch (error) {
+    return handleFailure(email, error, background);
+  }
+
+  const now = new Date();
+  const accepted = toAddressList(info?.accepted);
+  const rejected = toAddressList(info?.rejected);
+  const rejectedErrors: any[] = info?.rejectedErrors || [];
+
+  if (accepted.length === 0) {
+    const error: any = new Error(`Recipient rejected: ${rejected.join(', ') || email.to.join(', ')}`);
+    // Only retry when the server said "try later" to someone
+    const temporary = rejectedErrors.some((rejection) => rejection.responseCode >= 400 && rejection.responseCode < 500);
+    if (!temporary) {
+      error.code = 'EENVELOPE';
+      error.responseCode = 550;
+    }
+    return handleFailure(email, error, background);
+  }
+
+  const recipients: OutboundRecipient[] = email.recipients.map((recipient) => {
+    if (rejected.includes(recipient.address)) {
+      const rejection = rejectedErrors.find((entry) => extractEmailAddress(entry.recipient || '') === recipient.address);
+      return { ...recipient, status: EmailStatus.FAILED, response: rejection?.response || rejection?.message, updatedAt: now };
+    }
+    return { ...recipient, status: EmailStatus.SENT, response: info?.response, updatedAt: now };
+  });
+
+  const sent = await OutboundEmail.findByIdAndUpdate(
+    email._id,
+    { $set: { status: 'sent', sentAt: now, recipients }, $unset: { lastError: 1 } },
+    { new: true }
+  ).lean().exec() as OutboundEmailRecord;
+
+  if (rejected.length > 0) {
+    console.warn('Rejected recipients:', rejected);
+  }
+
+  await settle(sent, 'sent', background);
+  return sent;
+};
+
+const toSendResult = (email: OutboundEmailRecord): OutboundSendResult => ({
+  queueId: email._id!.toString(),
+  messageId: email.messageId,
+  status: email.status === 'sent' ? 'sent' : 'queued',
+  accepted: email.recipients.filter((recipient) => recipient.status !== EmailStatus.FAILED && recipient.status !== 'pending').map((recipient) => recipient.address),
+  rejected: email.recipients.filter((recipient) => recipient.status === EmailStatus.FAILED).map((recipient) => recipient.address),
+  response: email.recipients.find((recipient) => recipient.response)?.response,
+  ...(email.status !== 'sent' && email.lastError && { error: email.lastError })
+});
+
+// Queue an email and make the first attempt now. Resolves once it's sent or safely queued for a retry;
+// throws only when it can never be delivered (it is then in the dead-letter list).
+export const sendQueuedEmail = async (input: OutboundEmailInput): Promise<OutboundSendResult> => {
+  const from = input.from || DEFAULT_FROM;
+  const messageId = normalizeMessageId(input.messageId || `${crypto.randomUUID()}@${MESSAGE_ID_DOMAIN}`);
+
+  const existing = await OutboundEmail.findOne({ messageId }).lean().exec();
+  if (existing && existing.status !== 'dead') {
+    // Same Message-ID already on its way - don't send it twice
+    console.log(`⏭️ ${messageId} is already ${existing.status}`);
+    return toSendResult(existing as OutboundEmailRecord);
+  }
+
+  const { stored, contents } = await storeAttachments(messageId, input.context?.applicationId, input.attachments);
+
+  const fields = {
+    from,
+    to: input.to,
+    subject: input.subject,
+    text: input.text,
+    html: input.html,
+    inReplyTo: input.inReplyTo,
+    references: input.references || [],
+    attachments: stored,
+    application: input.context?.applicationId,
+    bank: input.context?.bankId,
+    purpose: input.purpose,
+    recipients: input.to.map((address) => ({ address: extractEmailAddress(address), status: 'pending' as const })),
+    maxAttempts: MAX_ATTEMPTS,
+    // Claimed by this call for the inline attempt
+    status: 'sending' as OutboundEmailStatus,
+    attempts: 1,
+    claimedAt: new Date(),
+    lastAttemptAt: new Date(),
+    nextAttemptAt: new Date()
+  };
+
+  let email: OutboundEmailRecord | null;
+  if (existing) {
+    // Re-sending a dead message (e.g. a bank submission retried after a failure) starts it over
+    email = await OutboundEmail.findOneAndUpdate(
+      { _id: existing._id, status: 'dead' },
+      { $set: fields, $unset: { lastError: 1, deadAt: 1, sentAt: 1 } },
+      { new: true }
+    ).lean().exec() as OutboundEmailRecord | null;
+  } else {
+    try {
+      email = (await OutboundEmail.create({ messageId, ...fields })).toObject() as OutboundEmailRecord;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      email = null;
+    }
+  }
+
+  if (!email) {
+    // Lost a race with another caller sending the same Message-ID
+    const current = await OutboundEmail.findOne({ messageId }).lean().exec();
+    return toSendResult(current as OutboundEmailRecord);
+  }
+
+  const result = await attemptDelivery(email, false, contents);
+  if (result.status === 'dead') {
+    throw new Error(result.lastError || 'Email could not be delivered');
+  }
+  return toSendResult(result);
+};
+
+const claimNext = () => {
+  const now = new Date();
+  return OutboundEmail.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', nextAttemptAt: { $lte: now } },
+        { status: 'sending', claimedAt: { $lt: new Date(now.getTime() - CLAIM_LEASE_MS) } }
+      ]
+    },
+    { $set: { status: 'sending', claimedAt: now, lastAttemptAt: now }, $inc: { attempts: 1 } },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  ).lean().exec() as Promise<OutboundEmailRecord | null>;
+};
+
+// Retry everything that is due
+export const processOutboundQueue = async (): Promise<number> => {
+  let processed = 0;
+
+  for (let i = 0; i < QUEUE_BATCH_SIZE; i++) {
+    const email = await claimNext();
+    if (!email) break;
+
+    await attemptDelivery(email, true);
+    processed++;
+  }
+
+  return processed;
+};
+
+async function runOutboundQueue() {
+  try {
+    const processed = await processOutboundQueue();
+    if (processed > 0) {
+      console.log(`📮 Retried ${processed} queued email(s)`);
+    }
+  } catch (err) {
+    console.error('Error processing outbound email queue:', err);
+  } finally {
+    setTimeout(runOutboundQueue, QUEUE_INTERVAL);
+  }
+}
+
+export const startOutboundEmailQueue = () => {
+  setTimeout(runOutboundQueue, QUEUE_INTERVAL);
+};
+
+// Apply a parsed DSN to the email it reports on. Returns the updated entry, or null when it isn't ours.
+export const applyDeliveryReport = async (report: DeliveryStatusReport): Promise<OutboundEmailRecord | null> => {
+  const email = (
+    report.originalEnvelopeId && /^[a-f0-9]{24}$/i.test(report.originalEnvelopeId)
+      ? await OutboundEmail.findById(report.originalEnvelopeId).lean().exec()
+      : null
+  ) || (
+    report.originalMessageId
+      ? await OutboundEmail.findOne({ messageId: normalizeMessageId(report.originalMessageId) }).lean().exec()
+      : null
+  );
+
+  if (!email) {
+    return null;
+  }
+
+  // Only the recipients the report names change - a report that names none leaves the email as it was
+  const now = new Date();
+  const recipients = email.recipients.map((recipient) => {
+    const entry = report.recipients.find((reported) => reported.address === recipient.address);
+    if (!entry) return recipient;
+
+    const details = { dsnStatus: entry.status, response: entry.diagnostic || recipient.response, updatedAt: now };
+    if (entry.action === 'failed') return { ...recipient, ...details, status: EmailStatus.FAILED };
+    // A late success report doesn't undo a bounce
+    if (entry.action === 'delivered' && recipient.status !== EmailStatus.FAILED) {
+      return { ...recipient, ...details, status: EmailStatus.DELIVERED };
+    }
+    return { ...recipient, ...details };
+  }) as OutboundRecipient[];
+
+  const bounced = recipients.every((recipient) => recipient.status === EmailStatus.FAILED) && email.status === 'sent';
+  const reason = recipients.find((recipient) => recipient.status === EmailStatus.FAILED)?.response;
+  const lastError = `Bounced${reason ? `: ${reason}` : ''}`;
+
+  const updated = await OutboundEmail.findByIdAndUpdate(
+    email._id,
+    {
+      $set: {
+        recipients,
+        ...(bounced && { status: 'dead', deadAt: now, lastError })
+      }
+    },
+    { new: true }
+  ).lean().exec() as OutboundEmailRecord;
+
+  if (bounced) {
+    console.warn(`↩️ "${email.subject}" bounced for every recipient: ${lastError}`);
+    await markOutboundDeliveryFailed(email.messageId, lastError);
+    await settle(updated, 'failed', true);
+  }
+
+  return updated;
+};
+
+export const listOutboundEmails = async (
+  status: OutboundEmailStatus | undefined,
+  page: number = 1,
+  limit: number = 20
+) => {
+  const query = status ? { status } : {};
+  const skip = (page - 1) * limit;
+
+  const [emails, total] = await Promise.all([
+    OutboundEmail.find(query)
+      .sort(status === 'dead' ? { deadAt: -1 } : { createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .select('-text -html')
+      .lean()
+      .exec(),
+    OutboundEmail.countDocuments(query).exec()
+  ]);
+
+  return {
+    emails,
+    total,
+    page,
+    pages: Math.ceil(total / limit)
+  };
+};
+
+export const getOutboundEmail = async (emailId: string) => {
+  const email = await OutboundEmail.findById(emailId).lean().exec();
+  if (!email) {
+    throw new Error('Outbound email not found');
+  }
+  return email;
+};
+
+// Give a dead-lettered email a fresh set of attempts, starting with one now
+export const retryDeadLetter = async (emailId: string) => {
+  const email = await OutboundEmail.findOneAndUpdate(
+    { _id: emailId, status: 'dead' },
+    {
+      $set: {
+        status: 'sending',
+        attempts: 1,
+        claimedAt: new Date(),
+        lastAttemptAt: new Date(),
+        'recipients.$[].status': 'pending'
+      },
+      $unset: { deadAt: 1 }
+    },
+    { new: true }
+  ).lean().exec() as OutboundEmailRecord | null;
+
+  if (!email) {
+    await getOutboundEmail(emailId);
+    throw new Error('Outbound email is not in the dead-letter list');
+  }
+
+  // The original caller is long gone, so outcome handlers treat this like a background retry
+  return attemptDelivery(email, true);
+};
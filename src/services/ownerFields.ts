@@ -0,0 +1,184 @@
+import { ApplicationOwner, SBAApplication } from '../types/index.js';
+import { createEmptyFieldsObject, getFieldNamesForForm } from './formFields.js';
+import { parsePercentage } from './fieldValidation.js';
+
+// How owners map onto the SBA forms. Owner n (in the order they were added) fills Form 1919's owner
+// row n; every owner at or above the threshold files their own Form 413 and signs it.
+
+// SBA requires a personal financial statement from everyone owning 20% or more
+export const PFS_OWNERSHIP_THRESHOLD = 20;
+
+// Form 1919 has five owner rows
+export const MAX_FORM_1919_OWNERS = 5;
+
+type OwnerRowKey = 'name' | 'title' | 'ownershipPercent' | 'tin' | 'homeAddress';
+
+// Owner property -> Form 1919 field prefix (the row number is appended)
+const OWNER_ROW_FIELDS: Record<OwnerRowKey, string> = {
+  name: 'ownName',
+  title: 'ownTitle',
+  ownershipPercent: 'ownPerc',
+  tin: 'ownTin',
+  homeAddress: 'ownHome'
+};
+
+// Form 413 fields that describe the business rather than the owner - every owner's statement shares them
+const SHARED_413_FIELDS = [
+  'businessNameOfApplicantBorrower',
+  'businessPhone',
+  'businessAddress',
+  'businessTypeCorporation',
+  'businessTypeSCorp',
+  'businessTypeLLC',
+  'businessTypePartnership',
+  'businessTypeSoleProprietor',
+  'disasterBusinessLoanApplication',
+  'womenOwnedSmallBusiness',
+  'businessDevelopmentProgram8a',
+  'loan7aOr504OrSuretyBonds'
+];
+
+export const requiresPersonalFinancialStatement = (owner: Pick<ApplicationOwner, 'ownershipPercent'>): boolean =>
+  (owner.ownershipPercent || 0) >= PFS_OWNERSHIP_THRESHOLD;
+
+/**
+ * The Form 1919 field for an owner property in a given row, e.g. ('tin', 2) -> ownTin2
+ */
+export const ownerRowField = (key: OwnerRowKey, slot: number): string => `${OWNER_ROW_FIELDS[key]}${slot}`;
+
+/**
+ * Which owner row and property a Form 1919 field belongs to, or null for other fields
+ */
+export const parseOwnerRowField = (fieldName: string): { key: OwnerRowKey; slot: number } | null => {
+  const match = fieldName.match(/^(ownName|ownTitle|ownPerc|ownTin|ownHome)([1-5])$/);
+  if (!match) return null;
+
+  const key = (Object.keys(OWNER_ROW_FIELDS) as OwnerRowKey[]).find((name) => OWNER_ROW_FIELDS[name] === match[1])!;
+  return { key, slot: Number(match[2]) };
+};
+
+/**
+ * Form 1919 owner rows for the owners in order - rows without an owner are cleared
+ */
+export const form1919OwnerRows = (owners: ApplicationOwner[]): Record<string, string> => {
+  const rows: Record<string, string> = {};
+
+  for (let slot = 1; slot <= MAX_FORM_1919_OWNERS; slot++) {
+    const owner = owners[slot - 1];
+    rows[ownerRowField('name', slot)] = owner?.name || '';
+    rows[ownerRowField('title', slot)] = owner?.title || '';
+    rows[ownerRowField('ownershipPercent', slot)] = owner?.ownershipPercent !== undefined && owner?.ownershipPercent !== null
+      ? `${owner.ownershipPercent}%`
+      : '';
+    rows[ownerRowField('tin', slot)] = owner?.tin || '';
+    rows[ownerRowField('homeAddress', slot)] = owner?.homeAddress || '';
+  }
+
+  return rows;
+};
+
+/**
+ * Owner property value for a Form 1919 row value (percentages are stored on the owner as numbers)
+ */
+export const ownerValueFromRow = (key: OwnerRowKey, value: string | boolean): string | number | undefined => {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  if (key === 'ownershipPercent') return parsePercentage(value) ?? undefined;
+  return value;
+};
+
+type OwnerDetails = Omit<ApplicationOwner, 'sba413Fields' | 'signingStatus'>;
+
+/**
+ * The owner described by one Form 1919 row, or null when the row has no name
+ */
+export const ownerFromForm1919Row = (fields: Record<string, string | boolean>, slot: number): OwnerDetails | null => {
+  const name = ownerValueFromRow('name', fields[ownerRowField('name', slot)]);
+  if (!name) return null;
+
+  return {
+    name: String(name),
+    title: ownerValueFromRow('title', fields[ownerRowField('title', slot)]) as string | undefined,
+    ownershipPercent: ownerValueFromRow('ownershipPercent', fields[ownerRowField('ownershipPercent', slot)]) as number | undefined,
+    tin: ownerValueFromRow('tin', fields[ownerRowField('tin', slot)]) as string | undefined,
+    homeAddress: ownerValueFromRow('homeAddress', fields[ownerRowField('homeAddress', slot)]) as string | undefined
+  };
+};
+
+/**
+ * Owners read from Form 1919 rows - for applications filled in before owners were tracked
+ */
+export const ownersFromForm1919Rows = (fields: Record<string, string | boolean>): OwnerDetails[] => {
+  const owners: OwnerDetails[] = [];
+  for (let slot = 1; slot <= MAX_FORM_1919_OWNERS; slot++) {
+    const owner = ownerFromForm1919Row(fields, slot);
+    if (owner) owners.push(owner);
+  }
+  return owners;
+};
+
+/**
+ * Known Form 413 fields from a stored statement - no Mongoose internals come along
+ */
+export const read413Statement = (statement: Record<string, string | boolean> | undefined): Record<string, string | boolean> => {
+  const fields: Record<string, string | boolean> = createEmptyFieldsObject('SBA_413');
+  for (const name of getFieldNamesForForm('SBA_413')) {
+    const value = statement?.[name];
+    if (value !== undefined && value !== null) fields[name] = value;
+  }
+  return fields;
+};
+
+/**
+ * The lines of a Form 413 that describe the business, to start another owner's statement from
+ */
+export const businessLinesOf = (statement: Record<string, string | boolean>): Record<string, string | boolean> => {
+  const lines: Record<string, string | boolean> = {};
+  for (const name of SHARED_413_FIELDS) {
+    if (statement[name] !== undefined) lines[name] = statement[name];
+  }
+  return lines;
+};
+
+/**
+ * A new owner's Form 413: the given starting lines plus the owner's own details
+ */
+export const seedOwner413Fields = (
+  owner: Pick<ApplicationOwner, 'name' | 'homeAddress' | 'tin'>,
+  startFrom: Record<string, string | boolean> = {}
+): Record<string, string | boolean> => {
+  const fields: Record<string, string | boolean> = { ...createEmptyFieldsObject('SBA_413'), ...startFrom };
+
+  fields.name = owner.name;
+  fields.printName = owner.name;
+  if (owner.homeAddress) fields.homeAddress = owner.homeAddress;
+  if (owner.tin) fields.socialSecurityNo = owner.tin;
+
+  return fields;
+};
+
+/**
+ * Record an owner's signature on their Form 413 (the caller saves the application)
+ */
+export const markOwnerSigned = (
+  application: SBAApplication,
+  ownerId: string,
+  signature: { signedBy?: string; signedAt?: Date }
+): ApplicationOwner | null => {
+  const owner = (application.owners || []).find((candidate) => String(candidate._id) === ownerId);
+  if (!owner) return null;
+
+  owner.signingStatus = 'completed';
+  owner.signedBy = signature.signedBy || owner.name;
+  owner.signedAt = signature.signedAt || new Date();
+  application.markModified('owners');
+  return owner;
+};
+
+/**
+ * Owners who still have to sign their Form 413
+ */
+export const getOwnersAwaitingSignature = (application: SBAApplication): ApplicationOwner[] => {
+  return (application.owners || []).filter(
+    (owner) => requiresPersonalFinancialStatement(owner) && owner.signingStatus !== 'completed'
+  );
+};
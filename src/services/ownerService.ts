@@ -0,0 +1,387 @@
+/**
+ * ownerService - Business owners on an application
+ *
+ * Owners are the source of truth for Form 1919's owner rows: every change here rewrites the rows on the
+ * application and in a running form session. Owners at or above the PFS threshold get their own draft
+ * Form 413 and sign it themselves; the form session fills one owner's Form 413 at a time.
+ */
+
+import { Application } from '../models/Application.js';
+import {
+  ApplicationOwner,
+  ApplicationOwnerInput,
+  DocumentStorageInfo,
+  FieldValidationError,
+  OwnerSummary,
+  SBAApplication
+} from '../types/index.js';
+import { generateOwnerDraft413 } from './applicationService.js';
+import { normalizeFieldValue, parsePercentage, describeValidationErrors } from './fieldValidation.js';
+import {
+  MAX_FORM_1919_OWNERS,
+  businessLinesOf,
+  form1919OwnerRows,
+  ownerRowField,
+  read413Statement,
+  requiresPersonalFinancialStatement,
+  seedOwner413Fields
+} from './ownerFields.js';
+import formStateService, { FormState } from './FormStateService.js';
+
+// ==============================
+// TYPES
+// ==============================
+
+export interface OwnerChangeResult {
+  success: boolean;
+  message?: string;
+  errors?: FieldValidationError[];
+  owner?: OwnerSummary;
+  owners: OwnerSummary[];
+}
+
+export interface SwitchOwnerResult extends OwnerChangeResult {
+  state?: FormState;
+}
+
+// ==============================
+// HELPER FUNCTIONS
+// ==============================
+
+const loadApplication = async (applicationId: string): Promise<SBAApplication> => {
+  const application = await Application.findById(applicationId);
+  if (!application) {
+    throw new Error('Application not found');
+  }
+  return application;
+};
+
+const toOwnerSummary = (owner: ApplicationOwner, index: number, currentOwnerId: string | null): OwnerSummary => ({
+  ownerId: String(owner._id),
+  slot: index + 1,
+  name: owner.name,
+  title: owner.title,
+  ownershipPercent: owner.ownershipPercent,
+  requiresPersonalFinancialStatement: requiresPersonalFinancialStatement(owner),
+  signingStatus: owner.signingStatus,
+  isCurrent: String(owner._id) === currentOwnerId
+});
+
+const summarize = async (application: SBAApplication): Promise<OwnerSummary[]> => {
+  const state = await formStateService.getState(String(application._id));
+  return (application.owners || []).map((owner, index) => toOwnerSummary(owner, index, state?.currentOwnerId ?? null));
+};
+
+/**
+ * Check and normalize owner details with the rules of the Form 1919 row they land in
+ * `others` are the remaining owners, for the combined ownership check
+ */
+const normalizeOwnerInput = (
+  input: ApplicationOwnerInput,
+  slot: number,
+  others: ApplicationOwner[]
+): { changes: Partial<ApplicationOwner>; errors: FieldValidationError[] } => {
+  const changes: Partial<ApplicationOwner> = {};
+  const errors: FieldValidationError[] = [];
+
+  if (input.name !== undefined) changes.name = input.name.trim();
+  if (input.title !== undefined) changes.title = input.title.trim();
+  if (input.homeAddress !== undefined) changes.homeAddress = input.homeAddress.trim();
+
+  if (input.ownershipPercent !== undefined && input.ownershipPercent !== '') {
+    const field = ownerRowField('ownershipPercent', slot);
+    const checked = normalizeFieldValue('SBA_1919', field, String(input.ownershipPercent));
+    if (checked.error) {
+      errors.push(checked.error);
+    } else {
+      const percent = parsePercentage(checked.value as string)!;
+      const total = others.reduce((sum, owner) => sum + (owner.ownershipPercent || 0), percent);
+      if (total > 100) {
+        errors.push({
+          formType: 'SBA_1919',
+          field,
+          label: 'Ownership Percentage',
+          code: 'sum_exceeded',
+          message: `Ownership Percentage would bring the owners' combined share to ${Number(total.toFixed(2))}% - ownership can't add up to more than 100%.`,
+          value: String(input.ownershipPercent)
+        });
+      }
+      changes.ownershipPercent = percent;
+    }
+  }
+
+  if (input.tin !== undefined && input.tin !== '') {
+    const checked = normalizeFieldValue('SBA_1919', ownerRowField('tin', slot), input.tin);
+    if (checked.error) errors.push(checked.error);
+    else changes.tin = checked.value as string;
+  }
+
+  if (input.email !== undefined && input.email !== '') {
+    // Owners' emails aren't on either form - borrow the point of contact email's rules
+    const checked = normalizeFieldValue('SBA_1919', 'pocEmail', input.email);
+    if (checked.error) {
+      errors.push({ ...checked.error, field: 'email', label: 'Owner Email', message: `Owner Email must be an email address, like name@example.com.` });
+    } else {
+      changes.email = checked.value as string;
+    }
+  }
+
+  return { changes, errors };
+};
+
+const rejected = async (application: SBAApplication, errors: FieldValidationError[]): Promise<OwnerChangeResult> => ({
+  success: false,
+  message: describeValidationErrors(errors),
+  errors,
+  owners: await summarize(application)
+});
+
+/**
+ * Rewrite Form 1919's owner rows from the owners, on the application and in a running session
+ */
+const syncOwnerRows = async (application: SBAApplication): Promise<void> => {
+  const rows = form1919OwnerRows(application.owners || []);
+  for (const [name, value] of Object.entries(rows)) {
+    application.set(`sba1919Fields.${name}`, value);
+  }
+  await application.save();
+
+  const applicationId = String(application._id);
+  if (await formStateService.hasSession(applicationId)) {
+    await formStateService.syncOwnerRows(applicationId, rows);
+  }
+};
+
+/**
+ * Give every owner who needs one a draft Form 413, and drop drafts of owners who no longer need one
+ * The application's own draft Form 413 becomes the first owner's
+ */
+const syncOwnerDrafts = async (application: SBAApplication): Promise<void> => {
+  const applicationId = String(application._id);
+  const owners = application.owners || [];
+  const drafts = (application.draftDocuments || []) as DocumentStorageInfo[];
+  const ownerIds = new Set(owners.filter(requiresPersonalFinancialStatement).map((owner) => String(owner._id)));
+
+  const unclaimed = drafts.find((doc) => doc.fileType === 'SBA_413' && !doc.ownerId);
+  if (unclaimed && owners[0]) {
+    unclaimed.ownerId = String(owners[0]._id);
+  }
+
+  // Signed statements stay - they're part of the record even if the ownership changed afterwards
+  const kept = drafts.filter((doc) => !doc.ownerId || ownerIds.has(doc.ownerId) || doc.signed);
+
+  for (const owner of owners) {
+    const ownerId = String(owner._id);
+    if (!ownerIds.has(ownerId) || kept.some((doc) => doc.ownerId === ownerId)) continue;
+
+    try {
+      const draft = await generateOwnerDraft413(
+        applicationId,
+        { ownerId, name: owner.name },
+        application.applicantData?.businessName
+      );
+      if (draft) {
+        kept.push(draft);
+        console.log(`📄 Generated draft Form 413 for owner "${owner.name}" on ${applicationId}`);
+      }
+    } catch (error) {
+      // The owner is saved either way; the draft is generated again on the next owner change
+      console.error(`Failed to generate draft Form 413 for owner ${ownerId}:`, error);
+    }
+  }
+
+  application.draftDocuments = kept;
+  application.markModified('draftDocuments');
+  await application.save();
+};
+
+/**
+ * Find an owner by ID, Form 1919 row number or (case-insensitive) name - voice agents only know names
+ */
+const findOwner = (application: SBAApplication, reference: string): ApplicationOwner | undefined => {
+  const owners = application.owners || [];
+  const wanted = reference.trim().toLowerCase();
+
+  return owners.find((owner) => String(owner._id) === reference)
+    || (/^[1-5]$/.test(wanted) ? owners[Number(wanted) - 1] : undefined)
+    || owners.find((owner) => owner.name.toLowerCase() === wanted)
+    || owners.find((owner) => owner.name.toLowerCase().includes(wanted));
+};
+
+// ==============================
+// SERVICE METHODS
+// ==============================
+
+/**
+ * List the application's owners in Form 1919 row order
+ */
+export const listOwners = async (applicationId: string): Promise<OwnerSummary[]> => {
+  return summarize(await loadApplication(applicationId));
+};
+
+/**
+ * Add an owner in the next Form 1919 row
+ * The first owner takes over the statement already on the application; owners at or above the PFS
+ * threshold get a draft Form 413
+ */
+export const addOwner = async (applicationId: string, input: ApplicationOwnerInput): Promise<OwnerChangeResult> => {
+  // Unsaved Form 413 answers must reach the application before the first owner takes them over
+  if (await formStateService.hasSession(applicationId)) {
+    await formStateService.saveSession(applicationId);
+  }
+
+  const application = await loadApplication(applicationId);
+  const owners = application.owners || [];
+
+  if (!input.name?.trim()) {
+    return { success: false, message: "The owner's name is required.", owners: await summarize(application) };
+  }
+  if (owners.length >= MAX_FORM_1919_OWNERS) {
+    return {
+      success: false,
+      message: `Form 1919 has room for ${MAX_FORM_1919_OWNERS} owners and this application already lists ${owners.length}.`,
+      owners: await summarize(application)
+    };
+  }
+
+  const { changes, errors } = normalizeOwnerInput(input, owners.length + 1, owners);
+  if (errors.length > 0) {
+    return rejected(application, errors);
+  }
+
+  const details = { ...changes, name: changes.name! };
+  const statement = read413Statement(application.sba413Fields as Record<string, string | boolean>);
+  owners.push({
+    ...details,
+    sba413Fields: seedOwner413Fields(details, owners.length === 0 ? statement : businessLinesOf(statement)),
+    signingStatus: 'not_started'
+  });
+  application.owners = owners;
+  application.markModified('owners');
+
+  await syncOwnerRows(application);
+  await syncOwnerDrafts(application);
+
+  const added = owners[owners.length - 1];
+  const ownerId = String(added._id);
+  console.log(`👥 Added owner "${added.name}" (${added.ownershipPercent ?? '?'}%) to ${applicationId}`);
+
+  // A session that started before there were owners begins filling the first owner's statement
+  const state = await formStateService.getState(applicationId);
+  if (state && !state.currentOwnerId) {
+    await formStateService.switchOwner(applicationId, String(owners[0]._id));
+  }
+
+  const summaries = await summarize(application);
+  return {
+    success: true,
+    owner: summaries.find((owner) => owner.ownerId === ownerId),
+    owners: summaries
+  };
+};
+
+/**
+ * Change an owner's details
+ */
+export const updateOwner = async (
+  applicationId: string,
+  ownerId: string,
+  input: ApplicationOwnerInput
+): Promise<OwnerChangeResult> => {
+  const application = await loadApplication(applicationId);
+  const owners = application.owners || [];
+  const index = owners.findIndex((owner) => String(owner._id) === ownerId);
+  if (index === -1) {
+    throw new Error('Owner not found');
+  }
+
+  if (input.name !== undefined && !input.name.trim()) {
+    return { success: false, message: "The owner's name can't be empty.", owners: await summarize(application) };
+  }
+
+  const others = owners.filter((_, position) => position !== index);
+  const { changes, errors } = normalizeOwnerInput(input, index + 1, others);
+  if (errors.length > 0) {
+    return rejected(application, errors);
+  }
+
+  Object.assign(owners[index], changes);
+  application.markModified('owners');
+
+  await syncOwnerRows(application);
+  await syncOwnerDrafts(application);
+
+  const summaries = await summarize(application);
+  return { success: true, owner: summaries[index], owners: summaries };
+};
+
+/**
+ * Remove an owner - the owners after them move up a Form 1919 row
+ * An application keeps at least one owner; removing the owner being filled switches to the first one
+ */
+export const removeOwner = async (applicationId: string, ownerId: string): Promise<OwnerChangeResult> => {
+  const application = await loadApplication(applicationId);
+  const owners = application.owners || [];
+  const index = owners.findIndex((owner) => String(owner._id) === ownerId);
+  if (index === -1) {
+    throw new Error('Owner not found');
+  }
+
+  if (owners.length === 1) {
+    return { success: false, message: 'An application needs at least one owner.', owners: await summarize(application) };
+  }
+
+  const [removed] = owners.splice(index, 1);
+  application.owners = owners;
+  application.markModified('owners');
+
+  await syncOwnerRows(application);
+  await syncOwnerDrafts(application);
+
+  const state = await formStateService.getState(applicationId);
+  if (state?.currentOwnerId === ownerId) {
+    await formStateService.switchOwner(applicationId, String(owners[0]._id));
+  }
+
+  console.log(`👥 Removed owner "${removed.name}" from ${applicationId}`);
+  return { success: true, owners: await summarize(application) };
+};
+
+/**
+ * Point the form session at another owner's Form 413
+ * The owner can be given by ID, Form 1919 row number or name
+ */
+export const switchOwner = async (applicationId: string, ownerReference: string): Promise<SwitchOwnerResult> => {
+  const application = await loadApplication(applicationId);
+  const owner = findOwner(application, ownerReference);
+  if (!owner) {
+    return {
+      success: false,
+      message: `No owner matches "${ownerReference}".`,
+      owners: await summarize(application)
+    };
+  }
+
+  if (!await formStateService.hasSession(applicationId)) {
+    await formStateService.startSession(applicationId);
+  }
+
+  const result = await formStateService.switchOwner(applicationId, String(owner._id));
+  const summaries = await summarize(application);
+
+  return {
+    success: result.success,
+    message: result.message,
+    owner: summaries.find((summary) => summary.ownerId === String(owner._id)),
+    owners: summaries,
+    state: result.state
+  };
+};
+
+export default {
+  listOwners,
+  addOwner,
+  updateOwner,
+  removeOwner,
+  switchOwner
+};
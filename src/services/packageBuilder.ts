@@ -0,0 +1,280 @@
+import crypto from 'crypto';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  StandardFonts,
+  rgb
+} from 'pdf-lib';
+import { FinalPackage, FormType, PackageManifestEntry, UserProvidedDocumentType } from '../types/index.js';
+
+// Builds the single PDF a lender receives: a cover sheet and table of contents, then every form and
+// supporting document flattened so nothing can be edited, each page stamped with the application ID
+// and build time. The manifest records a SHA-256 per source document and for the package itself.
+
+// ==============================
+// TYPES
+// ==============================
+
+export interface PackageSource {
+  title: string;
+  fileName: string;
+  fileType: UserProvidedDocumentType | FormType;
+  ownerId?: string;
+  signed?: boolean;
+  s3Key: string;
+  buffer: Buffer;
+  flatten: boolean;           // Forms must flatten; supporting documents are included as they are if they can't
+}
+
+export interface PackageDetails {
+  applicationId: string;
+  businessName?: string;
+  applicantName?: string;
+  generatedAt: Date;
+}
+
+export interface BuiltPackage {
+  pdf: Buffer;
+  sha256: string;
+  pageCount: number;
+  documents: PackageManifestEntry[];
+}
+
+// ==============================
+// LAYOUT
+// ==============================
+
+const PAGE_SIZE: [number, number] = [612, 792];   // US Letter
+const MARGIN = 72;
+const TOC_ENTRIES_PER_PAGE = 30;
+const STAMP_SIZE = 7;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const STAMP_COLOR = rgb(0.35, 0.35, 0.35);
+
+export const sha256 = (buffer: Buffer | Uint8Array): string =>
+  crypto.createHash('sha256').update(buffer).digest('hex');
+
+// The standard fonts only cover WinAnsi - anything else would make drawText throw
+export const printable = (text: string): string => text.replace(/[^\x20-\x7E\u00A0-\u00FF]/g, '?');
+
+export const formatTimestamp = (date: Date): string => date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+
+const drawLines = (
+  page: PDFPage,
+  lines: Array<{ text: string; size: number; font: PDFFont; gap?: number }>,
+  startY: number
+): number => {
+  let y = startY;
+  for (const line of lines) {
+    page.drawText(printable(line.text), { x: MARGIN, y, size: line.size, font: line.font, color: TEXT_COLOR });
+    y -= line.size + (line.gap ?? 8);
+  }
+  return y;
+};
+
+const drawCover = (page: PDFPage, details: PackageDetails, documentCount: number, fonts: { regular: PDFFont; bold: PDFFont }) => {
+  drawLines(page, [
+    { text: 'SBA Loan Application Package', size: 24, font: fonts.bold, gap: 24 },
+    { text: details.businessName || 'Business name not provided', size: 16, font: fonts.bold },
+    { text: details.applicantName ? `Applicant: ${details.applicantName}` : '', size: 12, font: fonts.regular, gap: 24 },
+    { text: `Application ID: ${details.applicationId}`, size: 11, font: fonts.regular },
+    { text: `Generated: ${formatTimestamp(details.generatedAt)}`, size: 11, font: fonts.regular },
+    { text: `Documents: ${documentCount}`, size: 11, font: fonts.regular, gap: 24 },
+    { text: 'Every page is flattened and stamped with the application ID and generation time.', size: 9, font: fonts.regular, gap: 4 },
+    { text: 'Check the SHA-256 values in the package manifest to confirm the documents are unchanged.', size: 9, font: fonts.regular }
+  ], PAGE_SIZE[1] - MARGIN - 24);
+};
+
+const drawTableOfContents = (
+  pages: PDFPage[],
+  documents: PackageManifestEntry[],
+  fonts: { regular: PDFFont; bold: PDFFont }
+) => {
+  pages.forEach((page, pageIndex) => {
+    const entries = documents.slice(pageIndex * TOC_ENTRIES_PER_PAGE, (pageIndex + 1) * TOC_ENTRIES_PER_PAGE);
+    let y = drawLines(page, [
+      { text: pageIndex === 0 ? 'Contents' : 'Contents (continued)', size: 18, font: fonts.bold, gap: 20 }
+    ], PAGE_SIZE[1] - MARGIN);
+
+    for (const entry of entries) {
+      const pageLabel = `page ${entry.startPage}`;
+      page.drawText(printable(entry.title), { x: MARGIN, y, size: 11, font: fonts.regular, color: TEXT_COLOR });
+      page.drawText(pageLabel, {
+        x: PAGE_SIZE[0] - MARGIN - fonts.regular.widthOfTextAtSize(pageLabel, 11),
+        y,
+        size: 11,
+        font: fonts.regular,
+        color: TEXT_COLOR
+      });
+      y -= 19;
+    }
+  });
+};
+
+const stampPage = (page: PDFPage, text: string, font: PDFFont) => {
+  const { width } = page.getSize();
+  page.drawText(text, {
+    x: Math.max(12, (width - font.widthOfTextAtSize(text, STAMP_SIZE)) / 2),
+    y: 10,
+    size: STAMP_SIZE,
+    font,
+    color: STAMP_COLOR
+  });
+};
+
+/**
+ * Add top-level bookmarks - pdf-lib has no outline API, so the dictionaries are written directly
+ */
+const addBookmarks = (doc: PDFDocument, bookmarks: Array<{ title: string; pageIndex: number }>) => {
+  if (bookmarks.length === 0) return;
+
+  const context = doc.context;
+  const pages = doc.getPages();
+  const outlinesRef = context.nextRef();
+  const itemRefs: PDFRef[] = bookmarks.map(() => context.nextRef());
+
+  bookmarks.forEach((bookmark, index) => {
+    context.assign(itemRefs[index], context.obj({
+      Title: PDFHexString.fromText(bookmark.title),
+      Parent: outlinesRef,
+      Dest: [pages[bookmark.pageIndex].ref, 'Fit'],
+      ...(index > 0 ? { Prev: itemRefs[index - 1] } : {}),
+      ...(index < itemRefs.length - 1 ? { Next: itemRefs[index + 1] } : {})
+    }));
+  });
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: itemRefs.length
+  }));
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+// ==============================
+// BUILD
+// ==============================
+
+const loadFlattened = async (source: PackageSource): Promise<PDFDocument> => {
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(source.buffer, { ignoreEncryption: true });
+  } catch (error) {
+    throw new Error(`Failed to read ${source.fileName}: ${error instanceof Error ? error.message : 'not a PDF'}`);
+  }
+
+  try {
+    doc.getForm().flatten();
+  } catch (error) {
+    if (source.flatten) {
+      throw new Error(`Failed to flatten ${source.fileName}: ${error instanceof Error ? error.message : error}`);
+    }
+    console.warn(`⚠️ Could not flatten ${source.fileName} - including it as uploaded:`, error);
+  }
+  return doc;
+};
+
+/**
+ * Merge the sources, in order, into one flattened, stamped and bookmarked PDF
+ */
+export const buildPackage = async (sources: PackageSource[], details: PackageDetails): Promise<BuiltPackage> => {
+  if (sources.length === 0) {
+    throw new Error('No documents to package');
+  }
+
+  const loaded = [];
+  for (const source of sources) {
+    loaded.push({ source, doc: await loadFlattened(source) });
+  }
+
+  const tocPageCount = Math.ceil(sources.length / TOC_ENTRIES_PER_PAGE);
+  let nextPage = 1 + tocPageCount + 1;
+  const documents: PackageManifestEntry[] = loaded.map(({ source, doc }) => {
+    const entry: PackageManifestEntry = {
+      title: source.title,
+      fileName: source.fileName,
+      fileType: source.fileType,
+      ownerId: source.ownerId,
+      signed: source.signed,
+      s3Key: source.s3Key,
+      sha256: sha256(source.buffer),
+      startPage: nextPage,
+      pageCount: doc.getPageCount()
+    };
+    nextPage += entry.pageCount;
+    return entry;
+  });
+
+  const output = await PDFDocument.create();
+  const fonts = {
+    regular: await output.embedFont(StandardFonts.Helvetica),
+    bold: await output.embedFont(StandardFonts.HelveticaBold)
+  };
+
+  drawCover(output.addPage(PAGE_SIZE), details, documents.length, fonts);
+  drawTableOfContents(
+    Array.from({ length: tocPageCount }, () => output.addPage(PAGE_SIZE)),
+    documents,
+    fonts
+  );
+
+  for (const { doc } of loaded) {
+    const pages = await output.copyPages(doc, doc.getPageIndices());
+    pages.forEach((page) => output.addPage(page));
+  }
+
+  const pageCount = output.getPageCount();
+  const stamp = printable(`Application ${details.applicationId} | Generated ${formatTimestamp(details.generatedAt)}`);
+  output.getPages().forEach((page, index) => {
+    stampPage(page, `${stamp} | Page ${index + 1} of ${pageCount}`, fonts.regular);
+  });
+
+  addBookmarks(output, [
+    { title: 'Cover', pageIndex: 0 },
+    { title: 'Contents', pageIndex: 1 },
+    ...documents.map((entry) => ({ title: entry.title, pageIndex: entry.startPage - 1 }))
+  ]);
+
+  output.setTitle(printable(`SBA Loan Application Package - ${details.businessName || details.applicationId}`));
+  output.setSubject(`Application ${details.applicationId}`);
+  output.setCreationDate(details.generatedAt);
+  output.setModificationDate(details.generatedAt);
+
+  const pdf = Buffer.from(await output.save());
+  return { pdf, sha256: sha256(pdf), pageCount, documents };
+};
+
+// What lenders get alongside the package - storage keys stay internal
+export const buildPackageManifest = (applicationId: string, finalPackage: FinalPackage) => ({
+  applicationId,
+  generatedAt: finalPackage.generatedAt,
+  package: {
+    fileName: finalPackage.fileName,
+    sha256: finalPackage.sha256,
+    size: finalPackage.size,
+    pageCount: finalPackage.pageCount
+  },
+  // Listed field by field - stored entries are Mongoose subdocuments
+  documents: finalPackage.documents.map((document) => ({
+    title: document.title,
+    fileName: document.fileName,
+    fileType: document.fileType,
+    ownerId: document.ownerId,
+    signed: document.signed,
+    sha256: document.sha256,
+    startPage: document.startPage,
+    pageCount: document.pageCount
+  }))
+});
+
+export default {
+  buildPackage,
+  buildPackageManifest,
+  sha256
+};
@@ -5,141 +5,32 @@ import {
   PDFFormField,
   PDFFormData,
   FormFillingResponse,
-  FormAnalysisResult
+  FormAnalysisResult,
+  FormType
 } from '../types';
 import { processWithLLM } from '../agents/BaseAgent.js';
+import { CheckboxGroupDefinition, getFormDefinition } from './formRegistry.js';
 
 // Initialize directories
 const TEMPLATES_DIR = path.join(process.cwd(), 'templates');
 const GENERATED_DIR = path.join(process.cwd(), 'generated');
 
-// Checkbox group mappings
-// Maps user-friendly values to PDF checkbox field names
-export const CHECKBOX_GROUPS: Record<string, {
-  description: string;
-  options: Record<string, string>; // user value -> PDF field name
-  exclusive?: boolean; // true if only one can be selected at a time
-}> = {
-  entity: {
-    description: "Type of business entity",
-    options: {
-      "LLC": "llc",
-      "C-Corp": "ccorp",
-      "S-Corp": "scorp",
-      "Partnership": "partnership",
-      "Sole Proprietor": "soleprop",
-      "Other": "etother"
-    },
-    exclusive: true
-  },
-  specialOwnershipType: {
-    description: "Special ownership type (multiple checkboxes can be selected)",
-    options: {
-      "ESOP": "ownESOP",
-      "401k": "own401k",
-      "Cooperative": "ownCooperative",
-      "Native American Tribe": "ownNATribe",
-      "Other": "ownOther"
-    }
-    // Not exclusive
-  },
-  veteranStatus: {
-    description: "Veteran status",
-    options: {
-      "Non-Veteran": "statNonVet",
-      "Veteran": "statVet",
-      "Service-Disabled Veteran": "statVetSp",
-      "Veteran with Disability": "statVetD",
-      "Veteran without Disability": "statVetND"
-    },
-    exclusive: true
-  },
-  sex: {
-    description: "Sex",
-    options: {
-      "Male": "male",
-      "Female": "female"
-    },
-    exclusive: true
-  },
-  race: {
-    description: "Race",
-    options: {
-      "American Indian or Alaska Native": "raceAIAN",
-      "Asian": "raceAsian",
-      "Black or African American": "raceBAA",
-      "Native Hawaiian or Other Pacific Islander": "raceNHPI",
-      "White": "raceWhite",
-      "Not Disclosed": "raceND"
-    },
-    exclusive: true
-  },
-  ethnicity: {
-    description: "Ethnicity",
-    options: {
-      "Hispanic or Latino": "ethHisp",
-      "Not Hispanic or Latino": "ethNot",
-      "Not Disclosed": "ethND"
-    },
-    exclusive: true
-  }
-};
-
 /**
- * Returns all checkbox field names in a group
- * @param group - The checkbox group name
- * @returns string[] of all field names in the group
+ * Checkbox groups a form declares (see formRegistry.ts)
+ * Maps user-friendly values to PDF checkbox field names
  */
-export function getGroupCheckboxes(group: string): string[] {
-  const groupConfig = CHECKBOX_GROUPS[group];
-  if (!groupConfig) return [];
-  return Object.values(groupConfig.options);
+export function getCheckboxGroups(formType: FormType): Record<string, CheckboxGroupDefinition> {
+  return getFormDefinition(formType)?.checkboxGroups || {};
 }
 
-// Form 413 Checkbox Groups
-export const CHECKBOX_GROUPS_413: Record<string, {
-  description: string;
-  options: Record<string, string>; // user value -> PDF field name
-  exclusive?: boolean;
-}> = {
-  loanProgram: {
-    description: "SBA Loan Program Type (multiple can be selected)",
-    options: {
-      "Disaster Business Loan Application (Excluding Sole Proprietorships)": "Disaster Business Loan Appliction (Excluding Sole Proprietorships)",
-      "Women Owned Small Business (WOSB) Federal Contracting Program": "Women Owned Small Business (WOSB) Federal Contracting Program",
-      "8(a) Business Development Program": "8(a) Business Development Program",
-      "7(a) loan/04 loan/Surety Bonds": "7(a) loan/04 loan/Surety Bonds"
-    }
-    // Not exclusive - multiple programs can be selected
-  },
-  businessType: {
-    description: "Type of business entity",
-    options: {
-      "Corporation": "Business Type: Corporation",
-      "S-Corp": "Business Type: S-Corp",
-      "LLC": "Business Type: LLC",
-      "Partnership": "Business Type: Partnership",
-      "Sole Proprietor": "Business Type: Sole Proprietor"
-    },
-    exclusive: true
-  },
-  wosbMaritalStatus: {
-    description: "WOSB Applicant Marital Status",
-    options: {
-      "Married": "WOSB Applicant Married Yes",
-      "Not Married": "WOSB Applicant Married No"
-    },
-    exclusive: true
-  }
-};
-
 /**
- * Returns all checkbox field names in a Form 413 group
- * @param group - The checkbox group name for Form 413
+ * Returns all checkbox field names in a group
+ * @param group - The checkbox group name
+ * @param formType - The form declaring the group
  * @returns string[] of all field names in the group
  */
-export function getGroupCheckboxes413(group: string): string[] {
-  const groupConfig = CHECKBOX_GROUPS_413[group];
+export function getGroupCheckboxes(group: string, formType: FormType = 'SBA_1919'): string[] {
+  const groupConfig = getCheckboxGroups(formType)[group];
   if (!groupConfig) return [];
   return Object.values(groupConfig.options);
 }
@@ -511,16 +402,18 @@ export const extractFormFieldValues = async (
  * Ensures mutual exclusivity - only one checkbox per group is checked
  *
  * @param form - The PDF form object
- * @param group - The checkbox group name (must exist in CHECKBOX_GROUPS)
+ * @param group - The checkbox group name (must be declared by the form)
  * @param value - The user-friendly value to select (e.g., "LLC", "C-Corp")
+ * @param formType - The form being filled
  * @returns boolean - true if successful, false otherwise
  */
 export const fillCheckboxGroup = (
   form: PDFForm,
   group: string,
-  value: string
+  value: string,
+  formType: FormType = 'SBA_1919'
 ): boolean => {
-  const groupConfig = CHECKBOX_GROUPS[group];
+  const groupConfig = getCheckboxGroups(formType)[group];
   if (!groupConfig) {
     console.warn(`⚠️ Unknown checkbox group: ${group}`);
     return false;
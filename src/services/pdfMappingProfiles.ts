@@ -0,0 +1,217 @@
+import { PDFFormData } from '../types/index.js';
+import { FieldFormat } from './formFields.js';
+import { FormDefinition, getFormDefinitions } from './formRegistry.js';
+import { formatAs } from './fieldValidation.js';
+
+// Declarative mapping from application data to a template's PDF fields. Each form's definition
+// carries a profile (pdfMapping) saying which application path fills which PDF field, so the same
+// application always produces the same PDF. The LLM is only asked about fields no profile covers.
+
+// ==============================
+// TYPES
+// ==============================
+
+// Field formats from formFields.ts, plus a few that only make sense when printing
+export type PdfValueFormat = FieldFormat | 'text' | 'upper' | 'yesNo';
+
+export interface PdfFieldRule {
+  pdfField: string;
+  source: string;             // Application path, e.g. 'applicantData.businessName' or 'owners[0].name'
+  format?: PdfValueFormat;
+  default?: string | boolean; // Printed when the source is empty
+}
+
+export interface PdfListRule {
+  source: string;             // Application path of a list, e.g. 'owners'
+  rows: number;               // Rows the PDF has room for - later items are left off
+  fields: Array<{
+    pdfField: string;         // {n} is replaced by the row number, e.g. 'ownName{n}'
+    source: string;           // Path inside the list item
+    format?: PdfValueFormat;
+  }>;
+}
+
+export interface PdfCheckboxRule {
+  group: string;              // One of the form's checkboxGroups
+  source: string;             // Application path of the selected option (or options, for non-exclusive groups)
+  values?: Record<string, string>;  // Other spellings of an option, e.g. 'C Corporation' -> 'C-Corp'
+}
+
+export interface PdfMappingProfile {
+  // The form's own fields, as the agents stored them. A field prints to the PDF field of the same
+  // name unless renamed here; omitted fields (signature widgets) are never printed
+  formFields?: {
+    source: string;
+    pdfFields?: Record<string, string>;
+    omit?: string[];
+  };
+  fields?: PdfFieldRule[];
+  lists?: PdfListRule[];
+  checkboxGroups?: PdfCheckboxRule[];
+}
+
+export interface PdfMappingResult {
+  formType: string;
+  data: PDFFormData;                  // PDF field -> value, ready for fillPDFForm
+  sources: Record<string, string>;    // PDF field -> application path the value came from
+  coveredFields: string[];            // Every PDF field the profile maps, whether or not it had a value
+}
+
+// ==============================
+// VALUES
+// ==============================
+
+/**
+ * Read a dotted application path like 'sba1919Fields.busTIN' or 'owners[1].name'
+ */
+export const resolvePath = (data: unknown, source: string): unknown => {
+  let current: any = data;
+  for (const segment of source.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === false || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Format a value for a PDF field - text that doesn't fit a format is printed as given
+ */
+export const formatPdfValue = (value: unknown, format: PdfValueFormat = 'text'): string | boolean => {
+  if (typeof value === 'boolean') {
+    return format === 'yesNo' ? (value ? 'Yes' : 'No') : value;
+  }
+
+  const text = value instanceof Date
+    ? `${String(value.getMonth() + 1).padStart(2, '0')}/${String(value.getDate()).padStart(2, '0')}/${value.getFullYear()}`
+    : String(value).trim();
+
+  switch (format) {
+    case 'text':
+      return text;
+    case 'upper':
+      return text.toUpperCase();
+    case 'yesNo':
+      return ['yes', 'true', '1', 'y'].includes(text.toLowerCase()) ? 'Yes' : 'No';
+    default:
+      return formatAs(format, text) ?? text;
+  }
+};
+
+// ==============================
+// PROFILES
+// ==============================
+
+/**
+ * The form whose template is this PDF, when its definition has a mapping profile
+ */
+export const getMappedFormForTemplate = (templateFile: string): FormDefinition | undefined =>
+  getFormDefinitions().find((form) => form.templateFile === templateFile && form.pdfMapping);
+
+const listRowField = (pdfField: string, row: number): string => pdfField.replace('{n}', String(row));
+
+/**
+ * Every PDF field a form's profile can fill
+ */
+export const getProfilePdfFields = (form: FormDefinition): string[] => {
+  const profile = form.pdfMapping;
+  if (!profile) return [];
+
+  const covered = new Set<string>();
+  if (profile.formFields) {
+    for (const field of form.fields) {
+      if (profile.formFields.omit?.includes(field.name)) continue;
+      covered.add(profile.formFields.pdfFields?.[field.name] || field.name);
+    }
+  }
+  for (const rule of profile.fields || []) covered.add(rule.pdfField);
+  for (const list of profile.lists || []) {
+    for (let row = 1; row <= list.rows; row++) {
+      for (const field of list.fields) covered.add(listRowField(field.pdfField, row));
+    }
+  }
+  for (const rule of profile.checkboxGroups || []) {
+    for (const pdfField of Object.values(form.checkboxGroups?.[rule.group]?.options || {})) covered.add(pdfField);
+  }
+
+  return [...covered];
+};
+
+/**
+ * Fill a form's PDF fields from application data using its profile
+ * Sections apply in order - form fields, lists, field rules, checkbox groups - and the first value found
+ * for a PDF field wins, so field rules act as fallbacks for values the agents haven't captured yet
+ */
+export const applyPdfMapping = (form: FormDefinition, application: Record<string, any>): PdfMappingResult => {
+  const profile = form.pdfMapping || {};
+  const data: PDFFormData = {};
+  const sources: Record<string, string> = {};
+
+  const set = (pdfField: string, value: unknown, source: string, format?: PdfValueFormat) => {
+    if (!isEmpty(data[pdfField]) || isEmpty(value)) return;
+    data[pdfField] = formatPdfValue(value, format);
+    sources[pdfField] = source;
+  };
+
+  if (profile.formFields) {
+    const { source, pdfFields, omit } = profile.formFields;
+    const values = resolvePath(application, source) as Record<string, unknown> | undefined;
+    for (const field of form.fields) {
+      if (omit?.includes(field.name)) continue;
+      set(pdfFields?.[field.name] || field.name, values?.[field.name], `${source}.${field.name}`);
+    }
+  }
+
+  for (const list of profile.lists || []) {
+    const items = resolvePath(application, list.source);
+    if (!Array.isArray(items)) continue;
+    items.slice(0, list.rows).forEach((item, index) => {
+      for (const field of list.fields) {
+        const pdfField = listRowField(field.pdfField, index + 1);
+        set(pdfField, resolvePath(item, field.source), `${list.source}[${index}].${field.source}`, field.format);
+      }
+    });
+  }
+
+  for (const rule of profile.fields || []) {
+    const value = resolvePath(application, rule.source);
+    set(rule.pdfField, isEmpty(value) ? rule.default : value, rule.source, rule.format);
+  }
+
+  for (const rule of profile.checkboxGroups || []) {
+    const group = form.checkboxGroups?.[rule.group];
+    const selected = resolvePath(application, rule.source);
+    if (!group || isEmpty(selected)) continue;
+
+    // A box the form's own fields already ticked is the agents' answer - leave the group alone
+    const options = Object.values(group.options);
+    if (options.some((pdfField) => data[pdfField] === true)) continue;
+
+    // Options and their other spellings match regardless of case
+    const lookup = (table: Record<string, string> | undefined, key: string): string | undefined =>
+      Object.entries(table || {}).find(([name]) => name.toLowerCase() === key.toLowerCase())?.[1];
+    const wanted = (Array.isArray(selected) ? selected : [selected]).map((value) => {
+      const text = String(value).trim();
+      return lookup(group.options, lookup(rule.values, text) || text);
+    }).filter((pdfField): pdfField is string => Boolean(pdfField));
+    if (wanted.length === 0) continue;
+
+    const checked = group.exclusive ? wanted.slice(0, 1) : wanted;
+    for (const pdfField of options) {
+      data[pdfField] = checked.includes(pdfField);
+      sources[pdfField] = rule.source;
+    }
+  }
+
+  return { formType: form.formType, data, sources, coveredFields: getProfilePdfFields(form) };
+};
+
+export default {
+  resolvePath,
+  formatPdfValue,
+  getMappedFormForTemplate,
+  getProfilePdfFields,
+  applyPdfMapping
+};
@@ -53,13 +53,15 @@ export const generateS3Key = (
  * @param fileName - Name of the file
  * @param buffer - File buffer
  * @param customKey - Optional custom S3 key (overrides default key generation)
+ * @param contentType - MIME type stored on the object (defaults to PDF)
  * @returns Object with S3 key and URL
  */
 export const uploadDocument = async (
   applicationId: string,
   fileName: string,
   buffer: Buffer,
-  customKey?: string
+  customKey?: string,
+  contentType: string = 'application/pdf'
 ): Promise<{ key: string; url: string }> => {
   try {
     const key = customKey || generateS3Key(applicationId, fileName);
@@ -68,7 +70,7 @@ export const uploadDocument = async (
       Bucket: BUCKET_NAME,
       Key: key,
       Body: buffer,
-      ContentType: 'application/pdf',
+      ContentType: contentType,
       Metadata: {
         applicationId,
         uploadedAt: new Date().toISOString()
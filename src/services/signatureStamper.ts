@@ -0,0 +1,237 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFForm,
+  PDFImage,
+  PDFPage,
+  PDFSignature,
+  PDFTextField,
+  StandardFonts,
+  rgb
+} from 'pdf-lib';
+import { SigningAuditEvent, SigningProviderName } from '../types/index.js';
+import { SignatureFieldDefinition } from './formRegistry.js';
+import { formatTimestamp, printable, sha256 } from './packageBuilder.js';
+
+// Puts a captured signature on a draft: the typed name or drawn image goes into the form's signature
+// widgets and the signing date into its date fields, then the form is flattened and a certificate
+// page with the request's audit trail is appended.
+
+// ==============================
+// TYPES
+// ==============================
+
+export interface SignatureMark {
+  method: 'typed' | 'drawn';
+  typedName?: string;
+  image?: Buffer;             // PNG, for drawn signatures
+  signedAt: Date;
+}
+
+export interface SignatureCertificate {
+  requestId: string;
+  provider: SigningProviderName;
+  documentTitle: string;
+  signer: { name: string; email?: string };
+  audit: SigningAuditEvent[];
+}
+
+export interface SignedPdf {
+  pdf: Buffer;
+  sha256: string;
+  fieldsSigned: string[];
+}
+
+// ==============================
+// LAYOUT
+// ==============================
+
+const PAGE_SIZE: [number, number] = [612, 792];   // US Letter
+const MARGIN = 72;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.35, 0.35, 0.35);
+const INK_COLOR = rgb(0.05, 0.1, 0.35);
+
+// Signature dates go on the form the way the SBA prints them
+const formatSigningDate = (date: Date): string =>
+  `${String(date.getUTCMonth() + 1).padStart(2, '0')}/${String(date.getUTCDate()).padStart(2, '0')}/${date.getUTCFullYear()}`;
+
+// Cut text down to what fits on one line
+const fitText = (text: string, font: PDFFont, size: number, width: number): string => {
+  const full = printable(text);
+  if (font.widthOfTextAtSize(full, size) <= width) return full;
+
+  let fitted = full;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// ==============================
+// SIGNATURE FIELDS
+// ==============================
+
+/**
+ * The signature widgets to sign and the date fields that go with them - the form's declared
+ * signature fields, or every signature widget in the PDF
+ */
+const getSignatureTargets = (form: PDFForm, declared?: SignatureFieldDefinition[]): SignatureFieldDefinition[] => {
+  if (declared && declared.length > 0) return declared;
+  return form.getFields()
+    .filter((field) => field instanceof PDFSignature)
+    .map((field) => ({ pdfField: field.getName() }));
+};
+
+const drawSignature = (
+  page: PDFPage,
+  rect: { x: number; y: number; width: number; height: number },
+  mark: SignatureMark,
+  ink: { image?: PDFImage; font: PDFFont }
+) => {
+  if (ink.image) {
+    const scale = Math.min(rect.width / ink.image.width, rect.height / ink.image.height);
+    const height = ink.image.height * scale;
+    page.drawImage(ink.image, {
+      x: rect.x + 2,
+      y: rect.y + (rect.height - height) / 2,
+      width: ink.image.width * scale,
+      height
+    });
+    return;
+  }
+
+  const text = printable(mark.typedName || '');
+  const size = Math.min(rect.height * 0.7, (rect.width - 4) / Math.max(ink.font.widthOfTextAtSize(text, 1), 1));
+  page.drawText(text, {
+    x: rect.x + 2,
+    y: rect.y + (rect.height - size) / 2 + size * 0.2,
+    size,
+    font: ink.font,
+    color: INK_COLOR
+  });
+};
+
+// ==============================
+// CERTIFICATE PAGE
+// ==============================
+
+const addCertificatePage = (
+  doc: PDFDocument,
+  certificate: SignatureCertificate,
+  details: { originalSha256: string; mark: SignatureMark },
+  fonts: { regular: PDFFont; bold: PDFFont }
+) => {
+  const width = PAGE_SIZE[0] - MARGIN * 2;
+  let page = doc.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const line = (text: string, options: { size?: number; font?: PDFFont; color?: typeof TEXT_COLOR; gap?: number } = {}) => {
+    const size = options.size ?? 10;
+    if (y < MARGIN) {
+      page = doc.addPage(PAGE_SIZE);
+      y = PAGE_SIZE[1] - MARGIN;
+    }
+    const font = options.font ?? fonts.regular;
+    page.drawText(fitText(text, font, size, width), { x: MARGIN, y, size, font, color: options.color ?? TEXT_COLOR });
+    y -= size + (options.gap ?? 6);
+  };
+
+  line('Signature Certificate', { size: 20, font: fonts.bold, gap: 20 });
+  line(`Document: ${certificate.documentTitle}`);
+  line(`Document SHA-256 before signing: ${details.originalSha256}`, { size: 8 });
+  line(`Signing request: ${certificate.requestId} (${certificate.provider})`, { gap: 16 });
+
+  line('Signer', { size: 13, font: fonts.bold, gap: 8 });
+  line(`Name: ${certificate.signer.name}`);
+  if (certificate.signer.email) line(`Email: ${certificate.signer.email}`);
+  line(details.mark.method === 'typed'
+    ? `Signature: typed as "${details.mark.typedName}"`
+    : 'Signature: drawn by the signer');
+  line(`Signed: ${formatTimestamp(details.mark.signedAt)}`, { gap: 16 });
+
+  line('Audit trail', { size: 13, font: fonts.bold, gap: 8 });
+  for (const event of certificate.audit) {
+    const source = event.ip ? ` from ${event.ip}` : '';
+    line(`${formatTimestamp(new Date(event.at))}  ${event.action}${source}${event.detail ? ` - ${event.detail}` : ''}`, { gap: 2 });
+    if (event.userAgent) line(event.userAgent, { size: 7, color: MUTED_COLOR, gap: 2 });
+    y -= 6;
+  }
+
+  y -= 10;
+  line('The signer agreed to sign electronically. Times are UTC.', { size: 8, color: MUTED_COLOR });
+};
+
+// ==============================
+// SIGN
+// ==============================
+
+/**
+ * Sign a draft PDF and append its certificate page
+ * Throws when the PDF has none of the signature fields, rather than returning an unsigned form
+ */
+export const signPdf = async (
+  pdf: Buffer,
+  mark: SignatureMark,
+  certificate: SignatureCertificate,
+  signatureFields?: SignatureFieldDefinition[]
+): Promise<SignedPdf> => {
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(pdf);
+  } catch (error) {
+    throw new Error(`Failed to read ${certificate.documentTitle}: ${error instanceof Error ? error.message : 'not a PDF'}`);
+  }
+
+  const form = doc.getForm();
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold)
+  };
+  let image: PDFImage | undefined;
+  if (mark.method === 'drawn') {
+    if (!mark.image) throw new Error('A drawn signature needs an image');
+    try {
+      image = await doc.embedPng(mark.image);
+    } catch {
+      throw new Error('Invalid signature image: it must be a PNG');
+    }
+  }
+  const ink = { image, font: await doc.embedFont(StandardFonts.TimesRomanItalic) };
+
+  const fieldsSigned: string[] = [];
+  for (const target of getSignatureTargets(form, signatureFields)) {
+    const field = form.getFieldMaybe(target.pdfField);
+    if (!(field instanceof PDFSignature)) {
+      console.warn(`⚠️ ${certificate.documentTitle} has no signature field ${target.pdfField}`);
+      continue;
+    }
+
+    for (const widget of field.acroField.getWidgets()) {
+      const ref = doc.context.getObjectRef(widget.dict);
+      const page = (ref && doc.findPageForAnnotationRef(ref)) || doc.getPages().find((candidate) => candidate.ref === widget.P());
+      if (page) drawSignature(page, widget.getRectangle(), mark, ink);
+    }
+
+    if (target.dateField) {
+      const dateField = form.getFieldMaybe(target.dateField);
+      if (dateField instanceof PDFTextField) dateField.setText(formatSigningDate(mark.signedAt));
+    }
+    fieldsSigned.push(target.pdfField);
+  }
+
+  if (fieldsSigned.length === 0) {
+    throw new Error(`${certificate.documentTitle} has no signature fields to sign`);
+  }
+
+  form.flatten();
+  addCertificatePage(doc, certificate, { originalSha256: sha256(pdf), mark }, fonts);
+  doc.setModificationDate(mark.signedAt);
+
+  const signed = Buffer.from(await doc.save());
+  return { pdf: signed, sha256: sha256(signed), fieldsSigned };
+};
+
+export default {
+  signPdf
+};
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { SigningProviderName, SigningRequestRecord, SigningWebhookEvent } from '../types/index.js';
+import { DASHBOARD_URL } from './emailTemplateService.js';
+
+// Signing providers behind one interface. The built-in local provider hands out a signing link and
+// the signature is captured by our own signing page; hosted providers (DocuSign, Dropbox Sign) are
+// adapters that send the envelope themselves and report back through webhooks.
+
+// ==============================
+// TYPES
+// ==============================
+
+export interface SigningDispatch {
+  providerRequestId: string;  // The provider's id for the envelope - webhooks refer to it
+  signingUrl?: string;        // Where the signer signs, when the provider gives us a link
+  accessToken?: string;       // Secret in the signing link; only its hash is kept
+}
+
+// A webhook delivery as it arrived - adapters verify it against the raw body
+export interface SigningWebhookDelivery {
+  rawBody: Buffer;
+  headers: IncomingHttpHeaders;
+  ip?: string;
+}
+
+export interface SigningProvider {
+  name: SigningProviderName;
+
+  // Send the documents out for signature
+  createRequest(
+    request: SigningRequestRecord,
+    documents: Array<{ fileName: string; buffer: Buffer }>
+  ): Promise<SigningDispatch>;
+
+  // Void the envelope at the provider
+  cancelRequest?(request: SigningRequestRecord): Promise<void>;
+
+  // Verify and translate a webhook delivery; throws 'Invalid webhook signature' when it doesn't verify
+  parseWebhook?(delivery: SigningWebhookDelivery): Promise<SigningWebhookEvent[]>;
+
+  // The signed copies, in the request's document order, once the provider reports completion
+  downloadSignedDocuments?(request: SigningRequestRecord): Promise<Buffer[]>;
+}
+
+// ==============================
+// LOCAL PROVIDER
+// ==============================
+
+const SIGNING_BASE_URL = process.env.SIGNING_BASE_URL || `${DASHBOARD_URL}/sign`;
+
+// Signing happens on our own page, so there's nothing to send, cancel or hear back about
+export const localSigningProvider: SigningProvider = {
+  name: 'local',
+
+  createRequest: async (request) => {
+    const accessToken = crypto.randomBytes(32).toString('base64url');
+    return {
+      providerRequestId: String(request._id),
+      accessToken,
+      signingUrl: `${SIGNING_BASE_URL}/${accessToken}`
+    };
+  }
+};
+
+// ==============================
+// REGISTRY
+// ==============================
+
+const providers = new Map<SigningProviderName, SigningProvider>([
+  ['local', localSigningProvider]
+]);
+
+/**
+ * Add a provider adapter, replacing any registered under the same name
+ */
+export const registerSigningProvider = (provider: SigningProvider): SigningProvider => {
+  providers.set(provider.name, provider);
+  return provider;
+};
+
+export const getSigningProvider = (name: string): SigningProvider => {
+  const provider = providers.get(name as SigningProviderName);
+  if (!provider) {
+    throw new Error(`Signing provider ${name} is not configured`);
+  }
+  return provider;
+};
+
+export const getSigningProviderNames = (): SigningProviderName[] => [...providers.keys()];
+
+export default {
+  localSigningProvider,
+  registerSigningProvider,
+  getSigningProvider,
+  getSigningProviderNames
+};
@@ -0,0 +1,587 @@
+import { isValidObjectId } from 'mongoose';
+import { Application } from '../models/Application.js';
+import { SigningRequest } from '../models/SigningRequest.js';
+import {
+  SBAApplication,
+  SignatureCapture,
+  SigningAuditEvent,
+  SigningDocument,
+  SigningRequestRecord,
+  SigningRequestStatus
+} from '../types/index.js';
+import { markDraftDocumentAsSigned } from './applicationService.js';
+import { downloadDocument, generatePresignedUrl, generateS3Key, uploadDocumentWithRetry } from './s3Service.js';
+import { getFormDefinition, getFormLabel } from './formRegistry.js';
+import { sha256 } from './packageBuilder.js';
+import { signPdf } from './signatureStamper.js';
+import { getSigningProvider, SigningWebhookDelivery } from './signingProviders.js';
+import { notifySignatureRequested } from './lifecycleEmailService.js';
+
+// Signing requests: a set of an application's drafts sent to one signer through a provider. However
+// the signature is captured, a completed request ends the same way - the signed copies are stored and
+// each draft is marked signed, which also signs for the owner a Form 413 belongs to.
+
+const SIGNING_LINK_TTL_DAYS = Number(process.env.SIGNING_LINK_TTL_DAYS) || 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SIGNATURE_IMAGE_BYTES = 512 * 1024;
+const PREVIEW_URL_EXPIRATION = 60 * 60;   // 1 hour
+
+// Statuses a request can still be signed, declined or cancelled in
+const OPEN_STATUSES: SigningRequestStatus[] = ['pending', 'viewed'];
+// A request being signed is no longer open to the signer, but it still holds its documents
+const IN_PROGRESS_STATUSES: SigningRequestStatus[] = [...OPEN_STATUSES, 'signing'];
+
+export interface SignerContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SignatureInput {
+  method?: unknown;
+  typedName?: unknown;
+  image?: unknown;            // PNG data URL (or bare base64) from the signature pad
+  consent?: unknown;
+}
+
+const hashAccessToken = (token: string): string => sha256(Buffer.from(token));
+
+const isOpen = (request: SigningRequestRecord): boolean => OPEN_STATUSES.includes(request.status);
+
+const documentTitle = (document: SigningDocument, application?: SBAApplication | null): string => {
+  const owner = document.ownerId
+    ? (application?.owners || []).find((candidate) => String(candidate._id) === document.ownerId)
+    : undefined;
+  return owner ? `${getFormLabel(document.fileType)} - ${owner.name}` : getFormLabel(document.fileType);
+};
+
+const addAuditEvent = (request: SigningRequestRecord, event: SigningAuditEvent) => {
+  request.audit.push(event);
+  request.markModified('audit');
+};
+
+/**
+ * Record a request ending without a signature, and reflect it on the signing owner and the application
+ */
+const endWithoutSignature = async (
+  request: SigningRequestRecord,
+  outcome: 'declined' | 'expired' | 'cancelled',
+  event: Omit<SigningAuditEvent, 'action'>
+) => {
+  request.status = outcome;
+  if (outcome === 'declined') request.declineReason = event.detail;
+  addAuditEvent(request, { action: outcome, ...event });
+  await request.save();
+
+  const application = await Application.findById(request.applicationId);
+  if (!application) return;
+
+  const owner = (application.owners || []).find((candidate) => String(candidate._id) === request.signer.ownerId);
+  if (owner && owner.signingStatus !== 'completed') {
+    owner.signingStatus = outcome === 'declined' ? 'declined' : 'not_started';
+    application.markModified('owners');
+  }
+
+  // Another signer may still be working through their own request
+  const othersOpen = await SigningRequest.exists({
+    applicationId: request.applicationId,
+    status: { $in: IN_PROGRESS_STATUSES },
+    _id: { $ne: request._id }
+  });
+  if (application.signingStatus !== 'completed' && !othersOpen) {
+    application.signingStatus = outcome === 'cancelled' ? 'not_started' : outcome;
+  }
+
+  await application.save();
+};
+
+/**
+ * Store the signed copies and mark each draft signed
+ * Every copy is uploaded before any draft is marked, so a failed upload leaves the request open to retry
+ */
+const completeSigningRequest = async (
+  request: SigningRequestRecord,
+  signedPdfs: Buffer[],
+  signedAt: Date
+): Promise<SigningRequestRecord> => {
+  if (signedPdfs.length !== request.documents.length) {
+    throw new Error(`Expected ${request.documents.length} signed documents, got ${signedPdfs.length}`);
+  }
+
+  const requestId = String(request._id);
+  const uploads = [];
+  for (const [index, document] of request.documents.entries()) {
+    uploads.push(await uploadDocumentWithRetry(
+      request.applicationId,
+      document.fileName,
+      signedPdfs[index],
+      generateS3Key(request.applicationId, `signed/${requestId}/${document.fileName}`)
+    ));
+  }
+
+  for (const [index, document] of request.documents.entries()) {
+    await markDraftDocumentAsSigned(request.applicationId, {
+      s3Key: document.s3Key,
+      signedBy: request.signer.name,
+      signingProvider: request.provider,
+      signingRequestId: requestId,
+      signedAt,
+      signedS3Key: uploads[index].key,
+      signedS3Url: uploads[index].url
+    });
+    document.signedS3Key = uploads[index].key;
+    document.signedSha256 = sha256(signedPdfs[index]);
+  }
+  request.markModified('documents');
+
+  request.status = 'completed';
+  request.completedAt = new Date();
+  addAuditEvent(request, { action: 'completed', at: request.completedAt });
+  await request.save();
+
+  console.log(`✍️ Signing request ${requestId} completed: ${request.documents.length} document(s) signed by ${request.signer.name}`);
+  return request;
+};
+
+// ==============================
+// REQUESTS
+// ==============================
+
+/**
+ * Send drafts for signature
+ * Without fileNames, the signer gets every unsigned draft that is theirs - an owner's Form 413s, or
+ * the application-level forms when no owner is given
+ */
+export const createSigningRequest = async (
+  applicationId: string,
+  options: {
+    signerName?: string;
+    signerEmail?: string;
+    ownerId?: string;
+    fileNames?: string[];
+    provider?: string;
+    createdBy?: string;
+    notify?: boolean;
+  }
+): Promise<{ request: SigningRequestRecord; signingUrl?: string }> => {
+  const provider = getSigningProvider(options.provider || 'local');
+
+  const application = await Application.findById(applicationId);
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const owner = options.ownerId
+    ? (application.owners || []).find((candidate) => String(candidate._id) === options.ownerId)
+    : undefined;
+  if (options.ownerId && !owner) {
+    throw new Error('Owner not found');
+  }
+
+  const signerName = (options.signerName || owner?.name || '').trim();
+  if (!signerName) {
+    throw new Error('Signer name is required');
+  }
+
+  // An owner signs for themselves - the link goes only to them, never back to whoever asked
+  if (owner) {
+    if (signerName.toLowerCase() !== owner.name.trim().toLowerCase()) {
+      throw new Error('Signer name must match the owner\'s name');
+    }
+    if (!owner.email) {
+      throw new Error('Owner email is required to send them documents to sign');
+    }
+    if (options.signerEmail && options.signerEmail.trim().toLowerCase() !== owner.email.trim().toLowerCase()) {
+      throw new Error('Signer email must match the owner\'s email');
+    }
+  }
+
+  const drafts = application.draftDocuments || [];
+  if (drafts.length === 0) {
+    throw new Error('No draft documents found');
+  }
+
+  const selected = options.fileNames && options.fileNames.length > 0
+    ? options.fileNames.map((fileName) => {
+      const draft = drafts.find((doc) => doc.fileName === fileName);
+      if (!draft) throw new Error(`Draft document not found: ${fileName}`);
+      return draft;
+    })
+    : drafts.filter((doc) => !doc.signed && (owner ? doc.ownerId === options.ownerId : !doc.ownerId));
+
+  if (selected.length === 0) {
+    throw new Error('No unsigned documents to sign');
+  }
+  // An owner signs only their own drafts, and an application-level signer none of the owners'
+  const notTheSigners = selected.filter((doc) => (owner ? doc.ownerId !== options.ownerId : Boolean(doc.ownerId)));
+  if (notTheSigners.length > 0) {
+    throw new Error(`${notTheSigners.map((doc) => doc.fileName).join(', ')} can't be signed by this signer`);
+  }
+  const alreadySigned = selected.filter((doc) => doc.signed);
+  if (alreadySigned.length > 0) {
+    throw new Error(`${alreadySigned.map((doc) => doc.fileName).join(', ')} is already signed`);
+  }
+
+  const open = await SigningRequest.findOne({
+    applicationId,
+    status: { $in: IN_PROGRESS_STATUSES },
+    'documents.s3Key': { $in: selected.map((doc) => doc.s3Key) }
+  }).select('_id').exec();
+  if (open) {
+    throw new Error(`These documents already have an open signing request (${open._id}) - cancel it first`);
+  }
+
+  const buffers: Array<{ fileName: string; buffer: Buffer }> = [];
+  for (const draft of selected) {
+    buffers.push({ fileName: draft.fileName, buffer: await downloadDocument(draft.s3Key) });
+  }
+
+  const createdAt = new Date();
+  const request = new SigningRequest({
+    applicationId,
+    provider: provider.name,
+    status: 'pending',
+    signer: {
+      name: signerName,
+      email: options.signerEmail || owner?.email,
+      ownerId: options.ownerId
+    },
+    documents: selected.map((draft, index) => ({
+      fileName: draft.fileName,
+      fileType: draft.fileType,
+      s3Key: draft.s3Key,
+      sha256: sha256(buffers[index].buffer),
+      ownerId: draft.ownerId
+    })),
+    expiresAt: new Date(createdAt.getTime() + SIGNING_LINK_TTL_DAYS * DAY_MS),
+    audit: [{ action: 'created', at: createdAt, detail: options.createdBy ? `by ${options.createdBy}` : undefined }],
+    createdBy: options.createdBy
+  });
+
+  try {
+    await request.save();
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+    throw error;
+  }
+
+  let dispatch;
+  try {
+    dispatch = await provider.createRequest(request, buffers);
+  } catch (error) {
+    await SigningRequest.deleteOne({ _id: request._id }).exec();
+    throw new Error(`Failed to send for signature: ${error instanceof Error ? error.message : error}`);
+  }
+
+  request.providerRequestId = dispatch.providerRequestId;
+  if (dispatch.accessToken) request.accessTokenHash = hashAccessToken(dispatch.accessToken);
+  addAuditEvent(request, { action: 'sent', at: new Date(), detail: `via ${provider.name}` });
+  await request.save();
+
+  if (owner && owner.signingStatus !== 'completed') {
+    owner.signingStatus = 'pending';
+    application.markModified('owners');
+  }
+  application.signingStatus = 'pending';
+  application.signingProvider = provider.name;
+  application.signingRequestId = String(request._id);
+  await application.save();
+
+  if (dispatch.signingUrl && (owner || options.notify !== false)) {
+    notifySignatureRequested(application, request.signer, {
+      signingUrl: dispatch.signingUrl,
+      expiresAt: request.expiresAt,
+      documents: request.documents.map((document) => documentTitle(document, application))
+    }).catch((error) => console.error('Failed to send signature request email:', error));
+  }
+
+  console.log(`✍️ Signing request ${request._id} sent to ${signerName} via ${provider.name} (${request.documents.length} document(s))`);
+  return { request, signingUrl: dispatch.signingUrl };
+};
+
+export const getSigningRequests = async (applicationId: string) => {
+  return SigningRequest.find({ applicationId }).sort({ createdAt: -1 }).exec();
+};
+
+export const getSigningRequest = async (applicationId: string, requestId: string) => {
+  if (!isValidObjectId(requestId)) return null;
+  return SigningRequest.findOne({ _id: requestId, applicationId }).exec();
+};
+
+export const cancelSigningRequest = async (
+  applicationId: string,
+  requestId: string,
+  options: { reason?: string; cancelledBy?: string } = {}
+): Promise<SigningRequestRecord> => {
+  const request = await getSigningRequest(applicationId, requestId);
+  if (!request) {
+    throw new Error('Signing request not found');
+  }
+  if (!isOpen(request)) {
+    throw new Error(`Signing request is already ${request.status}`);
+  }
+
+  await getSigningProvider(request.provider).cancelRequest?.(request);
+
+  const detail = [options.reason, options.cancelledBy && `by ${options.cancelledBy}`].filter(Boolean).join(' ');
+  await endWithoutSignature(request, 'cancelled', { at: new Date(), detail: detail || undefined });
+  return request;
+};
+
+// ==============================
+// SIGNING LINK (LOCAL PROVIDER)
+// ==============================
+
+/**
+ * The request behind a signing link; a link past its expiry is refused whatever the request's status,
+ * and an open request is expired on the way
+ */
+const findByAccessToken = async (token: string): Promise<SigningRequestRecord> => {
+  const request = token
+    ? await SigningRequest.findOne({ accessTokenHash: hashAccessToken(token) }).exec()
+    : null;
+  if (!request) {
+    throw new Error('Signing link not found');
+  }
+
+  if (request.expiresAt.getTime() < Date.now()) {
+    if (isOpen(request)) {
+      await endWithoutSignature(request, 'expired', { at: new Date() });
+    }
+    throw new Error('Signing link has expired');
+  }
+  return request;
+};
+
+const requireOpen = (request: SigningRequestRecord) => {
+  if (request.status === 'expired') {
+    throw new Error('Signing link has expired');
+  }
+  if (!isOpen(request)) {
+    throw new Error(`Signing request is already ${request.status}`);
+  }
+};
+
+// What the signing page shows - never the application beyond the documents being signed
+const toSignerView = async (request: SigningRequestRecord) => {
+  const application = await Application.findById(request.applicationId).select('owners applicantData.businessName').exec();
+
+  return {
+    requestId: String(request._id),
+    status: request.status,
+    businessName: application?.applicantData?.businessName,
+    signer: { name: request.signer.name, email: request.signer.email },
+    expiresAt: request.expiresAt,
+    completedAt: request.completedAt,
+    documents: await Promise.all(request.documents.map(async (document) => ({
+      title: documentTitle(document, application),
+      fileName: document.fileName,
+      signed: Boolean(document.signedS3Key),
+      url: await generatePresignedUrl(document.signedS3Key || document.s3Key, PREVIEW_URL_EXPIRATION)
+    })))
+  };
+};
+
+export type SignerView = Awaited<ReturnType<typeof toSignerView>>;
+
+export const openSigningRequest = async (token: string, context: SignerContext): Promise<SignerView> => {
+  const request = await findByAccessToken(token);
+
+  if (request.status === 'pending') {
+    request.status = 'viewed';
+    addAuditEvent(request, { action: 'viewed', at: new Date(), ...context });
+    await request.save();
+  }
+  return toSignerView(request);
+};
+
+const decodeSignatureImage = (image: unknown): Buffer => {
+  if (typeof image !== 'string' || image.trim() === '') {
+    throw new Error('Invalid signature image: a PNG data URL is required');
+  }
+  const base64 = image.replace(/^data:image\/png;base64,/, '');
+  const buffer = Buffer.from(base64, 'base64');
+  if (buffer.length === 0 || buffer.length > MAX_SIGNATURE_IMAGE_BYTES) {
+    throw new Error(`Invalid signature image: it must be a PNG under ${MAX_SIGNATURE_IMAGE_BYTES / 1024}KB`);
+  }
+  return buffer;
+};
+
+// Stamp the claimed request's documents with the signature and store the signed copies
+const signAndComplete = async (
+  request: SigningRequestRecord,
+  input: { method: SignatureCapture['method']; typedName: string; image?: Buffer },
+  context: SignerContext
+) => {
+  const { method, typedName, image } = input;
+  const application = await Application.findById(request.applicationId);
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  // Regenerated drafts replace the ones that were sent - those need a new request
+  const currentDrafts = new Set((application.draftDocuments || []).map((doc) => doc.s3Key));
+  const originals: Buffer[] = [];
+  for (const document of request.documents) {
+    const original = currentDrafts.has(document.s3Key) ? await downloadDocument(document.s3Key) : null;
+    if (!original || sha256(original) !== document.sha256) {
+      throw new Error(`${document.fileName} changed after it was sent for signature - a new signing request is needed`);
+    }
+    originals.push(original);
+  }
+
+  const signedAt = new Date();
+  request.signature = {
+    method,
+    typedName: typedName || undefined,
+    imageSha256: image ? sha256(image) : undefined,
+    signedAt,
+    ...context
+  };
+  addAuditEvent(request, {
+    action: 'signed',
+    at: signedAt,
+    ...context,
+    detail: method === 'typed' ? `typed "${typedName}"` : 'drawn'
+  });
+
+  const signedPdfs: Buffer[] = [];
+  for (const [index, document] of request.documents.entries()) {
+    const signed = await signPdf(
+      originals[index],
+      { method, typedName, image, signedAt },
+      {
+        requestId: String(request._id),
+        provider: request.provider,
+        documentTitle: `${documentTitle(document, application)} (${document.fileName})`,
+        signer: { name: request.signer.name, email: request.signer.email },
+        audit: request.audit
+      },
+      getFormDefinition(document.fileType)?.signatureFields
+    );
+    signedPdfs.push(signed.pdf);
+  }
+
+  await completeSigningRequest(request, signedPdfs, signedAt);
+};
+
+/**
+ * Sign every document in the request with a typed or drawn signature
+ * The signer's IP, user agent and the time are recorded and printed on each document's certificate page
+ */
+export const submitSignature = async (
+  token: string,
+  input: SignatureInput,
+  context: SignerContext
+): Promise<SignerView> => {
+  if (input.consent !== true) {
+    throw new Error('Consent to sign electronically is required');
+  }
+  if (input.method !== 'typed' && input.method !== 'drawn') {
+    throw new Error('Signature method must be typed or drawn');
+  }
+  const method = input.method;
+  const typedName = typeof input.typedName === 'string' ? input.typedName.trim() : '';
+  if (method === 'typed' && !typedName) {
+    throw new Error('Type your full name to sign');
+  }
+  const image = method === 'drawn' ? decodeSignatureImage(input.image) : undefined;
+
+  const found = await findByAccessToken(token);
+  requireOpen(found);
+
+  // Claim the request first so a second submission or a decline can't run alongside this one
+  const request = await SigningRequest.findOneAndUpdate(
+    { _id: found._id, status: { $in: OPEN_STATUSES } },
+    { $set: { status: 'signing' } },
+    { new: true }
+  ).exec();
+  if (!request) {
+    throw new Error('Signing request is already being signed');
+  }
+
+  try {
+    await signAndComplete(request, { method, typedName, image }, context);
+  } catch (error) {
+    // Hand the request back so the signer can try again
+    await SigningRequest.updateOne({ _id: request._id, status: 'signing' }, { $set: { status: found.status } }).exec();
+    throw error;
+  }
+  return toSignerView(request);
+};
+
+export const declineSigningRequest = async (
+  token: string,
+  reason: string | undefined,
+  context: SignerContext
+): Promise<SignerView> => {
+  const request = await findByAccessToken(token);
+  requireOpen(request);
+
+  await endWithoutSignature(request, 'declined', { at: new Date(), ...context, detail: reason?.trim() || undefined });
+  return toSignerView(request);
+};
+
+// ==============================
+// PROVIDER WEBHOOKS
+// ==============================
+
+/**
+ * Apply the status changes in a provider's webhook delivery
+ * Redelivered events for a request that has already ended change nothing
+ */
+export const handleSigningWebhook = async (
+  providerName: string,
+  delivery: SigningWebhookDelivery
+): Promise<{ received: number; applied: number }> => {
+  const provider = getSigningProvider(providerName);
+  if (!provider.parseWebhook) {
+    throw new Error(`Signing provider ${provider.name} does not send webhooks`);
+  }
+
+  const events = await provider.parseWebhook(delivery);
+  let applied = 0;
+
+  for (const event of events) {
+    const request = await SigningRequest.findOne({
+      provider: provider.name,
+      providerRequestId: event.providerRequestId
+    }).exec();
+
+    if (!request) {
+      console.warn(`⚠️ ${provider.name} webhook for unknown signing request ${event.providerRequestId}`);
+      continue;
+    }
+    if (!isOpen(request)) continue;
+
+    const details = { at: event.occurredAt, ip: event.ip, detail: event.detail };
+    if (event.status === 'viewed') {
+      request.status = 'viewed';
+      addAuditEvent(request, { action: 'viewed', ...details });
+      await request.save();
+    } else if (event.status === 'completed') {
+      if (!provider.downloadSignedDocuments) {
+        throw new Error(`Signing provider ${provider.name} can't return signed documents`);
+      }
+      addAuditEvent(request, { action: 'signed', ...details });
+      await completeSigningRequest(request, await provider.downloadSignedDocuments(request), event.occurredAt);
+    } else {
+      await endWithoutSignature(request, event.status, details);
+    }
+    applied++;
+  }
+
+  return { received: events.length, applied };
+};
+
+export default {
+  createSigningRequest,
+  getSigningRequests,
+  getSigningRequest,
+  cancelSigningRequest,
+  openSigningRequest,
+  submitSignature,
+  declineSigningRequest,
+  handleSigningWebhook
+};
@@ -0,0 +1,223 @@
+import {
+  SBAEligibilityRequestBuyer,
+  SBAEligibilityRequestOwner,
+  EligibilityEvaluation,
+  EligibilityProfile,
+  EligibilityScenario,
+  EligibilitySnapshot,
+  EligibilitySimulationResult,
+  ScenarioResult,
+  TierUpgrade,
+  TierUpgradeUnit,
+  ApprovalChanceTier,
+  ResolvedUnderwritingRuleset
+} from '../types/index.js';
+import { evaluateBuyerEligibility, evaluateOwnerEligibility } from './eligibilityService.js';
+import { DEFAULT_UNDERWRITING_RULESET } from './underwritingService.js';
+
+const TIER_ORDER: ApprovalChanceTier[] = ['Ineligible', 'Very Low', 'Low', 'Medium', 'High'];
+
+// A lever is a single numeric field we can nudge to look for the next tier.
+// step/limit are derived from the baseline value so searches stay bounded. A step is one
+// comparable unit of effort (1% of a dollar amount, 5 credit points, 1 point of seller
+// financing), so levers in different units are ranked by how many steps they need.
+interface Lever {
+  field: string;
+  unit: TierUpgradeUnit;
+  direction: 1 | -1;
+  step: (baseline: number, profile: Record<string, any>) => number;
+  limit: (baseline: number, profile: Record<string, any>) => number;
+}
+
+const BUYER_LEVERS: Lever[] = [
+  {
+    field: 'availableCash',
+    unit: 'dollars',
+    direction: 1,
+    step: (_baseline, profile) => (Number(profile.purchasePrice) || 0) * 0.01,
+    limit: (_baseline, profile) => Number(profile.purchasePrice) || 0
+  },
+  {
+    field: 'purchasePrice',
+    unit: 'dollars',
+    direction: -1,
+    step: (baseline) => baseline * 0.01,
+    limit: (baseline) => baseline * 0.5
+  },
+  {
+    field: 'buyerCreditScore',
+    unit: 'points',
+    direction: 1,
+    step: () => 5,
+    limit: () => 850
+  },
+  {
+    field: 'businessCashFlow',
+    unit: 'dollars',
+    direction: 1,
+    step: (baseline) => baseline * 0.01,
+    limit: (baseline) => baseline * 2
+  },
+  {
+    field: 'sellerFinancingPercentage',
+    unit: 'percent',
+    direction: 1,
+    step: () => 1,
+    limit: () => 50
+  }
+];
+
+const OWNER_LEVERS: Lever[] = [
+  {
+    field: 'requestedLoanAmount',
+    unit: 'dollars',
+    direction: -1,
+    step: (baseline) => baseline * 0.01,
+    limit: (baseline) => baseline * 0.1
+  },
+  {
+    field: 'ownerCreditScore',
+    unit: 'points',
+    direction: 1,
+    step: () => 5,
+    limit: () => 850
+  },
+  {
+    field: 'monthlyRevenue',
+    unit: 'dollars',
+    direction: 1,
+    step: (baseline) => baseline * 0.01,
+    limit: (baseline) => baseline * 2
+  },
+  {
+    field: 'monthlyExpenses',
+    unit: 'dollars',
+    direction: -1,
+    step: (baseline) => baseline * 0.01,
+    limit: (baseline) => baseline * 0.5
+  },
+  {
+    field: 'existingDebtPayment',
+    unit: 'dollars',
+    direction: -1,
+    step: (baseline) => baseline * 0.05,
+    limit: () => 0
+  }
+];
+
+const MAX_LEVER_STEPS = 200;
+
+const evaluateProfile = (
+  userType: 'buyer' | 'owner',
+  profile: Record<string, any>,
+  ruleset: ResolvedUnderwritingRuleset
+): EligibilityEvaluation => {
+  return userType === 'buyer'
+    ? evaluateBuyerEligibility(profile as SBAEligibilityRequestBuyer, ruleset)
+    : evaluateOwnerEligibility(profile as SBAEligibilityRequestOwner, ruleset);
+};
+
+const toSnapshot = (evaluation: EligibilityEvaluation): EligibilitySnapshot => ({
+  score: evaluation.score,
+  chance: evaluation.chance,
+  approvalChance: evaluation.approvalChance,
+  eligible: evaluation.eligible,
+  rejected: evaluation.rejected,
+  dscr: evaluation.metrics.dscr
+});
+
+const tierIndex = (tier: ApprovalChanceTier): number => TIER_ORDER.indexOf(tier);
+
+// Walk one lever away from the baseline until the tier improves (or the limit is hit)
+const findTierUpgrade = (
+  userType: 'buyer' | 'owner',
+  profile: Record<string, any>,
+  lever: Lever,
+  baselineTier: number,
+  ruleset: ResolvedUnderwritingRuleset
+): TierUpgrade | null => {
+  const from = Number(profile[lever.field]) || 0;
+  const limit = lever.limit(from, profile);
+  const step = lever.step(from, profile);
+
+  if (!(step > 0)) {
+    return null;
+  }
+
+  for (let i = 1; i <= MAX_LEVER_STEPS; i++) {
+    const candidate = lever.direction === 1
+      ? Math.min(limit, from + step * i)
+      : Math.max(limit, from - step * i);
+
+    const rounded = Math.round(candidate);
+    const evaluation = evaluateProfile(userType, { ...profile, [lever.field]: String(rounded) }, ruleset);
+
+    if (tierIndex(evaluation.approvalChance) > baselineTier) {
+      const change = rounded - from;
+      return {
+        field: lever.field,
+        from,
+        to: rounded,
+        change,
+        unit: lever.unit,
+        steps: i,
+        approvalChance: evaluation.approvalChance,
+        score: evaluation.score
+      };
+    }
+
+    if (candidate === limit) {
+      break;
+    }
+  }
+
+  return null;
+};
+
+// Run a baseline profile plus what-if scenarios and search for the smallest single change that lifts the tier
+export const simulateEligibility = (
+  userType: 'buyer' | 'owner',
+  baseline: EligibilityProfile,
+  scenarios: EligibilityScenario[] = [],
+  ruleset: ResolvedUnderwritingRuleset = DEFAULT_UNDERWRITING_RULESET
+): EligibilitySimulationResult => {
+  const baseProfile = baseline as Record<string, any>;
+  const baseEvaluation = evaluateProfile(userType, baseProfile, ruleset);
+  const baseTier = tierIndex(baseEvaluation.approvalChance);
+
+  const scenarioResults: ScenarioResult[] = scenarios.map((scenario, index) => {
+    const evaluation = evaluateProfile(userType, { ...baseProfile, ...scenario.changes }, ruleset);
+
+    return {
+      name: scenario.name || `Scenario ${index + 1}`,
+      changes: scenario.changes,
+      ...toSnapshot(evaluation),
+      scoreDelta: evaluation.score - baseEvaluation.score,
+      tierChange: tierIndex(evaluation.approvalChance) - baseTier,
+      reasons: evaluation.reasons
+    };
+  });
+
+  const tierUpgrades: TierUpgrade[] = [];
+
+  // Nothing above High to reach
+  if (baseTier < TIER_ORDER.length - 1) {
+    const levers = userType === 'buyer' ? BUYER_LEVERS : OWNER_LEVERS;
+    for (const lever of levers) {
+      const upgrade = findTierUpgrade(userType, baseProfile, lever, baseTier, ruleset);
+      if (upgrade) {
+        tierUpgrades.push(upgrade);
+      }
+    }
+    tierUpgrades.sort((a, b) => a.steps - b.steps);
+  }
+
+  return {
+    userType,
+    baseline: toSnapshot(baseEvaluation),
+    scenarios: scenarioResults,
+    tierUpgrades,
+    smallestTierUpgrade: tierUpgrades[0] || null,
+    rulesetVersion: ruleset.version
+  };
+};
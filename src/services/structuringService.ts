@@ -0,0 +1,248 @@
+import {
+  AmortizationRow,
+  CapitalStack,
+  CapitalStackInput,
+  EquityInjectionCheck,
+  LoanTranche,
+  ResolvedUnderwritingRuleset,
+  SBAStructuringRules
+} from '../types/index.js';
+import { DEFAULT_UNDERWRITING_RULESET } from './underwritingService.js';
+
+// SBA 7(a) deal structuring: sources & uses, loan tranches, DSCR and equity injection.
+// Thresholds come from the underwriting ruleset so credit ops can tune them without a deploy.
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Standard fixed-payment amortization; a zero rate amortizes straight-line
+export const calculateMonthlyPayment = (principal: number, annualRate: number, termYears: number): number => {
+  if (principal <= 0 || termYears <= 0) return 0;
+
+  const numPayments = Math.round(termYears * 12);
+  const monthlyRate = annualRate / 12;
+
+  if (monthlyRate === 0) {
+    return principal / numPayments;
+  }
+
+  return principal * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
+    (Math.pow(1 + monthlyRate, numPayments) - 1);
+};
+
+// Month-by-month schedule; the last payment absorbs rounding so the balance ends at zero
+export const buildAmortizationSchedule = (
+  principal: number,
+  annualRate: number,
+  termYears: number
+): AmortizationRow[] => {
+  const schedule: AmortizationRow[] = [];
+  if (principal <= 0 || termYears <= 0) return schedule;
+
+  const numPayments = Math.round(termYears * 12);
+  const monthlyRate = annualRate / 12;
+  const payment = calculateMonthlyPayment(principal, annualRate, termYears);
+  let balance = principal;
+
+  for (let period = 1; period <= numPayments; period++) {
+    const interest = balance * monthlyRate;
+    const principalPaid = period === numPayments ? balance : payment - interest;
+    balance = Math.max(0, balance - principalPaid);
+
+    schedule.push({
+      period,
+      payment: roundCurrency(principalPaid + interest),
+      principal: roundCurrency(principalPaid),
+      interest: roundCurrency(interest),
+      balance: roundCurrency(balance)
+    });
+  }
+
+  return schedule;
+};
+
+// Prime + the spread tier that matches the loan size
+export const getSBARate = (loanAmount: number, rules: SBAStructuringRules): { rate: number; spread: number } => {
+  const tier = rules.spreadTiers.find((t) => t.maxLoanAmount === undefined || t.maxLoanAmount === null || loanAmount <= t.maxLoanAmount)
+    || rules.spreadTiers[rules.spreadTiers.length - 1];
+
+  return {
+    rate: Number((rules.primeRate + tier.spread).toFixed(4)),
+    spread: tier.spread
+  };
+};
+
+// Real estate majority gets the full real estate term; mixed uses get a weighted maturity
+export const getSBATermYears = (realEstateAmount: number, totalUses: number, rules: SBAStructuringRules): number => {
+  if (totalUses <= 0 || realEstateAmount <= 0) {
+    return rules.nonRealEstateTermYears;
+  }
+
+  const realEstateShare = (realEstateAmount / totalUses) * 100;
+  if (realEstateShare >= rules.realEstateMajorityPercent) {
+    return rules.realEstateTermYears;
+  }
+
+  const weighted = (realEstateAmount * rules.realEstateTermYears +
+    (totalUses - realEstateAmount) * rules.nonRealEstateTermYears) / totalUses;
+
+  return Math.round(weighted);
+};
+
+const buildTranche = (
+  amount: number,
+  annualRate: number,
+  termYears: number,
+  includeSchedule: boolean
+): LoanTranche => {
+  const monthlyPayment = calculateMonthlyPayment(amount, annualRate, termYears);
+  const numPayments = Math.round(termYears * 12);
+
+  return {
+    amount: roundCurrency(amount),
+    annualRate,
+    termYears,
+    monthlyPayment: roundCurrency(monthlyPayment),
+    annualDebtService: roundCurrency(monthlyPayment * 12),
+    totalInterest: roundCurrency(Math.max(0, monthlyPayment * numPayments - amount)),
+    ...(includeSchedule && { schedule: buildAmortizationSchedule(amount, annualRate, termYears) })
+  };
+};
+
+const calculateCoverage = (cashFlow: number, debtService: number): number => {
+  if (cashFlow <= 0) return 0;
+  if (debtService <= 0) return 99.99; // Nothing to cover - keep the value JSON-safe
+  return Number((cashFlow / debtService).toFixed(2));
+};
+
+const checkEquityInjection = (
+  totalUses: number,
+  buyerCash: number,
+  sellerNote: number,
+  sellerNoteOnStandby: boolean,
+  ruleset: ResolvedUnderwritingRuleset
+): EquityInjectionCheck => {
+  const { equity, structuring } = ruleset.rules;
+  const requiredAmount = totalUses * (equity.minimumPercent / 100);
+
+  // Only a note on full standby may count toward the injection, capped at a share of it
+  const standbyCredit = sellerNoteOnStandby
+    ? Math.min(sellerNote, requiredAmount * (structuring.standbyEquityMaxShare / 100))
+    : 0;
+  const creditedAmount = buyerCash + standbyCredit;
+  const creditedPercent = totalUses > 0 ? (creditedAmount / totalUses) * 100 : 0;
+  const issues: string[] = [];
+
+  if (creditedAmount < requiredAmount) {
+    issues.push(`Equity injection of ${creditedPercent.toFixed(1)}% is below the required ${equity.minimumPercent}%`);
+  }
+  if (sellerNote > 0 && !sellerNoteOnStandby && buyerCash < requiredAmount) {
+    issues.push('Seller note only counts toward equity injection when on full standby');
+  }
+  if (sellerNoteOnStandby && sellerNote > standbyCredit && buyerCash < requiredAmount - standbyCredit) {
+    issues.push(`Standby seller note can cover at most ${structuring.standbyEquityMaxShare}% of the required injection`);
+  }
+
+  return {
+    requiredPercent: equity.minimumPercent,
+    requiredAmount: roundCurrency(requiredAmount),
+    buyerCash: roundCurrency(buyerCash),
+    standbyCredit: roundCurrency(standbyCredit),
+    creditedAmount: roundCurrency(creditedAmount),
+    creditedPercent: Number(creditedPercent.toFixed(1)),
+    compliant: creditedAmount >= requiredAmount && totalUses > 0,
+    issues
+  };
+};
+
+// Build the full SBA 7(a) capital stack for an acquisition or owner loan request
+export const buildCapitalStack = (
+  input: CapitalStackInput,
+  ruleset: ResolvedUnderwritingRuleset = DEFAULT_UNDERWRITING_RULESET
+): CapitalStack => {
+  const rules = ruleset.rules.structuring;
+  const includeSchedules = input.includeSchedules === true;
+  const issues: string[] = [];
+
+  const purchasePrice = Math.max(0, input.purchasePrice || 0);
+  const realEstate = Math.max(0, input.realEstateAmount || 0);
+  const workingCapital = Math.max(0, input.workingCapital || 0);
+  const buyerEquity = Math.max(0, input.buyerEquity || 0);
+  const sellerNoteOnStandby = input.sellerNoteOnStandby === true;
+
+  // Owners requesting a bare loan amount have no separate uses - the loan is the project
+  const totalUses = purchasePrice + realEstate + workingCapital || Math.max(0, input.sbaLoanAmount || 0);
+  const sellerNoteAmount = purchasePrice * (Math.max(0, input.sellerNotePercent || 0) / 100);
+
+  let sbaLoanAmount: number;
+  if (input.sbaLoanAmount !== undefined) {
+    sbaLoanAmount = Math.max(0, input.sbaLoanAmount);
+  } else {
+    // SBA loan covers what equity and the seller note don't, capped at the max financing share
+    const needed = Math.max(0, totalUses - buyerEquity - sellerNoteAmount);
+    const cap = totalUses * (rules.maxFinancingPercent / 100);
+    sbaLoanAmount = Math.min(needed, cap);
+    if (needed > cap) {
+      issues.push(`SBA financing capped at ${rules.maxFinancingPercent}% of project cost`);
+    }
+  }
+
+  if (sbaLoanAmount > rules.maxSbaLoanAmount) {
+    issues.push(`SBA loan capped at the $${rules.maxSbaLoanAmount.toLocaleString('en-US')} program maximum`);
+    sbaLoanAmount = rules.maxSbaLoanAmount;
+  }
+
+  const { rate, spread } = getSBARate(sbaLoanAmount, rules);
+  const termYears = getSBATermYears(realEstate, totalUses, rules);
+  const sbaLoan = {
+    ...buildTranche(sbaLoanAmount, rate, termYears, includeSchedules),
+    primeRate: rules.primeRate,
+    spread,
+    realEstateSharePercent: totalUses > 0 ? Number(((realEstate / totalUses) * 100).toFixed(1)) : 0
+  };
+
+  // Standby notes make no payments while the SBA loan is outstanding
+  const sellerNoteTranche = buildTranche(sellerNoteAmount, rules.sellerNoteRate, rules.sellerNoteTermYears, includeSchedules);
+  const sellerNote = {
+    ...sellerNoteTranche,
+    ...(sellerNoteOnStandby && { monthlyPayment: 0, annualDebtService: 0 }),
+    onStandby: sellerNoteOnStandby
+  };
+
+  const sourcesTotal = sbaLoanAmount + sellerNoteAmount + buyerEquity;
+  const shortfall = Math.max(0, totalUses - sourcesTotal);
+  if (shortfall > 0) {
+    issues.push(`Sources fall short of uses by $${Math.round(shortfall).toLocaleString('en-US')}`);
+  }
+
+  const businessDebtService = sbaLoan.annualDebtService + sellerNote.annualDebtService +
+    Math.max(0, input.existingAnnualDebtService || 0);
+  const businessDSCR = calculateCoverage(input.annualCashFlow, businessDebtService);
+
+  // Global DSCR adds the guarantor's personal income and obligations to the business picture
+  const globalDSCR = calculateCoverage(
+    input.annualCashFlow + Math.max(0, input.guarantorAnnualIncome || 0),
+    businessDebtService + Math.max(0, input.guarantorAnnualDebtService || 0)
+  );
+
+  return {
+    uses: {
+      purchasePrice: roundCurrency(purchasePrice),
+      realEstate: roundCurrency(realEstate),
+      workingCapital: roundCurrency(workingCapital),
+      total: roundCurrency(totalUses)
+    },
+    sources: {
+      sbaLoan: roundCurrency(sbaLoanAmount),
+      sellerNote: roundCurrency(sellerNoteAmount),
+      buyerEquity: roundCurrency(buyerEquity),
+      total: roundCurrency(sourcesTotal),
+      shortfall: roundCurrency(shortfall)
+    },
+    sbaLoan,
+    sellerNote,
+    businessDSCR,
+    globalDSCR,
+    equityInjection: checkEquityInjection(totalUses, buyerEquity, sellerNoteAmount, sellerNoteOnStandby, ruleset),
+    issues
+  };
+};
@@ -0,0 +1,19 @@
+import { processDueSubmissionWaves } from './applicationService.js';
+
+const SUBMISSION_WAVE_INTERVAL = Number(process.env.SUBMISSION_WAVE_INTERVAL) || 60000; // 1 minute
+
+async function processSubmissionWaves() {
+  try {
+    const processed = await processDueSubmissionWaves();
+    if (processed > 0) {
+      console.log(`Processed ${processed} submission wave(s)`);
+    }
+  } catch (err) {
+    console.error('Error processing submission waves:', err);
+  } finally {
+    // Schedule next run
+    setTimeout(processSubmissionWaves, SUBMISSION_WAVE_INTERVAL);
+  }
+}
+
+export default processSubmissionWaves;
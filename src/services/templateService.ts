@@ -0,0 +1,321 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import crypto from 'crypto';
+import { FormTemplate } from '../models/FormTemplate.js';
+import {
+  FormType,
+  ResolvedTemplate,
+  TemplateDefinitionCheck,
+  TemplateFieldDiff,
+  TemplateFieldSummary
+} from '../types/index.js';
+import { extractFormFields } from './pdfFormProcessor.js';
+import { FormDefinition, getFormDefinition } from './formRegistry.js';
+import { getProfilePdfFields } from './pdfMappingProfiles.js';
+
+// Versions of the SBA forms' PDF templates. When the SBA revises a form its field names can change,
+// which would quietly leave fields blank - so each upload is diffed against the version in use and
+// against the form's registered definition, and only becomes the one generation uses once activated.
+
+const TEMPLATES_DIR = path.join(process.cwd(), 'templates');
+// Local copies of stored versions, written on first use
+const VERSIONS_DIR = path.join(TEMPLATES_DIR, 'versions');
+
+// Removed/added fields this alike (0-1) are reported as a rename
+const RENAME_SIMILARITY = 0.75;
+
+const requireForm = (formType: string): FormDefinition => {
+  const form = getFormDefinition(formType);
+  if (!form) {
+    throw new Error(`Unknown form ${formType}`);
+  }
+  return form;
+};
+
+const versionPath = (formType: FormType, version: number): string =>
+  path.join(VERSIONS_DIR, formType, `v${version}.pdf`);
+
+const bundledTemplate = (form: FormDefinition): ResolvedTemplate => ({
+  formType: form.formType,
+  version: 0,
+  path: path.join(TEMPLATES_DIR, form.templateFile)
+});
+
+// ==============================
+// FIELD DIFFS
+// ==============================
+
+/**
+ * Fields in a template file
+ */
+export const readTemplateFields = async (templatePath: string): Promise<TemplateFieldSummary[]> => {
+  const analysis = await extractFormFields(templatePath);
+  return analysis.fields.map(({ name, type }) => ({ name, type }));
+};
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const nameSimilarity = (a: string, b: string): number => {
+  const [left, right] = [normalizeName(a), normalizeName(b)];
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+/**
+ * Compare two versions' fields
+ * A removed field and an added field of the same type with near-identical names are reported as a
+ * rename instead; pairs are taken best match first so each field is used once
+ */
+export const diffTemplateFields = (
+  previous: TemplateFieldSummary[],
+  next: TemplateFieldSummary[]
+): TemplateFieldDiff => {
+  const previousNames = new Set(previous.map((field) => field.name));
+  const nextNames = new Set(next.map((field) => field.name));
+  const removed = previous.filter((field) => !nextNames.has(field.name));
+  const added = next.filter((field) => !previousNames.has(field.name));
+
+  const candidates = removed.flatMap((from) => added
+    .filter((to) => to.type === from.type)
+    .map((to) => ({ from, to, score: nameSimilarity(from.name, to.name) }))
+    .filter(({ score }) => score >= RENAME_SIMILARITY))
+    .sort((a, b) => b.score - a.score);
+
+  const renamed: TemplateFieldDiff['renamed'] = [];
+  const paired = new Set<TemplateFieldSummary>();
+  for (const { from, to } of candidates) {
+    if (paired.has(from) || paired.has(to)) continue;
+    paired.add(from);
+    paired.add(to);
+    renamed.push({ from: from.name, to: to.name, type: from.type });
+  }
+
+  return {
+    added: added.filter((field) => !paired.has(field)),
+    removed: removed.filter((field) => !paired.has(field)),
+    renamed
+  };
+};
+
+/**
+ * Every PDF field a form's definition fills - its mapping profile, checkbox groups and signature
+ * fields, or its own field names for a form without a profile
+ */
+const getDefinitionPdfFields = (form: FormDefinition): string[] => {
+  const fields = new Set(form.pdfMapping ? getProfilePdfFields(form) : form.fields.map((field) => field.name));
+  for (const group of Object.values(form.checkboxGroups || {})) {
+    for (const pdfField of Object.values(group.options)) fields.add(pdfField);
+  }
+  for (const signature of form.signatureFields || []) {
+    fields.add(signature.pdfField);
+    if (signature.dateField) fields.add(signature.dateField);
+  }
+  return [...fields];
+};
+
+/**
+ * Check a template's fields against the form's registered definition
+ */
+export const checkTemplateAgainstDefinition = (
+  formType: FormType,
+  fields: TemplateFieldSummary[]
+): TemplateDefinitionCheck => {
+  const form = requireForm(formType);
+  const expected = getDefinitionPdfFields(form);
+  const present = new Set(fields.map((field) => field.name));
+  const filled = new Set(expected);
+
+  return {
+    missingFields: expected.filter((name) => !present.has(name)),
+    // Signature widgets are filled by signing, never by the definition
+    unmappedFields: fields.filter((field) => field.type !== 'signature' && !filled.has(field.name)).map((field) => field.name)
+  };
+};
+
+// ==============================
+// VERSIONS
+// ==============================
+
+/**
+ * The template generation should use for a form - the active uploaded version, or the bundled file
+ * Falls back to the bundled file when the stored versions can't be read, so drafts still generate
+ */
+export const resolveTemplate = async (formType: FormType): Promise<ResolvedTemplate> => {
+  const form = requireForm(formType);
+
+  try {
+    const active = await FormTemplate.findOne({ formType, isActive: true }).sort({ version: -1 }).select('version').exec();
+    if (!active) return bundledTemplate(form);
+
+    const cachedPath = versionPath(formType, active.version);
+    if (!await fs.pathExists(cachedPath)) {
+      const stored = await FormTemplate.findById(active._id).select('+pdf').exec();
+      if (!stored?.pdf) return bundledTemplate(form);
+      await fs.outputFile(cachedPath, stored.pdf);
+    }
+
+    return { formType, version: active.version, path: cachedPath };
+  } catch (error) {
+    console.error(`⚠️ Failed to load the active ${formType} template, using the bundled one:`, error);
+    return bundledTemplate(form);
+  }
+};
+
+/**
+ * Fields of a version - stored for uploads, read from the file for the bundled template
+ */
+const getVersionFields = async (formType: FormType, version: number): Promise<TemplateFieldSummary[]> => {
+  if (version === 0) {
+    return readTemplateFields(bundledTemplate(requireForm(formType)).path);
+  }
+  const stored = await FormTemplate.findOne({ formType, version }).select('fields').exec();
+  if (!stored) {
+    throw new Error('Template version not found');
+  }
+  return stored.fields;
+};
+
+// Upload a new template version; it's diffed against the version in use but not activated
+export const uploadTemplateVersion = async (
+  formType: FormType,
+  pdf: Buffer,
+  options: { fileName: string; notes?: string; uploadedBy?: string }
+) => {
+  requireForm(formType);
+
+  const sha256 = crypto.createHash('sha256').update(pdf).digest('hex');
+  const duplicate = await FormTemplate.findOne({ formType, sha256 }).select('version').exec();
+  if (duplicate) {
+    throw new Error(`This template already exists as version ${duplicate.version}`);
+  }
+
+  const latest = await FormTemplate.findOne({ formType }).sort({ version: -1 }).select('version').exec();
+  const version = (latest?.version || 0) + 1;
+  const current = await resolveTemplate(formType);
+
+  // Read the fields from the local copy - it's also the cache once the version is activated
+  const filePath = versionPath(formType, version);
+  await fs.outputFile(filePath, pdf);
+
+  try {
+    let fields: TemplateFieldSummary[];
+    try {
+      fields = await readTemplateFields(filePath);
+    } catch (error) {
+      throw new Error(`Invalid template: ${error instanceof Error ? error.message : 'could not read PDF form fields'}`);
+    }
+    if (fields.length === 0) {
+      throw new Error('Invalid template: the PDF has no form fields');
+    }
+
+    const template = new FormTemplate({
+      formType,
+      version,
+      fileName: options.fileName,
+      sha256,
+      size: pdf.length,
+      pdf,
+      fields,
+      previousVersion: current.version,
+      diff: diffTemplateFields(await getVersionFields(formType, current.version), fields),
+      definitionCheck: checkTemplateAgainstDefinition(formType, fields),
+      isActive: false,
+      notes: options.notes,
+      uploadedBy: options.uploadedBy
+    });
+    await template.save();
+
+    const { diff } = template;
+    console.log(`📄 ${formType} template v${version} uploaded: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.renamed.length} renamed since v${current.version}`);
+    // select: false only applies to queries - leave the PDF bytes off the new document's response too
+    const { pdf: _pdf, ...saved } = template.toObject();
+    return saved;
+  } catch (error: any) {
+    await fs.remove(filePath);
+    if (error.code === 11000) {
+      throw new Error('A template with this version already exists');
+    }
+    if (error.name === 'ValidationError') {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+export const getTemplateVersions = async (formType: FormType) => {
+  requireForm(formType);
+  return FormTemplate.find({ formType }).sort({ version: -1 }).exec();
+};
+
+export const getTemplateVersion = async (formType: FormType, version: number) => {
+  requireForm(formType);
+  return FormTemplate.findOne({ formType, version }).exec();
+};
+
+/**
+ * Diff any two versions of a form's template (0 = bundled)
+ */
+export const compareTemplateVersions = async (formType: FormType, from: number, to: number): Promise<TemplateFieldDiff> => {
+  requireForm(formType);
+  return diffTemplateFields(await getVersionFields(formType, from), await getVersionFields(formType, to));
+};
+
+/**
+ * Make a version the one generation uses, or retire it (the bundled template takes over when none is active)
+ * A version missing fields the definition fills is refused unless forced - update the definition first
+ */
+export const setTemplateVersionActive = async (
+  formType: FormType,
+  version: number,
+  isActive: boolean,
+  force: boolean = false
+) => {
+  requireForm(formType);
+
+  const template = await FormTemplate.findOne({ formType, version }).exec();
+  if (!template) {
+    throw new Error('Template version not found');
+  }
+
+  if (isActive) {
+    // The definition may have changed since the upload, so check it as it is now
+    const check = checkTemplateAgainstDefinition(formType, template.fields);
+    template.definitionCheck = check;
+    if (check.missingFields.length > 0 && !force) {
+      throw new Error(`Template version ${version} is missing fields the ${formType} definition fills: ${check.missingFields.join(', ')}`);
+    }
+
+    await FormTemplate.updateMany({ formType, version: { $ne: version } }, { $set: { isActive: false } }).exec();
+    template.activatedAt = new Date();
+  }
+
+  template.isActive = isActive;
+  await template.save();
+  console.log(`📄 ${formType} template v${version} ${isActive ? 'activated' : 'retired'}`);
+  return template;
+};
+
+export default {
+  readTemplateFields,
+  diffTemplateFields,
+  checkTemplateAgainstDefinition,
+  resolveTemplate,
+  uploadTemplateVersion,
+  getTemplateVersions,
+  getTemplateVersion,
+  compareTemplateVersions,
+  setTemplateVersionActive
+};
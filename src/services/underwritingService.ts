@@ -0,0 +1,199 @@
+import { UnderwritingRuleset } from '../models/UnderwritingRuleset.js';
+import {
+  UnderwritingRules,
+  ResolvedUnderwritingRuleset,
+  CreateUnderwritingRulesetRequest
+} from '../types/index.js';
+
+// Built-in rules used when no ruleset has been published to Mongo yet.
+// Version 0 is reserved for these defaults.
+export const DEFAULT_UNDERWRITING_RULES: UnderwritingRules = {
+  creditScore: { minimum: 650, good: 680, excellent: 720 },
+  yearsInBusiness: { minimum: 2, established: 5 },
+  equity: { minimumPercent: 10, strongPercent: 20 },
+  dscr: { minimum: 1.15, good: 1.25, excellent: 1.35 },
+  structuring: {
+    primeRate: 0.075,
+    // SBA 7(a) maximum variable-rate spreads over Prime
+    spreadTiers: [
+      { maxLoanAmount: 50000, spread: 0.065 },
+      { maxLoanAmount: 250000, spread: 0.06 },
+      { maxLoanAmount: 350000, spread: 0.045 },
+      { spread: 0.03 }
+    ],
+    realEstateTermYears: 25,
+    nonRealEstateTermYears: 10,
+    realEstateMajorityPercent: 51,
+    maxFinancingPercent: 90,
+    maxSbaLoanAmount: 5000000,
+    sellerNoteRate: 0.06,
+    sellerNoteTermYears: 10,
+    standbyEquityMaxShare: 50
+  },
+  ownerLimits: { maxDebtToIncomeRatio: 0.5, maxLoanToAnnualIncomeMultiple: 3 },
+  deductions: {
+    creditGood: 5,
+    creditFair: 15,
+    yearsMinimum: 5,
+    equityMinimum: 10,
+    dscrGood: 5,
+    dscrMinimum: 15,
+    dscrInsufficient: 40,
+    missingCashFlow: 20,
+    industryExperienceBonus: 5,
+    limitedIndustryExperience: 10,
+    ownerMissingFinancials: 30,
+    ownerNoProfit: 50,
+    ownerHighDebt: 10,
+    ownerHighLoanAmount: 15
+  },
+  chanceThresholds: { high: 80, medium: 60, low: 40, veryLow: 20 }
+};
+
+export const DEFAULT_UNDERWRITING_RULESET: ResolvedUnderwritingRuleset = {
+  version: 0,
+  name: 'Built-in defaults',
+  effectiveDate: new Date(0),
+  rules: DEFAULT_UNDERWRITING_RULES
+};
+
+// Drop keys Mongoose left empty so they don't mask the defaults they're merged over
+const definedValues = <T extends object>(section: T | undefined): Partial<T> => Object.fromEntries(
+  Object.entries(section || {}).filter(([, value]) => value !== undefined && value !== null)
+) as Partial<T>;
+
+const toResolved = (ruleset: any): ResolvedUnderwritingRuleset => {
+  const plain = typeof ruleset.toObject === 'function' ? ruleset.toObject() : ruleset;
+  const structuring = definedValues(plain.rules?.structuring as UnderwritingRules['structuring'] | undefined);
+
+  return {
+    version: plain.version,
+    name: plain.name,
+    effectiveDate: plain.effectiveDate,
+    // Sections and settings added after a ruleset was published fall back to the built-in defaults.
+    // Older rulesets load with an empty spreadTiers array, which counts as missing.
+    rules: {
+      ...DEFAULT_UNDERWRITING_RULES,
+      ...plain.rules,
+      structuring: {
+        ...DEFAULT_UNDERWRITING_RULES.structuring,
+        ...structuring,
+        spreadTiers: structuring.spreadTiers?.length
+          ? structuring.spreadTiers
+          : DEFAULT_UNDERWRITING_RULES.structuring.spreadTiers
+      }
+    }
+  };
+};
+
+const RULE_SECTIONS = Object.keys(DEFAULT_UNDERWRITING_RULES) as Array<keyof UnderwritingRules>;
+
+// Tier ordering must be consistent or the scoring bands overlap
+const validateRules = (rules: UnderwritingRules): void => {
+  const missingSections = RULE_SECTIONS.filter((section) => !rules?.[section] || typeof rules[section] !== 'object');
+  if (missingSections.length > 0) {
+    throw new Error(`Invalid ruleset: missing rule sections: ${missingSections.join(', ')}`);
+  }
+
+  const { creditScore, yearsInBusiness, equity, dscr, chanceThresholds, structuring } = rules;
+
+  if (!(creditScore.minimum <= creditScore.good && creditScore.good <= creditScore.excellent)) {
+    throw new Error('Invalid ruleset: credit score tiers must satisfy minimum <= good <= excellent');
+  }
+  if (yearsInBusiness.minimum > yearsInBusiness.established) {
+    throw new Error('Invalid ruleset: minimum years in business cannot exceed established years');
+  }
+  if (equity.minimumPercent > equity.strongPercent) {
+    throw new Error('Invalid ruleset: minimum equity cannot exceed strong equity');
+  }
+  if (!(dscr.minimum <= dscr.good && dscr.good <= dscr.excellent)) {
+    throw new Error('Invalid ruleset: DSCR tiers must satisfy minimum <= good <= excellent');
+  }
+  if (!(chanceThresholds.veryLow <= chanceThresholds.low &&
+        chanceThresholds.low <= chanceThresholds.medium &&
+        chanceThresholds.medium <= chanceThresholds.high)) {
+    throw new Error('Invalid ruleset: chance thresholds must satisfy veryLow <= low <= medium <= high');
+  }
+  if (!Array.isArray(structuring.spreadTiers) || structuring.spreadTiers.length === 0) {
+    throw new Error('Invalid ruleset: at least one SBA spread tier is required');
+  }
+  const cappedTiers = structuring.spreadTiers.slice(0, -1);
+  if (cappedTiers.some((tier, i) => tier.maxLoanAmount === undefined ||
+      (i > 0 && tier.maxLoanAmount <= (cappedTiers[i - 1].maxLoanAmount as number)))) {
+    throw new Error('Invalid ruleset: spread tiers must be ordered by ascending maxLoanAmount');
+  }
+};
+
+// Resolve the ruleset in effect at a given moment (latest effective date wins)
+export const getActiveRuleset = async (asOf: Date = new Date()): Promise<ResolvedUnderwritingRuleset> => {
+  try {
+    const ruleset = await UnderwritingRuleset.findOne({
+      isActive: true,
+      effectiveDate: { $lte: asOf }
+    })
+      .sort({ effectiveDate: -1, version: -1 })
+      .exec();
+
+    return ruleset ? toResolved(ruleset) : DEFAULT_UNDERWRITING_RULESET;
+  } catch (error) {
+    console.error('⚠️ Failed to load underwriting ruleset, falling back to defaults:', error);
+    return DEFAULT_UNDERWRITING_RULESET;
+  }
+};
+
+// Publish a new ruleset version; existing versions are never modified
+export const createRuleset = async (
+  data: CreateUnderwritingRulesetRequest,
+  createdBy?: string
+) => {
+  validateRules(data.rules);
+
+  const latest = await UnderwritingRuleset.findOne().sort({ version: -1 }).select('version').exec();
+  const version = (latest?.version || 0) + 1;
+
+  try {
+    const ruleset = new UnderwritingRuleset({
+      version,
+      name: data.name,
+      description: data.description,
+      effectiveDate: data.effectiveDate ? new Date(data.effectiveDate) : new Date(),
+      rules: data.rules,
+      isActive: true,
+      createdBy
+    });
+    await ruleset.save();
+    return ruleset;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      throw new Error('A ruleset with this version already exists');
+    }
+    if (error.name === 'ValidationError') {
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+export const getRulesets = async (includeInactive: boolean = true) => {
+  const query = includeInactive ? {} : { isActive: true };
+  return UnderwritingRuleset.find(query).sort({ version: -1 }).exec();
+};
+
+export const getRulesetByVersion = async (version: number) => {
+  return UnderwritingRuleset.findOne({ version }).exec();
+};
+
+// Retire a version so it is no longer picked up by getActiveRuleset
+export const setRulesetActive = async (version: number, isActive: boolean) => {
+  const ruleset = await UnderwritingRuleset.findOneAndUpdate(
+    { version },
+    { $set: { isActive } },
+    { new: true }
+  ).exec();
+
+  if (!ruleset) {
+    throw new Error('Ruleset not found');
+  }
+
+  return ruleset;
+};
@@ -153,7 +153,7 @@ export interface EmailTemplate {
 
 export interface TemplateVariable {
   name: string;
-  type: 'string' | 'number' | 'date' | 'boolean';
+  type: 'string' | 'number' | 'date' | 'boolean' | 'url' | 'list';    // url: http(s) only; list: array of strings, one bullet each
   required: boolean;
   defaultValue?: any;
   description?: string;
@@ -178,6 +178,8 @@ export interface EmailReplyContext {
   tone: EmailTone;
   includeOriginal: boolean;
   customInstructions?: string;
+  applicationContext?: string;  // Status of the sender's own applications, when we know who they are
+  priorMessages?: string;       // Earlier messages in the same thread, oldest first
 }
 
 export interface EmailComposition {
@@ -294,6 +296,8 @@ export interface SBAApplicationData {
   businessCashFlow?: string;
   buyerCreditScore?: string;
   industryExperience?: string;
+  sellerFinancingPercentage?: string;   // Share of purchase price carried by the seller
+  sellerFinancingOnStandby?: boolean;
   businessYearsRunning?: string | number;
 }
 
@@ -302,35 +306,192 @@ export enum UserProvidedDocumentType {
   L_AND_P = 'L&P'
 }
 
-export enum DefaultDocumentType {
-  SBA_1919 = 'SBA_1919',
-  SBA_413 = 'SBA_413'
-}
-
 export interface DocumentStorageInfo {
   fileName: string;
   s3Key: string;
   s3Url?: string;
   uploadedAt: Date;
   signedAt?: Date;
-  fileType: UserProvidedDocumentType | DefaultDocumentType;
+  fileType: UserProvidedDocumentType | FormType;   // Draft documents carry the form they were generated from
   signed?: boolean;
   generatedAt?: Date;
+  ownerId?: string;   // The owner a per-owner document (their Form 413) belongs to
+  templateVersion?: number;   // Template version a draft was generated from (0 = bundled template)
+}
+
+// One document inside the final package
+export interface PackageManifestEntry {
+  title: string;              // As listed in the table of contents, e.g. 'Form 413 - Jane Doe'
+  fileName: string;
+  fileType: UserProvidedDocumentType | FormType;
+  ownerId?: string;
+  signed?: boolean;
+  s3Key: string;
+  sha256: string;             // Of the document as stored - the file that was signed or uploaded
+  startPage: number;          // First page in the package (1-based)
+  pageCount: number;
+}
+
+// Returns and statements the financial extraction can read
+export type FinancialDocumentKind = 'form1120' | 'form1120S' | 'form1065' | 'scheduleC' | 'profitAndLoss';
+
+export type FinancialLineItem =
+  | 'grossReceipts'
+  | 'netIncome'
+  | 'officerCompensation'   // Guaranteed payments to partners on a 1065
+  | 'depreciation'
+  | 'amortization'
+  | 'depletion'
+  | 'interest';             // Interest expense, never interest income
+
+export interface ExtractedFinancialValue {
+  value: number;
+  confidence: number;       // 0-1
+  page: number;             // 1-based page of the document it was read from
+  line?: string;            // Form line, e.g. '1a' - unset for P&L statements
+  label: string;            // The text it was read from
+}
+
+// What was read from one uploaded tax return or P&L statement
+export interface FinancialExtraction {
+  s3Key: string;
+  fileName: string;
+  fileType: UserProvidedDocumentType;
+  status: 'completed' | 'no_text' | 'unrecognized' | 'failed';   // no_text: a scan that needs OCR
+  error?: string;
+  documentKind?: FinancialDocumentKind;
+  taxYear?: number;
+  pageCount?: number;
+  values: Partial<Record<FinancialLineItem, ExtractedFinancialValue>>;
+  addBacks: {
+    items: FinancialLineItem[];   // Non-cash and financing costs added back to cash flow
+    total: number;
+  };
+  confidence: number;       // Across the line items the document kind should have
+  extractedAt: Date;
+}
+
+// The flattened, stamped PDF lenders receive, with a manifest to check it against
+export interface FinalPackage {
+  fileName: string;
+  s3Key: string;
+  sha256: string;             // Of the package PDF - what was sent
+  size: number;
+  pageCount: number;
+  sourceHash: string;         // packageHash of the source documents; the package is rebuilt when it changes
+  generatedAt: Date;
+  documents: PackageManifestEntry[];
 }
 
 export enum BankSubmissionStatus {
+  PENDING = 'pending',      // Claimed and being sent - blocks duplicate sends
   SUBMITTED = 'submitted',
   ACCEPTED = 'accepted',
-  REJECTED = 'rejected'
+  REJECTED = 'rejected',
+  FAILED = 'failed'         // Delivery failed - a retry may send again
+}
+
+export interface BankDeliveryResult {
+  status: 'pending' | 'sent' | 'failed';
+  accepted?: string[];      // Recipients the SMTP server accepted
+  rejected?: string[];
+  response?: string;        // Final SMTP server response
+  error?: string;
+  attemptedAt: Date;
 }
 
 export interface BankSubmission {
   bank: string;
   status: BankSubmissionStatus;
   submittedAt: Date;
+  wave?: number;
+  messageId?: string;       // Message-ID of the package email
+  packageHash?: string;     // SHA-256 over the attached documents
+  deliveryResult?: BankDeliveryResult;
+  claimExpiresAt?: Date;    // While PENDING and not yet handed to the outbound queue
+  decidedAt?: Date;         // When the bank posted its decision through the portal or by email
+  decisionReason?: string;
+  lastResponse?: BankEmailResponse;
+  _id?: string;
+}
+
+export type BankEmailClassification = 'info_request' | 'decline' | 'term_sheet' | 'question';
+
+// Latest lender email on a submission
+export interface BankEmailResponse {
+  classification: BankEmailClassification;
+  messageId: string;
+  subject: string;
+  receivedAt: Date;
+}
+
+export interface ExtractedOfferTerms {
+  loanAmount?: number;
+  annualInterestRate?: number;   // Percent
+  repaymentTermMonths?: number;
+  monthlyPayment?: number;
+  downPaymentRequired?: number;
+  fees?: number;
+}
+
+export interface BankEmailMatch {
+  applicationId: string;
+  bankId: string;
+  matchedBy: 'thread' | 'subject' | 'senderDomain';
 }
 
-// SBA Form field interfaces (must match formFields.ts and Application.ts schemas)
+export interface BankEmailProcessingResult {
+  matched: boolean;
+  needsReview?: boolean;    // Looked like a lender reply but the sender isn't the bank - left for a human
+  match?: BankEmailMatch;
+  classification?: BankEmailClassification;
+  extractedTerms?: ExtractedOfferTerms;
+  offerCreated?: boolean;
+}
+
+export interface DocumentRequest {
+  bank: string;             // Bank _id
+  documents: string[];
+  message?: string;
+  status: 'open' | 'fulfilled' | 'cancelled';
+  requestedAt: Date;
+  fulfilledAt?: Date;
+  _id?: string;
+}
+
+export interface SubmissionWave {
+  wave: number;
+  bankIds: string[];
+  scheduledFor: Date;
+  status: 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+  claimExpiresAt?: Date;    // While sending: when a stalled sender's claim may be taken over
+  attempts?: number;        // Failed sends so far; the wave is given up on after too many
+  lastError?: string;
+  processedAt?: Date;
+}
+
+export interface BankSubmissionOptions {
+  bankIds?: string[];          // Explicit targets; otherwise the top matches are used
+  topN?: number;
+  waveSize?: number;           // Banks per wave; the first wave goes out immediately
+  waveCooldownHours?: number;  // Delay between waves
+}
+
+export interface BankSubmissionOutcome {
+  bankId: string;
+  bankName: string;
+  outcome: 'sent' | 'queued' | 'skipped' | 'failed';  // queued: first attempt failed, retrying in the background
+  messageId?: string;
+  error?: string;
+}
+
+export interface BankSubmissionResponse extends ApplicationResponse {
+  packageHash: string;
+  submissions: BankSubmissionOutcome[];
+  scheduledWaves: SubmissionWave[];
+}
+
+// SBA Form field interfaces (must match src/forms/ definitions and Application.ts schemas)
 export interface Sba1919Fields {
   // Basic Business Information (Required)
   applicantname?: string;
@@ -472,6 +633,45 @@ export interface Sba413Fields {
   businessName?: string;
 }
 
+export type OwnerSigningStatus = 'not_started' | 'pending' | 'completed' | 'declined';
+
+// One of the business's owners. Owners fill Form 1919's owner rows in order (owner 1 is row 1), and
+// every owner at or above the 20% threshold files their own Form 413 and signs for it.
+export interface ApplicationOwner {
+  _id?: any;
+  name: string;
+  title?: string;
+  ownershipPercent?: number;
+  tin?: string;
+  homeAddress?: string;
+  email?: string;
+  sba413Fields: Record<string, string | boolean>;
+  signingStatus: OwnerSigningStatus;
+  signedBy?: string;
+  signedAt?: Date;
+}
+
+export interface ApplicationOwnerInput {
+  name?: string;
+  title?: string;
+  ownershipPercent?: number | string;
+  tin?: string;
+  homeAddress?: string;
+  email?: string;
+}
+
+// An owner as shown to agents and the frontend
+export interface OwnerSummary {
+  ownerId: string;
+  slot: number;               // The Form 1919 owner row (1-5)
+  name: string;
+  title?: string;
+  ownershipPercent?: number;
+  requiresPersonalFinancialStatement: boolean;
+  signingStatus: OwnerSigningStatus;
+  isCurrent: boolean;          // The owner whose Form 413 the form session is filling
+}
+
 export interface SBAApplication extends Document {
   applicantData: SBAApplicationData;
   status: ApplicationStatus;
@@ -481,20 +681,21 @@ export interface SBAApplication extends Document {
   // SBA Form field storage for server-side state management
   sba1919Fields?: Sba1919Fields;
   sba413Fields?: Sba413Fields;
+  formFields?: Record<FormType, Record<string, string | boolean>>;   // Forms declared in forms/, by form type
+
+  // Business owners - each one filling a Form 1919 owner row, and a Form 413 when required
+  owners?: ApplicationOwner[];
 
   // Loan Chances
   loanChances?: StoredLoanChances;
 
-  // Bank Submissions
+  // Bank Submissions (append-only history)
   banks: BankSubmission[];
+  submissionWaves?: SubmissionWave[];
+  documentRequests?: DocumentRequest[];
   offers: [{
     bank: string; // Bank _id
-    offerDetails: {
-      repaymentTermMonths: number;
-      annualInterestRate: number;
-      monthlyPayment: number;
-      downPaymentRequired: number;
-    },
+    offerDetails: OfferDetails,
     status: 'pending' | 'accepted' | 'declined';
     _id?: string
   }]
@@ -504,9 +705,11 @@ export interface SBAApplication extends Document {
   draftDocuments?: DocumentStorageInfo[]; // Draft PDFs for preview during call
   documentsUploadedToS3: boolean;
   s3UploadedAt?: Date;
+  finalPackage?: FinalPackage;   // Latest package built for lenders
+  extractedFinancials?: FinancialExtraction[];   // One per uploaded tax return / P&L statement
 
   // Signing Metadata
-  signingProvider?: 'docusign' | 'hellosign' | 'adobe_sign' | 'manual' | null;
+  signingProvider?: SigningProviderName | 'manual' | null;
   signingRequestId?: string;
   signingStatus: 'not_started' | 'pending' | 'completed' | 'declined' | 'expired';
   signedBy?: string;
@@ -559,6 +762,8 @@ export interface ApplicationSubmissionRequest {
   businessCashFlow?: string;
   buyerCreditScore?: string;
   industryExperience?: string;
+  sellerFinancingPercentage?: string;   // Share of purchase price carried by the seller
+  sellerFinancingOnStandby?: boolean;
   businessYearsRunning?: string | number;
 }
 
@@ -582,6 +787,8 @@ export interface DraftApplicationRequest {
   businessCashFlow?: string;
   buyerCreditScore?: string;
   industryExperience?: string;
+  sellerFinancingPercentage?: string;   // Share of purchase price carried by the seller
+  sellerFinancingOnStandby?: boolean;
   businessYearsRunning?: string | number;
   loanChances?: {
     score: number;
@@ -596,6 +803,240 @@ export interface ApplicationResponse {
   documentsGenerated?: string[];
 }
 
+// ==============================
+// EMAIL REVIEW TYPES
+// ==============================
+
+// auto: send every AI reply, review_all: hold every reply, review_flagged: hold only flagged replies
+export type EmailReviewMode = 'auto' | 'review_all' | 'review_flagged';
+
+export type EmailReviewStatus = 'pending' | 'approved' | 'rejected' | 'sent' | 'failed';
+
+export type EmailReviewFlag =
+  | 'generation_failed'
+  | 'sensitive_keyword'
+  | 'long_email'
+  | 'many_questions'
+  | 'low_confidence'
+  | 'lender_sender'
+  | 'unverified_lender';    // Names a submitted application but wasn't sent from that bank's domain
+
+export interface EmailReviewPolicy {
+  mode: EmailReviewMode;
+  keywords: string[];              // Inbound emails mentioning any of these are flagged
+  maxWordCount: number;            // Inbound emails longer than this are flagged
+  maxQuestions: number;            // More question marks than this is treated as a complex inquiry
+  minConfidence: number;           // 0-1, replies scored below this are flagged
+  flagLenderSenders: boolean;      // Flag mail from a known bank contact domain
+  senderAllowlist: string[];       // Addresses or @domains that are never flagged
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+export interface EmailReviewItem {
+  _id?: string;
+  inboundMessageId: string;
+  inboundReferences?: string[];    // The inbound email's References, so the reply stays in its thread
+  from: string;
+  subject: string;
+  inboundBody: string;
+  receivedAt: Date;
+  draft: {
+    subject: string;
+    body: string;
+  };
+  originalBody: string;            // What the agent generated, kept for comparison after edits
+  edited: boolean;
+  confidence: number;
+  flagReasons: EmailReviewFlag[];
+  status: EmailReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  sentAt?: Date;
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface EmailReviewDecision {
+  flagReasons: EmailReviewFlag[];
+  confidence: number;
+  requiresReview: boolean;
+}
+
+// ==============================
+// EMAIL STORE TYPES
+// ==============================
+
+export type EmailDirection = 'inbound' | 'outbound';
+
+export interface StoredEmailAttachment {
+  fileName: string;
+  contentType: string;
+  size: number;
+  s3Key: string;
+}
+
+export interface EmailMessageRecord {
+  _id?: string;
+  messageId: string;               // RFC 5322 Message-ID, angle brackets included
+  threadId: string;
+  direction: EmailDirection;
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  inReplyTo?: string;
+  references: string[];
+  sentAt: Date;                    // Date header for inbound, send time for outbound
+  application?: string;
+  bank?: string;
+  attachments: StoredEmailAttachment[];
+  deliveryStatus?: 'sent' | 'failed';
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface EmailThreadRecord {
+  _id?: string;
+  threadId: string;                // Message-ID of the first message in the conversation
+  subject: string;
+  participants: string[];
+  application?: string;
+  bank?: string;
+  messageCount: number;
+  lastMessageAt: Date;
+  status: ThreadStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Links and payload that aren't part of the message headers
+export interface EmailRecordContext {
+  applicationId?: string;
+  bankId?: string;
+}
+
+export interface EmailRecordAttachmentInput {
+  filename: string;
+  contentType?: string;
+  content?: string | Buffer;
+  path?: string;
+  stored?: StoredEmailAttachment;  // Already in S3 (e.g. by the outbound queue) - recorded without re-uploading
+}
+
+export interface CorrespondenceTimeline {
+  applicationId: string;
+  threads: EmailThreadRecord[];
+  messages: EmailMessageRecord[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+// ==============================
+// MAILBOX LISTENER TYPES
+// ==============================
+
+// Highest UID fully handled in a mailbox; only valid while the server's UIDVALIDITY is unchanged
+export interface MailboxCheckpointRecord {
+  mailbox: string;
+  uidValidity: number;
+  lastUid: number;
+  updatedAt?: Date;
+}
+
+export type InboundProcessingStatus = 'processing' | 'done' | 'failed';
+
+// One per inbound Message-ID - the claim that makes processing exactly-once across restarts
+export interface ProcessedEmailRecord {
+  messageId: string;
+  mailbox: string;
+  uid: number;
+  status: InboundProcessingStatus;
+  attempts: number;
+  claimedAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+export type InboundProcessingOutcome = 'processed' | 'duplicate' | 'retry' | 'abandoned';
+
+// ==============================
+// OUTBOUND EMAIL TYPES
+// ==============================
+
+// queued: waiting for its next attempt; sending: claimed by a worker; dead: gave up (dead-letter list)
+export type OutboundEmailStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+export type OutboundRecipientStatus = 'pending' | EmailStatus.SENT | EmailStatus.DELIVERED | EmailStatus.FAILED;
+
+export interface OutboundRecipient {
+  address: string;
+  status: OutboundRecipientStatus;
+  response?: string;        // SMTP response, or the diagnostic from a delivery status notification
+  dsnStatus?: string;       // Enhanced status code from a DSN, e.g. 5.1.1
+  updatedAt?: Date;
+}
+
+// One outgoing email and its delivery history; attachments live in S3 so retries don't need the caller
+export interface OutboundEmailRecord {
+  _id?: string;
+  messageId: string;
+  from: string;
+  to: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments: StoredEmailAttachment[];
+  application?: string;
+  bank?: string;
+  purpose?: string;         // Lets the sender react to the final outcome, e.g. 'bank_submission'
+  status: OutboundEmailStatus;
+  recipients: OutboundRecipient[];
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  claimedAt?: Date;
+  lastAttemptAt?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  deadAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface OutboundSendResult {
+  queueId: string;
+  messageId: string;
+  status: 'sent' | 'queued';  // queued: the first attempt failed and will be retried
+  accepted: string[];
+  rejected: string[];
+  response?: string;
+  error?: string;
+}
+
+export type DeliveryStatusAction = 'failed' | 'delayed' | 'delivered' | 'relayed' | 'expanded';
+
+// Parsed RFC 3464 delivery status notification
+export interface DeliveryStatusReport {
+  originalEnvelopeId?: string;
+  originalMessageId?: string;
+  // Empty for free-form bounces that don't say which recipient failed - they apply to every recipient
+  recipients: Array<{
+    address: string;
+    action: DeliveryStatusAction;
+    status?: string;
+    diagnostic?: string;
+  }>;
+}
+
 // ==============================
 // PDF FORM TYPES
 // ==============================
@@ -640,6 +1081,128 @@ export interface FormAnalysisResult {
   estimatedCompletionTime: number;
 }
 
+// ==============================
+// PDF TEMPLATE VERSION TYPES
+// ==============================
+
+export interface TemplateFieldSummary {
+  name: string;
+  type: PDFFormField['type'];
+}
+
+export interface TemplateFieldDiff {
+  added: TemplateFieldSummary[];
+  removed: TemplateFieldSummary[];
+  renamed: Array<{ from: string; to: string; type: PDFFormField['type'] }>;  // Removed/added pairs that look like the same field
+}
+
+// How a template lines up with the registered form definition
+export interface TemplateDefinitionCheck {
+  missingFields: string[];    // PDF fields the definition fills (fields, checkbox groups, mapping profile) that the template lacks
+  unmappedFields: string[];   // Template fields nothing in the definition fills
+}
+
+export interface FormTemplateVersion extends Document {
+  formType: FormType;
+  version: number;            // Per form; 0 is the template bundled in templates/
+  fileName: string;           // Name the file was uploaded under
+  sha256: string;
+  size: number;
+  pdf: Buffer;
+  fields: TemplateFieldSummary[];
+  previousVersion: number;    // Version the diff was taken against - the one active at upload
+  diff: TemplateFieldDiff;
+  definitionCheck: TemplateDefinitionCheck;
+  isActive: boolean;
+  notes?: string;
+  uploadedBy?: string;
+  activatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The template file generation should use for a form
+export interface ResolvedTemplate {
+  formType: FormType;
+  version: number;
+  path: string;
+}
+
+// ==============================
+// E-SIGNATURE TYPES
+// ==============================
+
+// 'local' is the built-in signing link; 'hellosign' is Dropbox Sign
+export type SigningProviderName = 'local' | 'docusign' | 'hellosign' | 'adobe_sign';
+
+// 'signing' - the signature is being applied to the documents
+export type SigningRequestStatus = 'pending' | 'viewed' | 'signing' | 'completed' | 'declined' | 'expired' | 'cancelled';
+
+export type SigningAuditAction = 'created' | 'sent' | 'viewed' | 'signed' | 'completed' | 'declined' | 'expired' | 'cancelled';
+
+// One line of a signing request's audit trail - also printed on the signed PDF's certificate page
+export interface SigningAuditEvent {
+  action: SigningAuditAction;
+  at: Date;
+  ip?: string;
+  userAgent?: string;
+  detail?: string;
+}
+
+export interface SigningSigner {
+  name: string;
+  email?: string;
+  ownerId?: string;           // Set when an owner signs their own documents (their Form 413)
+}
+
+// A draft sent for signature
+export interface SigningDocument {
+  fileName: string;
+  fileType: FormType;
+  s3Key: string;              // The draft as sent - it must still be the current draft when signed
+  sha256: string;             // Of the draft as sent
+  ownerId?: string;
+  signedS3Key?: string;
+  signedSha256?: string;
+}
+
+// How the signer signed on the local provider
+export interface SignatureCapture {
+  method: 'typed' | 'drawn';
+  typedName?: string;
+  imageSha256?: string;       // Of the drawn PNG
+  signedAt: Date;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SigningRequestRecord extends Document {
+  applicationId: string;
+  provider: SigningProviderName;
+  providerRequestId?: string;   // The provider's envelope/request id (the request's own id on the local provider)
+  status: SigningRequestStatus;
+  signer: SigningSigner;
+  documents: SigningDocument[];
+  accessTokenHash?: string;     // Local provider - only the signing link token's hash is stored
+  expiresAt: Date;
+  signature?: SignatureCapture;
+  declineReason?: string;
+  audit: SigningAuditEvent[];
+  createdBy?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A status change a provider reported through its webhook
+export interface SigningWebhookEvent {
+  providerRequestId: string;
+  status: Exclude<SigningRequestStatus, 'pending' | 'signing'>;
+  occurredAt: Date;
+  ip?: string;
+  detail?: string;
+}
+
 // ==============================
 // VAPI WEBHOOK TYPES
 // ==============================
@@ -710,10 +1273,32 @@ export interface BankDocumentRequirements {
   pAndL: boolean; // Using pAndL instead of p&l for valid JS property name
 }
 
+export type BankBorrowerPreference = 'buyer' | 'owner' | 'both';
+
 export interface BankRequirements {
   minimumCreditScore: number;
   minimumYearsInBusiness: number;
   documentsRequired: BankDocumentRequirements;
+  loanAmountRange?: {
+    min?: number;
+    max?: number;
+  };
+  industries?: string[];      // Industries the bank focuses on; empty means generalist
+  statesServed?: string[];    // Two-letter state codes; empty means nationwide
+  borrowerPreference?: BankBorrowerPreference;
+  minimumDSCR?: number;
+  minimumEquityPercent?: number;  // Equity injection required from buyers
+  sbaPreferredLender?: boolean;   // PLP lenders can approve SBA loans without sending them to the SBA
+}
+
+// Lender portal API key; only a hash of the secret is stored
+export interface BankPortalCredential {
+  keyId: string;
+  secretHash: string;
+  label?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
 }
 
 export interface Bank extends Document {
@@ -721,6 +1306,7 @@ export interface Bank extends Document {
   logo?: string;
   contacts: BankContact;
   requirements: BankRequirements;
+  portalCredentials?: BankPortalCredential[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -739,6 +1325,19 @@ export interface UpdateBankRequest {
   requirements?: Partial<BankRequirements>;
 }
 
+export type BankDecision = 'accept' | 'reject' | 'offer';
+
+export interface BankDecisionRequest {
+  decision: BankDecision;
+  reason?: string;
+  offerDetails?: OfferDetails;  // Required for 'offer', optional for 'accept'
+}
+
+export interface BankDocumentRequestInput {
+  documents: string[];
+  message?: string;
+}
+
 export interface BankListResponse {
   banks: Bank[];
   total: number;
@@ -746,19 +1345,415 @@ export interface BankListResponse {
   pages: number;
 }
 
+// Applicant facts the matcher scores banks against; anything unknown is scored neutrally
+export interface BankMatchProfile {
+  creditScore: number;
+  yearsInBusiness: number;
+  userType?: 'buyer' | 'owner';
+  loanAmount?: number;
+  industry?: string;
+  state?: string;
+  dscr?: number;
+  equityPercent?: number;
+}
+
+export type BankMatchCriterionId =
+  | 'creditScore'
+  | 'yearsInBusiness'
+  | 'loanAmount'
+  | 'dscr'
+  | 'equity'
+  | 'industry'
+  | 'state'
+  | 'borrowerType'
+  | 'sbaPreferredLender';
+
+export interface BankMatchCriterion {
+  criterion: BankMatchCriterionId;
+  weight: number;
+  score: number;         // 0-1 fit on this criterion
+  passed: boolean;
+  hardRequirement: boolean;  // Failing a hard requirement excludes the bank
+  explanation: string;
+}
+
+export interface BankMatch {
+  bank: Bank;
+  fitScore: number;      // 0-100 weighted fit
+  eligible: boolean;
+  criteria: BankMatchCriterion[];
+  disqualifiers: string[];
+}
+
+export interface BankRecommendation {
+  applicantProfile: BankMatchProfile;
+  matches: BankMatch[];          // Eligible banks, best fit first
+  matchingBanks: Bank[];
+  excludedBanks: BankMatch[];
+  totalMatches: number;
+}
+
 export interface LoanChanceResult {
   score: number;
   chance: 'low' | 'medium' | 'high';
   reasons: string[];
+  rulesetVersion?: number; // Underwriting ruleset version that produced this result
 }
 
 export interface StoredLoanChances {
   score: number;
   chance: 'low' | 'medium' | 'high';
   reasons: string[];
+  rulesetVersion?: number;
   calculatedAt?: Date;
 }
 
+// ==============================
+// UNDERWRITING RULESET TYPES
+// ==============================
+
+export interface UnderwritingRules {
+  creditScore: {
+    minimum: number;   // Hard stop below this score
+    good: number;
+    excellent: number;
+  };
+  yearsInBusiness: {
+    minimum: number;   // Hard stop below this many years
+    established: number;
+  };
+  equity: {
+    minimumPercent: number;  // Buyer down payment hard stop
+    strongPercent: number;
+  };
+  dscr: {
+    minimum: number;
+    good: number;
+    excellent: number;
+  };
+  structuring: SBAStructuringRules;
+  ownerLimits: {
+    maxDebtToIncomeRatio: number;
+    maxLoanToAnnualIncomeMultiple: number;
+  };
+  deductions: {
+    creditGood: number;
+    creditFair: number;
+    yearsMinimum: number;
+    equityMinimum: number;
+    dscrGood: number;
+    dscrMinimum: number;
+    dscrInsufficient: number;
+    missingCashFlow: number;
+    industryExperienceBonus: number;
+    limitedIndustryExperience: number;
+    ownerMissingFinancials: number;
+    ownerNoProfit: number;
+    ownerHighDebt: number;
+    ownerHighLoanAmount: number;
+  };
+  chanceThresholds: {
+    high: number;
+    medium: number;
+    low: number;
+    veryLow: number;
+  };
+}
+
+export interface SBASpreadTier {
+  maxLoanAmount?: number;  // Omitted on the last tier (no upper bound)
+  spread: number;          // Decimal added to Prime, e.g. 0.03
+}
+
+export interface SBAStructuringRules {
+  primeRate: number;                  // Decimal, e.g. 0.075
+  spreadTiers: SBASpreadTier[];       // Ascending by maxLoanAmount
+  realEstateTermYears: number;
+  nonRealEstateTermYears: number;
+  realEstateMajorityPercent: number;  // Real estate share of uses that unlocks the full real estate term
+  maxFinancingPercent: number;        // Max share of project cost financed by the SBA loan
+  maxSbaLoanAmount: number;
+  sellerNoteRate: number;
+  sellerNoteTermYears: number;
+  standbyEquityMaxShare: number;      // Max % of the required injection a full-standby seller note may cover
+}
+
+export interface UnderwritingRuleset extends Document {
+  version: number;
+  name: string;
+  description?: string;
+  effectiveDate: Date;
+  isActive: boolean;
+  rules: UnderwritingRules;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Plain ruleset snapshot passed into the eligibility calculators
+export interface ResolvedUnderwritingRuleset {
+  version: number;
+  name: string;
+  effectiveDate: Date;
+  rules: UnderwritingRules;
+}
+
+export interface CreateUnderwritingRulesetRequest {
+  name: string;
+  description?: string;
+  effectiveDate?: Date | string;
+  rules: UnderwritingRules;
+}
+
+// ==============================
+// LOAN STRUCTURING TYPES
+// ==============================
+
+export interface AmortizationRow {
+  period: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface CapitalStackInput {
+  purchasePrice?: number;          // Business acquisition (non-real-estate) cost
+  realEstateAmount?: number;
+  workingCapital?: number;
+  buyerEquity?: number;
+  sellerNotePercent?: number;      // Share of purchase price carried by the seller
+  sellerNoteOnStandby?: boolean;
+  sbaLoanAmount?: number;          // Explicit SBA loan request (owners); otherwise derived from sources and uses
+  annualCashFlow: number;          // Business cash flow available for debt service
+  existingAnnualDebtService?: number;
+  guarantorAnnualIncome?: number;  // Personal income of the guarantor for global DSCR
+  guarantorAnnualDebtService?: number;
+  includeSchedules?: boolean;
+}
+
+export interface LoanTranche {
+  amount: number;
+  annualRate: number;
+  termYears: number;
+  monthlyPayment: number;
+  annualDebtService: number;
+  totalInterest: number;
+  schedule?: AmortizationRow[];
+}
+
+export interface SBALoanTranche extends LoanTranche {
+  primeRate: number;
+  spread: number;
+  realEstateSharePercent: number;
+}
+
+export interface SellerNoteTranche extends LoanTranche {
+  onStandby: boolean;
+}
+
+export interface EquityInjectionCheck {
+  requiredPercent: number;
+  requiredAmount: number;
+  buyerCash: number;
+  standbyCredit: number;    // Portion of a full-standby seller note counted toward the injection
+  creditedAmount: number;
+  creditedPercent: number;
+  compliant: boolean;
+  issues: string[];
+}
+
+export interface CapitalStack {
+  uses: {
+    purchasePrice: number;
+    realEstate: number;
+    workingCapital: number;
+    total: number;
+  };
+  sources: {
+    sbaLoan: number;
+    sellerNote: number;
+    buyerEquity: number;
+    total: number;
+    shortfall: number;  // Uses not covered by sources after caps
+  };
+  sbaLoan: SBALoanTranche;
+  sellerNote: SellerNoteTranche;
+  businessDSCR: number;
+  globalDSCR: number;
+  equityInjection: EquityInjectionCheck;
+  issues: string[];
+}
+
+// ==============================
+// OFFER ANALYSIS TYPES
+// ==============================
+
+export interface OfferDetails {
+  repaymentTermMonths: number;
+  annualInterestRate: number;   // Percent, e.g. 10.5
+  monthlyPayment: number;
+  downPaymentRequired: number;
+  loanAmount?: number;          // Older offers omit it - the principal is then inferred from the payment
+  fees?: number;                // Upfront fees (guarantee, packaging, closing) deducted from the amount financed
+}
+
+export type OfferPaymentCheck = 'match' | 'mismatch' | 'unverified';
+
+export interface OfferAnalysis {
+  offerId?: string;
+  bankId: string;
+  bankName?: string;
+  status: 'pending' | 'accepted' | 'declined';
+  loanAmount: number;
+  loanAmountInferred: boolean;
+  annualInterestRate: number;
+  repaymentTermMonths: number;
+  statedMonthlyPayment: number;
+  expectedMonthlyPayment: number;
+  paymentVariance: number;       // Stated minus expected payment
+  paymentCheck: OfferPaymentCheck;
+  totalOfPayments: number;
+  totalInterest: number;
+  fees: number;
+  apr: number;                   // Percent, fees included
+  effectiveCost: number;         // Interest plus fees
+  effectiveCostPercent: number;  // Effective cost as a share of the loan amount
+  downPaymentRequired: number;
+  issues: string[];
+  schedule?: AmortizationRow[];
+}
+
+export interface RankedOfferAnalysis extends OfferAnalysis {
+  rank: number;
+}
+
+export interface OfferComparison {
+  applicationId: string;
+  offers: RankedOfferAnalysis[];
+  bestOfferId: string | null;
+  rankedBy: 'apr';
+}
+
+// ==============================
+// ELIGIBILITY EVALUATION TYPES
+// ==============================
+
+export interface SBAEligibilityRequestBuyer {
+  purchasePrice: string;
+  availableCash: string;
+  businessCashFlow: string;
+  buyerCreditScore: string;
+  isUSCitizen: boolean;
+  businessYearsRunning: string | number;
+  industryExperience?: string;
+  sellerFinancingPercentage?: string | number;  // Share of purchase price carried by the seller
+  sellerFinancingOnStandby?: boolean;           // Standby notes make no payments while the SBA loan is outstanding
+  workingCapital?: string | number;             // Working capital financed alongside the acquisition
+}
+
+export interface SBAEligibilityRequestOwner {
+  monthlyRevenue: string;
+  monthlyExpenses: string;
+  existingDebtPayment: string;
+  requestedLoanAmount: string;
+  loanPurpose: string;
+  ownerCreditScore: string;
+  isUSCitizen: boolean;
+  businessYearsRunning: string | number;
+}
+
+export type EligibilityCheckId =
+  | 'citizenship'
+  | 'creditScore'
+  | 'businessAge'
+  | 'downPayment'
+  | 'cashFlow'
+  | 'industryExperience'
+  | 'existingDebt'
+  | 'loanAmount';
+
+export interface EligibilityCheck {
+  id: EligibilityCheckId;
+  passed: boolean;
+  hardStop: boolean;  // Failed a hard-stop rule - ineligible regardless of score
+  message: string;
+  points: number;     // Score adjustment applied by this check (negative = deduction)
+}
+
+export type ApprovalChanceTier = 'High' | 'Medium' | 'Low' | 'Very Low' | 'Ineligible';
+
+export interface EligibilityMetrics {
+  dscr: number;
+  loanAmount: number;
+  downPaymentPercent?: number;
+  sellerNoteAmount?: number;
+  capitalStack?: CapitalStack;
+  annualNetIncome?: number;
+  debtToIncomeRatio?: number;
+}
+
+export interface EligibilityEvaluation {
+  userType: 'buyer' | 'owner';
+  eligible: boolean;
+  rejected: boolean;  // True when a hard stop failed
+  score: number;
+  chance: 'low' | 'medium' | 'high';
+  approvalChance: ApprovalChanceTier;
+  checks: EligibilityCheck[];
+  subScores: Partial<Record<EligibilityCheckId, number>>;
+  reasons: string[];
+  recommendations: string[];
+  metrics: EligibilityMetrics;
+  rulesetVersion: number;
+}
+
+export type EligibilityProfile = SBAEligibilityRequestBuyer | SBAEligibilityRequestOwner;
+
+export interface EligibilityScenario {
+  name?: string;
+  changes: Record<string, string | number | boolean>;  // Fields overridden on top of the baseline profile
+}
+
+export interface EligibilitySnapshot {
+  score: number;
+  chance: 'low' | 'medium' | 'high';
+  approvalChance: ApprovalChanceTier;
+  eligible: boolean;
+  rejected: boolean;
+  dscr: number;
+}
+
+export interface ScenarioResult extends EligibilitySnapshot {
+  name: string;
+  changes: Record<string, string | number | boolean>;
+  scoreDelta: number;
+  tierChange: number;  // Positive when the scenario moves the applicant up one or more tiers
+  reasons: string[];
+}
+
+export type TierUpgradeUnit = 'dollars' | 'points' | 'percent';
+
+export interface TierUpgrade {
+  field: string;
+  from: number;
+  to: number;
+  change: number;         // In the field's own unit
+  unit: TierUpgradeUnit;
+  steps: number;          // Lever steps needed, used to rank levers that use different units
+  approvalChance: ApprovalChanceTier;
+  score: number;
+}
+
+export interface EligibilitySimulationResult {
+  userType: 'buyer' | 'owner';
+  baseline: EligibilitySnapshot;
+  scenarios: ScenarioResult[];
+  tierUpgrades: TierUpgrade[];
+  smallestTierUpgrade: TierUpgrade | null;
+  rulesetVersion: number;
+}
+
 // ==============================
 // DRAFT PDF TYPES
 // ==============================
@@ -845,7 +1840,8 @@ export type ConversationFlow = 'continue_application' | 'new_application' | 'che
 // FORM STATE TYPES
 // ==============================
 
-export type FormType = 'SBA_1919' | 'SBA_413';
+// A registered form (see formRegistry.ts): the built-in 'SBA_1919' and 'SBA_413', or one declared in forms/
+export type FormType = string;
 
 export interface FormStateEntry {
   filledFields: string[];
@@ -859,10 +1855,57 @@ export interface FormStateEntry {
 export interface FormState {
   applicationId: string;
   currentForm: FormType | null;
+  forms: Record<FormType, FormStateEntry>;   // Every registered form
   sba1919: FormStateEntry;
   sba413: FormStateEntry;
   dirty: boolean;
   lastSaved: Date | null;
+  version: number;
+  currentOwnerId: string | null;
+}
+
+// What a form state backend stores; the filled/empty lists are derived from the fields on every read
+export interface FormSessionRecord {
+  applicationId: string;
+  currentForm: FormType | null;
+  currentOwnerId: string | null;   // Whose Form 413 the SBA_413 fields are; null before owners exist
+  fields: Record<FormType, Record<string, string | boolean>>;
+  currentFieldIndex: Record<FormType, number>;
+  dirtyFields: string[];      // "SBA_1919.fieldName" paths changed since the last save to the application
+  version: number;            // Bumped on every change - the optimistic concurrency token
+  lastSaved: Date | null;
+  lastActivityAt: Date;
+}
+
+// One atomic change to a session. Field writes only touch the fields named, so concurrent edits to
+// different fields never overwrite each other.
+export interface FormSessionChange {
+  fields?: Array<{ formType: FormType; fieldName: string; value: string | boolean }>;
+  currentForm?: FormType;
+  currentFieldIndex?: Partial<Record<FormType, number>>;
+  saved?: { at: Date; fields: string[] };   // These dirty paths reached the application
+  owner?: { id: string; fields: Record<string, string | boolean> };  // Switch to this owner's Form 413
+}
+
+export type FieldValidationCode = 'invalid_format' | 'out_of_range' | 'sum_exceeded' | 'read_only';
+
+// Why a field value was refused - message is a plain sentence the chat or voice agent can read back
+export interface FieldValidationError {
+  formType: FormType;
+  field: string;
+  label: string;
+  code: FieldValidationCode;
+  message: string;
+  value: string;
+  expected?: string;   // An example of what would be accepted
+}
+
+// Lines that don't fit together (a mortgage without real estate...) - raised with the user, never blocking
+export interface FormConsistencyIssue {
+  formType: FormType;
+  code: string;
+  fields: string[];
+  message: string;
 }
 
 export interface UpdateFieldResult {
@@ -870,6 +1913,12 @@ export interface UpdateFieldResult {
   nextField: string | null;
   isSubmittable: boolean;
   message?: string;
+  conflict?: boolean;
+  version?: number;
+  value?: string | boolean;           // The value as stored, after normalization
+  errors?: FieldValidationError[];
+  computed?: Record<string, string>;  // Derived fields recalculated by this write
+  warnings?: FormConsistencyIssue[];
 }
 
 export interface SkipFieldResult {
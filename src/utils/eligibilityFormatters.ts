@@ -0,0 +1,84 @@
+import { EligibilityEvaluation, LoanChanceResult } from '../types/index.js';
+
+/**
+ * Reduce an evaluation to the LoanChanceResult stored on applications.
+ * Rejections keep their recommendations in reasons so the stored record explains what to fix.
+ */
+export const toLoanChanceResult = (evaluation: EligibilityEvaluation): LoanChanceResult => {
+  return {
+    score: evaluation.score,
+    chance: evaluation.chance,
+    reasons: evaluation.rejected
+      ? [...evaluation.reasons, ...evaluation.recommendations]
+      : evaluation.reasons,
+    rulesetVersion: evaluation.rulesetVersion
+  };
+};
+
+/**
+ * Format an evaluation as the single-line sentence read out by the Vapi assistant
+ * Example: "Approval Chance: High, Score: 95 out of 100, Eligible for SBA loan, ..."
+ */
+export const formatEligibilityForVapi = (evaluation: EligibilityEvaluation): string => {
+  if (evaluation.rejected) {
+    const parts = ['Ineligible for SBA loan', ...evaluation.reasons];
+    if (evaluation.recommendations.length > 0) {
+      parts.push(`Recommendation: ${evaluation.recommendations.join(', ')}`);
+    }
+    return parts.join(', ');
+  }
+
+  const parts: string[] = [
+    `Approval Chance: ${evaluation.approvalChance}`,
+    `Score: ${evaluation.score} out of 100`,
+    evaluation.eligible ? 'Eligible for SBA loan' : 'Not eligible for SBA loan',
+    ...evaluation.checks.map((check) => check.message)
+  ];
+
+  if (evaluation.reasons.length > 0) {
+    parts.push(`Reasons: ${evaluation.reasons.join(', ')}`);
+  }
+
+  if (evaluation.recommendations.length > 0) {
+    parts.push(`Recommendations: ${evaluation.recommendations.join(', ')}`);
+  }
+
+  return parts.join(', ');
+};
+
+/**
+ * Format an evaluation as a chat tool result (message + LLM instruction + data)
+ */
+export const formatEligibilityForChat = (evaluation: EligibilityEvaluation) => {
+  return {
+    message: evaluation.rejected
+      ? 'Ineligible for SBA loan'
+      : `Eligibility calculated: ${evaluation.chance} chance`,
+    instruction: evaluation.rejected
+      ? 'STOP the application flow. Explain why they are not eligible using the reasons and share the recommendations.'
+      : "Present their approval chances and list the reasons. If eligible, ask if they're ready to fill out the form",
+    data: {
+      score: evaluation.score,
+      chance: evaluation.chance,
+      approvalChance: evaluation.approvalChance,
+      rejected: evaluation.rejected,
+      reasons: evaluation.reasons,
+      recommendations: evaluation.recommendations,
+      checks: evaluation.checks,
+      metrics: evaluation.metrics,
+      rulesetVersion: evaluation.rulesetVersion
+    }
+  };
+};
+
+/**
+ * Format an evaluation as the Vapi tool-call response returned by POST /api/applications/calculate-chances
+ */
+export const formatCalculateChancesResponse = (toolCallId: string, evaluation: EligibilityEvaluation) => {
+  return {
+    results: [{
+      toolCallId,
+      result: formatEligibilityForVapi(evaluation)
+    }]
+  };
+};
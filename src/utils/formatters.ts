@@ -18,7 +18,8 @@ const formatDate = (date: Date | string | undefined): string => {
  * Format currency to readable format
  * Example: $350,000
  */
-const formatCurrency = (amount: number): string => {
+const formatCurrency = (amount: number | undefined): string => {
+  if (amount === undefined || amount === null) return 'N/A';
   return `$${amount.toLocaleString('en-US')}`;
 };
 
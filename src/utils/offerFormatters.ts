@@ -0,0 +1,53 @@
+import { OfferComparison, AmortizationRow } from '../types/index.js';
+
+const OFFER_CSV_COLUMNS: Array<[string, (offer: OfferComparison['offers'][number]) => string | number]> = [
+  ['Rank', (o) => o.rank],
+  ['Offer ID', (o) => o.offerId || ''],
+  ['Bank', (o) => o.bankName || o.bankId],
+  ['Status', (o) => o.status],
+  ['Loan Amount', (o) => o.loanAmount],
+  ['Loan Amount Inferred', (o) => (o.loanAmountInferred ? 'yes' : 'no')],
+  ['Interest Rate (%)', (o) => o.annualInterestRate],
+  ['Term (Months)', (o) => o.repaymentTermMonths],
+  ['Stated Payment', (o) => o.statedMonthlyPayment],
+  ['Expected Payment', (o) => o.expectedMonthlyPayment],
+  ['Payment Check', (o) => o.paymentCheck],
+  ['Total of Payments', (o) => o.totalOfPayments],
+  ['Total Interest', (o) => o.totalInterest],
+  ['Fees', (o) => o.fees],
+  ['APR (%)', (o) => o.apr],
+  ['Effective Cost', (o) => o.effectiveCost],
+  ['Effective Cost (%)', (o) => o.effectiveCostPercent],
+  ['Down Payment', (o) => o.downPaymentRequired],
+  ['Issues', (o) => o.issues.join('; ')]
+];
+
+// Quote fields containing delimiters, quotes or line breaks (RFC 4180)
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: Array<string | number>): string => values.map(escapeCsvValue).join(',');
+
+/**
+ * Format an offer comparison as CSV, one row per offer in rank order
+ */
+export const formatOfferComparisonCsv = (comparison: OfferComparison): string => {
+  const rows = [
+    toCsvRow(OFFER_CSV_COLUMNS.map(([header]) => header)),
+    ...comparison.offers.map((offer) => toCsvRow(OFFER_CSV_COLUMNS.map(([, value]) => value(offer))))
+  ];
+  return rows.join('\r\n') + '\r\n';
+};
+
+/**
+ * Format an amortization schedule as CSV
+ */
+export const formatAmortizationScheduleCsv = (schedule: AmortizationRow[]): string => {
+  const rows = [
+    toCsvRow(['Period', 'Payment', 'Principal', 'Interest', 'Balance']),
+    ...schedule.map((row) => toCsvRow([row.period, row.payment, row.principal, row.interest, row.balance]))
+  ];
+  return rows.join('\r\n') + '\r\n';
+};